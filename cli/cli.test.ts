@@ -36,6 +36,42 @@ describe('CLI Integration Tests', () => {
     expect(result).toContain('time_h');
   });
 
+  it('should run the Toy model with --model', () => {
+    const result = execSync('npm run cli -- run --model Toy --times 0,1,1 --param general.t_end=1', {
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+      timeout: 30000,
+    });
+
+    // Toy snapshot columns
+    expect(result).toContain('run_index');
+    expect(result).toContain('running');
+    expect(result).toContain('pol_x');
+
+    const stats = execSync('npm run cli -- stats --model Toy', {
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    expect(stats).toContain('running_fraction');
+    expect(stats).not.toContain('ab_distance_all');
+  }, 60000);
+
+  it('should apply typed --param overrides and reject unknown ones', () => {
+    const result = execSync(
+      'npm run cli -- run --times 0,0.01,0.01 --param cell_types.emt.location=top --param general.full_circle=true 2>&1',
+      { encoding: 'utf-8', timeout: 30000 }
+    );
+    expect(result).toContain('Override: cell_types.emt.location = "top"');
+    expect(result).toContain('Override: general.full_circle = true');
+
+    expect(() =>
+      execSync('npm run cli -- run --times 0,0.01,0.01 --param general.full_circel=true', {
+        encoding: 'utf-8',
+        stdio: ['pipe', 'pipe', 'pipe'],
+      })
+    ).toThrow('did you mean "general.full_circle"?');
+  }, 60000);
+
   it('should run batch simulation with TOML config', () => {
     // Create a temporary TOML file
     const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'eht-test-'));
@@ -79,6 +115,46 @@ time_samples = "0,0.01"
     }
   });
 
+  it('should compute user-defined statistics selected with --stats', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'eht-test-'));
+    const tomlPath = path.join(tempDir, 'test_stats.toml');
+    const outputPath = path.join(tempDir, 'out.csv');
+
+    fs.writeFileSync(tomlPath, `[general]
+t_end = 0.01
+
+[[statistics]]
+id = "emt_cells"
+filter = "type.emt"
+aggregate = "count"
+
+[parameter_ranges]
+
+[batch]
+seeds_per_config = 1
+time_samples = "0,0.01"
+`);
+
+    try {
+      execSync(`npm run cli -- batch -c ${tomlPath} -o ${outputPath} --stats emt_cells,cell_count_all`, {
+        encoding: 'utf-8',
+        stdio: ['pipe', 'pipe', 'pipe'],
+        timeout: 60000,
+      });
+
+      const lines = fs.readFileSync(path.join(tempDir, 'out_statistics.csv'), 'utf-8').trim().split('\n');
+      expect(lines[0].split('\t').slice(-2)).toEqual(['cell_count', 'emt_cells']);
+      const rows = lines.slice(1).map((line) => line.split('\t'));
+      for (const row of rows) {
+        const [cellCount, emtCells] = row.slice(-2).map(Number);
+        if (row[3] === 'emt') expect(emtCells).toBe(cellCount);
+        if (row[3] === 'control') expect(emtCells).toBe(0);
+      }
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  }, 60000);
+
   it('should run batch simulation with parameter sweep', () => {
     // Create a temporary TOML file with a parameter sweep
     const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'eht-test-'));
@@ -122,4 +198,153 @@ time_samples = "0,0.01"
       fs.rmdirSync(tempDir);
     }
   });
+
+  it('should resume a simulation from a checkpoint', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'eht-test-'));
+    const tomlPath = path.join(tempDir, 'test_resume.toml');
+    const checkpointPath = path.join(tempDir, 'checkpoint.json');
+
+    const tomlContent = `[general]
+N_init = 5
+t_end = 0.01
+dt = 0.001
+random_seed = 42
+`;
+
+    fs.writeFileSync(tomlPath, tomlContent);
+
+    try {
+      // Run to t_end and write a final checkpoint
+      execSync(
+        `npm run cli -- run -c ${tomlPath} --times 0,0.01,0.01 --checkpoint-every 0.005 --checkpoint ${checkpointPath}`,
+        {
+          encoding: 'utf-8',
+          stdio: ['pipe', 'pipe', 'pipe'],
+          timeout: 30000,
+        }
+      );
+      expect(fs.existsSync(checkpointPath)).toBe(true);
+
+      // Continue the same run to a later end time
+      const result = execSync(
+        `npm run cli -- resume -i ${checkpointPath} --t_end 0.02 --times 0,0.02,0.01`,
+        {
+          encoding: 'utf-8',
+          stdio: ['pipe', 'pipe', 'pipe'],
+          timeout: 30000,
+        }
+      );
+
+      expect(result).toContain('run_index');
+      expect(result).toContain('\t0.02\t');
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  }, 60000);
+
+  it('should give the same batch output with parallel jobs', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'eht-test-'));
+    const tomlPath = path.join(tempDir, 'test_jobs.toml');
+
+    const tomlContent = `seeds_per_config = 2
+
+[general]
+N_init = 5
+t_end = 0.01
+dt = 0.001
+random_seed = 42
+
+[time_samples]
+start = 0
+end = 0.01
+step = 0.01
+
+[[parameter_ranges]]
+path = "general.N_init"
+values = [5, 6]
+`;
+
+    fs.writeFileSync(tomlPath, tomlContent);
+
+    try {
+      const run = (jobs: number) =>
+        execSync(`npm run cli -- batch -c ${tomlPath} --jobs ${jobs}`, {
+          encoding: 'utf-8',
+          stdio: ['pipe', 'pipe', 'pipe'],
+          timeout: 60000,
+        });
+
+      // Compare the CSV only (npm echoes the command line first)
+      const csv = (output: string) => output.slice(output.indexOf('run_index'));
+      const sequential = csv(run(1));
+      const parallel = csv(run(3));
+
+      expect(sequential).toContain('\t3\t');
+      expect(parallel).toBe(sequential);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  }, 120000);
+
+  it('should write per-run trajectory statistics that survive --jobs and --resume', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'eht-test-'));
+    const tomlPath = path.join(tempDir, 'test_summary.toml');
+
+    fs.writeFileSync(tomlPath, `seeds_per_config = 2
+
+[general]
+t_end = 0.5
+
+[time_samples]
+start = 0
+end = 0.5
+step = 0.5
+`);
+
+    try {
+      const run = (output: string, flags: string) => {
+        execSync(`npm run cli -- batch -c ${tomlPath} -o ${path.join(tempDir, output)} ${flags}`, {
+          encoding: 'utf-8',
+          stdio: ['pipe', 'pipe', 'pipe'],
+          timeout: 60000,
+        });
+        return fs.readFileSync(path.join(tempDir, output.replace('.csv', '_summary.csv')), 'utf-8');
+      };
+
+      const sequential = run('seq.csv', '');
+      const lines = sequential.trim().split('\n');
+      expect(lines[0].split('\t')).toEqual([
+        'run_index', 'seed', 'cell_group', 'adhesion_loss_interval', 'apical_residence_time', 'half_below_basal_time',
+        'neighbor_exchange_rate',
+      ]);
+      expect(lines).toHaveLength(1 + 2 * 3); // 2 runs x 3 cell groups
+
+      expect(run('par.csv', '--jobs 2')).toBe(sequential);
+      // All runs are finished, so the summaries come from the manifest
+      expect(run('seq.csv', '--resume')).toBe(sequential);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  }, 120000);
+
+  it('should render frames to PNG and SVG', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'eht-test-'));
+    const prefix = path.join(tempDir, 'frame');
+
+    try {
+      for (const format of ['png', 'svg']) {
+        execSync(`npm run cli -- render --times 0,0,1 -o ${prefix} --format ${format}`, {
+          encoding: 'utf-8',
+          stdio: ['pipe', 'pipe', 'pipe'],
+          timeout: 60000,
+        });
+      }
+
+      const png = fs.readFileSync(`${prefix}_t0h.png`);
+      expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+      expect(fs.readFileSync(`${prefix}_t0h.svg`, 'utf-8')).toContain('<circle');
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  }, 60000);
 });
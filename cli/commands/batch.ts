@@ -5,24 +5,139 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { SimulationEngine } from '../../src/core/simulation/engine';
+import type { SimulationModel } from '../../src/core/interfaces/model';
+import type { BaseSimulationParams } from '../../src/core/registry';
 import { parseSimulationConfigToml } from '../../src/core/params/toml';
 import { createDefaultSimulationConfig } from '../../src/core/params/config';
 import { setNestedValue } from '../../src/core/params/merge';
-import { generateParameterConfigs, getTimeSamples } from '../../src/core/batch/types';
-import type { BatchSnapshot } from '../../src/core/batch/types';
+import { generateBatchConfigs, getTimeSamples } from '../../src/core/batch/types';
+import type {
+  BatchSnapshot,
+  BatchConfig,
+  BatchRunResult,
+  BatchRunSummary,
+  ParameterConfig,
+} from '../../src/core/batch/types';
+import { formatParameterValue } from '../../src/core/batch/types';
+import {
+  planBatchRuns,
+  batchFingerprint,
+  createBatchManifest,
+  markRunCompleted,
+  getPendingRuns,
+  filterCompletedSnapshots,
+  completedRunSummaries,
+  type BatchManifest,
+  type BatchRunPlan,
+} from '../../src/core/batch/manifest';
+import { batchSnapshotsToCSVRows, csvToBatchSnapshots } from '../../src/core/batch/serialization';
+import { runSummaryTable } from '../../src/core/batch/statistics';
 import { parseArgs } from '../utils/args';
-import { snapshotsToCSV, writeOutput, formatProgress } from '../utils/output';
+import {
+  snapshotsToCSV,
+  writeOutput,
+  appendOutput,
+  readCSVHeader,
+  formatProgress,
+} from '../utils/output';
+import { writeManifestFile, readManifestFile, defaultManifestPath } from '../utils/manifest';
+import { NodeWorkerPool } from '../utils/workerPool';
+
+import { resolveModel, getConfigModel } from '../utils/models';
+
+/** Cell group of statistics that are not computed per group */
+const UNGROUPED = 'all';
+
+/** A statistic as listed by the model (per-snapshot or trajectory) */
+interface StatisticId {
+  id: string;
+  group?: string;
+}
+
+/** Statistic name without the group ("bx" for "bx_emt") */
+function baseStatisticName(stat: StatisticId): string {
+  return stat.group !== undefined ? stat.id.slice(0, -(stat.group.length + 1)) : stat.id;
+}
+
+/**
+ * Names of the statistics selected with --stats, by name ("bx") or id
+ * ("bx_emt"); undefined if all are selected.
+ * @throws Error if a selected statistic does not exist
+ */
+function selectedStatisticNames(statistics: StatisticId[], selected?: string[]): Set<string> | undefined {
+  if (!selected || selected.includes('all')) return undefined;
+
+  const baseNameOf = new Map<string, string>();
+  for (const stat of statistics) {
+    const baseName = baseStatisticName(stat);
+    baseNameOf.set(baseName, baseName);
+    baseNameOf.set(stat.id, baseName);
+  }
+
+  return new Set(selected.map((name) => {
+    const baseName = baseNameOf.get(name);
+    if (baseName === undefined) {
+      throw new Error(`Unknown statistic "${name}" (run 'stats' to list the available statistics)`);
+    }
+    return baseName;
+  }));
+}
 
-import { EHTModel } from '../../src/models/eht';
-import { computeEHTStatistics } from '../../src/models/eht/statistics';
-import type { EHTParams } from '../../src/models/eht/params/types';
+/**
+ * Per-snapshot and trajectory statistics of the model, restricted to the
+ * --stats selection.
+ * @throws Error if a selected statistic does not exist
+ */
+function selectStatistics<Params extends BaseSimulationParams, State>(
+  model: SimulationModel<Params, State>,
+  baseParams: Params,
+  selected?: string[]
+): { statistics: StatisticId[]; trajectoryStatistics: StatisticId[] } {
+  const statistics: StatisticId[] = model.generateStatistics?.(baseParams) ?? model.statistics ?? [];
+  const trajectoryStatistics: StatisticId[] = model.generateTrajectoryStatistics?.(baseParams) ?? [];
+
+  const names = selectedStatisticNames([...statistics, ...trajectoryStatistics], selected);
+  const isSelected = (stat: StatisticId) => names === undefined || names.has(baseStatisticName(stat));
+  return {
+    statistics: statistics.filter(isSelected),
+    trajectoryStatistics: trajectoryStatistics.filter(isSelected),
+  };
+}
+
+/**
+ * Statistic columns (names without the group) and cell groups of the batch
+ * statistics CSV.
+ */
+function statisticColumns(statistics: StatisticId[]): { groups: string[]; baseStats: string[] } {
+  const cellGroups = new Set<string>();
+  const baseStatNames = new Set<string>();
+  for (const stat of statistics) {
+    baseStatNames.add(baseStatisticName(stat));
+    cellGroups.add(stat.group ?? UNGROUPED);
+  }
+  return { groups: Array.from(cellGroups).sort(), baseStats: Array.from(baseStatNames).sort() };
+}
+
+/**
+ * Output file next to the batch output (`out.csv` -> `out_<suffix>.csv`).
+ */
+function siblingOutputPath(outputPath: string, suffix: string): string {
+  const dir = path.dirname(outputPath);
+  const ext = path.extname(outputPath);
+  const base = path.basename(outputPath, ext);
+  return path.join(dir, `${base}_${suffix}${ext}`);
+}
 
 /**
  * Compute statistics from batch snapshots.
+ * Statistics computed per cell group are written as one column per name and
+ * one row per group; others appear in the 'all' row.
  */
-function computeStatisticsFromSnapshots(
+function computeStatisticsFromSnapshots<Params extends BaseSimulationParams, State>(
+  model: SimulationModel<Params, State>,
   snapshots: BatchSnapshot[],
-  baseParams: EHTParams
+  baseParams: Params,
+  statistics: StatisticId[]
 ): { columns: string[]; rows: (string | number)[][] } {
   // Get parameter paths
   const paramPaths = new Set<string>();
@@ -34,23 +149,7 @@ function computeStatisticsFromSnapshots(
   const sortedPaths = Array.from(paramPaths).sort();
 
   // Extract cell groups and base stat names from statistics
-  const cellGroups = new Set<string>();
-  const baseStatNames = new Set<string>();
-
-  // Get all statistics from the model
-  const allStatIds = (EHTModel.statistics || []).map(s => s.id);
-  for (const statId of allStatIds) {
-    const lastUnderscoreIdx = statId.lastIndexOf('_');
-    if (lastUnderscoreIdx > 0) {
-      const baseName = statId.substring(0, lastUnderscoreIdx);
-      const group = statId.substring(lastUnderscoreIdx + 1);
-      baseStatNames.add(baseName);
-      cellGroups.add(group);
-    }
-  }
-
-  const sortedGroups = Array.from(cellGroups).sort();
-  const sortedBaseStats = Array.from(baseStatNames).sort();
+  const { groups: sortedGroups, baseStats: sortedBaseStats } = statisticColumns(statistics);
 
   // Build columns
   const columns = [
@@ -71,22 +170,22 @@ function computeStatisticsFromSnapshots(
       setNestedValue(snapshotParams, path, value);
     }
 
-    const state = EHTModel.loadSnapshot(snapshot.data, snapshotParams);
+    const state = model.loadSnapshot(snapshot.data, snapshotParams);
 
-    // Use computeEHTStatistics directly with params to get per-group statistics
-    const allStats = computeEHTStatistics(state, snapshotParams);
+    // Compute with params to get per-group statistics
+    const allStats = model.computeStats(state, snapshotParams);
 
     // Create one row per cell group
     for (const group of sortedGroups) {
       const row: (string | number)[] = [
-        ...sortedPaths.map((p) => snapshot.sampled_params[p] ?? ''),
+        ...sortedPaths.map((p) => formatParameterValue(snapshot.sampled_params[p])),
         snapshot.run_index,
         snapshot.seed,
         snapshot.time_h,
         group,
         ...sortedBaseStats.map((baseName) => {
           const fullStatId = `${baseName}_${group}`;
-          return allStats[fullStatId] ?? 0;
+          return allStats[fullStatId] ?? (group === UNGROUPED ? allStats[baseName] : undefined) ?? 0;
         }),
       ];
       rows.push(row);
@@ -109,17 +208,18 @@ function statisticsToCSV(columns: string[], rows: (string | number)[][]): string
 }
 
 /**
- * Run a single simulation and collect snapshots at specified times.
+ * Run a single simulation and collect snapshots at specified times, and the
+ * trajectory statistics of the run.
  */
-function runSingleSimulation(
-  baseParams: EHTParams,
-  overrides: Record<string, number>,
+function runSingleSimulation<Params extends BaseSimulationParams, State>(
+  model: SimulationModel<Params, State>,
+  baseParams: Params,
+  overrides: ParameterConfig,
   seed: number,
   timeSamples: number[],
   runIndex: number,
-  totalRuns: number,
-  endTime: number
-): BatchSnapshot[] {
+  totalRuns: number
+): BatchRunResult {
   // Apply parameter overrides
   const params = structuredClone(baseParams);
   for (const [path, value] of Object.entries(overrides)) {
@@ -128,59 +228,74 @@ function runSingleSimulation(
   params.general.random_seed = seed;
 
   // Create engine
-  const engine = new SimulationEngine({ model: EHTModel, params });
+  const engine = new SimulationEngine({ model, params });
   engine.init();
+  engine.trackTrajectoryStatistics();
 
+  const endTime = engine.getEndTime();
   const snapshots: BatchSnapshot[] = [];
-  let nextSampleIndex = 0;
   let lastProgressTime = -1;
 
-  // Check if we should sample at t=0
-  if (timeSamples.length > 0 && timeSamples[0] <= 0) {
-    const rows = EHTModel.getSnapshot(engine.getState() as any);
-    const snapshot: BatchSnapshot = {
-      run_index: runIndex,
-      seed,
-      time_h: 0,
-      sampled_params: overrides,
-      data: rows
-    };
-    snapshots.push(snapshot);
-    nextSampleIndex = 1;
-  }
-
-  // Run simulation
-  while (!engine.isComplete() && nextSampleIndex < timeSamples.length) {
-    engine.step();
-    const state = engine.getState() as any;
-    const t = state.t ?? 0;
-
-    // Progress reporting every 1.0h
-    const currentHour = Math.floor(t);
-    if (currentHour > lastProgressTime) {
-      lastProgressTime = currentHour;
-      console.error(formatProgress(t, endTime, runIndex, totalRuns));
-    }
-
-    // Check if we've reached a sample time
-    while (
-      nextSampleIndex < timeSamples.length &&
-      t >= timeSamples[nextSampleIndex]
-    ) {
-      const rows = EHTModel.getSnapshot(state);
-      const snapshot: BatchSnapshot = {
+  engine.runWithSamples(
+    timeSamples,
+    (time, state) => {
+      snapshots.push({
         run_index: runIndex,
         seed,
-        time_h: timeSamples[nextSampleIndex],
+        time_h: time,
         sampled_params: overrides,
-        data: rows
-      };
-      snapshots.push(snapshot);
-      nextSampleIndex++;
+        data: model.getSnapshot(state),
+      });
+    },
+    {
+      onStep: (t) => {
+        // Progress reporting every 1.0h
+        const currentHour = Math.floor(t);
+        if (currentHour > lastProgressTime) {
+          lastProgressTime = currentHour;
+          console.error(formatProgress(t, endTime, runIndex, totalRuns));
+        }
+      },
     }
+  );
+
+  return { snapshots, summary: engine.getTrajectoryStatistics() };
+}
+
+/**
+ * Load the finished part of an interrupted batch.
+ * Rows of runs missing from the manifest (a run killed while its rows were
+ * being written) are dropped and the output file is rewritten without them.
+ */
+function loadPartialBatch(
+  outputPath: string,
+  manifestPath: string,
+  fingerprint: string,
+  totalRuns: number
+): { manifest: BatchManifest; snapshots: BatchSnapshot[] } {
+  if (!fs.existsSync(manifestPath)) {
+    console.error(`No batch manifest at ${manifestPath}; starting from scratch`);
+    return { manifest: createBatchManifest(fingerprint, totalRuns), snapshots: [] };
+  }
+
+  const manifest = readManifestFile(manifestPath);
+  if (manifest.fingerprint !== fingerprint) {
+    throw new Error(
+      `Cannot resume: ${manifestPath} was written for different parameters or batch settings`
+    );
+  }
+
+  const written = fs.existsSync(outputPath)
+    ? csvToBatchSnapshots(fs.readFileSync(outputPath, 'utf-8'))
+    : [];
+  const snapshots = filterCompletedSnapshots(written, manifest);
+
+  if (snapshots.length !== written.length) {
+    console.error(`Discarding ${written.length - snapshots.length} snapshots of unfinished runs`);
+    fs.writeFileSync(outputPath, snapshotsToCSV(snapshots), 'utf-8');
   }
 
-  return snapshots;
+  return { manifest, snapshots };
 }
 
 /**
@@ -190,82 +305,181 @@ export async function batchCommand(args: string[]): Promise<void> {
   const parsed = parseArgs(args);
 
   // Load configuration
+  const tomlContent = parsed.config ? fs.readFileSync(parsed.config, 'utf-8') : undefined;
+  const model = resolveModel(parsed.model, tomlContent ? getConfigModel(tomlContent) : undefined);
+  console.error(`Model: ${model.id}`);
+
   let config;
-  if (parsed.config) {
-    const tomlContent = fs.readFileSync(parsed.config, 'utf-8');
-    config = parseSimulationConfigToml(tomlContent);
+  if (tomlContent !== undefined) {
+    config = parseSimulationConfigToml(tomlContent, model.defaultParams);
     console.error(`Loaded config from: ${parsed.config}`);
   } else {
-    config = createDefaultSimulationConfig();
+    config = createDefaultSimulationConfig(model.defaultParams);
     console.error('Using default configuration');
   }
 
   const { params, parameterRanges, timeSamples, seedsPerConfig } = config;
 
+  if (parsed.resume && !parsed.output) {
+    throw new Error('--resume requires an output file (-o, --output)');
+  }
+  if (parsed.jobs !== undefined && !(Number.isInteger(parsed.jobs) && parsed.jobs >= 1)) {
+    throw new Error('--jobs must be a positive integer');
+  }
+  // Check --stats before running
+  const selection = selectStatistics(model, params, parsed.stats);
+
   // Generate parameter configurations
-  const paramConfigs = generateParameterConfigs(parameterRanges, 'grid');
+  const batchConfig: BatchConfig = {
+    parameter_ranges: parameterRanges,
+    time_samples: timeSamples,
+    seeds_per_config: seedsPerConfig,
+    sampling_mode: config.samplingMode ?? 'grid',
+    random_sample_count: config.sampleCount,
+    batch_seed: config.batchSeed,
+    derived_parameters: config.derivedParameters,
+  };
+  const paramConfigs = generateBatchConfigs(params, batchConfig);
   const timeSampleArray = getTimeSamples(timeSamples);
-  const totalRuns = paramConfigs.length * seedsPerConfig;
+  const runs = planBatchRuns(paramConfigs, seedsPerConfig, params.general.random_seed);
+  const totalRuns = runs.length;
 
   console.error(`Parameter ranges: ${parameterRanges.length}`);
+  if (batchConfig.sampling_mode !== 'grid') {
+    console.error(`Sampling: ${batchConfig.sampling_mode} (batch_seed=${batchConfig.batch_seed ?? 0})`);
+  }
+  if (batchConfig.derived_parameters?.length) {
+    console.error(`Derived parameters: ${batchConfig.derived_parameters.map((d) => d.path).join(', ')}`);
+  }
   console.error(`Parameter configurations: ${paramConfigs.length}`);
   console.error(`Seeds per config: ${seedsPerConfig}`);
   console.error(`Total runs: ${totalRuns}`);
   console.error(`Time samples: ${timeSampleArray.join(', ')}h`);
 
-  // Collect all snapshots
+  // With an output file, results are written run by run and tracked in a
+  // manifest so that an interrupted batch can be continued with --resume
+  const outputPath = parsed.output;
+  const manifestPath = outputPath ? defaultManifestPath(outputPath) : undefined;
+  const fingerprint = batchFingerprint(params, batchConfig);
+
+  let manifest = createBatchManifest(fingerprint, totalRuns);
   const allSnapshots: BatchSnapshot[] = [];
-  let runIndex = 0;
+  const summaries: BatchRunSummary[] = [];
+
+  if (parsed.resume && outputPath && manifestPath) {
+    const partial = loadPartialBatch(outputPath, manifestPath, fingerprint, totalRuns);
+    manifest = partial.manifest;
+    allSnapshots.push(...partial.snapshots);
+    summaries.push(...completedRunSummaries(runs, manifest));
+  } else if (outputPath) {
+    fs.writeFileSync(outputPath, '', 'utf-8');
+  }
 
-  for (const paramConfig of paramConfigs) {
-    for (let seedOffset = 0; seedOffset < seedsPerConfig; seedOffset++) {
-      // Seed increments globally across all runs (not reset per config)
-      const seed = params.general.random_seed + runIndex;
+  const pending = getPendingRuns(runs, manifest);
+  if (pending.length < totalRuns) {
+    console.error(`Resuming: ${totalRuns - pending.length} runs already complete, ${pending.length} remaining`);
+  }
 
-      console.error(`\nStarting run ${runIndex + 1}/${totalRuns} (seed=${seed})`);
-      if (Object.keys(paramConfig).length > 0) {
-        console.error(`  Params: ${JSON.stringify(paramConfig)}`);
+  const recordRun = (run: BatchRunPlan, { snapshots, summary }: BatchRunResult) => {
+    allSnapshots.push(...snapshots);
+    summaries.push({ run_index: run.run_index, seed: run.seed, sampled_params: run.params, values: summary });
+
+    if (outputPath && manifestPath) {
+      // Rows first, then the manifest: a run only counts once its rows are on disk
+      const header = readCSVHeader(outputPath);
+      if (header.length === 0) {
+        fs.writeFileSync(outputPath, snapshotsToCSV(snapshots), 'utf-8');
+      } else {
+        appendOutput(batchSnapshotsToCSVRows(snapshots, header), outputPath);
+      }
+      markRunCompleted(manifest, run, summary);
+      writeManifestFile(manifest, manifestPath);
+    }
+  };
+
+  const jobs = Math.min(parsed.jobs ?? 1, pending.length);
+  if (jobs > 1) {
+    console.error(`\nRunning ${pending.length} runs on ${jobs} worker threads`);
+    const pool = new NodeWorkerPool(jobs);
+    pool.init();
+    try {
+      const results = pending.map((run) =>
+        pool.submit({
+          type: 'run',
+          modelName: model.id,
+          baseParams: params,
+          overrides: run.params,
+          seed: run.seed,
+          timeSamples: timeSampleArray,
+          runIndex: run.run_index,
+        })
+      );
+      // Failures surface when their run is awaited below
+      results.forEach((r) => r.catch(() => undefined));
+
+      // Record runs in plan order, so output and manifest do not depend on
+      // which worker finishes first
+      for (let i = 0; i < pending.length; i++) {
+        const result = await results[i];
+        console.error(`Finished run ${pending[i].run_index + 1}/${totalRuns} (seed=${pending[i].seed})`);
+        recordRun(pending[i], result);
+      }
+    } finally {
+      await pool.terminate();
+    }
+  } else {
+    for (const run of pending) {
+      console.error(`\nStarting run ${run.run_index + 1}/${totalRuns} (seed=${run.seed})`);
+      if (Object.keys(run.params).length > 0) {
+        console.error(`  Params: ${JSON.stringify(run.params)}`);
       }
 
-      const snapshots = runSingleSimulation(
+      const result = runSingleSimulation(
+        model,
         params,
-        paramConfig,
-        seed,
+        run.params,
+        run.seed,
         timeSampleArray,
-        runIndex,
-        totalRuns,
-        params.general.t_end
+        run.run_index,
+        totalRuns
       );
-
-      allSnapshots.push(...snapshots);
-      runIndex++;
+      recordRun(run, result);
     }
   }
 
+  allSnapshots.sort((a, b) => {
+    if (a.run_index !== b.run_index) return a.run_index - b.run_index;
+    return a.time_h - b.time_h;
+  });
+
   console.error(`\nBatch complete. Collected ${allSnapshots.length} snapshots from ${totalRuns} runs.`);
 
   // Output snapshots CSV
-  const csv = snapshotsToCSV(allSnapshots);
-  writeOutput(csv, parsed.output);
+  if (outputPath) {
+    console.error(`Output written to: ${outputPath}`);
+  } else {
+    writeOutput(snapshotsToCSV(allSnapshots), undefined);
+  }
 
   // Compute and save statistics if requested or if output file is specified
   if (parsed.stats || parsed.output) {
     console.error('\nComputing statistics...');
-    const { columns, rows } = computeStatisticsFromSnapshots(allSnapshots, params);
+    const { columns, rows } = computeStatisticsFromSnapshots(model, allSnapshots, params, selection.statistics);
     const statsCSV = statisticsToCSV(columns, rows);
-
-    // Determine output filename for statistics
-    let statsOutput: string | undefined;
-    if (parsed.output) {
-      const outputPath = parsed.output;
-      const dir = path.dirname(outputPath);
-      const ext = path.extname(outputPath);
-      const base = path.basename(outputPath, ext);
-      statsOutput = path.join(dir, `${base}_statistics${ext}`);
-    }
+    const statsOutput = outputPath ? siblingOutputPath(outputPath, 'statistics') : undefined;
 
     writeOutput(statsCSV, statsOutput);
     console.error(`Statistics saved${statsOutput ? ` to: ${statsOutput}` : ''}`);
     console.error(`  ${rows.length} rows, ${columns.length} columns`);
+
+    // Trajectory statistics (first-passage times, durations): one row per run and cell group
+    if (selection.trajectoryStatistics.length > 0) {
+      const summary = runSummaryTable(summaries, selection.trajectoryStatistics);
+      const summaryOutput = outputPath ? siblingOutputPath(outputPath, 'summary') : undefined;
+
+      writeOutput(statisticsToCSV(summary.columns, summary.rows), summaryOutput);
+      console.error(`Run summaries saved${summaryOutput ? ` to: ${summaryOutput}` : ''}`);
+      console.error(`  ${summary.rows.length} rows, ${summary.columns.length} columns`);
+    }
   }
 }
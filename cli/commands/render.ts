@@ -0,0 +1,84 @@
+/**
+ * CLI command for rendering simulation frames to PNG or SVG.
+ * Uses the scene renderer, so no browser, canvas or GPU is needed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { deflateSync } from 'zlib';
+import { SimulationEngine } from '../../src/core/simulation/engine';
+import { renderModelScene } from '../../src/core/export/modelScene';
+import { sceneToSVG } from '../../src/core/export/svg';
+import { rasterizeScene, encodePNG } from '../../src/core/export/raster';
+import { parseArgs, generateTimeSamples } from '../utils/args';
+import { loadRunConfig } from './run';
+
+const DEFAULT_SIZE = { width: 800, height: 600 };
+
+/**
+ * File name of a frame: `<prefix>_t<time>h.<ext>`.
+ */
+function frameFileName(prefix: string, time: number, ext: string): string {
+  return `${prefix}_t${Number(time.toFixed(6))}h.${ext}`;
+}
+
+/**
+ * Render simulation frames at the requested times.
+ */
+export async function renderCommand(args: string[]): Promise<void> {
+  const parsed = parseArgs(args);
+
+  const format = parsed.format ?? 'png';
+  if (format !== 'png' && format !== 'svg') {
+    throw new Error(`Unknown format "${format}" (expected png or svg)`);
+  }
+  const size = parsed.size ?? DEFAULT_SIZE;
+  if (!(size.width > 0 && size.height > 0)) {
+    throw new Error('--size must be <width>x<height>, e.g. 800x600');
+  }
+
+  const { model, params } = loadRunConfig(parsed);
+
+  const times = parsed.times ?? { start: 0, end: params.general.t_end, step: 12 };
+  const timeSamples = generateTimeSamples(times.start, times.end, times.step);
+  console.error(`Render times: ${timeSamples.join(', ')}h`);
+
+  const prefix = parsed.output ?? 'frame';
+  const dir = path.dirname(prefix);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const engine = new SimulationEngine({ model, params });
+  engine.init();
+
+  const renderFrame = (time: number) => {
+    const scene = renderModelScene(model.renderer, engine.getState(), params, {
+      width: size.width,
+      height: size.height,
+      isDark: parsed.dark ?? false,
+      renderOptions: {
+        showCellIds: parsed.cellIds ?? false,
+        showScaleBar: parsed.scaleBar ?? true,
+      },
+    });
+
+    const file = frameFileName(prefix, time, format);
+    if (format === 'svg') {
+      fs.writeFileSync(file, sceneToSVG(scene), 'utf-8');
+    } else {
+      fs.writeFileSync(file, encodePNG(rasterizeScene(scene), (data) => deflateSync(data)));
+    }
+    console.error(`Frame t=${time}h: ${file}`);
+  };
+
+  let rendered = 0;
+  engine.runWithSamples(timeSamples, (time) => {
+    renderFrame(time);
+    rendered++;
+  });
+
+  if (rendered < timeSamples.length) {
+    console.error(`Simulation ended at t_end=${params.general.t_end}h; skipped later frames`);
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * CLI command for continuing a simulation from a checkpoint file.
+ */
+
+import { SimulationEngine } from '../../src/core/simulation/engine';
+import type { SimulationCheckpoint } from '../../src/core/simulation/checkpoint';
+import { parseArgs, generateTimeSamples } from '../utils/args';
+import { snapshotsToCSV, writeOutput, writeEventsFile } from '../utils/output';
+import { readCheckpointFile } from '../utils/checkpoint';
+import { simulateWithSamples, writeLineageFiles, checkEHTOnlyOptions } from './run';
+import { resolveModel } from '../utils/models';
+import type { BaseSimulationParams } from '../../src/core/registry';
+
+/**
+ * Resume a simulation from a checkpoint written by `run --checkpoint-every`.
+ */
+export async function resumeCommand(args: string[]): Promise<void> {
+  const parsed = parseArgs(args);
+
+  if (!parsed.input) {
+    throw new Error('resume requires a checkpoint file: -i, --input <file>');
+  }
+
+  const checkpoint = readCheckpointFile(parsed.input) as SimulationCheckpoint<BaseSimulationParams>;
+  console.error(`Loaded checkpoint from: ${parsed.input}`);
+  const model = resolveModel(parsed.model, checkpoint.model, 'checkpoint');
+  checkEHTOnlyOptions(parsed, model);
+
+  // Restore state and parameters (the engine's initial state is discarded)
+  const engine = new SimulationEngine({ model, params: checkpoint.params });
+  engine.restoreCheckpoint(checkpoint);
+
+  const params = engine.getParams();
+  if (parsed.tEnd !== undefined) {
+    if (isNaN(parsed.tEnd)) {
+      throw new Error('--t_end must be a number');
+    }
+    params.general.t_end = parsed.tEnd;
+  }
+
+  const t = engine.getTime();
+  console.error(`Resuming at t=${t.toFixed(2)}h, running to t_end=${params.general.t_end}h`);
+
+  // Sample times before the checkpoint time are skipped by the sampling loop
+  const times = parsed.times ?? { start: 0, end: params.general.t_end, step: 12 };
+  const timeSamples = generateTimeSamples(times.start, times.end, times.step);
+  console.error(`Time samples: ${timeSamples.filter(s => s >= t).join(', ')}h`);
+
+  const snapshots = simulateWithSamples(engine, timeSamples, {
+    checkpointEvery: parsed.checkpointEvery,
+    // Keep updating the input checkpoint unless told otherwise
+    checkpointPath: parsed.checkpoint ?? parsed.input,
+  });
+
+  console.error(`Simulation complete. Collected ${snapshots.length} snapshots.`);
+
+  if (parsed.lineage) {
+    writeLineageFiles(engine.getState(), parsed.lineage);
+  }
+  if (parsed.events) {
+    writeEventsFile(engine.getEvents(), parsed.events);
+  }
+
+  const csv = snapshotsToCSV(snapshots);
+  writeOutput(csv, parsed.output);
+}
@@ -4,48 +4,157 @@
 
 
 import * as fs from 'fs';
+import * as path from 'path';
 import { SimulationEngine } from '../../src/core/simulation/engine';
 
 import { parseTomlWithDefaults } from '../../src/core/params/toml';
 import { setNestedValue } from '../../src/core/params/merge';
+import { parseParamOverride } from '../../src/core/params/overrides';
 // import { createSnapshot } from '../../src/core/snapshot';
-import type { BaseSimulationState as SimulationState } from '../../src/core/types';
 import type { BatchSnapshot } from '../../src/core/batch/types';
-import { parseArgs, generateTimeSamples } from '../utils/args';
-import { snapshotsToCSV, writeOutput, formatProgress } from '../utils/output';
+import type { BaseSimulationParams, ModelDefinition } from '../../src/core/registry';
+import { parseArgs, generateTimeSamples, type ParsedArgs } from '../utils/args';
+import { snapshotsToCSV, writeOutput, writeEventsFile, formatProgress } from '../utils/output';
 
 import { EHTModel } from '../../src/models/eht';
-import { DEFAULT_EHT_PARAMS } from '../../src/models/eht/params/defaults';
-import type { EHTParams } from '../../src/models/eht/params/types';
+import type { EHTSimulationState } from '../../src/models/eht/types';
+import { lineageToNewick, lineageToEdgeList } from '../../src/models/eht/lineage';
+import { writeCheckpointFile, defaultCheckpointPath } from '../utils/checkpoint';
+import { resolveModel, getConfigModel } from '../utils/models';
+
+/** Options for the shared CLI sampling loop */
+export interface SampleLoopOptions {
+  /** Write a checkpoint every this many simulated hours */
+  checkpointEvery?: number;
+  /** Checkpoint file path (required if checkpointEvery is set) */
+  checkpointPath?: string;
+}
 
 /**
- * Run a single simulation from the CLI.
+ * Step an engine to the end time, collecting snapshots at the given sample
+ * times. Sample times before the current simulation time are skipped, so the
+ * same loop serves fresh runs and runs resumed from a checkpoint.
  */
-export async function runCommand(args: string[]): Promise<void> {
-  const parsed = parseArgs(args);
+export function simulateWithSamples<Params extends BaseSimulationParams, State>(
+  engine: SimulationEngine<Params, State>,
+  timeSamples: number[],
+  options: SampleLoopOptions = {}
+): BatchSnapshot[] {
+  const seed = engine.getParams().general.random_seed;
+  const endTime = engine.getEndTime();
+  const startTime = engine.getTime();
+
+  const snapshots: BatchSnapshot[] = [];
+  let lastProgressTime = Math.floor(startTime);
+
+  const { checkpointEvery, checkpointPath } = options;
+  const checkpointing = checkpointEvery !== undefined && checkpointEvery > 0 && checkpointPath !== undefined;
+  let nextCheckpointTime = checkpointing ? startTime + checkpointEvery : Infinity;
+
+  const onStep = (t: number) => {
+    // Progress reporting every 1.0h
+    const currentHour = Math.floor(t);
+    if (currentHour > lastProgressTime) {
+      lastProgressTime = currentHour;
+      console.error(formatProgress(t, endTime));
+    }
+
+    if (checkpointing && t >= nextCheckpointTime) {
+      writeCheckpointFile(engine.saveCheckpoint(), checkpointPath!);
+      console.error(`Checkpoint written at t=${t.toFixed(2)}h: ${checkpointPath}`);
+      while (nextCheckpointTime <= t) nextCheckpointTime += checkpointEvery!;
+    }
+  };
+
+  engine.runWithSamples(
+    timeSamples,
+    (time, state) => {
+      snapshots.push({
+        run_index: 0,
+        seed,
+        time_h: time,
+        sampled_params: {},
+        data: engine.getModel().getSnapshot(state),
+      });
+    },
+    { onStep }
+  );
+  // Run past the last sample to the end time (for lineage, events and checkpoints)
+  engine.runUntil(endTime, { onStep });
+
+  // Final checkpoint so the run can later be extended with `resume --t_end`
+  if (checkpointing) {
+    writeCheckpointFile(engine.saveCheckpoint(), checkpointPath!);
+    console.error(`Final checkpoint written: ${checkpointPath}`);
+  }
+
+  // Adaptive substep summary (only reported by models with adaptive substeps enabled)
+  const substepStats = engine.getSubstepStats();
+  if (substepStats) {
+    console.error(
+      `Adaptive substeps: ${substepStats.substeps} accepted, ${substepStats.rejected} rejected` +
+      ` (last step: ${substepStats.last_substeps} substeps, dt ${substepStats.last_min_dt.toPrecision(3)}` +
+      `-${substepStats.last_max_dt.toPrecision(3)})`
+    );
+  }
+
+  return snapshots;
+}
+
+/**
+ * Write the lineage of a finished run as `<prefix>.nwk` (Newick tree) and
+ * `<prefix>_edges.csv` (parent/child edge list).
+ */
+export function writeLineageFiles(state: EHTSimulationState, prefix: string): void {
+  const dir = path.dirname(prefix);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(`${prefix}.nwk`, lineageToNewick(state) + '\n', 'utf-8');
+  fs.writeFileSync(`${prefix}_edges.csv`, lineageToEdgeList(state), 'utf-8');
+  console.error(`Lineage written to: ${prefix}.nwk, ${prefix}_edges.csv`);
+}
+
+/** Model and parameters of a single run */
+export interface RunConfig {
+  model: ModelDefinition<BaseSimulationParams>;
+  params: BaseSimulationParams;
+}
+
+/**
+ * Fail early for options that only the EHT model supports.
+ */
+export function checkEHTOnlyOptions(parsed: ParsedArgs, model: ModelDefinition): void {
+  if (parsed.lineage && model.id !== EHTModel.id) {
+    throw new Error(`--lineage is not supported by the ${model.id} model`);
+  }
+}
+
+/**
+ * Load the model and parameters of a single run: the config file (or the
+ * model defaults), then --param and --seed overrides. The model comes from
+ * --model or the config's [metadata] model.
+ */
+export function loadRunConfig(parsed: ParsedArgs): RunConfig {
+  const tomlContent = parsed.config ? fs.readFileSync(parsed.config, 'utf-8') : undefined;
+  const model = resolveModel(parsed.model, tomlContent ? getConfigModel(tomlContent) : undefined);
+  console.error(`Model: ${model.id}`);
 
   // Load base parameters
-  let params: EHTParams;
-  if (parsed.config) {
-    const tomlContent = fs.readFileSync(parsed.config, 'utf-8');
-    params = parseTomlWithDefaults(tomlContent); // This returns any, cast to EHTParams
+  let params: BaseSimulationParams;
+  if (tomlContent !== undefined) {
+    params = parseTomlWithDefaults(tomlContent, model.defaultParams);
     console.error(`Loaded config from: ${parsed.config}`);
   } else {
-    // legacy defaults? or generic?
-    // Use EHT Defaults
-    params = { ...DEFAULT_EHT_PARAMS };
+    params = structuredClone(model.defaultParams);
     console.error('Using default parameters');
   }
 
-  // Apply parameter overrides
-  for (const [path, value] of Object.entries(parsed.params)) {
-    const numValue = parseFloat(value);
-    if (!isNaN(numValue)) {
-      setNestedValue(params, path, numValue);
-      console.error(`Override: ${path} = ${numValue}`);
-    } else {
-      console.error(`Warning: Invalid numeric value for ${path}: ${value}`);
-    }
+  // Apply parameter overrides, typed by the model's parameter schema
+  for (const [path, raw] of Object.entries(parsed.params)) {
+    const value = parseParamOverride(model.paramsSchema, params, { path, value: raw });
+    setNestedValue(params, path, value);
+    console.error(`Override: ${path} = ${typeof value === 'number' ? value : JSON.stringify(value)}`);
   }
 
   // Apply seed override
@@ -54,85 +163,40 @@ export async function runCommand(args: string[]): Promise<void> {
     console.error(`Seed: ${parsed.seed}`);
   }
 
+  return { model, params };
+}
+
+/**
+ * Run a single simulation from the CLI.
+ */
+export async function runCommand(args: string[]): Promise<void> {
+  const parsed = parseArgs(args);
+  const { model, params } = loadRunConfig(parsed);
+  checkEHTOnlyOptions(parsed, model);
+
   // Generate time samples
   const times = parsed.times ?? { start: 0, end: params.general.t_end, step: 12 };
   const timeSamples = generateTimeSamples(times.start, times.end, times.step);
   console.error(`Time samples: ${timeSamples.join(', ')}h`);
 
   // Create and initialize simulation engine
-  // Explicitly use EHT Model for CLI default
-  const engine = new SimulationEngine({ model: EHTModel, params });
+  const engine = new SimulationEngine({ model, params });
   engine.init();
 
-  // Collect snapshots
-  const snapshots: BatchSnapshot[] = [];
-  let nextSampleIndex = 0;
-  let lastProgressTime = -1;
-
-  const seed = params.general.random_seed;
-  const endTime = params.general.t_end;
-
-  // Check if we should sample at t=0
-  if (timeSamples.length > 0 && timeSamples[0] <= 0) {
-    const rows = EHTModel.getSnapshot(engine.getState() as any);
-    const snapshot: BatchSnapshot = {
-      run_index: 0,
-      seed,
-      time_h: 0,
-      sampled_params: {},
-      data: rows
-    };
-    snapshots.push(snapshot);
-    nextSampleIndex = 1;
-  }
-
-  // Run simulation with progress reporting
-  while (!engine.isComplete() && nextSampleIndex < timeSamples.length) {
-    engine.step();
-    // Generic engine state is unknown type properly, cast to any for t access unless using generic
-    const state = engine.getState() as any;
-    const t = state.t ?? 0;
+  const snapshots = simulateWithSamples(engine, timeSamples, {
+    checkpointEvery: parsed.checkpointEvery,
+    checkpointPath: parsed.checkpoint ?? defaultCheckpointPath(parsed.output),
+  });
 
-    // Progress reporting every 1.0h
-    const currentHour = Math.floor(t);
-    if (currentHour > lastProgressTime) {
-      lastProgressTime = currentHour;
-      console.error(formatProgress(t, endTime));
-    }
+  console.error(`Simulation complete. Collected ${snapshots.length} snapshots.`);
 
-    // Check if we've reached a sample time
-    while (
-      nextSampleIndex < timeSamples.length &&
-      t >= timeSamples[nextSampleIndex]
-    ) {
-      const rows = EHTModel.getSnapshot(state);
-      const snapshot: BatchSnapshot = {
-        run_index: 0,
-        seed,
-        time_h: timeSamples[nextSampleIndex],
-        sampled_params: {},
-        data: rows
-      };
-      snapshots.push(snapshot);
-      nextSampleIndex++;
-    }
+  if (parsed.lineage) {
+    writeLineageFiles(engine.getState(), parsed.lineage);
   }
-
-  // Continue running to completion if we've collected all samples but simulation isn't done
-  while (!engine.isComplete()) {
-    engine.step();
-    const state = engine.getState() as SimulationState;
-
-    // Progress reporting every 1.0h
-    const currentHour = Math.floor(state.t);
-    if (currentHour > lastProgressTime) {
-      lastProgressTime = currentHour;
-      console.error(formatProgress(state.t, endTime));
-    }
+  if (parsed.events) {
+    writeEventsFile(engine.getEvents(), parsed.events);
   }
 
-  console.error(`Simulation complete. Collected ${snapshots.length} snapshots.`);
-
   // Output CSV
   const csv = snapshotsToCSV(snapshots);
   writeOutput(csv, parsed.output);
@@ -2,16 +2,24 @@
  * CLI command for listing available statistics.
  */
 
-import { EHTModel } from '../../src/models/eht';
-import { listStatistics } from '../../src/core/batch/statistics';
+import * as fs from 'fs';
+import { listStatistics, listTrajectoryStatistics } from '../../src/core/batch/statistics';
+import { parseTomlWithDefaults } from '../../src/core/params/toml';
+import { parseArgs } from '../utils/args';
+import { resolveModel, getConfigModel } from '../utils/models';
 
 /**
- * List all available statistics.
+ * List all statistics of the chosen model, generated for the config's
+ * parameters (e.g. its cell types) or the model defaults.
  */
-export function statsCommand(_args: string[]): void {
-  const stats = listStatistics(EHTModel);
+export function statsCommand(args: string[]): void {
+  const parsed = parseArgs(args);
+  const tomlContent = parsed.config ? fs.readFileSync(parsed.config, 'utf-8') : undefined;
+  const model = resolveModel(parsed.model, tomlContent ? getConfigModel(tomlContent) : undefined);
+  const params = tomlContent !== undefined ? parseTomlWithDefaults(tomlContent, model.defaultParams) : model.defaultParams;
+  const stats = listStatistics(model, params);
 
-  console.log('\nAvailable Statistics\n');
+  console.log(`\nAvailable Statistics (${model.id} model)\n`);
   console.log('Use these IDs with --stats when running simulations.\n');
 
   // Group statistics by category
@@ -26,6 +34,8 @@ export function statsCommand(_args: string[]): void {
     'Age': stats.filter((s) => s.id.includes('age')),
     'Cell Phase': stats.filter((s) => s.id.startsWith('cells_in')),
   };
+  const categorized = new Set(Object.values(categories).flat());
+  categories['Other'] = stats.filter((s) => !categorized.has(s));
 
   for (const [category, categoryStats] of Object.entries(categories)) {
     if (categoryStats.length === 0) continue;
@@ -37,6 +47,16 @@ export function statsCommand(_args: string[]): void {
     console.log();
   }
 
-  console.log(`Total: ${stats.length} statistics available`);
-  console.log('\nExample: npm run cli -- run --stats n_cells_total,emt_escaped,avg_y_emt');
+  // Statistics of whole runs, written to the batch summary file
+  const trajectoryStats = listTrajectoryStatistics(model, params);
+  if (trajectoryStats.length > 0) {
+    console.log('Per Run (batch <output>_summary file):');
+    for (const stat of trajectoryStats) {
+      console.log(`  ${stat.id.padEnd(24)} ${stat.description}`);
+    }
+    console.log();
+  }
+
+  console.log(`Total: ${stats.length + trajectoryStats.length} statistics available`);
+  console.log(`\nExample: npm run cli -- batch -c batch.toml --stats ${stats.slice(0, 3).map((s) => s.id).join(',')}`);
 }
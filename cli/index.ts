@@ -6,7 +6,9 @@
 
 import { runCommand } from './commands/run';
 import { batchCommand } from './commands/batch';
+import { resumeCommand } from './commands/resume';
 import { statsCommand } from './commands/stats';
+import { renderCommand } from './commands/render';
 
 const args = process.argv.slice(2);
 const command = args[0];
@@ -20,27 +22,81 @@ Usage:
 
 Commands:
   run       Run a single simulation
+  resume    Continue a simulation from a checkpoint file
   batch     Run batch simulations with parameter sweeps
+  render    Render simulation frames to PNG or SVG files
   stats     List all available statistics
 
+Model selection (all commands):
+  -m, --model <id>         Model to run (EHT, Toy). Default: the config's [metadata] model,
+                           the checkpoint's model for 'resume', else EHT
+
 Options for 'run':
   -c, --config <file>      TOML config file (optional, uses defaults if not provided)
   -o, --output <file>      Output CSV file (default: stdout)
   --seed <number>          Override random seed
-  --param <key=value>      Override parameter (can be used multiple times)
+  --param <key=value>      Override parameter (can be used multiple times). The value is
+                           read as the parameter's type: number, true/false, string, or
+                           JSON for objects (e.g. a color)
   --times <start,end,step> Sample times in hours (default: 0,48,12)
   --stats <stat1,stat2>    Compute statistics (comma-separated)
+  --checkpoint-every <h>   Write a checkpoint every <h> simulated hours (and at the end)
+  --checkpoint <file>      Checkpoint file (default: <output>_checkpoint.json or checkpoint.json)
+  --lineage <prefix>       Write the cell lineage as <prefix>.nwk and <prefix>_edges.csv (EHT only)
+  --events <file>          Write the event log (divisions, adhesion loss, ...); JSON if <file> ends in .json, else CSV
+
+Options for 'resume':
+  -i, --input <file>       Checkpoint file to continue from (required)
+  -o, --output <file>      Output CSV file (default: stdout)
+  --t_end <hours>          New end time (default: end time stored in the checkpoint)
+  --times <start,end,step> Sample times in hours; times before the checkpoint are skipped
+  --checkpoint-every <h>   Keep writing checkpoints every <h> simulated hours
+  --checkpoint <file>      Checkpoint file to write (default: the input file)
+  --lineage <prefix>       As for 'run' (includes the lineage stored in the checkpoint)
+  --events <file>          As for 'run' (includes the events stored in the checkpoint)
 
 Options for 'batch':
   -c, --config <file>      TOML batch config file (required)
   -o, --output <file>      Output CSV file (default: stdout)
-  --stats <stat1,stat2>    Compute statistics (comma-separated, or 'all')
+  --stats <stat1,stat2>    Statistics columns (comma-separated names like bx or ids like bx_emt,
+                           or 'all'); includes the config's [[statistics]], with one row per
+                           cell group and [[groups]] entry. Per-run statistics
+                           (first-passage times, durations) go to <output>_summary
+  --resume                 Continue an interrupted batch: keep finished runs in the
+                           output file (tracked in <output>_manifest.json) and run
+                           only the missing ones (requires -o)
+  -j, --jobs <n>           Run <n> simulations in parallel worker threads (default: 1);
+                           output is identical for any <n>
+
+Options for 'render':
+  -c, --config <file>      TOML config file (optional, uses defaults if not provided)
+  -o, --output <prefix>    Output file prefix; frames are <prefix>_t<time>h.<ext> (default: frame)
+  --times <start,end,step> Frame times in hours (default: 0,t_end,12)
+  --format <png|svg>       Image format (default: png)
+  --size <WxH>             Image size in pixels (default: 800x600)
+  --dark                   Use the dark theme
+  --cell-ids               Label cells with their IDs
+  --no-scale-bar           Hide the scale bar
+  --seed, --param          As for 'run'
+
+Options for 'stats':
+  -c, --config <file>      List the statistics for this config (e.g. its cell types)
 
 Examples:
   npm run cli -- run
   npm run cli -- run -c simulation.toml -o output.csv
-  npm run cli -- run --seed 42 --times 0,24,6 --param general.N_emt=10
+  npm run cli -- run --seed 42 --times 0,24,6 --param cell_types.emt.N_init=10
+  npm run cli -- run --model Toy --times 0,60,10
+  npm run cli -- run --param cell_types.emt.location=top --param general.full_circle=true
+  npm run cli -- run -o out.csv --checkpoint-every 6
+  npm run cli -- run -o out.csv --lineage out_lineage
+  npm run cli -- run -o out.csv --events out_events.json
+  npm run cli -- resume -i out_checkpoint.json --t_end 120 -o out_resumed.csv
   npm run cli -- batch -c batch_config.toml -o results.csv --stats all
+  npm run cli -- batch -c batch_config.toml -o results.csv --resume
+  npm run cli -- batch -c batch_config.toml -o results.csv --jobs 4
+  npm run cli -- stats --model Toy
+  npm run cli -- render -c simulation.toml --times 0,48,24 -o figures/frame --format svg
 `);
 }
 
@@ -55,9 +111,15 @@ async function main(): Promise<void> {
       case 'run':
         await runCommand(args.slice(1));
         break;
+      case 'resume':
+        await resumeCommand(args.slice(1));
+        break;
       case 'batch':
         await batchCommand(args.slice(1));
         break;
+      case 'render':
+        await renderCommand(args.slice(1));
+        break;
       case 'stats':
         statsCommand(args.slice(1));
         break;
@@ -2,13 +2,29 @@
  * CLI argument parsing utilities.
  */
 
+import { parseOverrideString } from '../../src/core/params/overrides';
+
 export interface ParsedArgs {
+  model?: string;
   config?: string;
+  input?: string;
   output?: string;
   seed?: number;
   params: Record<string, string>;
   times?: { start: number; end: number; step: number };
   stats?: string[];
+  tEnd?: number;
+  checkpoint?: string;
+  checkpointEvery?: number;
+  resume?: boolean;
+  jobs?: number;
+  format?: string;
+  size?: { width: number; height: number };
+  dark?: boolean;
+  cellIds?: boolean;
+  scaleBar?: boolean;
+  lineage?: string;
+  events?: string;
 }
 
 /**
@@ -23,18 +39,19 @@ export function parseArgs(args: string[]): ParsedArgs {
   while (i < args.length) {
     const arg = args[i];
 
-    if (arg === '-c' || arg === '--config') {
+    if (arg === '-m' || arg === '--model') {
+      result.model = args[++i];
+    } else if (arg === '-c' || arg === '--config') {
       result.config = args[++i];
+    } else if (arg === '-i' || arg === '--input') {
+      result.input = args[++i];
     } else if (arg === '-o' || arg === '--output') {
       result.output = args[++i];
     } else if (arg === '--seed') {
       result.seed = parseInt(args[++i], 10);
     } else if (arg === '--param') {
-      const param = args[++i];
-      const [key, value] = param.split('=');
-      if (key && value !== undefined) {
-        result.params[key] = value;
-      }
+      const { path, value } = parseOverrideString(args[++i] ?? '');
+      result.params[path] = value;
     } else if (arg === '--times') {
       const timesStr = args[++i];
       const [start, end, step] = timesStr.split(',').map(Number);
@@ -42,6 +59,31 @@ export function parseArgs(args: string[]): ParsedArgs {
     } else if (arg === '--stats') {
       const statsStr = args[++i];
       result.stats = statsStr.split(',').map((s) => s.trim());
+    } else if (arg === '--t_end' || arg === '--t-end') {
+      result.tEnd = parseFloat(args[++i]);
+    } else if (arg === '--checkpoint') {
+      result.checkpoint = args[++i];
+    } else if (arg === '--checkpoint-every') {
+      result.checkpointEvery = parseFloat(args[++i]);
+    } else if (arg === '--resume') {
+      result.resume = true;
+    } else if (arg === '-j' || arg === '--jobs') {
+      result.jobs = Number(args[++i]);
+    } else if (arg === '--format') {
+      result.format = args[++i];
+    } else if (arg === '--size') {
+      const [width, height] = args[++i].split('x').map(Number);
+      result.size = { width, height };
+    } else if (arg === '--dark') {
+      result.dark = true;
+    } else if (arg === '--cell-ids') {
+      result.cellIds = true;
+    } else if (arg === '--no-scale-bar') {
+      result.scaleBar = false;
+    } else if (arg === '--lineage') {
+      result.lineage = args[++i];
+    } else if (arg === '--events') {
+      result.events = args[++i];
     }
 
     i++;
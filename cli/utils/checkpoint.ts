@@ -0,0 +1,42 @@
+/**
+ * CLI checkpoint file utilities.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  checkpointToJSON,
+  checkpointFromJSON,
+  type SimulationCheckpoint,
+} from '../../src/core/simulation/checkpoint';
+
+/**
+ * Write a checkpoint file.
+ * Writes to a temporary file first and renames it, so a job killed mid-write
+ * never leaves a truncated checkpoint behind.
+ */
+export function writeCheckpointFile(checkpoint: SimulationCheckpoint, filePath: string): void {
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, checkpointToJSON(checkpoint), 'utf-8');
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Read a checkpoint file.
+ * @throws Error if the file is not a valid checkpoint
+ */
+export function readCheckpointFile(filePath: string): SimulationCheckpoint {
+  return checkpointFromJSON(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Default checkpoint location: next to the output file
+ * (`out.csv` -> `out_checkpoint.json`), else `checkpoint.json`.
+ */
+export function defaultCheckpointPath(outputPath?: string): string {
+  if (!outputPath) return 'checkpoint.json';
+
+  const dir = path.dirname(outputPath);
+  const base = path.basename(outputPath, path.extname(outputPath));
+  return path.join(dir, `${base}_checkpoint.json`);
+}
@@ -0,0 +1,36 @@
+/**
+ * CLI batch manifest file utilities.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { batchManifestFromJSON, type BatchManifest } from '../../src/core/batch/manifest';
+
+/**
+ * Write a batch manifest file.
+ * Writes to a temporary file first and renames it, so an interrupted batch
+ * never leaves a truncated manifest behind.
+ */
+export function writeManifestFile(manifest: BatchManifest, filePath: string): void {
+  const tmpPath = `${filePath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(manifest, null, 2), 'utf-8');
+  fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Read a batch manifest file.
+ * @throws Error if the file is not a valid manifest
+ */
+export function readManifestFile(filePath: string): BatchManifest {
+  return batchManifestFromJSON(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Manifest location next to the batch output file
+ * (`out.csv` -> `out_manifest.json`).
+ */
+export function defaultManifestPath(outputPath: string): string {
+  const dir = path.dirname(outputPath);
+  const base = path.basename(outputPath, path.extname(outputPath));
+  return path.join(dir, `${base}_manifest.json`);
+}
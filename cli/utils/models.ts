@@ -0,0 +1,37 @@
+/**
+ * Model selection for CLI commands.
+ */
+
+import { modelRegistry } from '../../src/core/registry';
+import type { ModelDefinition } from '../../src/core/registry';
+import { parseToml } from '../../src/core/params/toml';
+
+// Registers all models
+import '../../src/models';
+
+/**
+ * The model named in a TOML config's `[metadata] model`, if any.
+ */
+export function getConfigModel(tomlContent: string): string | undefined {
+  const model = parseToml(tomlContent)?.metadata?.model;
+  return typeof model === 'string' && model !== '' ? model : undefined;
+}
+
+/**
+ * Resolve the model of a CLI command: `--model`, else the model named by the
+ * config (or checkpoint), else the registry default.
+ * @param source - What configModel was read from, for error messages
+ * @throws Error if the model is not registered, or `--model` contradicts the config
+ */
+export function resolveModel(requested?: string, configModel?: string, source = 'config'): ModelDefinition {
+  if (requested !== undefined && configModel !== undefined && requested !== configModel) {
+    throw new Error(`--model ${requested} does not match the model of the ${source} ("${configModel}")`);
+  }
+
+  const id = requested ?? configModel ?? modelRegistry.getDefaultName();
+  const model = id ? modelRegistry.get(id) : undefined;
+  if (!model) {
+    throw new Error(`Unknown model "${id}" (available: ${modelRegistry.getModelNames().join(', ')})`);
+  }
+  return model;
+}
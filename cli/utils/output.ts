@@ -4,6 +4,7 @@
 
 import * as fs from 'fs';
 import type { BatchSnapshot } from '../../src/core/batch/types';
+import type { SimulationEvent } from '../../src/core/interfaces/model';
 
 /**
  * Convert snapshots to CSV format.
@@ -29,6 +30,43 @@ export function writeOutput(content: string, filePath?: string): void {
   }
 }
 
+/**
+ * Convert simulation events to tab-separated CSV.
+ */
+export function eventsToCSV(events: SimulationEvent[]): string {
+  const columns: (keyof SimulationEvent)[] = ['t', 'type', 'cell_id', 'x', 'y'];
+  const rows = events.map((e) => columns.map((c) => e[c]).join('\t'));
+  return [columns.join('\t'), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Write simulation events as JSON (for a .json file) or CSV (otherwise).
+ */
+export function writeEventsFile(events: SimulationEvent[], filePath: string): void {
+  const content = filePath.toLowerCase().endsWith('.json')
+    ? JSON.stringify(events, null, 2) + '\n'
+    : eventsToCSV(events);
+  fs.writeFileSync(filePath, content, 'utf-8');
+  console.error(`${events.length} events written to: ${filePath}`);
+}
+
+/**
+ * Append CSV rows (without header) to an existing output file.
+ */
+export function appendOutput(rows: string, filePath: string): void {
+  if (rows.length === 0) return;
+  fs.appendFileSync(filePath, `\r\n${rows}`, 'utf-8');
+}
+
+/**
+ * Read the column names from the header line of a tab-separated file.
+ */
+export function readCSVHeader(filePath: string): string[] {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  return firstLine.length > 0 ? firstLine.split('\t') : [];
+}
+
 /**
  * Format progress message.
  */
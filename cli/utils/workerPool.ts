@@ -0,0 +1,133 @@
+/**
+ * Worker pool for parallel CLI batches using Node worker_threads.
+ * Node counterpart of src/core/batch/workerPool.ts (which uses Web Workers).
+ */
+
+import { Worker } from 'worker_threads';
+import type { BatchRunResult } from '../../src/core/batch/types';
+import type { WorkerRequest, WorkerResponse } from '../../src/core/batch/simulationTask';
+
+/** Task waiting to be executed */
+interface PendingTask {
+  request: WorkerRequest;
+  resolve: (result: BatchRunResult) => void;
+  reject: (error: Error) => void;
+}
+
+const WORKER_URL = new URL('../workers/simulation.worker.ts', import.meta.url);
+
+/**
+ * Start a worker thread on the TypeScript worker entry.
+ * The CLI runs under tsx, whose loader is not active in new threads, so the
+ * worker registers it before importing the entry.
+ */
+function spawnWorker(): Worker {
+  const bootstrap = `
+    import('tsx/esm/api').then(({ register }) => {
+      register();
+      return import(${JSON.stringify(WORKER_URL.href)});
+    });
+  `;
+  const worker = new Worker(bootstrap, { eval: true, stdout: true });
+  // Keep worker logging off stdout, which may carry CSV output
+  worker.stdout.pipe(process.stderr);
+  return worker;
+}
+
+/** Manages a pool of worker threads for parallel simulation */
+export class NodeWorkerPool {
+  private idleWorkers: Worker[] = [];
+  private running: Map<Worker, PendingTask> = new Map();
+  private taskQueue: PendingTask[] = [];
+  private workers: Worker[] = [];
+
+  constructor(private poolSize: number) {}
+
+  /**
+   * Start the worker threads.
+   */
+  init(): void {
+    for (let i = 0; i < this.poolSize; i++) {
+      const worker = spawnWorker();
+      worker.on('message', (response: WorkerResponse) => {
+        this.handleWorkerMessage(worker, response);
+      });
+      worker.on('error', (error: Error) => {
+        this.handleWorkerError(worker, error);
+      });
+      this.workers.push(worker);
+      this.idleWorkers.push(worker);
+    }
+  }
+
+  /**
+   * Submit a simulation task to the pool.
+   * Returns a promise that resolves with the snapshots and trajectory statistics.
+   */
+  submit(request: WorkerRequest): Promise<BatchRunResult> {
+    return new Promise((resolve, reject) => {
+      const task: PendingTask = { request, resolve, reject };
+      const worker = this.idleWorkers.pop();
+      if (worker) {
+        this.executeTask(worker, task);
+      } else {
+        this.taskQueue.push(task);
+      }
+    });
+  }
+
+  /**
+   * Stop all worker threads.
+   */
+  async terminate(): Promise<void> {
+    const workers = this.workers;
+    this.workers = [];
+    this.idleWorkers = [];
+    this.taskQueue = [];
+    this.running.clear();
+    await Promise.all(workers.map((w) => w.terminate()));
+  }
+
+  private executeTask(worker: Worker, task: PendingTask): void {
+    this.running.set(worker, task);
+    worker.postMessage(task.request);
+  }
+
+  private handleWorkerMessage(worker: Worker, response: WorkerResponse): void {
+    const task = this.running.get(worker);
+    this.running.delete(worker);
+
+    if (task) {
+      if (response.type === 'complete' && response.snapshots) {
+        task.resolve({ snapshots: response.snapshots, summary: response.summary ?? {} });
+      } else {
+        task.reject(new Error(response.error || 'Unknown worker error'));
+      }
+    }
+
+    this.next(worker);
+  }
+
+  private handleWorkerError(worker: Worker, error: Error): void {
+    // An uncaught error ends the thread: fail its task, and the queue once no thread is left
+    const task = this.running.get(worker);
+    this.running.delete(worker);
+    this.workers = this.workers.filter((w) => w !== worker);
+    task?.reject(error);
+
+    if (this.workers.length === 0) {
+      for (const queued of this.taskQueue.splice(0)) {
+        queued.reject(new Error(`All batch workers failed: ${error.message}`));
+      }
+    }
+  }
+
+  private next(worker: Worker): void {
+    const task = this.taskQueue.shift();
+    if (task) {
+      this.executeTask(worker, task);
+    } else {
+      this.idleWorkers.push(worker);
+    }
+  }
+}
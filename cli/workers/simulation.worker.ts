@@ -0,0 +1,16 @@
+/**
+ * Node worker_threads entry for parallel CLI batches.
+ * Runs the same simulation task as the browser Web Worker.
+ */
+
+import { parentPort } from 'worker_threads';
+import { handleWorkerRequest, type WorkerRequest } from '../../src/core/batch/simulationTask';
+
+// Import worker-safe models (no UI/renderer code)
+import '../../src/models/index.worker';
+
+parentPort?.on('message', (request: WorkerRequest) => {
+  if (request.type === 'run') {
+    parentPort?.postMessage(handleWorkerRequest(request));
+  }
+});
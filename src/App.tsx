@@ -30,9 +30,9 @@ function AppContent() {
     }
   }, [setModel, setParams]);
 
-  // Batch-related config (ranges, time samples, seeds) - separate from core params
-  const [batchConfig, setBatchConfig] = useState({
-    parameterRanges: [] as SimulationConfig['parameterRanges'],
+  // Batch-related config (ranges, time samples, seeds, sampling) - separate from core params
+  const [batchConfig, setBatchConfig] = useState<Omit<SimulationConfig, 'params'>>({
+    parameterRanges: [],
     timeSamples: { ...DEFAULT_TIME_SAMPLES },
     seedsPerConfig: 1,
   });
@@ -51,6 +51,10 @@ function AppContent() {
       parameterRanges: newConfig.parameterRanges,
       timeSamples: newConfig.timeSamples,
       seedsPerConfig: newConfig.seedsPerConfig,
+      samplingMode: newConfig.samplingMode,
+      sampleCount: newConfig.sampleCount,
+      batchSeed: newConfig.batchSeed,
+      derivedParameters: newConfig.derivedParameters,
     });
   }, [setParams]);
 
@@ -8,9 +8,10 @@ export interface BatchPlotProps {
   data: { time: number; value: number; cell_group?: string }[];
   dataWithCI?: { time: number; mean: number; lower: number; upper: number; n: number; cell_group: string }[];
   histogramData?: { group: string; mean: number; lower: number; upper: number; n: number }[];
+  distributionData?: { bin: number; group: string; mean: number; lower: number; upper: number; n: number }[];
   xAxisLabel?: string;
   yAxisLabel: string;
-  plotType: 'line' | 'line_ci' | 'histogram';
+  plotType: 'line' | 'line_ci' | 'histogram' | 'distribution';
   width?: number;
   height?: number;
   yMin?: number;
@@ -21,6 +22,7 @@ export function BatchPlot({
   data,
   dataWithCI,
   histogramData,
+  distributionData,
   xAxisLabel = 'Time (h)',
   yAxisLabel,
   plotType,
@@ -36,10 +38,12 @@ export function BatchPlot({
     if (plotType === 'line' && data.length === 0) return;
     if (plotType === 'line_ci' && (!dataWithCI || dataWithCI.length === 0)) return;
     if (plotType === 'histogram' && (!histogramData || histogramData.length === 0)) return;
+    if (plotType === 'distribution' && (!distributionData || distributionData.length === 0)) return;
 
     let marks: any[];
     let colorScheme: any = { legend: true };
     let xConfig: any = { label: xAxisLabel };
+    let fxConfig: any = undefined;
     let yConfig: any = {
       label: yAxisLabel,
       domain: yMin !== undefined || yMax !== undefined
@@ -47,7 +51,38 @@ export function BatchPlot({
         : undefined,
     };
 
-    if (plotType === 'histogram' && histogramData) {
+    if (plotType === 'distribution' && distributionData) {
+      // Distribution plot - one facet per histogram bin, bars by cell group with error bars
+      marks = [
+        Plot.barY(distributionData, {
+          fx: 'bin',
+          x: 'group',
+          y: 'mean',
+          fill: 'group',
+        }),
+        Plot.ruleX(distributionData, {
+          fx: 'bin',
+          x: 'group',
+          y1: 'lower',
+          y2: 'upper',
+          stroke: '#666',
+          strokeWidth: 2,
+        }),
+      ];
+
+      xConfig = { axis: null };
+      fxConfig = { label: xAxisLabel };
+      yConfig = {
+        label: yAxisLabel,
+        grid: true,
+        domain: yMin !== undefined || yMax !== undefined
+          ? [yMin ?? 0, yMax ?? undefined]
+          : [0, undefined],
+      };
+      colorScheme = {
+        color: { legend: true, label: 'Cell Group', type: 'ordinal' }
+      };
+    } else if (plotType === 'histogram' && histogramData) {
       // Histogram plot - bars by cell group with error bars
       marks = [
         // Bars
@@ -167,6 +202,7 @@ export function BatchPlot({
       marginRight: 120, // Extra space for legend
       grid: true,
       x: xConfig,
+      ...(fxConfig ? { fx: fxConfig } : {}),
       y: yConfig,
       ...colorScheme,
       marks,
@@ -177,7 +213,7 @@ export function BatchPlot({
     return () => {
       plot.remove();
     };
-  }, [data, dataWithCI, histogramData, xAxisLabel, yAxisLabel, plotType, width, height, yMin, yMax]);
+  }, [data, dataWithCI, histogramData, distributionData, xAxisLabel, yAxisLabel, plotType, width, height, yMin, yMax]);
 
   return <div ref={containerRef} />;
 }
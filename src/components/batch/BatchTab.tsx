@@ -12,7 +12,13 @@ import { ResultsTable } from './ResultsTable';
 import { BatchPlot } from './BatchPlot';
 import { ExtendedExportPanel } from './ExtendedExportPanel';
 import { ExportProgressModal } from './ExportProgressModal';
-import { aggregateByTime, aggregateByXAxisWithCI, aggregateForHistogram } from './plotUtils';
+import {
+  aggregateByTime,
+  aggregateByXAxisWithCI,
+  aggregateForHistogram,
+  aggregateDistribution,
+  getDistributionColumns,
+} from './plotUtils';
 import type { SimulationConfig } from '@/core/params';
 import type {
   BatchData,
@@ -29,6 +35,8 @@ import {
   downloadCSV,
   readFileAsText,
   getTimeSamples,
+  formatParameterValue,
+  runSummaryTable,
   WorkerPool,
 } from '@/core/batch';
 import { runBatchExport, type BatchExportProgress } from '@/core/batch/exportRunner';
@@ -58,6 +66,12 @@ export function BatchTab({ config, onConfigChange: _onConfigChange }: BatchTabPr
     ? currentModel.generateStatistics(config.params)
     : (currentModel?.statistics || []);
   const selectedStats = statistics.map(s => s.id);
+
+  // Statistics of whole runs (first-passage times, durations), one row per run and group
+  const trajectoryStatistics = currentModel?.generateTrajectoryStatistics?.(config.params) ?? [];
+  const summaryTable = batchData?.summaries && trajectoryStatistics.length > 0
+    ? runSummaryTable(batchData.summaries, trajectoryStatistics)
+    : null;
   const [outputMode, setOutputMode] = useState<'time_series' | 'terminal'>('time_series');
   const [resultsColumns, setResultsColumns] = useState<string[]>([]);
   const [resultsRows, setResultsRows] = useState<(string | number)[][]>([]);
@@ -66,7 +80,7 @@ export function BatchTab({ config, onConfigChange: _onConfigChange }: BatchTabPr
   // Plot configuration
   const [plotXAxis, setPlotXAxis] = useState<string>('time_h');
   const [plotYAxis, setPlotYAxis] = useState<string>('');
-  const [plotType, setPlotType] = useState<'line_ci' | 'histogram'>('line_ci');
+  const [plotType, setPlotType] = useState<'line_ci' | 'histogram' | 'distribution'>('line_ci');
   const [plotYMin, setPlotYMin] = useState<string>('');
   const [plotYMax, setPlotYMax] = useState<string>('');
 
@@ -87,7 +101,12 @@ export function BatchTab({ config, onConfigChange: _onConfigChange }: BatchTabPr
   const exportAbortControllerRef = useRef<AbortController | null>(null);
 
   // Calculate total runs
-  const totalRuns = computeTotalRuns(config.parameterRanges, config.seedsPerConfig);
+  const totalRuns = computeTotalRuns(
+    config.parameterRanges,
+    config.seedsPerConfig,
+    config.samplingMode,
+    config.sampleCount
+  );
   const timeSamples = getTimeSamples(config.timeSamples);
   const totalSnapshots = totalRuns * timeSamples.length;
 
@@ -104,7 +123,10 @@ export function BatchTab({ config, onConfigChange: _onConfigChange }: BatchTabPr
           parameter_ranges: config.parameterRanges,
           time_samples: config.timeSamples,
           seeds_per_config: config.seedsPerConfig,
-          sampling_mode: 'grid',
+          sampling_mode: config.samplingMode ?? 'grid',
+          random_sample_count: config.sampleCount,
+          batch_seed: config.batchSeed,
+          derived_parameters: config.derivedParameters,
         },
         {
           onProgress: (p) => {
@@ -183,7 +205,10 @@ export function BatchTab({ config, onConfigChange: _onConfigChange }: BatchTabPr
             parameter_ranges: config.parameterRanges,
             time_samples: config.timeSamples,
             seeds_per_config: config.seedsPerConfig,
-            sampling_mode: 'grid',
+            sampling_mode: config.samplingMode ?? 'grid',
+            random_sample_count: config.sampleCount,
+            batch_seed: config.batchSeed,
+            derived_parameters: config.derivedParameters,
           },
           baseParams: config.params,
           exportMovie: extendedExportConfig.exportMovie,
@@ -310,7 +335,7 @@ export function BatchTab({ config, onConfigChange: _onConfigChange }: BatchTabPr
       // Create one row per cell group
       for (const group of sortedGroups) {
         const row: (string | number)[] = [
-          ...sortedPaths.map((p) => snapshot.sampled_params[p] ?? ''),
+          ...sortedPaths.map((p) => formatParameterValue(snapshot.sampled_params[p])),
           snapshot.run_index,
           snapshot.seed,
           snapshot.time_h,
@@ -368,6 +393,12 @@ export function BatchTab({ config, onConfigChange: _onConfigChange }: BatchTabPr
     downloadCSV(csv, 'batch_statistics.csv');
   };
 
+  // Export per-run trajectory statistics
+  const handleExportSummary = () => {
+    if (!summaryTable) return;
+    downloadCSV(statisticsToCSV(summaryTable.columns, summaryTable.rows), 'batch_summary.csv');
+  };
+
   // Export full per-cell CSV
   const handleExportFullCSV = () => {
     if (!batchData || !currentModel) return;
@@ -434,7 +465,7 @@ export function BatchTab({ config, onConfigChange: _onConfigChange }: BatchTabPr
       for (let i = 0; i < snapshot.data.length; i++) {
         const cellData = snapshot.data[i];
         const row: (string | number)[] = [
-          ...sortedPaths.map((p) => snapshot.sampled_params[p] ?? ''),
+          ...sortedPaths.map((p) => formatParameterValue(snapshot.sampled_params[p])),
           snapshot.run_index,
           snapshot.seed,
           snapshot.time_h,
@@ -485,6 +516,9 @@ export function BatchTab({ config, onConfigChange: _onConfigChange }: BatchTabPr
     col => !['run_index', 'seed', 'time_h', 'cell_group'].includes(col) && !col.includes('.')
   );
 
+  // Histogram statistics (bx_hist0, bx_hist1, ...) that can be plotted as distributions
+  const availableDistributions = getDistributionColumns(availableBaseStats);
+
   // Extract available x-axis options (time_h and parameter paths)
   const availableXAxisOptions = resultsColumns.filter(
     col => col === 'time_h' || (col.includes('.') && !['run_index', 'seed', 'cell_group'].includes(col))
@@ -494,8 +528,11 @@ export function BatchTab({ config, onConfigChange: _onConfigChange }: BatchTabPr
   let plotData: any[] = [];
   let plotDataWithCI: any[] = [];
   let histogramData: any[] = [];
+  let distributionData: any[] = [];
 
-  if (plotType === 'histogram' && plotYAxis) {
+  if (plotType === 'distribution' && plotYAxis) {
+    distributionData = aggregateDistribution(resultsColumns, resultsRows, plotYAxis);
+  } else if (plotType === 'histogram' && plotYAxis) {
     histogramData = aggregateForHistogram(resultsColumns, resultsRows, plotYAxis);
   } else if (plotType === 'line_ci' && plotXAxis && plotYAxis) {
     plotDataWithCI = aggregateByXAxisWithCI(resultsColumns, resultsRows, plotXAxis, plotYAxis);
@@ -525,7 +562,9 @@ export function BatchTab({ config, onConfigChange: _onConfigChange }: BatchTabPr
                   <li key={range.path} className="flex items-center gap-2">
                     <span className="font-mono text-xs">{range.path}</span>
                     <span className="text-muted-foreground">
-                      {range.min} → {range.max} ({range.steps} steps)
+                      {range.values
+                        ? `[${range.values.map(String).join(', ')}]`
+                        : `${range.min} → ${range.max} (${range.steps} steps${range.scale === 'log' ? ', log' : ''})`}
                     </span>
                   </li>
                 ))}
@@ -538,6 +577,12 @@ export function BatchTab({ config, onConfigChange: _onConfigChange }: BatchTabPr
           <div className="space-y-1 text-sm">
             <p>Time samples: {config.timeSamples.start}h → {config.timeSamples.end}h (step {config.timeSamples.step}h)</p>
             <p>Seeds per configuration: {config.seedsPerConfig}</p>
+            {config.samplingMode && config.samplingMode !== 'grid' && (
+              <p>Sampling: {config.samplingMode} ({config.sampleCount ?? 10} samples, seed {config.batchSeed ?? 0})</p>
+            )}
+            {config.derivedParameters?.map((d) => (
+              <p key={d.path} className="font-mono text-xs">{d.path} = {d.expression}</p>
+            ))}
             <p className="text-muted-foreground">
               Total: {totalRuns} run{totalRuns !== 1 ? 's' : ''} × {timeSamples.length} time point{timeSamples.length !== 1 ? 's' : ''} = {totalSnapshots} snapshot{totalSnapshots !== 1 ? 's' : ''}
             </p>
@@ -685,6 +730,25 @@ export function BatchTab({ config, onConfigChange: _onConfigChange }: BatchTabPr
         </Card>
       )}
 
+      {/* Run Summaries */}
+      {summaryTable && summaryTable.rows.length > 0 && (
+        <Card>
+          <CardHeader className="pb-3 flex-row items-center justify-between">
+            <CardTitle className="text-base">Run Summaries</CardTitle>
+            <Button variant="outline" size="sm" onClick={handleExportSummary}>
+              <FileSpreadsheet className="h-4 w-4 mr-1" />
+              Export CSV
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground mb-2">
+              Statistics of each run's whole trajectory (NaN if an event never happened).
+            </p>
+            <ResultsTable columns={summaryTable.columns} rows={summaryTable.rows} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Results */}
       {resultsRows.length > 0 && (
         <Card>
@@ -727,15 +791,18 @@ export function BatchTab({ config, onConfigChange: _onConfigChange }: BatchTabPr
                   <select
                     id="plot-type"
                     value={plotType}
-                    onChange={(e) => setPlotType(e.target.value as 'line_ci' | 'histogram')}
+                    onChange={(e) => setPlotType(e.target.value as 'line_ci' | 'histogram' | 'distribution')}
                     className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm"
                   >
                     <option value="line_ci">Line + CI</option>
                     <option value="histogram">Histogram</option>
+                    {availableDistributions.length > 0 && (
+                      <option value="distribution">Distribution (histogram bins)</option>
+                    )}
                   </select>
                 </div>
 
-                {plotType !== 'histogram' && (
+                {plotType === 'line_ci' && (
                   <div className="space-y-1">
                     <Label htmlFor="plot-x-axis" className="text-sm">
                       X-Axis
@@ -767,7 +834,7 @@ export function BatchTab({ config, onConfigChange: _onConfigChange }: BatchTabPr
                     className="w-full h-9 px-3 rounded-md border border-input bg-background text-sm"
                   >
                     <option value="">Select statistic...</option>
-                    {availableBaseStats.map((stat) => (
+                    {(plotType === 'distribution' ? availableDistributions : availableBaseStats).map((stat) => (
                       <option key={stat} value={stat}>
                         {stat}
                       </option>
@@ -823,6 +890,22 @@ export function BatchTab({ config, onConfigChange: _onConfigChange }: BatchTabPr
                 </div>
               )}
 
+              {plotType === 'distribution' && plotYAxis && distributionData.length > 0 && (
+                <div className="mt-4 border rounded-md p-4 bg-muted/30">
+                  <BatchPlot
+                    data={plotData}
+                    distributionData={distributionData}
+                    xAxisLabel={`${plotYAxis} bin`}
+                    yAxisLabel="Fraction of cells"
+                    plotType={plotType}
+                    width={640}
+                    height={400}
+                    yMin={plotYMin !== '' ? parseFloat(plotYMin) : undefined}
+                    yMax={plotYMax !== '' ? parseFloat(plotYMax) : undefined}
+                  />
+                </div>
+              )}
+
               {plotType === 'line_ci' && plotXAxis && plotYAxis && plotDataWithCI.length > 0 && (
                 <div className="mt-4 border rounded-md p-4 bg-muted/30">
                   <BatchPlot
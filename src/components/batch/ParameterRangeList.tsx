@@ -7,7 +7,8 @@ import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
-import type { ParameterRange } from '@/core/batch';
+import type { ParameterRange, ParameterScale, ParameterValue } from '@/core/batch';
+import { generateParameterConfigs } from '@/core/batch';
 import type { BatchParameterDefinition, BaseSimulationParams } from '@/core/registry/types';
 import { useModel } from '@/contexts';
 
@@ -19,7 +20,7 @@ export interface ParameterRangeListProps {
 }
 
 /** Get a nested value from params using dot notation path */
-function getNestedValue(obj: unknown, path: string): number | undefined {
+function getNestedValue(obj: unknown, path: string): ParameterValue | undefined {
   const parts = path.split('.');
   let current: unknown = obj;
   for (const part of parts) {
@@ -28,7 +29,23 @@ function getNestedValue(obj: unknown, path: string): number | undefined {
     }
     current = (current as Record<string, unknown>)[part];
   }
-  return typeof current === 'number' ? current : undefined;
+  return ['number', 'boolean', 'string'].includes(typeof current)
+    ? (current as ParameterValue)
+    : undefined;
+}
+
+/** Parse a comma-separated list of values (numbers, true/false, or text) */
+function parseValueList(text: string): ParameterValue[] {
+  return text
+    .split(',')
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0)
+    .map((v) => {
+      if (v === 'true') return true;
+      if (v === 'false') return false;
+      const num = Number(v);
+      return isNaN(num) ? v : num;
+    });
 }
 
 export function ParameterRangeList({ ranges, onChange, baseParams, disabled }: ParameterRangeListProps) {
@@ -48,10 +65,50 @@ export function ParameterRangeList({ ranges, onChange, baseParams, disabled }: P
   const availableParams = modelBatchParams.filter((p) => !usedPaths.has(p.path));
 
   const handleAdd = (path: string) => {
-    const baseValue = getNestedValue(baseParams, path) ?? 0;
+    const base = getNestedValue(baseParams, path);
+    const baseValue = typeof base === 'number' ? base : 0;
+    const options = modelBatchParams.find((p) => p.path === path)?.options;
+    if (options && options.length > 0) {
+      onChange([...ranges, { path, min: 0, max: 0, steps: options.length, values: [...options] }]);
+      return;
+    }
     onChange([...ranges, { path, min: baseValue, max: baseValue, steps: 3 }]);
   };
 
+  const handleValuesChange = (index: number, values: ParameterValue[]) => {
+    const updated = [...ranges];
+    updated[index] = { ...updated[index], values, steps: values.length };
+    onChange(updated);
+  };
+
+  // Switch a numeric range between min/max/steps and an explicit value list
+  const handleToggleList = (index: number) => {
+    const range = ranges[index];
+    const updated = [...ranges];
+    if (range.values) {
+      const { values: _values, ...rest } = range;
+      const numbers = range.values.filter((v): v is number => typeof v === 'number');
+      updated[index] = numbers.length > 0
+        ? { ...rest, min: Math.min(...numbers), max: Math.max(...numbers), steps: numbers.length }
+        : rest;
+    } else {
+      const values = generateParameterConfigs([range], 'grid').map((c) => c[range.path]);
+      updated[index] = { ...range, values };
+    }
+    onChange(updated);
+  };
+
+  const handleToggleOption = (index: number, option: ParameterValue) => {
+    const current = ranges[index].values ?? [];
+    const options = modelBatchParams.find((p) => p.path === ranges[index].path)?.options ?? [];
+    const next = current.includes(option)
+      ? current.filter((v) => v !== option)
+      : options.filter((o) => o === option || current.includes(o));
+    if (next.length > 0) {
+      handleValuesChange(index, next);
+    }
+  };
+
   const handleRemove = (index: number) => {
     onChange(ranges.filter((_, i) => i !== index));
   };
@@ -60,6 +117,8 @@ export function ParameterRangeList({ ranges, onChange, baseParams, disabled }: P
     const updated = [...ranges];
     if (field === 'path') {
       updated[index] = { ...updated[index], [field]: value as string };
+    } else if (field === 'scale') {
+      updated[index] = { ...updated[index], scale: value as ParameterScale };
     } else {
       updated[index] = { ...updated[index], [field]: Number(value) };
     }
@@ -107,43 +166,105 @@ export function ParameterRangeList({ ranges, onChange, baseParams, disabled }: P
                 <div className="flex items-center gap-1">
                   <Label className="text-xs text-muted-foreground">Base:</Label>
                   <span className="w-16 h-7 text-xs flex items-center justify-center bg-muted rounded border text-muted-foreground">
-                    {baseValue ?? '—'}
+                    {baseValue !== undefined ? String(baseValue) : '—'}
                   </span>
                 </div>
-                <div className="flex items-center gap-1">
-                  <Label className="text-xs text-muted-foreground">Min:</Label>
-                  <Input
-                    type="number"
-                    value={range.min}
-                    onChange={(e) => handleUpdate(index, 'min', e.target.value)}
-                    disabled={disabled}
-                    className="w-16 h-7 text-xs"
-                    step={valueStep}
-                  />
-                </div>
-                <div className="flex items-center gap-1">
-                  <Label className="text-xs text-muted-foreground">Max:</Label>
-                  <Input
-                    type="number"
-                    value={range.max}
-                    onChange={(e) => handleUpdate(index, 'max', e.target.value)}
-                    disabled={disabled}
-                    className="w-16 h-7 text-xs"
-                    step={valueStep}
-                  />
-                </div>
-                <div className="flex items-center gap-1">
-                  <Label className="text-xs text-muted-foreground">Steps:</Label>
-                  <Input
-                    type="number"
-                    value={range.steps}
-                    onChange={(e) => handleUpdate(index, 'steps', e.target.value)}
+                {range.values ? (
+                  paramInfo?.options ? (
+                    <div className="flex items-center gap-1">
+                      <Label className="text-xs text-muted-foreground">Values:</Label>
+                      {paramInfo.options.map((option) => (
+                        <Button
+                          key={String(option)}
+                          variant={range.values?.includes(option) ? 'default' : 'outline'}
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => handleToggleOption(index, option)}
+                          disabled={disabled}
+                        >
+                          {String(option)}
+                        </Button>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-1">
+                      <Label className="text-xs text-muted-foreground">Values:</Label>
+                      <Input
+                        key={range.values.join(',')}
+                        defaultValue={range.values.join(', ')}
+                        onBlur={(e) => {
+                          const values = parseValueList(e.target.value);
+                          if (values.length > 0) handleValuesChange(index, values);
+                        }}
+                        disabled={disabled}
+                        className="w-40 h-7 text-xs"
+                        placeholder="e.g. 0, 1, 3"
+                      />
+                    </div>
+                  )
+                ) : (
+                  <>
+                    <div className="flex items-center gap-1">
+                      <Label className="text-xs text-muted-foreground">Min:</Label>
+                      <Input
+                        type="number"
+                        value={range.min}
+                        onChange={(e) => handleUpdate(index, 'min', e.target.value)}
+                        disabled={disabled}
+                        className="w-16 h-7 text-xs"
+                        step={valueStep}
+                      />
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Label className="text-xs text-muted-foreground">Max:</Label>
+                      <Input
+                        type="number"
+                        value={range.max}
+                        onChange={(e) => handleUpdate(index, 'max', e.target.value)}
+                        disabled={disabled}
+                        className="w-16 h-7 text-xs"
+                        step={valueStep}
+                      />
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Label className="text-xs text-muted-foreground">Steps:</Label>
+                      <Input
+                        type="number"
+                        value={range.steps}
+                        onChange={(e) => handleUpdate(index, 'steps', e.target.value)}
+                        disabled={disabled}
+                        className="w-14 h-7 text-xs"
+                        min={1}
+                        step={1}
+                      />
+                    </div>
+                    <Select
+                      value={range.scale ?? 'linear'}
+                      onValueChange={(v) => handleUpdate(index, 'scale', v)}
+                      disabled={disabled}
+                    >
+                      <SelectTrigger className="w-16 h-7 text-xs" title="Value spacing">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="linear">lin</SelectItem>
+                        <SelectItem value="log">log</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </>
+                )}
+                {!paramInfo?.options && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => handleToggleList(index)}
                     disabled={disabled}
-                    className="w-14 h-7 text-xs"
-                    min={1}
-                    step={1}
-                  />
-                </div>
+                    title={range.values ? 'Sweep a min/max range' : 'Sweep an explicit list of values'}
+                  >
+                    {range.values ? 'range' : 'list'}
+                  </Button>
+                )}
                 <Button
                   variant="ghost"
                   size="icon"
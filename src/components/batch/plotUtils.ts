@@ -305,6 +305,54 @@ export function aggregateForHistogram(
   return result;
 }
 
+/**
+ * Finds the histogram statistics among result columns: columns named like
+ * "bx_hist0", "bx_hist1", ... give the distribution "bx_hist".
+ *
+ * @param columns - Column names from results table
+ * @returns Distribution names (column prefixes before the bin index)
+ */
+export function getDistributionColumns(columns: string[]): string[] {
+  const prefixes = new Set<string>();
+  for (const col of columns) {
+    const match = /^(.+_hist)\d+$/.exec(col);
+    if (match) prefixes.add(match[1]);
+  }
+  return Array.from(prefixes).sort();
+}
+
+/**
+ * Aggregates the bins of a histogram statistic for a distribution plot,
+ * averaging each bin over all rows per cell group.
+ *
+ * @param columns - Column names from results table
+ * @param rows - Data rows from results table
+ * @param distribution - Distribution name from getDistributionColumns (e.g. "bx_hist")
+ * @returns Array of {bin, group, mean, lower, upper, n} for grouped bars
+ */
+export function aggregateDistribution(
+  columns: string[],
+  rows: (string | number)[][],
+  distribution: string
+): Array<{ bin: number; group: string; mean: number; lower: number; upper: number; n: number }> {
+  const result: Array<{ bin: number; group: string; mean: number; lower: number; upper: number; n: number }> = [];
+
+  for (const col of columns) {
+    if (!col.startsWith(distribution)) continue;
+    const suffix = col.slice(distribution.length);
+    if (!/^\d+$/.test(suffix)) continue;
+
+    const bin = Number(suffix);
+    for (const bar of aggregateForHistogram(columns, rows, col)) {
+      result.push({ bin, ...bar });
+    }
+  }
+
+  result.sort((a, b) => a.bin - b.bin || a.group.localeCompare(b.group));
+
+  return result;
+}
+
 /**
  * Checks if the current results data is compatible with line plots.
  *
@@ -20,6 +20,7 @@ import { ModelParameterPanel } from './ModelParameterPanel';
 import { ParameterRangeList } from '../batch/ParameterRangeList';
 import { TimeSampleConfig } from '../batch/TimeSampleConfig';
 import type { SimulationConfig } from '@/core/params';
+import { SAMPLING_MODES, type SamplingMode } from '@/core/batch';
 import type { BaseSimulationParams } from '@/core/registry';
 import { PARAM_PRESETS, parseSimulationConfigToml, toSimulationConfigToml, encodeParamsToUrl } from '@/core/params';
 import { importXLSXToParams } from '@/models/eht/params/legacy-import';
@@ -66,6 +67,19 @@ export function ParameterConfigView({ config, onConfigChange, disabled }: Parame
     onConfigChange({ ...config, seedsPerConfig: parsed });
   };
 
+  const handleSamplingModeChange = (value: string) => {
+    onConfigChange({ ...config, samplingMode: value as SamplingMode });
+  };
+
+  const handleSampleCountChange = (value: string) => {
+    const parsed = Math.max(1, parseInt(value, 10) || 1);
+    onConfigChange({ ...config, sampleCount: parsed });
+  };
+
+  const handleBatchSeedChange = (value: string) => {
+    onConfigChange({ ...config, batchSeed: parseInt(value, 10) || 0 });
+  };
+
   const handleLoadConfig = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -262,6 +276,60 @@ export function ParameterConfigView({ config, onConfigChange, disabled }: Parame
               className="h-8 w-32"
             />
           </div>
+          <div className="flex items-end gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Sampling mode</Label>
+              <Select
+                value={config.samplingMode ?? 'grid'}
+                onValueChange={handleSamplingModeChange}
+                disabled={disabled}
+              >
+                <SelectTrigger className="h-8 w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SAMPLING_MODES.map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {mode.replace('_', ' ')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {config.samplingMode && config.samplingMode !== 'grid' && (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="sample-count" className="text-xs text-muted-foreground">
+                    Samples
+                  </Label>
+                  <Input
+                    id="sample-count"
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={config.sampleCount ?? 10}
+                    onChange={(e) => handleSampleCountChange(e.target.value)}
+                    disabled={disabled}
+                    className="h-8 w-24"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="batch-seed" className="text-xs text-muted-foreground">
+                    Batch seed
+                  </Label>
+                  <Input
+                    id="batch-seed"
+                    type="number"
+                    step={1}
+                    value={config.batchSeed ?? 0}
+                    onChange={(e) => handleBatchSeedChange(e.target.value)}
+                    disabled={disabled || config.samplingMode === 'sobol'}
+                    className="h-8 w-24"
+                  />
+                </div>
+              </>
+            )}
+          </div>
         </div>
       </CardContent>
     </Card>
@@ -7,11 +7,15 @@ import { SimulationRenderer } from '../../rendering';
 import { useTheme, useModel } from '@/contexts';
 import type { BaseSimulationParams } from '../../core/registry';
 import { MP4VideoEncoder, isMP4Supported } from '../../core/export/videoEncoder';
+import { renderModelScene, supportsSceneExport } from '../../core/export/modelScene';
+import { sceneToSVG } from '../../core/export/svg';
 
 /** Ref interface exposed by SimulationCanvas */
 export interface SimulationCanvasRef {
   /** Get a screenshot of the current canvas as a data URL */
   getScreenshot: () => string | null;
+  /** Get the current frame as an SVG document (null if the model has no vector export) */
+  getSVG: () => string | null;
   /** Start recording video (MP4 format) */
   startRecording: () => Promise<void>;
   /** Capture current frame during recording */
@@ -63,6 +67,16 @@ export const SimulationCanvas = forwardRef<SimulationCanvasRef, SimulationCanvas
       }
       return null;
     },
+    getSVG: () => {
+      if (!state || !supportsSceneExport(currentModel.renderer)) return null;
+      const scene = renderModelScene(currentModel.renderer, state, params, {
+        width: size.width,
+        height: size.height,
+        isDark,
+        renderOptions,
+      });
+      return sceneToSVG(scene);
+    },
     startRecording: async () => {
       if (!canvasRef.current || videoEncoderRef.current) return;
 
@@ -101,7 +115,7 @@ export const SimulationCanvas = forwardRef<SimulationCanvasRef, SimulationCanvas
     isMP4Supported: () => {
       return isMP4Supported();
     },
-  }), []);
+  }), [state, params, size.width, size.height, isDark, currentModel, renderOptions]);
 
   // Measure container size
   const updateSize = useCallback(() => {
@@ -1,7 +1,7 @@
 /**
  * Simulation control buttons (play, pause, reset, step) and time slider.
  */
-import { Play, Pause, RotateCcw, SkipForward, Camera, Video, FileDown, Loader2 } from 'lucide-react';
+import { Play, Pause, RotateCcw, SkipForward, Camera, FileImage, Video, FileDown, Loader2 } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Slider } from '../ui/slider';
 import {
@@ -12,6 +12,17 @@ import {
   SelectValue,
 } from '../ui/select';
 import type { ParamChangeBehavior } from '@/hooks/useSimulation';
+import type { SimulationEvent } from '@/core/interfaces/model';
+
+/** Marker colors, assigned to event types in order of first appearance */
+const EVENT_MARKER_COLORS = [
+  'bg-red-500',
+  'bg-blue-500',
+  'bg-amber-500',
+  'bg-emerald-500',
+  'bg-purple-500',
+  'bg-pink-500',
+];
 
 export interface SimulationControlsProps {
   isRunning: boolean;
@@ -21,6 +32,8 @@ export interface SimulationControlsProps {
   maxSimulatedTime: number;
   /** Whether simulation is computing to catch up to a seek target */
   isCatchingUp: boolean;
+  /** Events drawn as markers above the time slider */
+  events?: SimulationEvent[];
   onStart: () => void;
   onPause: () => void;
   onReset: () => void;
@@ -31,6 +44,7 @@ export interface SimulationControlsProps {
   onParamChangeBehaviorChange: (behavior: ParamChangeBehavior) => void;
   // Export callbacks
   onSaveScreenshot?: () => void;
+  onSaveSVG?: () => void;
   onSaveMovie?: () => void;
   onExportCSV?: () => void;
   isRecording?: boolean;
@@ -44,6 +58,7 @@ export function SimulationControls({
   endTime,
   maxSimulatedTime,
   isCatchingUp,
+  events = [],
   onStart,
   onPause,
   onReset,
@@ -52,6 +67,7 @@ export function SimulationControls({
   paramChangeBehavior,
   onParamChangeBehaviorChange,
   onSaveScreenshot,
+  onSaveSVG,
   onSaveMovie,
   onExportCSV,
   isRecording = false,
@@ -60,6 +76,10 @@ export function SimulationControls({
   // Calculate percentage of simulation that has been computed (for visual feedback)
   const computedPercent = endTime > 0 ? (maxSimulatedTime / endTime) * 100 : 0;
 
+  const eventTypes = [...new Set(events.map((e) => e.type))];
+  const markerColor = (type: string) =>
+    EVENT_MARKER_COLORS[eventTypes.indexOf(type) % EVENT_MARKER_COLORS.length];
+
   const handleSliderChange = (values: number[]) => {
     const newTime = values[0];
     onSeek(newTime);
@@ -74,6 +94,22 @@ export function SimulationControls({
             {time.toFixed(2)}h / {endTime}h
           </span>
         </div>
+        {/* Event markers (click to seek) */}
+        {events.length > 0 && endTime > 0 && (
+          <div className="relative h-2">
+            {events.map((e, i) => (
+              <button
+                key={i}
+                type="button"
+                className={`absolute top-0 h-2 w-0.5 -translate-x-1/2 rounded-sm opacity-70 hover:opacity-100 ${markerColor(e.type)}`}
+                style={{ left: `${Math.min(100, (e.t / endTime) * 100)}%` }}
+                title={`${e.type.replace(/_/g, ' ')} - cell ${e.cell_id} at ${e.t.toFixed(2)}h`}
+                onClick={() => onSeek(e.t)}
+                disabled={isCatchingUp}
+              />
+            ))}
+          </div>
+        )}
         <div className="relative">
           {/* Background track showing computed portion */}
           <div
@@ -149,6 +185,12 @@ export function SimulationControls({
             Screenshot
           </Button>
         )}
+        {onSaveSVG && (
+          <Button onClick={onSaveSVG} variant="outline" size="sm" className="text-xs">
+            <FileImage className="h-3.5 w-3.5 mr-1" />
+            Download SVG
+          </Button>
+        )}
         {onSaveMovie && (
           <Button
             onClick={onSaveMovie}
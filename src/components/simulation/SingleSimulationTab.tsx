@@ -7,6 +7,7 @@ import { useModel } from '@/contexts';
 import { SimulationCanvas, type SimulationCanvasRef } from './SimulationCanvas';
 import { SimulationControls } from './SimulationControls';
 import { FrameStatsPanel } from './FrameStatsPanel';
+import { supportsSceneExport } from '../../core/export/modelScene';
 import { Card } from '../ui/card';
 
 /**
@@ -48,6 +49,7 @@ function SingleSimulationTabInner() {
     isRunning,
     time,
     maxSimulatedTime,
+    events,
     isCatchingUp,
     start,
     pause,
@@ -67,6 +69,19 @@ function SingleSimulationTabInner() {
     }
   }, [time]);
 
+  // SVG: download current frame as a vector image
+  const handleSaveSVG = useCallback(() => {
+    const svg = canvasRef.current?.getSVG();
+    if (svg) {
+      const blob = new Blob([svg], { type: 'image/svg+xml' });
+      const link = document.createElement('a');
+      link.download = `simulation_${time.toFixed(2)}h.svg`;
+      link.href = URL.createObjectURL(blob);
+      link.click();
+      URL.revokeObjectURL(link.href);
+    }
+  }, [time]);
+
   // Movie recording: toggle recording mode using MP4 encoder
   const handleSaveMovie = useCallback(async () => {
     if (isRecording) {
@@ -167,6 +182,7 @@ function SingleSimulationTabInner() {
         endTime={currentParams.general.t_end}
         maxSimulatedTime={maxSimulatedTime}
         isCatchingUp={isCatchingUp}
+        events={events}
         onStart={start}
         onPause={pause}
         onReset={reset}
@@ -175,6 +191,7 @@ function SingleSimulationTabInner() {
         paramChangeBehavior={paramChangeBehavior}
         onParamChangeBehaviorChange={setParamChangeBehavior}
         onSaveScreenshot={handleSaveScreenshot}
+        onSaveSVG={supportsSceneExport(currentModel.renderer) ? handleSaveSVG : undefined}
         onSaveMovie={handleSaveMovie}
         onExportCSV={handleExportCSV}
         isRecording={isRecording}
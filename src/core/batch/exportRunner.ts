@@ -12,8 +12,8 @@ import { MP4VideoEncoder } from '../export/videoEncoder';
 import { ZipBuilder } from '../export/zipBuilder';
 import { stringify as stringifyToml } from '@iarna/toml';
 import type { BaseSimulationParams } from '../registry';
-import type { BatchConfig } from './types';
-import { generateParameterConfigs, getTimeSamples } from './types';
+import type { BatchConfig, ParameterConfig } from './types';
+import { generateBatchConfigs, getTimeSamples } from './types';
 
 export interface BatchExportConfig {
   batchConfig: BatchConfig;
@@ -32,7 +32,7 @@ export interface BatchExportProgress {
   totalRuns: number;
   runProgress: number; // 0-100 within current run
   overallPercent: number;
-  currentConfig?: Record<string, number>;
+  currentConfig?: ParameterConfig;
 }
 
 /**
@@ -54,11 +54,7 @@ export async function runBatchExport(
   }
 
   // Generate parameter configurations
-  const paramConfigs = generateParameterConfigs(
-    config.batchConfig.parameter_ranges,
-    config.batchConfig.sampling_mode,
-    config.batchConfig.random_sample_count
-  );
+  const paramConfigs = generateBatchConfigs(config.baseParams, config.batchConfig);
 
   // Calculate total runs
   const totalRuns = paramConfigs.length * config.batchConfig.seeds_per_config;
@@ -140,7 +136,7 @@ export async function runBatchExport(
 async function runSingleExport(
   model: any,
   baseParams: BaseSimulationParams,
-  paramOverrides: Record<string, number>,
+  paramOverrides: ParameterConfig,
   seed: number,
   runIndex: number,
   config: BatchExportConfig,
@@ -183,7 +179,7 @@ async function runSingleExport(
 
   // Get time samples
   const timeSamples = getTimeSamples(config.batchConfig.time_samples);
-  const endTime = params.general.t_end;
+  const endTime = engine.getEndTime();
 
   // Initialize video encoder if needed
   let videoEncoder: MP4VideoEncoder | null = null;
@@ -196,48 +192,25 @@ async function runSingleExport(
     await videoEncoder.init();
   }
 
-  let nextSampleIndex = 0;
+  let nextSampleIndex = timeSamples.findIndex((s) => s >= 0);
+  if (nextSampleIndex === -1) nextSampleIndex = timeSamples.length;
 
-  // Capture initial state (t=0)
-  if (timeSamples.length > 0 && timeSamples[0] <= 0) {
-    const state = engine.getState();
-    renderer.render(state);
-
-    // Capture screenshot
-    const screenshot = await renderer.getScreenshot();
-    zipBuilder.addFile(
-      `${runDir}/screenshots/t_${timeSamples[0].toFixed(2)}h.png`,
-      screenshot
-    );
-
-    // Capture video frame
-    if (videoEncoder) {
-      const canvas = renderer.getCanvas();
-      if (canvas instanceof HTMLCanvasElement) {
-        await videoEncoder.addFrame(canvas, 0);
-      }
-    }
-
-    nextSampleIndex = 1;
-  }
-
-  // Simulation loop
+  // Simulation loop: advance to the next video frame or screenshot time
   let frameCount = 0;
   const frameDt = 1000 / config.frameRate; // milliseconds per frame
 
-  while (!engine.isComplete()) {
-    // Check for abort
-    if (abortSignal?.aborted) {
+  while (true) {
+    const nextFrameTime = videoEncoder ? (frameCount * frameDt) / 1000 : Infinity;
+    const nextSampleTime = nextSampleIndex < timeSamples.length ? timeSamples[nextSampleIndex] : Infinity;
+    if (!engine.runUntil(Math.min(nextFrameTime, nextSampleTime), { signal: abortSignal })) {
       renderer.destroy();
       throw new Error('Export cancelled by user');
     }
-
-    engine.step();
-    const state = engine.getState() as any;
-    const t = state.t ?? 0;
+    const t = engine.getTime();
+    if (t < nextFrameTime && t < nextSampleTime) break; // Run complete
 
     // Render state
-    renderer.render(state);
+    renderer.render(engine.getState());
 
     // Capture video frame at frame rate intervals
     if (videoEncoder && t * 1000 >= frameCount * frameDt) {
@@ -269,6 +242,8 @@ async function runSingleExport(
       overallPercent: ((runIndex - 1 + progress / 100) / totalRuns) * 100,
       currentConfig: paramOverrides,
     });
+
+    if (engine.isComplete()) break;
   }
 
   // Finalize video
@@ -4,10 +4,16 @@
 
 export type {
   BatchSnapshot,
+  ParameterValue,
+  ParameterConfig,
   ParameterRange,
+  ParameterScale,
+  SamplingMode,
   TimeSampleConfig,
   BatchConfig,
   BatchData,
+  BatchRunSummary,
+  BatchRunResult,
   BatchProgress,
   StatisticsResult,
 } from './types';
@@ -15,18 +21,50 @@ export type {
 export {
   getTimeSamples,
   generateParameterConfigs,
+  generateBatchConfigs,
+  scaleToRange,
+  formatParameterValue,
+  SAMPLING_MODES,
 } from './types';
 
+export {
+  uniformSamples,
+  latinHypercubeSamples,
+  sobolSamples,
+  SOBOL_MAX_DIMS,
+} from './sampling';
+
 export {
   runBatch,
   computeTotalRuns,
 } from './runner';
+export type { BatchResumeData } from './runner';
+
+export type {
+  BatchRunPlan,
+  BatchManifest,
+  BatchManifestEntry,
+} from './manifest';
+
+export {
+  BATCH_MANIFEST_FORMAT,
+  BATCH_MANIFEST_FORMAT_VERSION,
+  planBatchRuns,
+  batchFingerprint,
+  createBatchManifest,
+  markRunCompleted,
+  getPendingRuns,
+  filterCompletedSnapshots,
+  completedRunSummaries,
+  batchManifestFromJSON,
+} from './manifest';
 
 export { WorkerPool } from './workerPool';
 
 export {
   createBatchDataFromSnapshots,
   batchSnapshotsToCSV,
+  batchSnapshotsToCSVRows,
   csvToBatchSnapshots,
   statisticsToCSV,
   downloadCSV,
@@ -37,4 +75,6 @@ export {
   getStatistic,
   getAllStatisticIds,
   listStatistics,
+  listTrajectoryStatistics,
+  runSummaryTable,
 } from './statistics';
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  planBatchRuns,
+  batchFingerprint,
+  createBatchManifest,
+  markRunCompleted,
+  getPendingRuns,
+  filterCompletedSnapshots,
+  completedRunSummaries,
+  batchManifestFromJSON,
+} from './manifest';
+import {
+  batchSnapshotsToCSV,
+  batchSnapshotsToCSVRows,
+  csvToBatchSnapshots,
+} from './serialization';
+import type { BatchConfig, BatchSnapshot } from './types';
+
+const config: BatchConfig = {
+  parameter_ranges: [{ path: 'general.N_emt', min: 0, max: 4, steps: 2 }],
+  time_samples: { start: 0, end: 12, step: 12 },
+  seeds_per_config: 2,
+  sampling_mode: 'grid',
+};
+
+function makeSnapshot(run_index: number, seed: number, time_h: number): BatchSnapshot {
+  return {
+    run_index,
+    seed,
+    time_h,
+    sampled_params: { 'general.N_emt': run_index < 2 ? 0 : 4 },
+    data: [
+      { id: 0, pos_x: 0.1 * run_index, label: 'control' },
+      { id: 1, pos_x: Infinity, label: 'emt' },
+    ],
+  };
+}
+
+describe('planBatchRuns', () => {
+  it('expands configs x seeds with globally incrementing seeds', () => {
+    const runs = planBatchRuns([{ a: 1 }, { a: 2 }], 2, 10);
+    expect(runs.map((r) => [r.run_index, r.config_index, r.seed, r.params.a])).toEqual([
+      [0, 0, 10, 1],
+      [1, 0, 11, 1],
+      [2, 1, 12, 2],
+      [3, 1, 13, 2],
+    ]);
+  });
+});
+
+describe('batchFingerprint', () => {
+  it('ignores key order but detects changed values', () => {
+    const a = batchFingerprint({ general: { dt: 0.1, t_end: 48 } }, config);
+    const b = batchFingerprint({ general: { t_end: 48, dt: 0.1 } }, config);
+    const c = batchFingerprint({ general: { dt: 0.1, t_end: 24 } }, config);
+    const d = batchFingerprint({ general: { dt: 0.1, t_end: 48 } }, { ...config, seeds_per_config: 3 });
+
+    expect(a).toBe(b);
+    expect(c).not.toBe(a);
+    expect(d).not.toBe(a);
+  });
+
+  it('distinguishes Infinity from null', () => {
+    expect(batchFingerprint({ x: Infinity }, config)).not.toBe(batchFingerprint({ x: null }, config));
+  });
+});
+
+describe('batch manifest', () => {
+  it('tracks finished runs and drops snapshots of unfinished runs', () => {
+    const runs = planBatchRuns([{ a: 1 }, { a: 2 }], 2, 42);
+    const manifest = createBatchManifest('abc', runs.length);
+    markRunCompleted(manifest, runs[0]);
+    markRunCompleted(manifest, runs[2]);
+    markRunCompleted(manifest, runs[2]);
+
+    expect(manifest.completed).toHaveLength(2);
+    expect(getPendingRuns(runs, manifest).map((r) => r.run_index)).toEqual([1, 3]);
+
+    const snapshots = [0, 1, 2].map((i) => makeSnapshot(i, 42 + i, 0));
+    expect(filterCompletedSnapshots(snapshots, manifest).map((s) => s.run_index)).toEqual([0, 2]);
+  });
+
+  it('round-trips through JSON and rejects other files', () => {
+    const manifest = createBatchManifest('abc', 4);
+    expect(batchManifestFromJSON(JSON.stringify(manifest))).toEqual(manifest);
+
+    expect(() => batchManifestFromJSON('{}')).toThrow(/Not a batch manifest/);
+    expect(() =>
+      batchManifestFromJSON(JSON.stringify({ ...manifest, format_version: 99 }))
+    ).toThrow(/Unsupported/);
+  });
+
+  it('keeps trajectory statistics of finished runs, including NaN', () => {
+    const runs = planBatchRuns([{ a: 1 }, { a: 2 }], 1, 7);
+    const manifest = createBatchManifest('abc', runs.length);
+    markRunCompleted(manifest, runs[1], { first_time_all: NaN, residence_all: 2.5 });
+
+    const loaded = batchManifestFromJSON(JSON.stringify(manifest));
+    expect(completedRunSummaries(runs, loaded)).toEqual([
+      { run_index: 1, seed: 8, sampled_params: { a: 2 }, values: { first_time_all: NaN, residence_all: 2.5 } },
+    ]);
+  });
+});
+
+describe('appending batch CSV rows', () => {
+  it('produces the same file as writing all snapshots at once', () => {
+    const first = [makeSnapshot(0, 42, 0), makeSnapshot(0, 42, 12)];
+    const second = [makeSnapshot(2, 44, 0), makeSnapshot(2, 44, 12)];
+
+    const header = batchSnapshotsToCSV(first);
+    const columns = header.split('\r\n')[0].split('\t');
+    const appended = `${header}\r\n${batchSnapshotsToCSVRows(second, columns)}`;
+
+    expect(appended).toBe(batchSnapshotsToCSV([...first, ...second]));
+    expect(csvToBatchSnapshots(appended)).toHaveLength(4);
+  });
+
+  it('rejects snapshots with columns missing from the header', () => {
+    const snapshot = makeSnapshot(0, 42, 0);
+    expect(() => batchSnapshotsToCSVRows([snapshot], ['run_index', 'seed', 'time_h'])).toThrow(
+      /not present in the CSV header/
+    );
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Batch run planning and manifests for restartable batches.
+ *
+ * A batch is expanded into a deterministic list of runs (config index x seed).
+ * The manifest records which of those runs have finished, together with a
+ * fingerprint of the batch configuration, so an interrupted batch can be
+ * resumed by running only the missing runs. Trajectory statistics of
+ * finished runs are kept in the manifest, since they cannot be recomputed
+ * from the snapshots.
+ */
+
+import type { BatchConfig, BatchRunSummary, BatchSnapshot, ParameterConfig } from './types';
+
+/** Format identifier written into every manifest file */
+export const BATCH_MANIFEST_FORMAT = 'eht-simulator-batch-manifest';
+
+/** Current manifest format version */
+export const BATCH_MANIFEST_FORMAT_VERSION = 1;
+
+/** A single planned run of a batch */
+export interface BatchRunPlan {
+  run_index: number;
+  config_index: number;
+  seed: number;
+  params: ParameterConfig;
+}
+
+/** A finished run as recorded in the manifest */
+export interface BatchManifestEntry {
+  run_index: number;
+  config_index: number;
+  seed: number;
+  /** Trajectory statistics of the run (NaN is stored as null in JSON) */
+  summary?: Record<string, number>;
+}
+
+/** Record of finished runs of one batch */
+export interface BatchManifest {
+  format: typeof BATCH_MANIFEST_FORMAT;
+  format_version: number;
+  /** Fingerprint of the base parameters and batch configuration */
+  fingerprint: string;
+  total_runs: number;
+  completed: BatchManifestEntry[];
+}
+
+/**
+ * Expand parameter configs into the ordered list of runs.
+ * Seeds increment globally across all runs (not reset per config).
+ */
+export function planBatchRuns(
+  paramConfigs: ParameterConfig[],
+  seedsPerConfig: number,
+  baseSeed: number
+): BatchRunPlan[] {
+  const runs: BatchRunPlan[] = [];
+  let runIndex = 0;
+
+  paramConfigs.forEach((params, configIndex) => {
+    for (let seedOffset = 0; seedOffset < seedsPerConfig; seedOffset++) {
+      runs.push({
+        run_index: runIndex,
+        config_index: configIndex,
+        seed: baseSeed + runIndex,
+        params,
+      });
+      runIndex++;
+    }
+  });
+
+  return runs;
+}
+
+/**
+ * Serialize a value with sorted object keys.
+ * Non-finite numbers are written as strings so they stay distinguishable.
+ */
+function stableStringify(value: unknown): string {
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return JSON.stringify(String(value));
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Compute a fingerprint of a batch setup (FNV-1a over a canonical serialization).
+ * Two batches with the same fingerprint expand into the same runs.
+ */
+export function batchFingerprint(baseParams: unknown, config: BatchConfig): string {
+  const text = stableStringify({ params: baseParams, config });
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * Create an empty manifest for a batch.
+ */
+export function createBatchManifest(fingerprint: string, totalRuns: number): BatchManifest {
+  return {
+    format: BATCH_MANIFEST_FORMAT,
+    format_version: BATCH_MANIFEST_FORMAT_VERSION,
+    fingerprint,
+    total_runs: totalRuns,
+    completed: [],
+  };
+}
+
+/**
+ * Record a run as finished (no-op if it is already recorded).
+ * @param summary - Trajectory statistics of the run, if any
+ */
+export function markRunCompleted(
+  manifest: BatchManifest,
+  run: BatchRunPlan,
+  summary?: Record<string, number>
+): void {
+  if (manifest.completed.some((e) => e.run_index === run.run_index)) return;
+  manifest.completed.push({
+    run_index: run.run_index,
+    config_index: run.config_index,
+    seed: run.seed,
+    ...(summary && Object.keys(summary).length > 0 ? { summary } : {}),
+  });
+}
+
+/**
+ * Runs of the plan that the manifest does not list as finished.
+ * A recorded run only counts if its config index and seed still match.
+ */
+export function getPendingRuns(runs: BatchRunPlan[], manifest: BatchManifest): BatchRunPlan[] {
+  const done = new Set(manifest.completed.map((e) => `${e.run_index}:${e.config_index}:${e.seed}`));
+  return runs.filter((r) => !done.has(`${r.run_index}:${r.config_index}:${r.seed}`));
+}
+
+/**
+ * Keep only snapshots of runs the manifest lists as finished.
+ * Drops rows of a run that was interrupted after partially writing output.
+ */
+export function filterCompletedSnapshots(
+  snapshots: BatchSnapshot[],
+  manifest: BatchManifest
+): BatchSnapshot[] {
+  const done = new Set(manifest.completed.map((e) => `${e.run_index}:${e.seed}`));
+  return snapshots.filter((s) => done.has(`${s.run_index}:${s.seed}`));
+}
+
+/**
+ * Trajectory statistics of the finished runs of a plan, as recorded in the manifest.
+ */
+export function completedRunSummaries(runs: BatchRunPlan[], manifest: BatchManifest): BatchRunSummary[] {
+  const byKey = new Map(manifest.completed.map((e) => [`${e.run_index}:${e.config_index}:${e.seed}`, e]));
+  const summaries: BatchRunSummary[] = [];
+  for (const run of runs) {
+    const summary = byKey.get(`${run.run_index}:${run.config_index}:${run.seed}`)?.summary;
+    if (summary) {
+      summaries.push({ run_index: run.run_index, seed: run.seed, sampled_params: run.params, values: summary });
+    }
+  }
+  return summaries;
+}
+
+/**
+ * Parse a manifest from JSON.
+ * @throws Error if the text is not a manifest of a supported version
+ */
+export function batchManifestFromJSON(json: string): BatchManifest {
+  const parsed = JSON.parse(json);
+
+  if (parsed?.format !== BATCH_MANIFEST_FORMAT) {
+    throw new Error('Not a batch manifest (missing or unknown "format" field)');
+  }
+  if (
+    typeof parsed.format_version !== 'number' ||
+    parsed.format_version > BATCH_MANIFEST_FORMAT_VERSION
+  ) {
+    throw new Error(
+      `Unsupported batch manifest version ${parsed.format_version} (supported: <= ${BATCH_MANIFEST_FORMAT_VERSION})`
+    );
+  }
+  if (typeof parsed.fingerprint !== 'string' || !Array.isArray(parsed.completed)) {
+    throw new Error('Invalid batch manifest: missing fingerprint or completed runs');
+  }
+
+  // JSON has no NaN (e.g. a first-passage time that was never reached)
+  for (const entry of parsed.completed) {
+    for (const [id, value] of Object.entries(entry.summary ?? {})) {
+      if (value === null) entry.summary[id] = NaN;
+    }
+  }
+
+  return parsed as BatchManifest;
+}
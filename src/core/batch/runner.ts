@@ -12,18 +12,40 @@ import type {
   BatchConfig,
   BatchSnapshot,
   BatchData,
+  BatchRunResult,
+  BatchRunSummary,
   BatchProgress,
   ParameterRange,
+  ParameterConfig,
+  SamplingMode,
 } from './types';
-import { generateParameterConfigs, getTimeSamples } from './types';
+import { generateParameterConfigs, generateBatchConfigs, getTimeSamples } from './types';
+import type { BatchManifest, BatchRunPlan } from './manifest';
+import {
+  planBatchRuns,
+  batchFingerprint,
+  getPendingRuns,
+  filterCompletedSnapshots,
+  completedRunSummaries,
+} from './manifest';
 import { WorkerPool } from './workerPool';
 
 export interface BatchRunnerCallbacks {
   onProgress?: (progress: BatchProgress) => void;
   onSnapshot?: (snapshot: BatchSnapshot) => void;
+  /** Called once a run has finished, with all of its snapshots and its trajectory statistics */
+  onRunComplete?: (run: BatchRunPlan, snapshots: BatchSnapshot[], summary: Record<string, number>) => void;
   onComplete?: (data: BatchData) => void;
 }
 
+/** Results of an interrupted batch to continue from */
+export interface BatchResumeData {
+  /** Manifest of finished runs; must match the batch being run */
+  manifest: BatchManifest;
+  /** Snapshots written so far; rows of unfinished runs are dropped */
+  snapshots: BatchSnapshot[];
+}
+
 export interface BatchRunnerOptions {
   /** Use Web Workers for parallel execution. Default: true if supported. */
   parallel?: boolean;
@@ -31,20 +53,23 @@ export interface BatchRunnerOptions {
   workerCount?: number;
   /** Model name to use. If not specified, uses the model from params.metadata.model */
   modelName?: string;
+  /** Skip runs finished in a previous session and merge their snapshots */
+  resume?: BatchResumeData;
 }
 
 /**
- * Run a single simulation and collect snapshots at specified times.
+ * Run a single simulation and collect snapshots at specified times,
+ * and the trajectory statistics of the run.
  */
 function runSingleSimulation(
   model: ModelDefinition<BaseSimulationParams>,
   baseParams: BaseSimulationParams,
-  overrides: Record<string, number>,
+  overrides: ParameterConfig,
   seed: number,
   timeSamples: number[],
   runIndex: number,
   callbacks?: BatchRunnerCallbacks
-): BatchSnapshot[] {
+): BatchRunResult {
   // Apply parameter overrides (structuredClone preserves Infinity values)
   const params = structuredClone(baseParams);
   for (const [path, value] of Object.entries(overrides)) {
@@ -55,51 +80,73 @@ function runSingleSimulation(
   // Create engine
   const engine = new SimulationEngine({ model, params });
   engine.init();
+  engine.trackTrajectoryStatistics();
 
   const snapshots: BatchSnapshot[] = [];
-  let nextSampleIndex = 0;
-
-  // Check if we should sample at t=0
-  if (timeSamples.length > 0 && timeSamples[0] <= 0) {
-    const rows = model.getSnapshot(engine.getState());
+  engine.runWithSamples(timeSamples, (time, state) => {
     const snapshot: BatchSnapshot = {
       run_index: runIndex,
       seed,
-      time_h: 0,
+      time_h: time,
       sampled_params: overrides,
-      data: rows
+      data: model.getSnapshot(state)
     };
     snapshots.push(snapshot);
     callbacks?.onSnapshot?.(snapshot);
-    nextSampleIndex = 1;
+  });
+
+  return { snapshots, summary: engine.getTrajectoryStatistics() };
+}
+
+/**
+ * Expand a batch into runs and work out which still need to be simulated.
+ * When resuming, the manifest must match the batch and the snapshots and
+ * trajectory statistics of finished runs are carried over.
+ */
+function planBatch(
+  baseParams: BaseSimulationParams,
+  config: BatchConfig,
+  resume?: BatchResumeData
+): {
+  runs: BatchRunPlan[];
+  pending: BatchRunPlan[];
+  allSnapshots: BatchSnapshot[];
+  summaries: BatchRunSummary[];
+} {
+  const paramConfigs = generateBatchConfigs(baseParams, config);
+  const runs = planBatchRuns(paramConfigs, config.seeds_per_config, baseParams.general.random_seed);
+
+  if (!resume) {
+    return { runs, pending: runs, allSnapshots: [], summaries: [] };
   }
 
-  // Run simulation
-  while (!engine.isComplete() && nextSampleIndex < timeSamples.length) {
-    engine.step();
-    const state = engine.getState() as any;
-    const t = state.t ?? 0;
-
-    // Check if we've reached a sample time
-    while (
-      nextSampleIndex < timeSamples.length &&
-      t >= timeSamples[nextSampleIndex]
-    ) {
-      const rows = model.getSnapshot(state);
-      const snapshot: BatchSnapshot = {
-        run_index: runIndex,
-        seed,
-        time_h: timeSamples[nextSampleIndex],
-        sampled_params: overrides,
-        data: rows
-      };
-      snapshots.push(snapshot);
-      callbacks?.onSnapshot?.(snapshot);
-      nextSampleIndex++;
-    }
+  if (resume.manifest.fingerprint !== batchFingerprint(baseParams, config)) {
+    throw new Error('Cannot resume batch: parameters or batch configuration changed since the manifest was written.');
   }
 
-  return snapshots;
+  return {
+    runs,
+    pending: getPendingRuns(runs, resume.manifest),
+    allSnapshots: filterCompletedSnapshots(resume.snapshots, resume.manifest),
+    summaries: completedRunSummaries(runs, resume.manifest),
+  };
+}
+
+/**
+ * Summary entry of a finished run.
+ */
+function runSummary(run: BatchRunPlan, summary: Record<string, number>): BatchRunSummary {
+  return { run_index: run.run_index, seed: run.seed, sampled_params: run.params, values: summary };
+}
+
+/**
+ * Sort snapshots by run_index and time_h for consistent ordering.
+ */
+function sortSnapshots(snapshots: BatchSnapshot[]): void {
+  snapshots.sort((a, b) => {
+    if (a.run_index !== b.run_index) return a.run_index - b.run_index;
+    return a.time_h - b.time_h;
+  });
 }
 
 /**
@@ -116,56 +163,51 @@ async function runBatchSequential(
   model: ModelDefinition<BaseSimulationParams>,
   baseParams: BaseSimulationParams,
   config: BatchConfig,
-  callbacks?: BatchRunnerCallbacks
+  callbacks?: BatchRunnerCallbacks,
+  resume?: BatchResumeData
 ): Promise<BatchData> {
-  const paramConfigs = generateParameterConfigs(
-    config.parameter_ranges,
-    config.sampling_mode,
-    config.random_sample_count
-  );
+  const { runs, pending, allSnapshots, summaries } = planBatch(baseParams, config, resume);
   const timeSamples = getTimeSamples(config.time_samples);
 
-  const totalRuns = paramConfigs.length * config.seeds_per_config;
-  const allSnapshots: BatchSnapshot[] = [];
-
-  let runIndex = 0;
+  const totalRuns = runs.length;
+  let completedRuns = totalRuns - pending.length;
 
-  for (const paramConfig of paramConfigs) {
-    for (let seedOffset = 0; seedOffset < config.seeds_per_config; seedOffset++) {
-      // Seed increments globally across all runs (not reset per config)
-      const seed = baseParams.general.random_seed + runIndex;
-
-      // Report progress
-      callbacks?.onProgress?.({
-        current_run: runIndex,
-        total_runs: totalRuns,
-        current_config: paramConfig,
-        is_running: true,
-        is_complete: false,
-      });
-
-      // Yield to allow UI to update
-      await yieldToUI();
-
-      // Run simulation
-      const snapshots = runSingleSimulation(
-        model,
-        baseParams,
-        paramConfig,
-        seed,
-        timeSamples,
-        runIndex,
-        callbacks
-      );
+  for (const run of pending) {
+    // Report progress
+    callbacks?.onProgress?.({
+      current_run: completedRuns,
+      total_runs: totalRuns,
+      current_config: run.params,
+      is_running: true,
+      is_complete: false,
+    });
 
-      allSnapshots.push(...snapshots);
-      runIndex++;
-    }
+    // Yield to allow UI to update
+    await yieldToUI();
+
+    // Run simulation
+    const { snapshots, summary } = runSingleSimulation(
+      model,
+      baseParams,
+      run.params,
+      run.seed,
+      timeSamples,
+      run.run_index,
+      callbacks
+    );
+
+    allSnapshots.push(...snapshots);
+    summaries.push(runSummary(run, summary));
+    callbacks?.onRunComplete?.(run, snapshots, summary);
+    completedRuns++;
   }
 
+  sortSnapshots(allSnapshots);
+
   const batchData: BatchData = {
     config,
     snapshots: allSnapshots,
+    summaries: summaries.sort((a, b) => a.run_index - b.run_index),
     completed_runs: totalRuns,
     total_runs: totalRuns,
   };
@@ -191,44 +233,23 @@ async function runBatchParallel(
   baseParams: BaseSimulationParams,
   config: BatchConfig,
   callbacks?: BatchRunnerCallbacks,
-  workerCount?: number
+  workerCount?: number,
+  resume?: BatchResumeData
 ): Promise<BatchData> {
-  const paramConfigs = generateParameterConfigs(
-    config.parameter_ranges,
-    config.sampling_mode,
-    config.random_sample_count
-  );
+  const { runs, pending, allSnapshots, summaries } = planBatch(baseParams, config, resume);
   const timeSamples = getTimeSamples(config.time_samples);
 
-  const totalRuns = paramConfigs.length * config.seeds_per_config;
-  const allSnapshots: BatchSnapshot[] = [];
-  let completedRuns = 0;
+  const totalRuns = runs.length;
+  let completedRuns = totalRuns - pending.length;
 
   // Create worker pool
   const pool = new WorkerPool(workerCount);
   pool.init();
 
   try {
-    // Build list of all tasks
-    const tasks: Array<{
-      paramConfig: Record<string, number>;
-      seed: number;
-      runIndex: number;
-    }> = [];
-
-    let runIndex = 0;
-    for (const paramConfig of paramConfigs) {
-      for (let seedOffset = 0; seedOffset < config.seeds_per_config; seedOffset++) {
-        // Seed increments globally across all runs (not reset per config)
-        const seed = baseParams.general.random_seed + runIndex;
-        tasks.push({ paramConfig, seed, runIndex });
-        runIndex++;
-      }
-    }
-
     // Report initial progress
     callbacks?.onProgress?.({
-      current_run: 0,
+      current_run: completedRuns,
       total_runs: totalRuns,
       current_config: {},
       is_running: true,
@@ -237,14 +258,14 @@ async function runBatchParallel(
 
     // Submit all tasks and collect results
     // Pass the model ID so workers can look it up from their registry
-    const promises = tasks.map(async (task) => {
-      const snapshots = await pool.submit(
+    const promises = pending.map(async (run) => {
+      const { snapshots, summary } = await pool.submit(
         model.id,
         baseParams,
-        task.paramConfig,
-        task.seed,
+        run.params,
+        run.seed,
         timeSamples,
-        task.runIndex
+        run.run_index
       );
 
       // Report progress after each completion
@@ -252,7 +273,7 @@ async function runBatchParallel(
       callbacks?.onProgress?.({
         current_run: completedRuns,
         total_runs: totalRuns,
-        current_config: task.paramConfig,
+        current_config: run.params,
         is_running: true,
         is_complete: false,
       });
@@ -261,6 +282,8 @@ async function runBatchParallel(
       for (const snapshot of snapshots) {
         callbacks?.onSnapshot?.(snapshot);
       }
+      callbacks?.onRunComplete?.(run, snapshots, summary);
+      summaries.push(runSummary(run, summary));
 
       return snapshots;
     });
@@ -273,11 +296,7 @@ async function runBatchParallel(
       allSnapshots.push(...snapshots);
     }
 
-    // Sort snapshots by run_index and time_h for consistent ordering
-    allSnapshots.sort((a, b) => {
-      if (a.run_index !== b.run_index) return a.run_index - b.run_index;
-      return a.time_h - b.time_h;
-    });
+    sortSnapshots(allSnapshots);
   } finally {
     // Clean up workers
     pool.terminate();
@@ -286,6 +305,7 @@ async function runBatchParallel(
   const batchData: BatchData = {
     config,
     snapshots: allSnapshots,
+    summaries: summaries.sort((a, b) => a.run_index - b.run_index),
     completed_runs: totalRuns,
     total_runs: totalRuns,
   };
@@ -327,16 +347,23 @@ export async function runBatch(
   const useParallel = options?.parallel ?? WorkerPool.isSupported();
 
   if (useParallel && WorkerPool.isSupported()) {
-    return runBatchParallel(model, baseParams, config, callbacks, options?.workerCount);
+    return runBatchParallel(model, baseParams, config, callbacks, options?.workerCount, options?.resume);
   } else {
-    return runBatchSequential(model, baseParams, config, callbacks);
+    return runBatchSequential(model, baseParams, config, callbacks, options?.resume);
   }
 }
 
 /**
  * Compute total number of runs for a config.
  */
-export function computeTotalRuns(ranges: ParameterRange[], seedsPerConfig: number): number {
-  const paramConfigs = generateParameterConfigs(ranges, 'grid');
-  return paramConfigs.length * seedsPerConfig;
+export function computeTotalRuns(
+  ranges: ParameterRange[],
+  seedsPerConfig: number,
+  samplingMode: SamplingMode = 'grid',
+  sampleCount?: number
+): number {
+  if (samplingMode === 'grid' || ranges.length === 0) {
+    return generateParameterConfigs(ranges, 'grid').length * seedsPerConfig;
+  }
+  return (sampleCount ?? 10) * seedsPerConfig;
 }
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { SeededRandom } from '../math/random';
+import { latinHypercubeSamples, sobolSamples, SOBOL_MAX_DIMS } from './sampling';
+import { generateParameterConfigs, type ParameterRange } from './types';
+import { parseSimulationConfigToml, toSimulationConfigToml } from '../params/toml';
+
+const ranges: ParameterRange[] = [
+  { path: 'a', min: 0, max: 10, steps: 3 },
+  { path: 'b', min: 1, max: 100, steps: 3, scale: 'log' },
+];
+
+describe('sobolSamples', () => {
+  it('matches the reference 2D sequence', () => {
+    expect(sobolSamples(8, 2)).toEqual([
+      [0, 0],
+      [0.5, 0.5],
+      [0.75, 0.25],
+      [0.25, 0.75],
+      [0.375, 0.375],
+      [0.875, 0.875],
+      [0.625, 0.125],
+      [0.125, 0.625],
+    ]);
+  });
+
+  it('puts exactly one point in each dyadic interval per dimension', () => {
+    const points = sobolSamples(16, SOBOL_MAX_DIMS);
+    for (let d = 0; d < SOBOL_MAX_DIMS; d++) {
+      const bins = points.map((p) => Math.floor(p[d] * 16)).sort((x, y) => x - y);
+      expect(bins).toEqual(Array.from({ length: 16 }, (_, i) => i));
+    }
+  });
+
+  it('rejects too many dimensions', () => {
+    expect(() => sobolSamples(4, SOBOL_MAX_DIMS + 1)).toThrow(/at most/);
+  });
+});
+
+describe('latinHypercubeSamples', () => {
+  it('hits every stratum exactly once in each dimension', () => {
+    const points = latinHypercubeSamples(10, 3, new SeededRandom(7));
+    for (let d = 0; d < 3; d++) {
+      const strata = points.map((p) => Math.floor(p[d] * 10)).sort((x, y) => x - y);
+      expect(strata).toEqual(Array.from({ length: 10 }, (_, i) => i));
+    }
+  });
+});
+
+describe('generateParameterConfigs', () => {
+  it.each(['random', 'latin_hypercube'] as const)('%s mode is reproducible from batch_seed', (mode) => {
+    const a = generateParameterConfigs(ranges, mode, 20, 123);
+    const b = generateParameterConfigs(ranges, mode, 20, 123);
+    const c = generateParameterConfigs(ranges, mode, 20, 124);
+
+    expect(a).toHaveLength(20);
+    expect(b).toEqual(a);
+    expect(c).not.toEqual(a);
+    for (const config of a) {
+      expect(config.a).toBeGreaterThanOrEqual(0);
+      expect(config.a).toBeLessThan(10);
+      expect(config.b).toBeGreaterThanOrEqual(1);
+      expect(config.b).toBeLessThan(100);
+    }
+  });
+
+  it('spaces log ranges geometrically on the grid', () => {
+    const configs = generateParameterConfigs([ranges[1]], 'grid');
+    expect(configs.map((c) => c.b)).toEqual([1, 10, 100]);
+  });
+
+  it('keeps the linear grid values unchanged', () => {
+    const configs = generateParameterConfigs([ranges[0]], 'grid');
+    expect(configs.map((c) => c.a)).toEqual([0, 5, 10]);
+  });
+
+  it('maps sobol points through the range scale', () => {
+    const configs = generateParameterConfigs(ranges, 'sobol', 2);
+    expect(configs).toEqual([
+      { a: 0, b: 1 },
+      { a: 5, b: 10 },
+    ]);
+  });
+
+  it('rejects log ranges that include zero', () => {
+    expect(() =>
+      generateParameterConfigs([{ path: 'x', min: 0, max: 1, steps: 2, scale: 'log' }], 'grid')
+    ).toThrow(/positive/);
+  });
+});
+
+describe('discrete ranges', () => {
+  const discrete: ParameterRange[] = [
+    { path: 'general.full_circle', min: 0, max: 0, steps: 2, values: [true, false] },
+    { path: 'cell_types.emt.running_mode', min: 0, max: 0, steps: 3, values: [0, 1, 3] },
+  ];
+
+  it('expands lists on the grid', () => {
+    expect(generateParameterConfigs(discrete, 'grid')).toEqual([
+      { 'general.full_circle': true, 'cell_types.emt.running_mode': 0 },
+      { 'general.full_circle': true, 'cell_types.emt.running_mode': 1 },
+      { 'general.full_circle': true, 'cell_types.emt.running_mode': 3 },
+      { 'general.full_circle': false, 'cell_types.emt.running_mode': 0 },
+      { 'general.full_circle': false, 'cell_types.emt.running_mode': 1 },
+      { 'general.full_circle': false, 'cell_types.emt.running_mode': 3 },
+    ]);
+  });
+
+  it('samples only listed values in sampled modes', () => {
+    for (const mode of ['random', 'latin_hypercube', 'sobol'] as const) {
+      for (const config of generateParameterConfigs(discrete, mode, 12, 5)) {
+        expect([true, false]).toContain(config['general.full_circle']);
+        expect([0, 1, 3]).toContain(config['cell_types.emt.running_mode']);
+      }
+    }
+  });
+
+  it('covers every listed value with latin hypercube sampling', () => {
+    const configs = generateParameterConfigs(discrete, 'latin_hypercube', 6, 1);
+    expect(new Set(configs.map((c) => c['cell_types.emt.running_mode']))).toEqual(new Set([0, 1, 3]));
+  });
+
+  it('rejects an empty list', () => {
+    expect(() =>
+      generateParameterConfigs([{ path: 'x', min: 0, max: 0, steps: 0, values: [] }], 'grid')
+    ).toThrow(/empty values/);
+  });
+
+  it('reads values lists from TOML', () => {
+    const config = parseSimulationConfigToml(`
+[[parameter_ranges]]
+path = "cell_types.emt.hetero"
+values = [true, false]
+`);
+    expect(config.parameterRanges[0]).toMatchObject({ values: [true, false], steps: 2 });
+
+    const reparsed = parseSimulationConfigToml(toSimulationConfigToml(config));
+    expect(reparsed.parameterRanges).toEqual(config.parameterRanges);
+  });
+});
+
+describe('sampling settings in TOML', () => {
+  it('round-trips sampling mode, sample count, batch seed and range scale', () => {
+    const config = parseSimulationConfigToml(`
+sampling_mode = "latin_hypercube"
+random_sample_count = 25
+batch_seed = 9
+
+[[parameter_ranges]]
+path = "general.N_emt"
+min = 1
+max = 100
+steps = 1
+scale = "log"
+`);
+
+    expect(config.samplingMode).toBe('latin_hypercube');
+    expect(config.sampleCount).toBe(25);
+    expect(config.batchSeed).toBe(9);
+    expect(config.parameterRanges[0].scale).toBe('log');
+    expect(config.params.sampling_mode).toBeUndefined();
+
+    const reparsed = parseSimulationConfigToml(toSimulationConfigToml(config));
+    expect(reparsed.samplingMode).toBe('latin_hypercube');
+    expect(reparsed.sampleCount).toBe(25);
+    expect(reparsed.batchSeed).toBe(9);
+    expect(reparsed.parameterRanges).toEqual(config.parameterRanges);
+  });
+
+  it('rejects unknown sampling modes', () => {
+    expect(() => parseSimulationConfigToml('sampling_mode = "halton"')).toThrow(/Unknown sampling_mode/);
+  });
+});
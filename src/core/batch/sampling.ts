@@ -0,0 +1,134 @@
+/**
+ * Unit-hypercube samplers for batch parameter sweeps.
+ * Each sampler returns `count` points in [0, 1)^dims; parameter ranges map
+ * the unit coordinates onto their own (linear or log) scale.
+ */
+
+import { SeededRandom } from '../math/random';
+
+/**
+ * Independent uniform samples.
+ * Draw order is point by point, dimension by dimension.
+ */
+export function uniformSamples(count: number, dims: number, rng: SeededRandom): number[][] {
+  const points: number[][] = [];
+  for (let i = 0; i < count; i++) {
+    const point: number[] = [];
+    for (let d = 0; d < dims; d++) {
+      point.push(rng.random());
+    }
+    points.push(point);
+  }
+  return points;
+}
+
+/**
+ * Latin hypercube samples.
+ * Each dimension is split into `count` equal strata and every stratum is hit
+ * exactly once, at a uniformly jittered position.
+ */
+export function latinHypercubeSamples(count: number, dims: number, rng: SeededRandom): number[][] {
+  const points: number[][] = Array.from({ length: count }, () => new Array<number>(dims));
+
+  for (let d = 0; d < dims; d++) {
+    const strata = rng.shuffle(Array.from({ length: count }, (_, i) => i));
+    for (let i = 0; i < count; i++) {
+      points[i][d] = (strata[i] + rng.random()) / count;
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Sobol direction-number parameters (Joe & Kuo, new-joe-kuo-6.21201) for
+ * dimensions 2..21: polynomial degree s, coefficients a and initial m values.
+ * Dimension 1 is the van der Corput sequence in base 2.
+ */
+const SOBOL_PARAMS: ReadonlyArray<{ s: number; a: number; m: number[] }> = [
+  { s: 1, a: 0, m: [1] },
+  { s: 2, a: 1, m: [1, 3] },
+  { s: 3, a: 1, m: [1, 3, 1] },
+  { s: 3, a: 2, m: [1, 1, 1] },
+  { s: 4, a: 1, m: [1, 1, 3, 3] },
+  { s: 4, a: 4, m: [1, 3, 5, 13] },
+  { s: 5, a: 2, m: [1, 1, 5, 5, 17] },
+  { s: 5, a: 4, m: [1, 1, 5, 5, 5] },
+  { s: 5, a: 7, m: [1, 1, 7, 11, 19] },
+  { s: 5, a: 11, m: [1, 1, 5, 1, 1] },
+  { s: 5, a: 13, m: [1, 1, 1, 3, 11] },
+  { s: 5, a: 14, m: [1, 3, 5, 5, 31] },
+  { s: 6, a: 1, m: [1, 3, 3, 9, 7, 49] },
+  { s: 6, a: 13, m: [1, 1, 1, 15, 21, 21] },
+  { s: 6, a: 16, m: [1, 3, 1, 13, 27, 49] },
+  { s: 6, a: 19, m: [1, 1, 1, 15, 7, 5] },
+  { s: 6, a: 22, m: [1, 3, 1, 15, 13, 25] },
+  { s: 6, a: 25, m: [1, 1, 5, 5, 19, 61] },
+  { s: 7, a: 1, m: [1, 3, 7, 11, 23, 15, 103] },
+  { s: 7, a: 4, m: [1, 3, 7, 13, 13, 15, 69] },
+];
+
+/** Number of bits used for Sobol points */
+const SOBOL_BITS = 32;
+
+/** Maximum number of dimensions supported by the Sobol sampler */
+export const SOBOL_MAX_DIMS = SOBOL_PARAMS.length + 1;
+
+/**
+ * Direction numbers for one dimension, scaled to SOBOL_BITS bits.
+ */
+function sobolDirections(dim: number): number[] {
+  const v = new Array<number>(SOBOL_BITS);
+
+  if (dim === 0) {
+    for (let k = 0; k < SOBOL_BITS; k++) {
+      v[k] = 2 ** (SOBOL_BITS - 1 - k);
+    }
+    return v;
+  }
+
+  const { s, a, m } = SOBOL_PARAMS[dim - 1];
+  for (let k = 0; k < Math.min(s, SOBOL_BITS); k++) {
+    v[k] = m[k] * 2 ** (SOBOL_BITS - 1 - k);
+  }
+  for (let k = s; k < SOBOL_BITS; k++) {
+    let value = v[k - s] ^ (v[k - s] >>> s);
+    for (let j = 1; j < s; j++) {
+      if ((a >>> (s - 1 - j)) & 1) {
+        value ^= v[k - j];
+      }
+    }
+    v[k] = value >>> 0;
+  }
+
+  return v;
+}
+
+/**
+ * Sobol low-discrepancy samples (Gray-code order, unscrambled).
+ * The sequence is deterministic and starts at the origin.
+ * @throws Error if more than SOBOL_MAX_DIMS dimensions are requested
+ */
+export function sobolSamples(count: number, dims: number): number[][] {
+  if (dims > SOBOL_MAX_DIMS) {
+    throw new Error(`Sobol sampling supports at most ${SOBOL_MAX_DIMS} parameters, got ${dims}`);
+  }
+
+  const directions = Array.from({ length: dims }, (_, d) => sobolDirections(d));
+  const x = new Array<number>(dims).fill(0);
+  const points: number[][] = [];
+  const scale = 2 ** SOBOL_BITS;
+
+  for (let i = 0; i < count; i++) {
+    points.push(x.map((xi) => xi / scale));
+
+    // Flip the direction number of the lowest zero bit of i
+    let c = 0;
+    while ((i >>> c) & 1) c++;
+    for (let d = 0; d < dims; d++) {
+      x[d] = (x[d] ^ directions[d][c]) >>> 0;
+    }
+  }
+
+  return points;
+}
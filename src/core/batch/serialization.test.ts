@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { batchSnapshotsToCSV, csvToBatchSnapshots, createBatchDataFromSnapshots } from './serialization';
+import type { BatchSnapshot } from './types';
+
+function makeSnapshot(run_index: number, fullCircle: boolean, mode: number): BatchSnapshot {
+  return {
+    run_index,
+    seed: 42 + run_index,
+    time_h: 0,
+    sampled_params: { 'general.full_circle': fullCircle, 'cell_types.emt.running_mode': mode },
+    data: [{ id: 0, pos_x: 1.5, apical_neighbors: '1;2' }],
+  };
+}
+
+describe('batch CSV serialization', () => {
+  it('round-trips boolean and numeric sampled parameters', () => {
+    const snapshots = [makeSnapshot(0, true, 1), makeSnapshot(1, false, 3)];
+    const csv = batchSnapshotsToCSV(snapshots);
+
+    expect(csv.split('\r\n')[0]).toContain('param__general__full_circle');
+    expect(csvToBatchSnapshots(csv)).toEqual(snapshots);
+  });
+
+  it('infers discrete ranges for non-numeric parameters', () => {
+    const data = createBatchDataFromSnapshots([makeSnapshot(0, true, 1), makeSnapshot(1, false, 3)]);
+    const fullCircle = data.config.parameter_ranges.find((r) => r.path === 'general.full_circle');
+    const mode = data.config.parameter_ranges.find((r) => r.path === 'cell_types.emt.running_mode');
+
+    expect(fullCircle?.values).toEqual([true, false]);
+    expect(mode?.values).toBeUndefined();
+  });
+});
@@ -4,7 +4,7 @@
  */
 
 import Papa from 'papaparse';
-import type { BatchSnapshot, BatchData, BatchConfig } from './types';
+import type { BatchSnapshot, BatchData, BatchConfig, ParameterConfig, ParameterRange } from './types';
 
 /** Column separator for parameter paths in CSV headers */
 const PATH_SEPARATOR = '__';
@@ -21,14 +21,24 @@ function columnToPath(column: string): string {
 }
 
 /**
- * Serialize batch snapshots to CSV string.
- * Flattens the generic `data` rows and adds metadata fields.
+ * Infer the type of a CSV cell: numbers, then booleans, else the raw string.
  */
-export function batchSnapshotsToCSV(snapshots: BatchSnapshot[]): string {
-  if (snapshots.length === 0) {
-    return '';
+function parseCSVValue(val: string): number | boolean | string {
+  const num = Number(val);
+  if (!isNaN(num) && val.trim() !== '') {
+    return num;
+  } else if (val === 'true') {
+    return true;
+  } else if (val === 'false') {
+    return false;
   }
+  return val;
+}
 
+/**
+ * Determine the CSV column order for a set of snapshots.
+ */
+function getBatchCSVColumns(snapshots: BatchSnapshot[]): string[] {
   // Collect all parameter paths used
   const paramPaths = new Set<string>();
   for (const snapshot of snapshots) {
@@ -53,7 +63,19 @@ export function batchSnapshotsToCSV(snapshots: BatchSnapshot[]): string {
     return a.localeCompare(b);
   });
 
-  // Build rows
+  return [
+    'run_index',
+    'seed',
+    'time_h',
+    ...sortedPaths.map(pathToColumn),
+    ...sortedDataKeys
+  ];
+}
+
+/**
+ * Flatten snapshots into CSV row objects.
+ */
+function snapshotsToRows(snapshots: BatchSnapshot[]): Record<string, any>[] {
   const rows: Record<string, any>[] = [];
 
   for (const snapshot of snapshots) {
@@ -66,26 +88,53 @@ export function batchSnapshotsToCSV(snapshots: BatchSnapshot[]): string {
       };
 
       // Add parameter columns
-      for (const path of sortedPaths) {
-        row[pathToColumn(path)] = snapshot.sampled_params[path] ?? '';
+      for (const [path, value] of Object.entries(snapshot.sampled_params)) {
+        row[pathToColumn(path)] = value;
       }
 
       rows.push(row);
     }
   }
 
-  // Define column order
-  const columns = [
-    'run_index',
-    'seed',
-    'time_h',
-    ...sortedPaths.map(pathToColumn),
-    ...sortedDataKeys
-  ];
+  return rows;
+}
+
+/**
+ * Serialize batch snapshots to CSV string.
+ * Flattens the generic `data` rows and adds metadata fields.
+ */
+export function batchSnapshotsToCSV(snapshots: BatchSnapshot[]): string {
+  if (snapshots.length === 0) {
+    return '';
+  }
+
+  const columns = getBatchCSVColumns(snapshots);
+  const rows = snapshotsToRows(snapshots);
 
   return Papa.unparse(rows, { columns, delimiter: '\t' });
 }
 
+/**
+ * Serialize batch snapshots to CSV lines without a header, using the column
+ * order of an existing file (for appending runs to it).
+ * @throws Error if the snapshots have columns the header does not contain
+ */
+export function batchSnapshotsToCSVRows(snapshots: BatchSnapshot[], columns: string[]): string {
+  if (snapshots.length === 0) {
+    return '';
+  }
+
+  const known = new Set(columns);
+  const missing = getBatchCSVColumns(snapshots).filter((c) => !known.has(c));
+  if (missing.length > 0) {
+    throw new Error(`Snapshots have columns not present in the CSV header: ${missing.join(', ')}`);
+  }
+
+  const rows = snapshotsToRows(snapshots);
+
+  return Papa.unparse(rows, { columns, delimiter: '\t', header: false });
+}
+
 /**
  * Parse batch snapshots from CSV string.
  */
@@ -124,11 +173,12 @@ export function csvToBatchSnapshots(csv: string): BatchSnapshot[] {
 
     if (!snapshotMap.has(key)) {
       // Extract sampled params
-      const sampledParams: Record<string, number> = {};
+      // Discrete sweeps may hold booleans or strings, not only numbers
+      const sampledParams: ParameterConfig = {};
       for (const col of paramColumns) {
         const val = row[col];
         if (val !== '' && val !== undefined) {
-          sampledParams[columnToPath(col)] = parseFloat(val);
+          sampledParams[columnToPath(col)] = parseCSVValue(val);
         }
       }
 
@@ -147,21 +197,8 @@ export function csvToBatchSnapshots(csv: string): BatchSnapshot[] {
     const dataRow: Record<string, any> = {};
     for (const col of dataColumns) {
       // Simple type inference: check if number
-      const val = row[col];
-      const num = Number(val);
-      // If not NaN and string is not empty, use number. Or should we keep strings?
-      // Models might expect specific types. 
       // For EHT, most are numbers, some strings (comma separated lists).
-      // Let's try parsing as number if it looks like one.
-      if (!isNaN(num) && val.trim() !== '') {
-        dataRow[col] = num;
-      } else if (val === 'true') {
-        dataRow[col] = true;
-      } else if (val === 'false') {
-        dataRow[col] = false;
-      } else {
-        dataRow[col] = val;
-      }
+      dataRow[col] = parseCSVValue(row[col]);
     }
 
     snapshot.data.push(dataRow);
@@ -183,10 +220,11 @@ export function csvToBatchSnapshots(csv: string): BatchSnapshot[] {
  */
 export function createBatchDataFromSnapshots(snapshots: BatchSnapshot[]): BatchData {
   // Infer parameter ranges from data
-  const paramPaths = new Set<string>();
+  const paramValues = new Map<string, Set<ParameterConfig[string]>>();
   for (const s of snapshots) {
-    for (const path of Object.keys(s.sampled_params)) {
-      paramPaths.add(path);
+    for (const [path, value] of Object.entries(s.sampled_params)) {
+      if (!paramValues.has(path)) paramValues.set(path, new Set());
+      paramValues.get(path)!.add(value);
     }
   }
 
@@ -205,12 +243,15 @@ export function createBatchDataFromSnapshots(snapshots: BatchSnapshot[]): BatchD
 
   // Create minimal config
   const config: BatchConfig = {
-    parameter_ranges: Array.from(paramPaths).map((path) => ({
-      path,
-      min: 0,
-      max: 0,
-      steps: 0,
-    })),
+    parameter_ranges: Array.from(paramValues.entries()).map(([path, values]): ParameterRange => {
+      const range: ParameterRange = { path, min: 0, max: 0, steps: 0 };
+      // Non-numeric values can only come from a discrete sweep
+      if (Array.from(values).some((v) => typeof v !== 'number')) {
+        range.values = Array.from(values);
+        range.steps = values.size;
+      }
+      return range;
+    }),
     time_samples: {
       start: sortedTimes[0] ?? 0,
       end: sortedTimes[sortedTimes.length - 1] ?? 48,
@@ -0,0 +1,91 @@
+/**
+ * Single-run simulation task shared by the batch workers.
+ * Used by the browser Web Worker (simulation.worker.ts) and the CLI's
+ * Node worker_threads worker, so both run exactly the same logic.
+ * Models must be registered (e.g. via models/index.worker) before use.
+ */
+
+import { SimulationEngine } from '../simulation/engine';
+import { modelRegistry } from '../registry';
+import { setNestedValue } from '../params';
+import type { BaseSimulationParams } from '../registry';
+import type { BatchSnapshot, BatchRunResult, ParameterConfig } from './types';
+
+/** Message sent to worker to start a simulation */
+export interface WorkerRequest {
+  type: 'run';
+  modelName: string;
+  baseParams: BaseSimulationParams;
+  overrides: ParameterConfig;
+  seed: number;
+  timeSamples: number[];
+  runIndex: number;
+}
+
+/** Message sent from worker with results */
+export interface WorkerResponse {
+  type: 'complete' | 'error';
+  runIndex: number;
+  snapshots?: BatchSnapshot[];
+  summary?: Record<string, number>;
+  error?: string;
+}
+
+/**
+ * Run a single simulation and collect snapshots and trajectory statistics.
+ */
+export function runSimulationTask(request: WorkerRequest): BatchRunResult {
+  const { modelName, baseParams, overrides, seed, timeSamples, runIndex } = request;
+
+  // Get the model from the registry
+  const model = modelRegistry.get(modelName);
+  if (!model) {
+    throw new Error(`Model "${modelName}" not found in worker registry.`);
+  }
+
+  // Apply parameter overrides (structuredClone preserves Infinity values)
+  const params = structuredClone(baseParams);
+  for (const [path, value] of Object.entries(overrides)) {
+    setNestedValue(params, path, value);
+  }
+  params.general.random_seed = seed;
+
+  // Create model-aware engine
+  const engine = new SimulationEngine({ model, params });
+  engine.init();
+  engine.trackTrajectoryStatistics();
+
+  const snapshots: BatchSnapshot[] = [];
+  engine.runWithSamples(timeSamples, (time, state) => {
+    snapshots.push({
+      run_index: runIndex,
+      seed,
+      time_h: time,
+      sampled_params: overrides,
+      data: model.getSnapshot(state)
+    });
+  });
+
+  return { snapshots, summary: engine.getTrajectoryStatistics() };
+}
+
+/**
+ * Run a request and wrap the outcome in a response message.
+ */
+export function handleWorkerRequest(request: WorkerRequest): WorkerResponse {
+  try {
+    const { snapshots, summary } = runSimulationTask(request);
+    return {
+      type: 'complete',
+      runIndex: request.runIndex,
+      snapshots,
+      summary,
+    };
+  } catch (err) {
+    return {
+      type: 'error',
+      runIndex: request.runIndex,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
@@ -3,6 +3,8 @@
  */
 
 import type { StatisticDefinition, SimulationModel } from '../registry/types';
+import type { BatchRunSummary, StatisticsResult } from './types';
+import { formatParameterValue } from './types';
 
 /** Get a statistic by ID from a model */
 export function getStatistic(model: SimulationModel, id: string): StatisticDefinition | undefined {
@@ -14,11 +16,78 @@ export function getAllStatisticIds(model: SimulationModel): string[] {
   return model.statistics?.map((s) => s.id) ?? [];
 }
 
-/** List all statistics with metadata from a model */
-export function listStatistics(model: SimulationModel): Array<{ id: string; label: string; description: string }> {
-  return model.statistics?.map((s) => ({
+/**
+ * List all statistics with metadata from a model.
+ * With params, lists the statistics generated for them (e.g. per cell type).
+ */
+export function listStatistics<Params>(
+  model: SimulationModel<Params>,
+  params?: Params
+): Array<{ id: string; label: string; description: string }> {
+  const statistics = params !== undefined && model.generateStatistics ? model.generateStatistics(params) : model.statistics;
+  return statistics?.map((s) => ({
     id: s.id,
     label: s.label,
     description: s.description,
   })) ?? [];
 }
+
+/**
+ * List the trajectory statistics of a model (reported once per run).
+ */
+export function listTrajectoryStatistics<Params>(
+  model: SimulationModel<Params>,
+  params: Params
+): Array<{ id: string; label: string; description: string }> {
+  return model.generateTrajectoryStatistics?.(params).map((s) => ({
+    id: s.id,
+    label: s.label,
+    description: s.description,
+  })) ?? [];
+}
+
+/**
+ * Tabulate per-run trajectory statistics, like the snapshot statistics:
+ * one row per (run, cell group) and one column per statistic name.
+ * Statistics without a group appear in the 'all' row; missing values are NaN.
+ * @param statistics - Statistics to include (e.g. from generateTrajectoryStatistics)
+ */
+export function runSummaryTable(
+  summaries: BatchRunSummary[],
+  statistics: Array<{ id: string; group?: string }>
+): StatisticsResult {
+  const paramPaths = new Set<string>();
+  for (const s of summaries) {
+    for (const path of Object.keys(s.sampled_params)) {
+      paramPaths.add(path);
+    }
+  }
+  const sortedPaths = Array.from(paramPaths).sort();
+
+  const groups = new Set<string>();
+  const baseNames = new Set<string>();
+  for (const stat of statistics) {
+    baseNames.add(stat.group !== undefined ? stat.id.slice(0, -(stat.group.length + 1)) : stat.id);
+    groups.add(stat.group ?? 'all');
+  }
+  const sortedGroups = Array.from(groups).sort();
+  const sortedBaseNames = Array.from(baseNames).sort();
+
+  const columns = [...sortedPaths, 'run_index', 'seed', 'cell_group', ...sortedBaseNames];
+  const rows: (string | number)[][] = [];
+  for (const summary of [...summaries].sort((a, b) => a.run_index - b.run_index)) {
+    for (const group of sortedGroups) {
+      rows.push([
+        ...sortedPaths.map((p) => formatParameterValue(summary.sampled_params[p])),
+        summary.run_index,
+        summary.seed,
+        group,
+        ...sortedBaseNames.map((name) =>
+          summary.values[`${name}_${group}`] ?? (group === 'all' ? summary.values[name] : undefined) ?? NaN
+        ),
+      ]);
+    }
+  }
+
+  return { columns, rows };
+}
@@ -2,24 +2,50 @@
  * Batch simulation types.
  */
 
+import { SeededRandom } from '../math/random';
+import { setNestedValue } from '../params/merge';
+import { applyDerivedParameters, type DerivedParameter } from '../params/expression';
+import { uniformSamples, latinHypercubeSamples, sobolSamples } from './sampling';
+
+/** Value a swept parameter can take (numeric ranges, or discrete lists) */
+export type ParameterValue = number | boolean | string;
+
+/** One parameter configuration: path -> value */
+export type ParameterConfig = Record<string, ParameterValue>;
+
 /** Single snapshot from a batch run */
 export interface BatchSnapshot {
   run_index: number;
   seed: number;
   time_h: number;
-  sampled_params: Record<string, number>;
+  sampled_params: ParameterConfig;
   // Generic rows instead of specific CellSnapshotMinimal
   data: Record<string, any>[];
 }
 
-/** Parameter range for batch sweeps */
+/** Spacing of values within a parameter range */
+export type ParameterScale = 'linear' | 'log';
+
+/**
+ * Parameter range for batch sweeps.
+ * Either a numeric interval (min/max/steps) or, if `values` is set, a
+ * discrete list such as `[0, 1, 3]` or `[true, false]`.
+ */
 export interface ParameterRange {
   path: string; // e.g., "general.N_emt"
   min: number;
   max: number;
   steps: number;
+  scale?: ParameterScale; // default 'linear'; 'log' requires min, max > 0
+  values?: ParameterValue[]; // discrete values; min/max/steps/scale are ignored
 }
 
+/** How parameter configurations are generated from the ranges */
+export type SamplingMode = 'grid' | 'random' | 'latin_hypercube' | 'sobol';
+
+/** All sampling modes, in display order */
+export const SAMPLING_MODES: SamplingMode[] = ['grid', 'random', 'latin_hypercube', 'sobol'];
+
 /** Time sample configuration */
 export interface TimeSampleConfig {
   start: number; // hours
@@ -32,14 +58,31 @@ export interface BatchConfig {
   parameter_ranges: ParameterRange[];
   time_samples: TimeSampleConfig;
   seeds_per_config: number;
-  sampling_mode: 'grid' | 'random';
-  random_sample_count?: number; // only used if sampling_mode is 'random'
+  sampling_mode: SamplingMode;
+  random_sample_count?: number; // number of samples for all modes except 'grid'
+  batch_seed?: number; // seed for 'random' and 'latin_hypercube' (default 0)
+  derived_parameters?: DerivedParameter[]; // computed per config from other params
+}
+
+/** Trajectory statistics of one finished run */
+export interface BatchRunSummary {
+  run_index: number;
+  seed: number;
+  sampled_params: ParameterConfig;
+  values: Record<string, number>; // Trajectory statistic id -> value
+}
+
+/** Results of a single batch run */
+export interface BatchRunResult {
+  snapshots: BatchSnapshot[];
+  summary: Record<string, number>; // Trajectory statistics; empty if the model has none
 }
 
 /** Full batch data (in memory) */
 export interface BatchData {
   config: BatchConfig;
   snapshots: BatchSnapshot[];
+  summaries?: BatchRunSummary[]; // One per run; absent for batches loaded from CSV
   completed_runs: number;
   total_runs: number;
 }
@@ -48,7 +91,7 @@ export interface BatchData {
 export interface BatchProgress {
   current_run: number;
   total_runs: number;
-  current_config: Record<string, number>;
+  current_config: ParameterConfig;
   is_running: boolean;
   is_complete: boolean;
 }
@@ -68,36 +111,120 @@ export function getTimeSamples(config: TimeSampleConfig): number[] {
   return samples;
 }
 
-/** Generate parameter configs (unchanged mostly) */
+/**
+ * Map a unit coordinate u in [0, 1] onto a parameter range.
+ * Log ranges are uniform in log space (geometric between min and max).
+ */
+export function scaleToRange(range: ParameterRange, u: number): number {
+  if (range.scale === 'log') {
+    return range.min * Math.pow(range.max / range.min, u);
+  }
+  return range.min + u * (range.max - range.min);
+}
+
+/**
+ * Format a parameter value for tables: booleans become 'true'/'false'.
+ */
+export function formatParameterValue(value: ParameterValue | undefined): string | number {
+  if (value === undefined) return '';
+  return typeof value === 'boolean' ? String(value) : value;
+}
+
+/**
+ * Pick the value of a discrete range for a unit coordinate u in [0, 1).
+ * Each value covers an equal share of the unit interval.
+ */
+function pickDiscreteValue(values: ParameterValue[], u: number): ParameterValue {
+  return values[Math.min(Math.floor(u * values.length), values.length - 1)];
+}
+
+function validateRange(range: ParameterRange): void {
+  if (range.values !== undefined) {
+    if (range.values.length === 0) {
+      throw new Error(`Range "${range.path}" has an empty values list`);
+    }
+    return;
+  }
+  if (range.scale === 'log' && !(range.min > 0 && range.max > 0)) {
+    throw new Error(
+      `Log-scaled range "${range.path}" needs positive min and max (got ${range.min}, ${range.max})`
+    );
+  }
+}
+
+/**
+ * Generate parameter configs.
+ * Every mode is deterministic: 'random' and 'latin_hypercube' draw from a
+ * SeededRandom seeded with `batchSeed`; 'sobol' ignores the seed.
+ */
 export function generateParameterConfigs(
   ranges: ParameterRange[],
-  mode: 'grid' | 'random',
-  randomCount?: number
-): Record<string, number>[] {
+  mode: SamplingMode,
+  randomCount?: number,
+  batchSeed: number = 0
+): ParameterConfig[] {
   if (ranges.length === 0) {
     return [{}];
   }
 
+  ranges.forEach(validateRange);
+
   if (mode === 'grid') {
     return generateGridConfigs(ranges);
-  } else {
-    return generateRandomConfigs(ranges, randomCount ?? 10);
   }
+
+  const count = randomCount ?? 10;
+  const dims = ranges.length;
+  let points: number[][];
+  switch (mode) {
+    case 'random':
+      points = uniformSamples(count, dims, new SeededRandom(batchSeed));
+      break;
+    case 'latin_hypercube':
+      points = latinHypercubeSamples(count, dims, new SeededRandom(batchSeed));
+      break;
+    case 'sobol':
+      points = sobolSamples(count, dims);
+      break;
+    default:
+      throw new Error(`Unknown sampling mode: ${mode as string}`);
+  }
+
+  return points.map((point) => {
+    const config: ParameterConfig = {};
+    ranges.forEach((r, d) => {
+      config[r.path] = r.values ? pickDiscreteValue(r.values, point[d]) : scaleToRange(r, point[d]);
+    });
+    return config;
+  });
 }
 
-function generateGridConfigs(ranges: ParameterRange[]): Record<string, number>[] {
-  const rangeValues: { path: string; values: number[] }[] = ranges.map((r) => {
+/**
+ * Value of the i-th grid step of a range.
+ * Linear ranges keep the original min + i * step formula.
+ */
+function gridValue(r: ParameterRange, i: number): number {
+  if (r.scale === 'log') {
+    return scaleToRange(r, i / (r.steps - 1));
+  }
+  return r.min + i * ((r.max - r.min) / (r.steps - 1));
+}
+
+function generateGridConfigs(ranges: ParameterRange[]): ParameterConfig[] {
+  const rangeValues: { path: string; values: ParameterValue[] }[] = ranges.map((r) => {
+    if (r.values) {
+      return { path: r.path, values: [...r.values] };
+    }
     const values: number[] = [];
-    const stepSize = r.steps > 1 ? (r.max - r.min) / (r.steps - 1) : 0;
     for (let i = 0; i < r.steps; i++) {
-      values.push(r.min + i * stepSize);
+      values.push(r.steps > 1 ? gridValue(r, i) : r.min);
     }
     return { path: r.path, values };
   });
 
-  const configs: Record<string, number>[] = [];
+  const configs: ParameterConfig[] = [];
 
-  function recurse(index: number, current: Record<string, number>) {
+  function recurse(index: number, current: ParameterConfig) {
     if (index === rangeValues.length) {
       configs.push({ ...current });
       return;
@@ -114,19 +241,41 @@ function generateGridConfigs(ranges: ParameterRange[]): Record<string, number>[]
   return configs;
 }
 
-function generateRandomConfigs(
-  ranges: ParameterRange[],
-  count: number
-): Record<string, number>[] {
-  const configs: Record<string, number>[] = [];
-
-  for (let i = 0; i < count; i++) {
-    const config: Record<string, number> = {};
-    for (const r of ranges) {
-      config[r.path] = r.min + Math.random() * (r.max - r.min);
+/**
+ * Generate the parameter configs of a batch, including derived parameters.
+ * Each derived parameter is evaluated against the base parameters with the
+ * config's overrides applied, and its value is added to the config so it is
+ * applied before model init and recorded in `sampled_params`.
+ * @throws Error if a derived parameter is also swept or cannot be evaluated
+ */
+export function generateBatchConfigs(
+  baseParams: unknown,
+  config: BatchConfig
+): ParameterConfig[] {
+  const paramConfigs = generateParameterConfigs(
+    config.parameter_ranges,
+    config.sampling_mode,
+    config.random_sample_count,
+    config.batch_seed
+  );
+
+  const derived = config.derived_parameters ?? [];
+  if (derived.length === 0) {
+    return paramConfigs;
+  }
+
+  const swept = new Set(config.parameter_ranges.map((r) => r.path));
+  for (const d of derived) {
+    if (swept.has(d.path)) {
+      throw new Error(`Parameter "${d.path}" is both swept and derived`);
     }
-    configs.push(config);
   }
 
-  return configs;
+  return paramConfigs.map((overrides) => {
+    const params = structuredClone(baseParams);
+    for (const [path, value] of Object.entries(overrides)) {
+      setNestedValue(params, path, value);
+    }
+    return { ...overrides, ...applyDerivedParameters(params, derived) };
+  });
 }
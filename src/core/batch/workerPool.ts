@@ -3,7 +3,7 @@
  */
 
 import type { BaseSimulationParams } from '../registry';
-import type { BatchSnapshot } from './types';
+import type { BatchRunResult, ParameterConfig } from './types';
 import type { WorkerRequest, WorkerResponse } from './simulation.worker';
 
 // Vite worker import - will be resolved at build time
@@ -12,7 +12,7 @@ import SimulationWorker from './simulation.worker?worker';
 /** Task waiting to be executed */
 interface PendingTask {
   request: WorkerRequest;
-  resolve: (snapshots: BatchSnapshot[]) => void;
+  resolve: (result: BatchRunResult) => void;
   reject: (error: Error) => void;
 }
 
@@ -51,16 +51,16 @@ export class WorkerPool {
 
   /**
    * Submit a simulation task to the pool.
-   * Returns a promise that resolves with the snapshots.
+   * Returns a promise that resolves with the snapshots and trajectory statistics.
    */
   submit(
     modelName: string,
     baseParams: BaseSimulationParams,
-    overrides: Record<string, number>,
+    overrides: ParameterConfig,
     seed: number,
     timeSamples: number[],
     runIndex: number
-  ): Promise<BatchSnapshot[]> {
+  ): Promise<BatchRunResult> {
     return new Promise((resolve, reject) => {
       const request: WorkerRequest = {
         type: 'run',
@@ -105,7 +105,7 @@ export class WorkerPool {
 
     if (task) {
       if (response.type === 'complete' && response.snapshots) {
-        task.resolve(response.snapshots);
+        task.resolve({ snapshots: response.snapshots, summary: response.summary ?? {} });
       } else if (response.type === 'error') {
         task.reject(new Error(response.error || 'Unknown worker error'));
       }
@@ -0,0 +1,50 @@
+/**
+ * Draw a frame of any model as a scene, using the model's renderScene hook.
+ */
+
+import type { ModelRenderer } from '../interfaces/renderer';
+import { SceneBuilder, fitViewport, drawSceneScaleBar, type Scene } from './scene';
+
+/** Options for drawing a model frame as a scene */
+export interface ModelSceneOptions {
+  width: number;
+  height: number;
+  isDark: boolean;
+  /** Same toggles as the live renderer (e.g. showCellIds, showScaleBar) */
+  renderOptions?: Record<string, boolean>;
+}
+
+/**
+ * Whether a model renderer can draw scenes (SVG/PNG export).
+ */
+export function supportsSceneExport(renderer: ModelRenderer): boolean {
+  return typeof renderer.renderScene === 'function';
+}
+
+/**
+ * Draw a model frame as a scene, with the same viewport and scale bar as
+ * SimulationRenderer.
+ */
+export function renderModelScene<Params, State>(
+  renderer: ModelRenderer<Params, State>,
+  state: State,
+  params: Params,
+  options: ModelSceneOptions
+): Scene {
+  if (!renderer.renderScene) {
+    throw new Error('This model does not support SVG/PNG export');
+  }
+
+  const { width, height, isDark } = options;
+  const renderOptions = options.renderOptions ?? {};
+  const viewport = fitViewport(renderer.getBoundingBox(params, undefined), width, height);
+  const scene = new SceneBuilder(width, height, viewport, renderer.getBackgroundColor(isDark));
+
+  renderer.renderScene({ scene, isDark, renderOptions }, state, params);
+
+  if (renderOptions.showScaleBar !== false) {
+    drawSceneScaleBar(scene, isDark);
+  }
+
+  return scene.build();
+}
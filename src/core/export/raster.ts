@@ -0,0 +1,269 @@
+/**
+ * Software rasterizer and PNG encoder for scenes.
+ * Pure TypeScript, so frames can be rendered where no canvas is available
+ * (e.g. the CLI on a headless machine). Shapes are anti-aliased by their
+ * distance to each pixel center; text uses a small built-in bitmap font.
+ */
+
+import type { Scene, SceneCircle, SceneEllipse, ScenePolyline, SceneText } from './scene';
+
+/** RGBA pixels, row-major, 4 bytes per pixel */
+export interface RasterImage {
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray;
+}
+
+/** 5x7 bitmap glyphs (rows top to bottom, '1' = ink) */
+const GLYPHS: Record<string, string[]> = {
+  '0': ['01110', '10001', '10011', '10101', '11001', '10001', '01110'],
+  '1': ['00100', '01100', '00100', '00100', '00100', '00100', '01110'],
+  '2': ['01110', '10001', '00001', '00010', '00100', '01000', '11111'],
+  '3': ['11111', '00010', '00100', '00010', '00001', '10001', '01110'],
+  '4': ['00010', '00110', '01010', '10010', '11111', '00010', '00010'],
+  '5': ['11111', '10000', '11110', '00001', '00001', '10001', '01110'],
+  '6': ['00110', '01000', '10000', '11110', '10001', '10001', '01110'],
+  '7': ['11111', '00001', '00010', '00100', '01000', '01000', '01000'],
+  '8': ['01110', '10001', '10001', '01110', '10001', '10001', '01110'],
+  '9': ['01110', '10001', '10001', '01111', '00001', '00010', '01100'],
+  'm': ['00000', '00000', '11010', '10101', '10101', '10001', '10001'],
+  'μ': ['00000', '00000', '10001', '10001', '10011', '11101', '10000'],
+  '-': ['00000', '00000', '00000', '11111', '00000', '00000', '00000'],
+  '.': ['00000', '00000', '00000', '00000', '00000', '00000', '00100'],
+};
+
+/** Glyph width including spacing, in font cells */
+const GLYPH_ADVANCE = 6;
+/** Glyph height, in font cells */
+const GLYPH_ROWS = 7;
+
+/**
+ * Blend a color into one pixel (source-over onto an opaque image).
+ */
+function blendPixel(image: RasterImage, x: number, y: number, color: number, alpha: number): void {
+  if (alpha <= 0 || x < 0 || y < 0 || x >= image.width || y >= image.height) return;
+  const a = Math.min(alpha, 1);
+  const i = (y * image.width + x) * 4;
+  const px = image.pixels;
+  px[i] = px[i] + (((color >> 16) & 0xff) - px[i]) * a;
+  px[i + 1] = px[i + 1] + (((color >> 8) & 0xff) - px[i + 1]) * a;
+  px[i + 2] = px[i + 2] + ((color & 0xff) - px[i + 2]) * a;
+}
+
+/**
+ * Coverage of a pixel by a shape whose edge is at distance `d` from the
+ * pixel center (negative inside), for a shape of thickness `size` pixels.
+ * Shapes thinner than a pixel fade out instead of becoming 1px wide.
+ */
+function coverage(d: number, size: number): number {
+  if (size < 1) {
+    const centerDistance = d + size / 2;
+    return size * Math.max(0, Math.min(1, 1 - centerDistance));
+  }
+  return Math.max(0, Math.min(1, 0.5 - d));
+}
+
+function drawCircle(image: RasterImage, c: SceneCircle): void {
+  const x0 = Math.max(0, Math.floor(c.x - c.r - 1));
+  const x1 = Math.min(image.width - 1, Math.ceil(c.x + c.r + 1));
+  const y0 = Math.max(0, Math.floor(c.y - c.r - 1));
+  const y1 = Math.min(image.height - 1, Math.ceil(c.y + c.r + 1));
+
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      const d = Math.hypot(x + 0.5 - c.x, y + 0.5 - c.y) - c.r;
+      blendPixel(image, x, y, c.color, c.alpha * coverage(d, 2 * c.r));
+    }
+  }
+
+  if (c.stroke) {
+    drawEllipse(image, { kind: 'ellipse', cx: c.x, cy: c.y, rx: c.r, ry: c.r, ...c.stroke });
+  }
+}
+
+function drawPolyline(image: RasterImage, line: ScenePolyline): void {
+  const half = line.width / 2;
+  const pts = line.closed ? [...line.points, line.points[0]] : line.points;
+
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  for (const p of pts) {
+    minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+    minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+  }
+  const x0 = Math.max(0, Math.floor(minX - half - 1));
+  const x1 = Math.min(image.width - 1, Math.ceil(maxX + half + 1));
+  const y0 = Math.max(0, Math.floor(minY - half - 1));
+  const y1 = Math.min(image.height - 1, Math.ceil(maxY + half + 1));
+  if (x0 > x1 || y0 > y1) return;
+
+  // Coverage of the whole polyline, so overlapping segments at joints are
+  // not blended twice
+  const w = x1 - x0 + 1;
+  const cover = new Float32Array(w * (y1 - y0 + 1));
+
+  for (let s = 0; s < pts.length - 1; s++) {
+    const a = pts[s];
+    const b = pts[s + 1];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+
+    const sx0 = Math.max(x0, Math.floor(Math.min(a.x, b.x) - half - 1));
+    const sx1 = Math.min(x1, Math.ceil(Math.max(a.x, b.x) + half + 1));
+    const sy0 = Math.max(y0, Math.floor(Math.min(a.y, b.y) - half - 1));
+    const sy1 = Math.min(y1, Math.ceil(Math.max(a.y, b.y) + half + 1));
+
+    for (let y = sy0; y <= sy1; y++) {
+      for (let x = sx0; x <= sx1; x++) {
+        const px = x + 0.5 - a.x;
+        const py = y + 0.5 - a.y;
+        const t = len2 > 0 ? Math.max(0, Math.min(1, (px * dx + py * dy) / len2)) : 0;
+        const d = Math.hypot(px - t * dx, py - t * dy) - half;
+        const k = (y - y0) * w + (x - x0);
+        cover[k] = Math.max(cover[k], coverage(d, line.width));
+      }
+    }
+  }
+
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      blendPixel(image, x, y, line.color, line.alpha * cover[(y - y0) * w + (x - x0)]);
+    }
+  }
+}
+
+/** Draw an ellipse outline as a closed polyline */
+function drawEllipse(image: RasterImage, e: SceneEllipse): void {
+  const segments = Math.max(16, Math.ceil((Math.PI * (e.rx + e.ry)) / 2));
+  const points = [];
+  for (let i = 0; i < segments; i++) {
+    const angle = (2 * Math.PI * i) / segments;
+    points.push({ x: e.cx + e.rx * Math.cos(angle), y: e.cy + e.ry * Math.sin(angle) });
+  }
+  drawPolyline(image, { kind: 'polyline', points, closed: true, color: e.color, alpha: e.alpha, width: e.width });
+}
+
+function drawText(image: RasterImage, text: SceneText): void {
+  // Cap height is about 70% of the font size
+  const cell = (text.fontSize * 0.7) / GLYPH_ROWS;
+  const chars = Array.from(text.text);
+  const totalWidth = (chars.length * GLYPH_ADVANCE - 1) * cell;
+  const left = text.x - totalWidth / 2;
+  const top = text.y - (GLYPH_ROWS * cell) / 2;
+  const weight = text.bold ? 1 : 0;
+
+  chars.forEach((ch, index) => {
+    const glyph = GLYPHS[ch];
+    if (!glyph) return;
+    const gx = left + index * GLYPH_ADVANCE * cell;
+    glyph.forEach((row, r) => {
+      for (let c = 0; c < row.length; c++) {
+        if (row[c] !== '1') continue;
+        const px0 = Math.round(gx + c * cell);
+        const px1 = Math.max(px0 + 1, Math.round(gx + (c + 1) * cell)) + weight;
+        const py0 = Math.round(top + r * cell);
+        const py1 = Math.max(py0 + 1, Math.round(top + (r + 1) * cell));
+        for (let y = py0; y < py1; y++) {
+          for (let x = px0; x < px1; x++) {
+            blendPixel(image, x, y, text.color, 1);
+          }
+        }
+      }
+    });
+  });
+}
+
+/**
+ * Rasterize a scene into RGBA pixels.
+ */
+export function rasterizeScene(scene: Scene): RasterImage {
+  const width = Math.round(scene.width);
+  const height = Math.round(scene.height);
+  const image: RasterImage = { width, height, pixels: new Uint8ClampedArray(width * height * 4) };
+
+  const bg = scene.background;
+  for (let i = 0; i < width * height; i++) {
+    image.pixels[i * 4] = (bg >> 16) & 0xff;
+    image.pixels[i * 4 + 1] = (bg >> 8) & 0xff;
+    image.pixels[i * 4 + 2] = bg & 0xff;
+    image.pixels[i * 4 + 3] = 255;
+  }
+
+  for (const p of scene.primitives) {
+    if (p.kind === 'circle') drawCircle(image, p);
+    else if (p.kind === 'polyline') drawPolyline(image, p);
+    else if (p.kind === 'ellipse') drawEllipse(image, p);
+    else drawText(image, p);
+  }
+
+  return image;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * Encode an image as PNG (8-bit RGBA, no filtering).
+ * The zlib compressor is passed in so this module stays platform
+ * independent (e.g. `zlib.deflateSync` in Node).
+ */
+export function encodePNG(image: RasterImage, deflate: (data: Uint8Array) => Uint8Array): Uint8Array {
+  const { width, height, pixels } = image;
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // color type: RGBA
+  // compression, filter and interlace methods are all 0
+
+  // Each scanline starts with its filter type (0 = none)
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const chunks = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflate(raw)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ];
+
+  const png = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const c of chunks) {
+    png.set(c, offset);
+    offset += c.length;
+  }
+  return png;
+}
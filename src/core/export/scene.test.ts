@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { deflateSync, inflateSync } from 'zlib';
+import { SceneBuilder, fitViewport } from './scene';
+import { sceneToSVG } from './svg';
+import { rasterizeScene, encodePNG } from './raster';
+import { renderModelScene } from './modelScene';
+import { ToyModel } from '@/models/toy';
+
+function testScene() {
+  // 10 x 10 simulation units around the origin, fitted into 100 x 100 px
+  const viewport = fitViewport({ minX: -5, maxX: 5, minY: -5, maxY: 5 }, 100, 100);
+  const scene = new SceneBuilder(100, 100, viewport, 0xffffff);
+  scene.circle(0, 0, 2, 0xff0000);
+  scene.polyline([{ x: -4, y: 4 }, { x: 4, y: 4 }], { color: 0x0000ff, width: 0.5 });
+  scene.screenText(50, 90, '12', { color: 0x000000, fontSize: 10 });
+  return scene.build();
+}
+
+describe('scene export', () => {
+  it('maps simulation coordinates to pixels with y flipped', () => {
+    const [circle, line] = testScene().primitives;
+    expect(circle).toMatchObject({ kind: 'circle', x: 50, y: 50 });
+    expect((circle as { r: number }).r).toBeCloseTo(2 * (100 / 12));
+    expect((line as { points: { y: number }[] }).points[0].y).toBeLessThan(50);
+  });
+
+  it('writes SVG elements for each primitive', () => {
+    const svg = sceneToSVG(testScene());
+    expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg" width="100" height="100"');
+    expect(svg).toContain('fill="#ff0000"');
+    expect(svg).toContain('<polyline');
+    expect(svg).toContain('>12</text>');
+  });
+
+  it('rasterizes shapes onto the background', () => {
+    const image = rasterizeScene(testScene());
+    const pixel = (x: number, y: number) => Array.from(image.pixels.subarray((y * 100 + x) * 4, (y * 100 + x) * 4 + 4));
+    expect(pixel(50, 50)).toEqual([255, 0, 0, 255]);
+    expect(pixel(5, 95)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('encodes a valid PNG', () => {
+    const image = rasterizeScene(testScene());
+    const png = encodePNG(image, (data) => deflateSync(data));
+
+    expect(Array.from(png.subarray(0, 8))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const view = new DataView(png.buffer, png.byteOffset);
+    expect(view.getUint32(16)).toBe(100); // IHDR width
+    expect(view.getUint32(20)).toBe(100); // IHDR height
+
+    // IDAT holds one filter byte plus RGBA pixels per row
+    const idatLength = view.getUint32(33);
+    const raw = inflateSync(png.subarray(41, 41 + idatLength));
+    expect(raw.length).toBe(100 * (100 * 4 + 1));
+    expect(Array.from(raw.subarray(1, 5))).toEqual([255, 255, 255, 255]);
+  });
+
+  it('draws any model with a renderScene hook', () => {
+    const params = { ...ToyModel.defaultParams, general: { ...ToyModel.defaultParams.general, N: 3 } };
+    const state = ToyModel.init(params);
+    const options = { width: 200, height: 200, isDark: false };
+
+    const scene = renderModelScene(ToyModel.renderer, state, params, options);
+    const circles = scene.primitives.filter((p) => p.kind === 'circle');
+    expect(circles).toHaveLength(3);
+    expect(circles[0]).toMatchObject({ color: 0x4a90d9, alpha: 0.6, stroke: { color: 0x2c5282 } });
+    expect(scene.primitives.some((p) => p.kind === 'text' && p.text === '10 μm')).toBe(true);
+
+    const withoutBar = renderModelScene(ToyModel.renderer, state, params, {
+      ...options,
+      renderOptions: { showScaleBar: false },
+    });
+    expect(withoutBar.primitives.some((p) => p.kind === 'text')).toBe(false);
+    expect(sceneToSVG(withoutBar)).toContain('stroke="#2c5282"');
+  });
+});
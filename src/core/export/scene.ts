@@ -0,0 +1,247 @@
+/**
+ * Renderer-independent drawing of simulation frames.
+ *
+ * A Scene is a flat list of drawing primitives in pixel coordinates (y down).
+ * Models draw into a SceneBuilder using simulation coordinates, with the same
+ * viewport fitting as SimulationRenderer. Scenes can then be written as SVG
+ * or rasterized to PNG without PixiJS or a DOM (e.g. from the CLI).
+ */
+
+import type { BoundingBox } from '../interfaces/renderer';
+import { defaultTheme, darkTheme } from '../../rendering/themes';
+
+/** Outline of a filled shape */
+export interface SceneStroke {
+  color: number;
+  alpha: number;
+  width: number;
+}
+
+/** A filled circle, optionally outlined */
+export interface SceneCircle {
+  kind: 'circle';
+  x: number;
+  y: number;
+  r: number;
+  color: number;
+  alpha: number;
+  stroke?: SceneStroke;
+}
+
+/** A stroked polyline (one or more connected segments) */
+export interface ScenePolyline {
+  kind: 'polyline';
+  points: { x: number; y: number }[];
+  closed: boolean;
+  color: number;
+  alpha: number;
+  width: number;
+}
+
+/** A stroked axis-aligned ellipse outline */
+export interface SceneEllipse {
+  kind: 'ellipse';
+  cx: number;
+  cy: number;
+  rx: number;
+  ry: number;
+  color: number;
+  alpha: number;
+  width: number;
+}
+
+/** A text label, anchored at its center */
+export interface SceneText {
+  kind: 'text';
+  x: number;
+  y: number;
+  text: string;
+  color: number;
+  fontSize: number;
+  bold: boolean;
+}
+
+export type ScenePrimitive = SceneCircle | ScenePolyline | SceneEllipse | SceneText;
+
+/** A complete frame */
+export interface Scene {
+  width: number;
+  height: number;
+  background: number;
+  primitives: ScenePrimitive[];
+}
+
+/** Mapping from simulation coordinates to pixels */
+export interface SceneViewport {
+  scale: number;
+  centerX: number;
+  centerY: number;
+}
+
+/**
+ * Fit a bounding box into a canvas with 10% padding on each side
+ * (same as SimulationRenderer).
+ */
+export function fitViewport(bounds: BoundingBox, width: number, height: number): SceneViewport {
+  const padding = 0.1;
+  const simWidth = (bounds.maxX - bounds.minX) * (1 + 2 * padding);
+  const simHeight = (bounds.maxY - bounds.minY) * (1 + 2 * padding);
+
+  return {
+    scale: Math.min(width / simWidth, height / simHeight),
+    centerX: (bounds.minX + bounds.maxX) / 2,
+    centerY: (bounds.minY + bounds.maxY) / 2,
+  };
+}
+
+/**
+ * Collects primitives for one frame.
+ * World-space methods take simulation coordinates and lengths; screen-space
+ * methods take pixels.
+ */
+export class SceneBuilder {
+  private primitives: ScenePrimitive[] = [];
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    readonly viewport: SceneViewport,
+    private background: number
+  ) {}
+
+  /** Convert a simulation x coordinate to pixels */
+  toScreenX(x: number): number {
+    return this.width / 2 + (x - this.viewport.centerX) * this.viewport.scale;
+  }
+
+  /** Convert a simulation y coordinate to pixels (y is flipped) */
+  toScreenY(y: number): number {
+    return this.height / 2 - (y - this.viewport.centerY) * this.viewport.scale;
+  }
+
+  /** Filled circle in simulation coordinates, with an optional outline */
+  circle(
+    x: number,
+    y: number,
+    r: number,
+    color: number,
+    alpha = 1,
+    stroke?: { color: number; alpha?: number; width: number }
+  ): void {
+    this.primitives.push({
+      kind: 'circle',
+      x: this.toScreenX(x),
+      y: this.toScreenY(y),
+      r: r * this.viewport.scale,
+      color,
+      alpha,
+      ...(stroke && {
+        stroke: { color: stroke.color, alpha: stroke.alpha ?? 1, width: stroke.width * this.viewport.scale },
+      }),
+    });
+  }
+
+  /** Stroked polyline in simulation coordinates */
+  polyline(
+    points: { x: number; y: number }[],
+    stroke: { color: number; alpha?: number; width: number },
+    closed = false
+  ): void {
+    if (points.length < 2) return;
+    this.screenPolyline(
+      points.map((p) => ({ x: this.toScreenX(p.x), y: this.toScreenY(p.y) })),
+      { ...stroke, width: stroke.width * this.viewport.scale },
+      closed
+    );
+  }
+
+  /** Stroked ellipse outline in simulation coordinates */
+  ellipse(
+    cx: number,
+    cy: number,
+    rx: number,
+    ry: number,
+    stroke: { color: number; alpha?: number; width: number }
+  ): void {
+    this.primitives.push({
+      kind: 'ellipse',
+      cx: this.toScreenX(cx),
+      cy: this.toScreenY(cy),
+      rx: rx * this.viewport.scale,
+      ry: ry * this.viewport.scale,
+      color: stroke.color,
+      alpha: stroke.alpha ?? 1,
+      width: stroke.width * this.viewport.scale,
+    });
+  }
+
+  /** Stroked polyline in pixels */
+  screenPolyline(
+    points: { x: number; y: number }[],
+    stroke: { color: number; alpha?: number; width: number },
+    closed = false
+  ): void {
+    if (points.length < 2) return;
+    this.primitives.push({
+      kind: 'polyline',
+      points,
+      closed,
+      color: stroke.color,
+      alpha: stroke.alpha ?? 1,
+      width: stroke.width,
+    });
+  }
+
+  /** Text label centered at a pixel position */
+  screenText(
+    x: number,
+    y: number,
+    text: string,
+    style: { color: number; fontSize: number; bold?: boolean }
+  ): void {
+    this.primitives.push({
+      kind: 'text',
+      x,
+      y,
+      text,
+      color: style.color,
+      fontSize: style.fontSize,
+      bold: style.bold ?? false,
+    });
+  }
+
+  /** Finish the frame */
+  build(): Scene {
+    return {
+      width: this.width,
+      height: this.height,
+      background: this.background,
+      primitives: this.primitives,
+    };
+  }
+}
+
+/**
+ * Draw the scale bar in the bottom-right corner (same layout as SimulationRenderer).
+ * 10 μm = 2 simulation units.
+ */
+export function drawSceneScaleBar(scene: SceneBuilder, isDark: boolean): void {
+  const barLengthScreen = 2 * scene.viewport.scale;
+  const padding = 20;
+  const barX = scene.width - padding - barLengthScreen;
+  const barY = scene.height - padding - 10;
+
+  const theme = isDark ? darkTheme : defaultTheme;
+  const stroke = { color: theme.scaleBar, width: 2 };
+  scene.screenPolyline([{ x: barX, y: barY }, { x: barX + barLengthScreen, y: barY }], stroke);
+  scene.screenPolyline([{ x: barX, y: barY - 5 }, { x: barX, y: barY + 5 }], stroke);
+  scene.screenPolyline(
+    [{ x: barX + barLengthScreen, y: barY - 5 }, { x: barX + barLengthScreen, y: barY + 5 }],
+    stroke
+  );
+
+  scene.screenText(barX + barLengthScreen / 2, barY + 8 + 6, '10 μm', {
+    color: theme.text,
+    fontSize: 12,
+  });
+}
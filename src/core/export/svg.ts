@@ -0,0 +1,68 @@
+/**
+ * SVG output for scenes.
+ */
+
+import type { Scene, ScenePrimitive } from './scene';
+
+/** Format a 0xRRGGBB color as #rrggbb */
+function hexColor(color: number): string {
+  return `#${color.toString(16).padStart(6, '0')}`;
+}
+
+/** Round coordinates to keep files small */
+function num(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function primitiveToSVG(p: ScenePrimitive): string {
+  switch (p.kind) {
+    case 'circle': {
+      const opacity = p.alpha < 1 ? ` fill-opacity="${num(p.alpha)}"` : '';
+      const stroke = p.stroke
+        ? ` stroke="${hexColor(p.stroke.color)}" stroke-width="${num(p.stroke.width)}"` +
+          (p.stroke.alpha < 1 ? ` stroke-opacity="${num(p.stroke.alpha)}"` : '')
+        : '';
+      return `<circle cx="${num(p.x)}" cy="${num(p.y)}" r="${num(p.r)}" fill="${hexColor(p.color)}"${opacity}${stroke}/>`;
+    }
+    case 'polyline': {
+      const tag = p.closed ? 'polygon' : 'polyline';
+      const points = p.points.map((pt) => `${num(pt.x)},${num(pt.y)}`).join(' ');
+      const opacity = p.alpha < 1 ? ` stroke-opacity="${num(p.alpha)}"` : '';
+      return `<${tag} points="${points}" fill="none" stroke="${hexColor(p.color)}" stroke-width="${num(p.width)}"${opacity}/>`;
+    }
+    case 'ellipse': {
+      const opacity = p.alpha < 1 ? ` stroke-opacity="${num(p.alpha)}"` : '';
+      return `<ellipse cx="${num(p.cx)}" cy="${num(p.cy)}" rx="${num(p.rx)}" ry="${num(p.ry)}" fill="none" stroke="${hexColor(p.color)}" stroke-width="${num(p.width)}"${opacity}/>`;
+    }
+    case 'text': {
+      const weight = p.bold ? ' font-weight="bold"' : '';
+      return (
+        `<text x="${num(p.x)}" y="${num(p.y)}" font-family="monospace" font-size="${p.fontSize}"${weight}` +
+        ` fill="${hexColor(p.color)}" text-anchor="middle" dominant-baseline="central">${escapeXml(p.text)}</text>`
+      );
+    }
+  }
+}
+
+/**
+ * Serialize a scene as a standalone SVG document.
+ */
+export function sceneToSVG(scene: Scene): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}" viewBox="0 0 ${scene.width} ${scene.height}">`,
+    `<rect width="100%" height="100%" fill="${hexColor(scene.background)}"/>`,
+    ...scene.primitives.map(primitiveToSVG),
+    '</svg>',
+    '',
+  ];
+  return lines.join('\n');
+}
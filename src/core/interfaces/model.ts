@@ -10,8 +10,34 @@ interface StatisticDefinition<State = unknown> {
     id: string;
     label: string;
     description: string;
+    group?: string;
     compute: (state: State) => number;
 }
+
+/**
+ * Per-run accumulator of a trajectory statistic.
+ */
+export interface TrajectoryObserver<State = unknown> {
+    /** Called with the initial state and after every step */
+    observe(state: State): void;
+    /** Value over the observed trajectory (NaN if undefined, e.g. an event that never happened) */
+    result(): number;
+}
+
+/**
+ * Statistic of a whole run rather than of a single state, such as a
+ * first-passage time or a time-integrated quantity. Each run creates a
+ * fresh observer that sees every state of the trajectory.
+ */
+export interface TrajectoryStatisticDefinition<Params = unknown, State = unknown> {
+    id: string;
+    label: string;
+    description: string;
+    /** Cell group the statistic is computed for; the id is then `<name>_<group>` */
+    group?: string;
+    create: (params: Params) => TrajectoryObserver<State>;
+}
+
 interface BatchParameterDefinition {
     path: string;
     label: string;
@@ -22,6 +48,38 @@ interface BatchParameterDefinition {
 /** Row type for CSV/snapshot serialization (inherently untyped) */
 type SnapshotRow = Record<string, string | number | boolean>;
 
+/**
+ * A discrete event in a simulation (e.g. a division or adhesion loss).
+ */
+export interface SimulationEvent {
+    /** Simulation time (hours) */
+    t: number;
+    /** Model-specific event type */
+    type: string;
+    cell_id: number;
+    /** Cell position when the event happened */
+    x: number;
+    y: number;
+}
+
+/**
+ * Statistics of a model's adaptive substep controller.
+ */
+export interface SubstepStats {
+    /** Accepted substeps since the start of the run */
+    substeps: number;
+    /** Rejected substep attempts since the start of the run */
+    rejected: number;
+    /** Accepted substeps in the last step */
+    last_substeps: number;
+    /** Rejected substep attempts in the last step */
+    last_rejected: number;
+    /** Shortest accepted substep in the last step */
+    last_min_dt: number;
+    /** Longest accepted substep in the last step */
+    last_max_dt: number;
+}
+
 /**
  * Props passed to model-specific UI tab components.
  */
@@ -114,6 +172,29 @@ export interface SimulationModel<Params = any, State = any> {
      */
     step(state: State, dt: number, params: Params): State;
 
+    // Time
+    /**
+     * Simulation time of a state.
+     */
+    getTime(state: State): number;
+
+    /**
+     * Length of one time step (the dt passed to step).
+     */
+    getTimeStep(params: Params): number;
+
+    /**
+     * Time at which a run is complete.
+     */
+    getEndTime(params: Params): number;
+
+    /**
+     * Number of steps taken to reach a state (optional). Snapshot intervals
+     * count from it, so they carry on across checkpoints; without it they
+     * count the steps since init or the last restored checkpoint.
+     */
+    getStepCount?(state: State): number;
+
     // I/O & Serialization
     /**
      * Convert the state into a flat list of objects suitable for CSV export.
@@ -132,6 +213,31 @@ export interface SimulationModel<Params = any, State = any> {
      */
     exportCellMetrics?(state: State, params: Params): SnapshotRow[];
 
+    /**
+     * Serialize the complete state for a checkpoint (optional).
+     * Unlike getSnapshot, this must be lossless: loadCheckpoint(saveCheckpoint(s))
+     * has to continue the exact same trajectory as s. The result must be plain data.
+     */
+    saveCheckpoint?(state: State): unknown;
+
+    /**
+     * Restore a state from data produced by saveCheckpoint (optional).
+     */
+    loadCheckpoint?(data: unknown, params: Params): State;
+
+    /**
+     * All events emitted so far, in time order (optional).
+     * The list only grows while stepping, so new events are those past the
+     * previously seen length.
+     */
+    getEvents?(state: State): SimulationEvent[];
+
+    /**
+     * Substep statistics (optional), or undefined if the model runs with a
+     * fixed number of substeps.
+     */
+    getSubstepStats?(state: State): SubstepStats | undefined;
+
     // Statistics
     /**
      * Compute instantaneous statistics for the current state.
@@ -146,6 +252,8 @@ export interface SimulationModel<Params = any, State = any> {
     statistics?: StatisticDefinition<State>[];
     /** Generate statistics dynamically from current params (e.g., for different cell types) */
     generateStatistics?: (params: Params) => StatisticDefinition<State>[];
+    /** Statistics of whole runs (first-passage times, durations), reported once per run */
+    generateTrajectoryStatistics?: (params: Params) => TrajectoryStatisticDefinition<Params, State>[];
 
     // Rendering
     renderer: ModelRenderer<Params, State>;
@@ -1,4 +1,5 @@
 import type { Container, Graphics } from 'pixi.js';
+import type { SceneBuilder } from '../export/scene';
 
 /**
  * Generic interface for a model renderer.
@@ -32,6 +33,15 @@ export interface ModelRenderContext {
     renderOptions: Record<string, boolean>;
 }
 
+/** Context for drawing into a renderer-independent scene (SVG/PNG export) */
+export interface SceneRenderContext {
+    /** Scene to draw into; world-space methods take simulation coordinates */
+    scene: SceneBuilder;
+    isDark: boolean;
+    /** Model-specific render options */
+    renderOptions: Record<string, boolean>;
+}
+
 export interface ModelRenderer<Params = any, State = any> {
     // Initialize any potential resources (textures etc)
     init?(): Promise<void>;
@@ -44,4 +54,8 @@ export interface ModelRenderer<Params = any, State = any> {
 
     // Get background color
     getBackgroundColor(isDark: boolean): number;
+
+    // Draw the same frame as render() into a scene, for SVG/PNG export without PixiJS.
+    // The viewport and scale bar are handled by the caller (see renderModelScene).
+    renderScene?(ctx: SceneRenderContext, state: State, params: Params): void;
 }
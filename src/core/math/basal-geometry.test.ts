@@ -9,7 +9,12 @@ import {
   StraightLineGeometry,
   CircularGeometry,
   EllipticalGeometry,
+  PolylineGeometry,
+  SplineGeometry,
   createBasalGeometry,
+  createBasalGeometryFromDescriptor,
+  reviveCurveGeometry,
+  resolveBasalGeometry,
 } from './basal-geometry';
 import {
   basalCurve,
@@ -48,6 +53,7 @@ describe('StraightLineGeometry', () => {
     expect(geom.curvature_1).toBe(0);
     expect(geom.curvature_2).toBe(0);
     expect(geom.perimeter).toBe(Infinity);
+    expect(geom.closed).toBe(false);
   });
 
   it('should project point to y=0', () => {
@@ -102,6 +108,7 @@ describe('CircularGeometry', () => {
     expect(geom.curvature_2).toBe(curvature);
     assertClose(geom.radius, radius, 1e-10);
     assertClose(geom.perimeter, 2 * Math.PI * radius, 1e-10);
+    expect(geom.closed).toBe(true);
   });
 
   it('should project point onto circle', () => {
@@ -210,6 +217,7 @@ describe('EllipticalGeometry', () => {
     assertClose(geom.a, a, 1e-10);
     assertClose(geom.b, b, 1e-10);
     expect(geom.perimeter).toBeGreaterThan(0);
+    expect(geom.closed).toBe(true);
   });
 
   it('should have reasonable perimeter', () => {
@@ -394,11 +402,160 @@ describe('EllipticalGeometry - Discretization Quality', () => {
   });
 });
 
+describe('PolylineGeometry', () => {
+  // Counter-clockwise square with side 10
+  const square = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+  const geom = new PolylineGeometry(square, true);
+
+  it('should have correct properties', () => {
+    expect(geom.type).toBe('polyline');
+    expect(geom.curvature_1).toBe(0);
+    expect(geom.curvature_2).toBe(0);
+    assertClose(geom.perimeter, 40, 1e-10);
+    expect(geom.vertices).toHaveLength(5);
+  });
+
+  it('should project points onto the nearest segment', () => {
+    const projected = geom.projectPoint(new Vector2(4, 3));
+    assertClose(projected.x, 4, 1e-10);
+    assertClose(projected.y, 0, 1e-10);
+
+    const outside = geom.projectPoint(new Vector2(13, 6));
+    assertClose(outside.x, 10, 1e-10);
+    assertClose(outside.y, 6, 1e-10);
+  });
+
+  it('should round-trip arc length', () => {
+    for (const l of [0, 3, 10, 17.5, 25, 39]) {
+      const point = geom.getPointAtArcLength(l);
+      assertClose(geom.getArcLength(point), l, 1e-10);
+    }
+  });
+
+  it('should wrap arc length on closed curves and clamp it on open ones', () => {
+    const wrapped = geom.getPointAtArcLength(45);
+    assertClose(wrapped.x, 5, 1e-10);
+    assertClose(wrapped.y, 0, 1e-10);
+
+    const open = new PolylineGeometry(square, false);
+    assertClose(open.perimeter, 30, 1e-10);
+    const end = open.getPointAtArcLength(100);
+    assertClose(end.x, 0, 1e-10);
+    assertClose(end.y, 10, 1e-10);
+  });
+
+  it('should have inward unit normals for counter-clockwise curves', () => {
+    const normal = geom.getNormal(new Vector2(5, 0));
+    assertClose(normal.x, 0, 1e-10);
+    assertClose(normal.y, 1, 1e-10);
+
+    // Corners average the adjacent segment normals
+    const corner = geom.getNormal(new Vector2(10, 0));
+    assertClose(corner.mag(), 1, 1e-10);
+    assertClose(corner.x, -Math.SQRT1_2, 1e-10);
+    assertClose(corner.y, Math.SQRT1_2, 1e-10);
+  });
+
+  it('should drop a repeated closing point', () => {
+    const repeated = new PolylineGeometry([...square, { x: 0, y: 0 }], true);
+    assertClose(repeated.perimeter, 40, 1e-10);
+  });
+
+  it('should reject curves with too few points', () => {
+    expect(() => new PolylineGeometry([{ x: 0, y: 0 }], false)).toThrow();
+    expect(() => new PolylineGeometry([{ x: 0, y: 0 }, { x: 1, y: 0 }], true)).toThrow();
+  });
+});
+
+describe('SplineGeometry', () => {
+  // Points on a circle of radius 10 around the origin, counter-clockwise
+  const radius = 10;
+  const points = Array.from({ length: 12 }, (_, i) => ({
+    x: radius * Math.cos((i * Math.PI) / 6),
+    y: radius * Math.sin((i * Math.PI) / 6),
+  }));
+  const geom = new SplineGeometry(points, true);
+
+  it('should pass through its points', () => {
+    for (const p of points) {
+      const projected = geom.projectPoint(new Vector2(p.x, p.y));
+      assertClose(projected.dist(new Vector2(p.x, p.y)), 0, 1e-10);
+    }
+  });
+
+  it('should approximate a smooth curve', () => {
+    assertClose(geom.perimeter, 2 * Math.PI * radius, 0.1);
+
+    for (let i = 0; i < 50; i++) {
+      const point = geom.getPointAtArcLength((i / 50) * geom.perimeter);
+      assertClose(point.mag(), radius, 0.05);
+
+      // Normal points towards the center
+      const normal = geom.getNormal(point);
+      assertClose(normal.dot(point.normalize()), -1, 1e-3);
+    }
+  });
+
+  it('should end at the first and last points of open curves', () => {
+    const open = new SplineGeometry(points.slice(0, 4), false);
+    const start = open.getPointAtArcLength(0);
+    const end = open.getPointAtArcLength(open.perimeter);
+    assertClose(start.dist(new Vector2(points[0].x, points[0].y)), 0, 1e-10);
+    assertClose(end.dist(new Vector2(points[3].x, points[3].y)), 0, 1e-10);
+  });
+});
+
+describe('Point-list geometry descriptors', () => {
+  const points = [{ x: 0, y: 0 }, { x: 10, y: 2 }, { x: 12, y: 9 }, { x: 1, y: 7 }];
+
+  for (const geom of [new PolylineGeometry(points, true), new SplineGeometry(points, false, 8)]) {
+    it(`should round-trip a ${geom.type} through its descriptor`, () => {
+      const restored = createBasalGeometryFromDescriptor(geom.toDescriptor());
+      expect(restored.type).toBe(geom.type);
+      expect(restored.toDescriptor()).toEqual(geom.toDescriptor());
+      assertClose(restored.perimeter, geom.perimeter, 1e-10);
+    });
+
+    it(`should revive a cloned ${geom.type}`, () => {
+      const revived = reviveCurveGeometry(structuredClone(geom));
+      expect(revived).toBeInstanceOf(geom.constructor);
+      assertClose(revived!.perimeter, geom.perimeter, 1e-10);
+    });
+  }
+
+  it('should not revive other geometry types', () => {
+    expect(reviveCurveGeometry(structuredClone(new CircularGeometry(0.1, 0.1)))).toBeUndefined();
+  });
+});
+
+describe('resolveBasalGeometry', () => {
+  it('should return intact geometries unchanged', () => {
+    const geom = new EllipticalGeometry(0.1, 0.2, 360);
+    expect(resolveBasalGeometry(geom)).toBe(geom);
+  });
+
+  it('should revive cloned custom curves', () => {
+    const geom = new SplineGeometry([{ x: -5, y: 0 }, { x: 5, y: 0 }, { x: 0, y: 5 }], true);
+    const resolved = resolveBasalGeometry(structuredClone(geom));
+    expect(resolved).toBeInstanceOf(SplineGeometry);
+    assertClose(resolved.perimeter, geom.perimeter, 1e-10);
+  });
+
+  it('should rebuild other cloned geometries from curvatures', () => {
+    const cloned = structuredClone(new CircularGeometry(0.1, 0.1));
+    expect(resolveBasalGeometry(cloned)).toBeInstanceOf(CircularGeometry);
+    expect(resolveBasalGeometry(cloned, { curvature_1: 0.1, curvature_2: 0.2 })).toBeInstanceOf(EllipticalGeometry);
+    expect(resolveBasalGeometry(undefined)).toBeInstanceOf(StraightLineGeometry);
+  });
+});
+
 describe('BasalGeometry Interface Consistency', () => {
   const geometries: Array<{ name: string; geom: BasalGeometry }> = [
     { name: 'line', geom: new StraightLineGeometry() },
     { name: 'circle', geom: new CircularGeometry(0.1, 0.1) },
     { name: 'ellipse', geom: new EllipticalGeometry(0.1, 0.2, 360) },
+    { name: 'polyline', geom: new PolylineGeometry([{ x: -5, y: 0 }, { x: 5, y: 0 }, { x: 5, y: 5 }], false) },
+    { name: 'spline', geom: new SplineGeometry([{ x: -5, y: 0 }, { x: 5, y: 0 }, { x: 0, y: 5 }], true) },
   ];
 
   for (const { name, geom } of geometries) {
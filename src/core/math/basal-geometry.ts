@@ -9,19 +9,40 @@
  * - StraightLineGeometry: Analytical formulas for straight lines
  * - CircularGeometry: Analytical formulas for circles
  * - EllipticalGeometry: Discretized representation for ellipses
+ * - PolylineGeometry: Arbitrary curve through a list of points (straight segments)
+ * - SplineGeometry: Smooth curve through a list of points (sampled Catmull-Rom spline)
  */
 
 import { Vector2 } from './vector2';
 
+/**
+ * Plain-data description of a basal geometry.
+ * Enough to rebuild an identical instance (used for checkpoints).
+ */
+export type BasalGeometryDescriptor =
+  | { type: 'line' }
+  | { type: 'circle'; curvature_1: number; curvature_2: number }
+  | { type: 'ellipse'; curvature_1: number; curvature_2: number; numPoints: number }
+  | { type: 'polyline'; points: CurvePointData[]; closed: boolean }
+  | { type: 'spline'; points: CurvePointData[]; closed: boolean; samplesPerSegment: number };
+
+/** A point of a user-defined curve (plain data) */
+export interface CurvePointData {
+  x: number;
+  y: number;
+}
+
 /**
  * Abstract base class for basal curve geometry.
  * All geometry types must implement the core interface methods.
  */
 export abstract class BasalGeometry {
-  abstract readonly type: 'line' | 'circle' | 'ellipse';
+  abstract readonly type: BasalGeometryDescriptor['type'];
   abstract readonly curvature_1: number;
   abstract readonly curvature_2: number;
   abstract readonly perimeter: number;
+  /** Whether the curve closes on itself, so arc lengths wrap around the perimeter */
+  abstract readonly closed: boolean;
 
   /**
    * Project a point onto the basal curve.
@@ -47,6 +68,12 @@ export abstract class BasalGeometry {
    */
   abstract getNormal(pos: Vector2): Vector2;
 
+  /**
+   * Describe this geometry as plain data.
+   * createBasalGeometryFromDescriptor() rebuilds an identical instance.
+   */
+  abstract toDescriptor(): BasalGeometryDescriptor;
+
   /**
    * Convert curved coordinates (arc length, height) to Cartesian position.
    * This is a convenience method implemented using the interface methods.
@@ -67,6 +94,7 @@ export class StraightLineGeometry extends BasalGeometry {
   readonly curvature_1 = 0;
   readonly curvature_2 = 0;
   readonly perimeter = Infinity;
+  readonly closed = false;
 
   projectPoint(pos: Vector2): Vector2 {
     return new Vector2(pos.x, 0);
@@ -83,6 +111,10 @@ export class StraightLineGeometry extends BasalGeometry {
   getNormal(_pos: Vector2): Vector2 {
     return new Vector2(0, 1);
   }
+
+  toDescriptor(): BasalGeometryDescriptor {
+    return { type: 'line' };
+  }
 }
 
 /**
@@ -91,6 +123,7 @@ export class StraightLineGeometry extends BasalGeometry {
  */
 export class CircularGeometry extends BasalGeometry {
   readonly type = 'circle' as const;
+  readonly closed = true;
   readonly center: Vector2;
   readonly radius: number;
   readonly perimeter: number;
@@ -129,6 +162,10 @@ export class CircularGeometry extends BasalGeometry {
   getNormal(pos: Vector2): Vector2 {
     return this.center.sub(pos).setMag(Math.sign(this.curvature_2));
   }
+
+  toDescriptor(): BasalGeometryDescriptor {
+    return { type: 'circle', curvature_1: this.curvature_1, curvature_2: this.curvature_2 };
+  }
 }
 
 /**
@@ -151,6 +188,7 @@ interface CurvePoint {
  */
 export class EllipticalGeometry extends BasalGeometry {
   readonly type = 'ellipse' as const;
+  readonly closed = true;
   readonly center: Vector2;
   readonly a: number;           // Semi-major axis (1/curvature_1)
   readonly b: number;           // Semi-minor axis (1/curvature_2)
@@ -368,6 +406,224 @@ export class EllipticalGeometry extends BasalGeometry {
 
     return this.points[closestIdx].normal;
   }
+
+  toDescriptor(): BasalGeometryDescriptor {
+    return {
+      type: 'ellipse',
+      curvature_1: this.curvature_1,
+      curvature_2: this.curvature_2,
+      numPoints: this.numPoints,
+    };
+  }
+}
+
+/**
+ * Geometry for a curve given by vertices joined by straight segments.
+ *
+ * Arc length is measured along the segments from the first vertex (wrapping
+ * for closed curves, clamped to the ends for open ones). Normals point to the
+ * left of the direction of travel - into a closed curve whose vertices run
+ * counter-clockwise - and are interpolated between vertices.
+ */
+abstract class SampledCurveGeometry extends BasalGeometry {
+  readonly curvature_1 = 0;
+  readonly curvature_2 = 0;
+  readonly perimeter: number;   // Total curve length
+
+  /** Vertices along the curve (the first vertex is repeated at the end of closed curves) */
+  readonly vertices: Vector2[];
+  private readonly arcLengths: number[];
+  private readonly normals: Vector2[];
+
+  constructor(vertices: Vector2[], readonly closed: boolean) {
+    super();
+    const path = closed ? [...vertices, vertices[0]] : vertices;
+
+    this.arcLengths = [0];
+    for (let i = 1; i < path.length; i++) {
+      this.arcLengths.push(this.arcLengths[i - 1] + path[i].dist(path[i - 1]));
+    }
+    this.vertices = path;
+    this.perimeter = this.arcLengths[path.length - 1];
+    if (!(this.perimeter > 0)) {
+      throw new Error('Basal curve has zero length');
+    }
+
+    // Vertex normals: average of the adjacent segment normals
+    const segmentNormals = path.slice(1).map((p, i) => {
+      const d = p.sub(path[i]);
+      return new Vector2(-d.y, d.x).normalize();
+    });
+    const last = segmentNormals.length - 1;
+    this.normals = path.map((_, i) => {
+      const before = i > 0 ? segmentNormals[i - 1] : closed ? segmentNormals[last] : undefined;
+      const after = i <= last ? segmentNormals[i] : closed ? segmentNormals[0] : undefined;
+      if (!before) return after!;
+      if (!after) return before;
+      const sum = before.add(after);
+      return sum.magSq() > 1e-12 ? sum.normalize() : after;
+    });
+  }
+
+  /**
+   * Find the closest point on the curve: segment index, position along the
+   * segment (0-1) and the point itself.
+   */
+  private locate(pos: Vector2): { segment: number; t: number; point: Vector2 } {
+    let best = { segment: 0, t: 0, point: this.vertices[0] };
+    let minDist = Infinity;
+
+    for (let i = 0; i < this.vertices.length - 1; i++) {
+      const p1 = this.vertices[i];
+      const segment = this.vertices[i + 1].sub(p1);
+      const lengthSq = segment.magSq();
+      const t = lengthSq < 1e-10 ? 0 : Math.max(0, Math.min(1, pos.sub(p1).dot(segment) / lengthSq));
+      const point = p1.add(segment.scale(t));
+      const dist = pos.distSq(point);
+      if (dist < minDist) {
+        minDist = dist;
+        best = { segment: i, t, point };
+      }
+    }
+
+    return best;
+  }
+
+  projectPoint(pos: Vector2): Vector2 {
+    return this.locate(pos).point;
+  }
+
+  getArcLength(pos: Vector2): number {
+    const { segment, t } = this.locate(pos);
+    return this.arcLengths[segment] + t * (this.arcLengths[segment + 1] - this.arcLengths[segment]);
+  }
+
+  getPointAtArcLength(l: number): Vector2 {
+    const L = this.closed
+      ? ((l % this.perimeter) + this.perimeter) % this.perimeter
+      : Math.max(0, Math.min(this.perimeter, l));
+
+    // Binary search for the segment containing L
+    let left = 0;
+    let right = this.arcLengths.length - 1;
+    while (right - left > 1) {
+      const mid = Math.floor((left + right) / 2);
+      if (this.arcLengths[mid] < L) {
+        left = mid;
+      } else {
+        right = mid;
+      }
+    }
+
+    const length = this.arcLengths[right] - this.arcLengths[left];
+    const t = length > 0 ? (L - this.arcLengths[left]) / length : 0;
+    return this.vertices[left].lerp(this.vertices[right], t);
+  }
+
+  getNormal(pos: Vector2): Vector2 {
+    const { segment, t } = this.locate(pos);
+    return this.normals[segment].lerp(this.normals[segment + 1], t).normalize();
+  }
+}
+
+/**
+ * Convert plain points to vectors, dropping repeated points (including a
+ * closing copy of the first point), and check there are enough.
+ */
+function toVertices(points: CurvePointData[], closed: boolean): Vector2[] {
+  const vertices: Vector2[] = [];
+  for (const p of points) {
+    const v = new Vector2(p.x, p.y);
+    if (vertices.length === 0 || v.distSq(vertices[vertices.length - 1]) > 1e-12) {
+      vertices.push(v);
+    }
+  }
+  if (closed && vertices.length > 1 && vertices[0].distSq(vertices[vertices.length - 1]) <= 1e-12) {
+    vertices.pop();
+  }
+
+  const min = closed ? 3 : 2;
+  if (vertices.length < min) {
+    throw new Error(`A ${closed ? 'closed' : 'open'} basal curve needs at least ${min} distinct points`);
+  }
+  return vertices;
+}
+
+/**
+ * Geometry for a curve through a list of points, joined by straight segments.
+ */
+export class PolylineGeometry extends SampledCurveGeometry {
+  readonly type = 'polyline' as const;
+
+  constructor(
+    readonly points: CurvePointData[],
+    closed: boolean
+  ) {
+    super(toVertices(points, closed), closed);
+  }
+
+  toDescriptor(): BasalGeometryDescriptor {
+    return { type: 'polyline', points: this.points.map((p) => ({ x: p.x, y: p.y })), closed: this.closed };
+  }
+}
+
+/**
+ * Point on a uniform Catmull-Rom segment from p1 (t=0) to p2 (t=1).
+ */
+function catmullRom(p0: Vector2, p1: Vector2, p2: Vector2, p3: Vector2, t: number): Vector2 {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const coord = (a: number, b: number, c: number, d: number) =>
+    0.5 * (2 * b + (c - a) * t + (2 * a - 5 * b + 4 * c - d) * t2 + (3 * b - a - 3 * c + d) * t3);
+  return new Vector2(coord(p0.x, p1.x, p2.x, p3.x), coord(p0.y, p1.y, p2.y, p3.y));
+}
+
+/**
+ * Geometry for a smooth curve through a list of points.
+ * Uses a Catmull-Rom spline sampled with `samplesPerSegment` vertices between
+ * consecutive points; all operations work on the sampled curve.
+ */
+export class SplineGeometry extends SampledCurveGeometry {
+  readonly type = 'spline' as const;
+
+  constructor(
+    readonly points: CurvePointData[],
+    closed: boolean,
+    readonly samplesPerSegment: number = 16
+  ) {
+    super(SplineGeometry.sample(toVertices(points, closed), closed, samplesPerSegment), closed);
+  }
+
+  private static sample(p: Vector2[], closed: boolean, samplesPerSegment: number): Vector2[] {
+    const n = p.length;
+    // Neighbor of point i, wrapping for closed curves and mirroring the end
+    // segments for open ones
+    const at = (i: number): Vector2 => {
+      if (closed) return p[((i % n) + n) % n];
+      if (i < 0) return p[0].scale(2).sub(p[1]);
+      if (i >= n) return p[n - 1].scale(2).sub(p[n - 2]);
+      return p[i];
+    };
+
+    const samples: Vector2[] = [];
+    const segments = closed ? n : n - 1;
+    for (let i = 0; i < segments; i++) {
+      for (let k = 0; k < samplesPerSegment; k++) {
+        samples.push(catmullRom(at(i - 1), at(i), at(i + 1), at(i + 2), k / samplesPerSegment));
+      }
+    }
+    if (!closed) samples.push(p[n - 1]);
+    return samples;
+  }
+
+  toDescriptor(): BasalGeometryDescriptor {
+    return {
+      type: 'spline',
+      points: this.points.map((p) => ({ x: p.x, y: p.y })),
+      closed: this.closed,
+      samplesPerSegment: this.samplesPerSegment,
+    };
+  }
 }
 
 /**
@@ -396,3 +652,67 @@ export function createBasalGeometry(
   // Ellipse (different curvatures)
   return new EllipticalGeometry(curvature_1, curvature_2, numPoints);
 }
+
+/**
+ * Rebuild a geometry from its plain-data descriptor.
+ *
+ * @param descriptor - Result of BasalGeometry.toDescriptor()
+ * @returns A geometry identical to the one that produced the descriptor
+ */
+export function createBasalGeometryFromDescriptor(
+  descriptor: BasalGeometryDescriptor
+): BasalGeometry {
+  switch (descriptor.type) {
+    case 'line':
+      return new StraightLineGeometry();
+    case 'circle':
+      return new CircularGeometry(descriptor.curvature_1, descriptor.curvature_2);
+    case 'ellipse':
+      return new EllipticalGeometry(descriptor.curvature_1, descriptor.curvature_2, descriptor.numPoints);
+    case 'polyline':
+      return new PolylineGeometry(descriptor.points, descriptor.closed);
+    case 'spline':
+      return new SplineGeometry(descriptor.points, descriptor.closed, descriptor.samplesPerSegment);
+  }
+}
+
+/**
+ * Rebuild a point-list geometry that lost its class methods (e.g. after
+ * structuredClone). Its own fields include everything the descriptor needs.
+ * Returns undefined for other geometry types.
+ */
+export function reviveCurveGeometry(geometry: unknown): PolylineGeometry | SplineGeometry | undefined {
+  const g = geometry as { type?: string; points?: CurvePointData[]; closed?: boolean; samplesPerSegment?: number } | undefined;
+  if (g?.type === 'polyline' && g.points) {
+    return new PolylineGeometry(g.points, g.closed ?? false);
+  }
+  if (g?.type === 'spline' && g.points) {
+    return new SplineGeometry(g.points, g.closed ?? false, g.samplesPerSegment);
+  }
+  return undefined;
+}
+
+/**
+ * Get a working geometry from one that may have lost its class methods
+ * (e.g. after structuredClone). Intact geometries are returned as they are,
+ * custom curves are revived from their points, and other types are rebuilt
+ * from the given curvatures, or else the ones stored on the geometry.
+ */
+export function resolveBasalGeometry(
+  geometry: unknown,
+  curvatures?: { curvature_1: number; curvature_2: number }
+): BasalGeometry {
+  if (geometry instanceof BasalGeometry) {
+    return geometry;
+  }
+
+  const revived = reviveCurveGeometry(geometry);
+  if (revived) {
+    return revived;
+  }
+
+  const g = geometry as { curvature_1?: number; curvature_2?: number } | undefined;
+  const curvature_1 = curvatures?.curvature_1 ?? g?.curvature_1 ?? 0;
+  const curvature_2 = curvatures?.curvature_2 ?? g?.curvature_2 ?? 0;
+  return createBasalGeometry(curvature_1, curvature_2, 360);
+}
@@ -16,5 +16,17 @@ export {
   StraightLineGeometry,
   CircularGeometry,
   EllipticalGeometry,
+  PolylineGeometry,
+  SplineGeometry,
   createBasalGeometry,
+  createBasalGeometryFromDescriptor,
+  reviveCurveGeometry,
+  resolveBasalGeometry,
+  type BasalGeometryDescriptor,
+  type CurvePointData,
 } from './basal-geometry';
+export {
+  SpatialGrid,
+  buildLowerNeighborLists,
+  type GridPoint,
+} from './spatial-grid';
@@ -0,0 +1,16 @@
+/**
+ * Tests for the seeded random number generator.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SeededRandom } from './random';
+
+describe('SeededRandom', () => {
+  it('should be reproducible for the same seed', () => {
+    const a = new SeededRandom('seed');
+    const b = new SeededRandom('seed');
+    for (let i = 0; i < 10; i++) {
+      expect(a.random()).toBe(b.random());
+    }
+  });
+});
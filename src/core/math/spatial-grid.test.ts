@@ -0,0 +1,64 @@
+/**
+ * Tests for uniform-grid neighbor search.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SpatialGrid, buildLowerNeighborLists } from './spatial-grid';
+import { createTestRng } from '@/test/helpers';
+
+/** Reference all-pairs implementation */
+function bruteForceLowerNeighbors(points: { x: number; y: number }[], radius: number): number[][] {
+  return points.map((p, i) => {
+    const list: number[] = [];
+    for (let j = 0; j < i; j++) {
+      const dx = points[j].x - p.x;
+      const dy = points[j].y - p.y;
+      if (dx * dx + dy * dy <= radius * radius) list.push(j);
+    }
+    return list;
+  });
+}
+
+describe('SpatialGrid', () => {
+  it('should reject non-positive cell sizes', () => {
+    expect(() => new SpatialGrid(0)).toThrow();
+    expect(() => new SpatialGrid(-1)).toThrow();
+    expect(() => new SpatialGrid(Infinity)).toThrow();
+  });
+
+  it('should visit all points within one cell size', () => {
+    const grid = new SpatialGrid(1);
+    const points = [
+      { x: 0.1, y: 0.1 },
+      { x: -0.8, y: 0.5 },
+      { x: 0.9, y: -0.9 },
+      { x: 5, y: 5 },
+    ];
+    grid.build(points);
+
+    const visited: number[] = [];
+    grid.forEachCandidate(0, 0, (i) => visited.push(i));
+
+    expect(visited.sort()).toEqual([0, 1, 2]);
+  });
+});
+
+describe('buildLowerNeighborLists', () => {
+  it('should match the all-pairs search on random points', () => {
+    const rng = createTestRng('spatial-grid');
+    const points = Array.from({ length: 300 }, () => ({
+      x: rng.random(-30, 30),
+      y: rng.random(-30, 30),
+    }));
+
+    for (const radius of [0.5, 2.4, 7]) {
+      expect(buildLowerNeighborLists(points, radius)).toEqual(
+        bruteForceLowerNeighbors(points, radius)
+      );
+    }
+  });
+
+  it('should throw if the grid cells are smaller than the radius', () => {
+    expect(() => buildLowerNeighborLists([{ x: 0, y: 0 }], 2, new SpatialGrid(1))).toThrow();
+  });
+});
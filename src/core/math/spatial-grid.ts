@@ -0,0 +1,121 @@
+/**
+ * Uniform-grid spatial hashing for short-range neighbor search.
+ *
+ * Points are binned into square cells of side `cellSize`. Any two points
+ * closer than `cellSize` are guaranteed to lie in the same or in adjacent
+ * cells, so a neighbor query only has to visit the 3x3 block around a point.
+ */
+
+/** Minimal point shape accepted by the grid (plain objects and Vector2 both work) */
+export interface GridPoint {
+  x: number;
+  y: number;
+}
+
+/** Stride used to pack integer cell coordinates into a single numeric key */
+const KEY_STRIDE = 1_000_003;
+
+/**
+ * Uniform spatial grid storing point indices per cell.
+ */
+export class SpatialGrid {
+  private readonly buckets: Map<number, number[]> = new Map();
+
+  constructor(public readonly cellSize: number) {
+    if (!(cellSize > 0) || !Number.isFinite(cellSize)) {
+      throw new Error(`SpatialGrid cell size must be a positive finite number, got ${cellSize}`);
+    }
+  }
+
+  /** Integer cell coordinate along one axis */
+  private cellCoord(v: number): number {
+    return Math.floor(v / this.cellSize);
+  }
+
+  /** Pack integer cell coordinates into a map key */
+  private key(ix: number, iy: number): number {
+    return ix * KEY_STRIDE + iy;
+  }
+
+  /**
+   * Rebuild the grid from a list of points.
+   * Indices within each bucket are stored in ascending order.
+   */
+  build(points: ReadonlyArray<GridPoint>): void {
+    this.buckets.clear();
+
+    for (let i = 0; i < points.length; i++) {
+      const k = this.key(this.cellCoord(points[i].x), this.cellCoord(points[i].y));
+      const bucket = this.buckets.get(k);
+      if (bucket) {
+        bucket.push(i);
+      } else {
+        this.buckets.set(k, [i]);
+      }
+    }
+  }
+
+  /**
+   * Visit all point indices stored in the 3x3 block of cells around (x, y).
+   * Every point within `cellSize` of (x, y) is visited; farther points may be too.
+   */
+  forEachCandidate(x: number, y: number, fn: (index: number) => void): void {
+    const cx = this.cellCoord(x);
+    const cy = this.cellCoord(y);
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const bucket = this.buckets.get(this.key(cx + dx, cy + dy));
+        if (!bucket) continue;
+        for (const index of bucket) {
+          fn(index);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Build per-point lists of lower-indexed neighbors within `radius`.
+ *
+ * `lists[i]` contains every j < i with |p_i - p_j| <= radius, sorted ascending.
+ * Iterating `for i, for j of lists[i]` therefore visits interacting pairs in
+ * exactly the same order as the naive `for i, for j < i` double loop.
+ *
+ * @param points - Point positions
+ * @param radius - Neighbor cutoff distance
+ * @param grid - Optional grid to reuse (its cell size must be >= radius)
+ */
+export function buildLowerNeighborLists(
+  points: ReadonlyArray<GridPoint>,
+  radius: number,
+  grid: SpatialGrid = new SpatialGrid(radius)
+): number[][] {
+  if (grid.cellSize < radius) {
+    throw new Error(`SpatialGrid cell size ${grid.cellSize} is smaller than the search radius ${radius}`);
+  }
+
+  grid.build(points);
+
+  const radiusSq = radius * radius;
+  const lists: number[][] = [];
+
+  for (let i = 0; i < points.length; i++) {
+    const pi = points[i];
+    const list: number[] = [];
+
+    grid.forEachCandidate(pi.x, pi.y, (j) => {
+      if (j >= i) return;
+      const dx = points[j].x - pi.x;
+      const dy = points[j].y - pi.y;
+      if (dx * dx + dy * dy <= radiusSq) {
+        list.push(j);
+      }
+    });
+
+    list.sort((a, b) => a - b);
+    lists.push(list);
+  }
+
+  return lists;
+}
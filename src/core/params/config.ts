@@ -4,7 +4,8 @@
  */
 // import type { SimulationParams } from '../types';
 type SimulationParams = any;
-import type { ParameterRange, TimeSampleConfig } from '../batch';
+import type { ParameterRange, TimeSampleConfig, SamplingMode } from '../batch';
+import type { DerivedParameter } from './expression';
 import { createDefaultParams } from './defaults';
 
 export interface SimulationConfig {
@@ -12,6 +13,14 @@ export interface SimulationConfig {
   parameterRanges: ParameterRange[];
   timeSamples: TimeSampleConfig;
   seedsPerConfig: number;
+  /** How configurations are drawn from the ranges (default 'grid') */
+  samplingMode?: SamplingMode;
+  /** Number of sampled configurations for non-grid modes */
+  sampleCount?: number;
+  /** Seed for 'random' and 'latin_hypercube' sampling */
+  batchSeed?: number;
+  /** Parameters computed per configuration from other parameters */
+  derivedParameters?: DerivedParameter[];
 }
 
 export const DEFAULT_TIME_SAMPLES: TimeSampleConfig = {
@@ -22,10 +31,11 @@ export const DEFAULT_TIME_SAMPLES: TimeSampleConfig = {
 
 /**
  * Create a fresh configuration with defaults.
+ * @param params - Model default parameters (default: EHT defaults)
  */
-export function createDefaultSimulationConfig(): SimulationConfig {
+export function createDefaultSimulationConfig(params?: SimulationParams): SimulationConfig {
   return {
-    params: createDefaultParams(),
+    params: params !== undefined ? structuredClone(params) : createDefaultParams(),
     parameterRanges: [],
     timeSamples: { ...DEFAULT_TIME_SAMPLES },
     seedsPerConfig: 1,
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { parseExpression, evaluateExpression, expressionPaths, applyDerivedParameters } from './expression';
+import { parseSimulationConfigToml, toSimulationConfigToml } from './toml';
+import { createDefaultParams } from './defaults';
+import { generateBatchConfigs, type BatchConfig } from '../batch/types';
+
+const evaluate = (source: string, vars: Record<string, number> = {}) =>
+  evaluateExpression(parseExpression(source), (path) => vars[path]);
+
+describe('parseExpression', () => {
+  it('follows arithmetic precedence', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluate('-2 ^ 2')).toBe(-4);
+    expect(evaluate('7 % 4 - 1.5e1')).toBe(-12);
+  });
+
+  it('resolves paths, constants and functions', () => {
+    expect(evaluate('a.b + 2', { 'a.b': 3 })).toBe(5);
+    expect(evaluate('max(1, x, 3) * min(4, 2)', { x: 5 })).toBe(10);
+    expect(evaluate('round(pi * 100)')).toBe(314);
+    expect(expressionPaths(parseExpression('a.b * sqrt(c) + 1'))).toEqual(['a.b', 'c']);
+    // Object prototype keys are neither constants nor functions
+    expect(expressionPaths(parseExpression('constructor + 1'))).toEqual(['constructor']);
+  });
+
+  it('evaluates comparisons and logic to 1 or 0', () => {
+    expect(evaluate('1 + 1 == 2')).toBe(1);
+    expect(evaluate('x >= 2 && x < 3', { x: 2 })).toBe(1);
+    expect(evaluate('x > 2 || !y', { x: 1, y: 0 })).toBe(1);
+    expect(evaluate('x != 1 || y <= -1', { x: 1, y: 0 })).toBe(0);
+    // && binds tighter than ||
+    expect(evaluate('1 || 0 && 0')).toBe(1);
+    // The right side is not evaluated when the left decides
+    expect(evaluate('0 && missing')).toBe(0);
+  });
+
+  it.each([
+    ['1 +', /end of expression/],
+    ['(1 + 2', /Expected "\)"/],
+    ['alert(1)', /Unknown function/],
+    ['toString(1)', /Unknown function/],
+    ['constructor(1)', /Unknown function/],
+    ['pow(2)', /Wrong number of arguments/],
+    ['a; b', /Unexpected character/],
+    ['1 2', /Unexpected "2"/],
+    ['1 < 2 < 3', /Unexpected "<"/],
+    ['a & b', /Unexpected character/],
+  ])('rejects %s', (source, error) => {
+    expect(() => parseExpression(source)).toThrow(error);
+  });
+});
+
+describe('applyDerivedParameters', () => {
+  it('evaluates in order so later entries can use earlier ones', () => {
+    const params = { a: 2, b: { c: 0, d: 0 } };
+    const values = applyDerivedParameters(params, [
+      { path: 'b.c', expression: 'a * 3' },
+      { path: 'b.d', expression: 'b.c + 1' },
+    ]);
+    expect(values).toEqual({ 'b.c': 6, 'b.d': 7 });
+    expect(params.b).toEqual({ c: 6, d: 7 });
+  });
+
+  it('rejects missing and non-numeric references', () => {
+    expect(() => applyDerivedParameters({ a: 1 }, [{ path: 'x', expression: 'b + 1' }])).toThrow(
+      /not a parameter/
+    );
+    expect(() => applyDerivedParameters({ a: true }, [{ path: 'x', expression: 'a + 1' }])).toThrow(
+      /not numeric/
+    );
+    expect(() => applyDerivedParameters({ a: 0 }, [{ path: 'x', expression: '1 / a' }])).toThrow(
+      /evaluated to Infinity/
+    );
+  });
+
+  it('rejects paths that are not numeric parameters', () => {
+    const params = { general: { t_end: 10, full_circle: true } };
+    expect(() => applyDerivedParameters(params, [{ path: 'general.t_ned', expression: '5' }])).toThrow(
+      'Derived parameter "general.t_ned" is not a parameter'
+    );
+    expect(() => applyDerivedParameters(params, [{ path: 'general.full_circle', expression: '1' }])).toThrow(
+      /not numeric/
+    );
+    expect(params.general).toEqual({ t_end: 10, full_circle: true });
+  });
+});
+
+describe('derived parameters in batches', () => {
+  const baseParams = createDefaultParams();
+  const config: BatchConfig = {
+    parameter_ranges: [{ path: 'cell_types.control.events.time_A_start', min: 10, max: 20, steps: 3 }],
+    time_samples: { start: 0, end: 12, step: 12 },
+    seeds_per_config: 1,
+    sampling_mode: 'grid',
+    derived_parameters: [
+      {
+        path: 'cell_types.control.events.time_A_end',
+        expression: 'cell_types.control.events.time_A_start + 2',
+      },
+      { path: 'cell_types.control.R_hard_div', expression: '2 * cell_types.control.R_hard' },
+    ],
+  };
+
+  it('adds derived values to every config', () => {
+    const configs = generateBatchConfigs(baseParams, config);
+    const rHardDiv = 2 * baseParams.cell_types.control.R_hard;
+    expect(configs).toEqual([10, 15, 20].map((start) => ({
+      'cell_types.control.events.time_A_start': start,
+      'cell_types.control.events.time_A_end': start + 2,
+      'cell_types.control.R_hard_div': rHardDiv,
+    })));
+    expect(baseParams.cell_types.control.events.time_A_end).not.toBe(12);
+  });
+
+  it('rejects a parameter that is both swept and derived', () => {
+    expect(() =>
+      generateBatchConfigs(baseParams, {
+        ...config,
+        derived_parameters: [{ path: 'cell_types.control.events.time_A_start', expression: '1' }],
+      })
+    ).toThrow(/both swept and derived/);
+  });
+
+  it('round-trips [[derived_parameters]] through TOML', () => {
+    const parsed = parseSimulationConfigToml(`
+[[derived_parameters]]
+path = "cell_types.control.R_hard_div"
+expression = "cell_types.control.R_hard * 2.5"
+`);
+    expect(parsed.derivedParameters).toEqual([
+      { path: 'cell_types.control.R_hard_div', expression: 'cell_types.control.R_hard * 2.5' },
+    ]);
+    expect(parsed.params.derived_parameters).toBeUndefined();
+
+    const reparsed = parseSimulationConfigToml(toSimulationConfigToml(parsed));
+    expect(reparsed.derivedParameters).toEqual(parsed.derivedParameters);
+  });
+
+  it('reports misspelled paths when loading TOML', () => {
+    expect(() =>
+      parseSimulationConfigToml(`
+[[derived_parameters]]
+path = "general.t_ned"
+expression = "general.t_end / 2"
+`)
+    ).toThrow('Derived parameter "general.t_ned" is not a parameter');
+  });
+
+  it('reports invalid expressions when loading TOML', () => {
+    expect(() =>
+      parseSimulationConfigToml(`
+[[derived_parameters]]
+path = "general.N_emt"
+expression = "general.N_init *"
+`)
+    ).toThrow(/end of expression/);
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Safe arithmetic expressions over parameter paths.
+ *
+ * Used for derived batch parameters such as
+ * `cell_types.emt.events.time_A_start + 2`. Expressions are parsed by a small
+ * recursive-descent parser (no `eval`), and may only use numbers, parameter
+ * paths, + - * / ^ %, parentheses and a fixed set of math functions.
+ * Comparisons (< <= > >= == !=) and logic (&& || !) evaluate to 1 or 0, for
+ * conditions such as statistic filters.
+ */
+
+import { getNestedValue, setNestedValue } from './merge';
+
+/** Parsed expression tree */
+export type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'path'; path: string }
+  | { type: 'unary'; op: '-' | '+' | '!'; operand: ExpressionNode }
+  | { type: 'binary'; op: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '^' | '%'
+  | '<' | '<=' | '>' | '>=' | '==' | '!='
+  | '&&' | '||';
+
+/** A parameter whose value is computed from other parameters */
+export interface DerivedParameter {
+  path: string; // e.g., "cell_types.emt.events.time_A_end"
+  expression: string; // e.g., "cell_types.emt.events.time_A_start + 2"
+}
+
+/** Functions callable from expressions, with their arity (-1: one or more) */
+const FUNCTIONS: Record<string, { arity: number; fn: (...args: number[]) => number }> = {
+  abs: { arity: 1, fn: Math.abs },
+  sqrt: { arity: 1, fn: Math.sqrt },
+  exp: { arity: 1, fn: Math.exp },
+  log: { arity: 1, fn: Math.log },
+  log10: { arity: 1, fn: Math.log10 },
+  floor: { arity: 1, fn: Math.floor },
+  ceil: { arity: 1, fn: Math.ceil },
+  round: { arity: 1, fn: Math.round },
+  pow: { arity: 2, fn: Math.pow },
+  min: { arity: -1, fn: Math.min },
+  max: { arity: -1, fn: Math.max },
+};
+
+/** Named constants */
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'ident'; value: string; pos: number }
+  | { kind: 'op'; value: string; pos: number };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]), pos: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*/.exec(source.slice(i));
+    if (ident) {
+      tokens.push({ kind: 'ident', value: ident[0], pos: i });
+      i += ident[0].length;
+      continue;
+    }
+
+    const twoChar = source.slice(i, i + 2);
+    if (['<=', '>=', '==', '!=', '&&', '||'].includes(twoChar)) {
+      tokens.push({ kind: 'op', value: twoChar, pos: i });
+      i += 2;
+      continue;
+    }
+
+    if ('+-*/^%(),<>!'.includes(ch)) {
+      tokens.push({ kind: 'op', value: ch, pos: i });
+      i++;
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${ch}" at position ${i} in expression "${source}"`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse an expression.
+ * Grammar (lowest to highest precedence):
+ *   or      := and ('||' and)*
+ *   and     := compare ('&&' compare)*
+ *   compare := sum (('<' | '<=' | '>' | '>=' | '==' | '!=') sum)?
+ *   sum     := product (('+' | '-') product)*
+ *   product := unary (('*' | '/' | '%') unary)*
+ *   unary   := ('-' | '+' | '!') unary | power
+ *   power   := atom ('^' unary)?          (right-associative)
+ *   atom    := number | path | name '(' args ')' | '(' or ')'
+ * @throws Error on syntax errors, unknown functions or wrong argument counts
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const fail = (message: string): never => {
+    const pos = tokens[index]?.pos ?? source.length;
+    throw new Error(`${message} at position ${pos} in expression "${source}"`);
+  };
+  const peekOp = (ops: string | string[]): string | undefined => {
+    const t = tokens[index];
+    if (t?.kind !== 'op') return undefined;
+    // A string lists single-character operators
+    const candidates = typeof ops === 'string' ? ops.split('') : ops;
+    return candidates.includes(t.value) ? t.value : undefined;
+  };
+  const expectOp = (op: string): void => {
+    if (peekOp(op) === undefined) fail(`Expected "${op}"`);
+    index++;
+  };
+
+  function or(): ExpressionNode {
+    let node = and();
+    while (peekOp(['||'])) {
+      index++;
+      node = { type: 'binary', op: '||', left: node, right: and() };
+    }
+    return node;
+  }
+
+  function and(): ExpressionNode {
+    let node = compare();
+    while (peekOp(['&&'])) {
+      index++;
+      node = { type: 'binary', op: '&&', left: node, right: compare() };
+    }
+    return node;
+  }
+
+  function compare(): ExpressionNode {
+    const node = sum();
+    const op = peekOp(['<', '<=', '>', '>=', '==', '!=']);
+    if (op) {
+      index++;
+      return { type: 'binary', op: op as BinaryOperator, left: node, right: sum() };
+    }
+    return node;
+  }
+
+  function sum(): ExpressionNode {
+    let node = product();
+    let op: string | undefined;
+    while ((op = peekOp('+-'))) {
+      index++;
+      node = { type: 'binary', op: op as '+' | '-', left: node, right: product() };
+    }
+    return node;
+  }
+
+  function product(): ExpressionNode {
+    let node = unary();
+    let op: string | undefined;
+    while ((op = peekOp('*/%'))) {
+      index++;
+      node = { type: 'binary', op: op as '*' | '/' | '%', left: node, right: unary() };
+    }
+    return node;
+  }
+
+  function unary(): ExpressionNode {
+    const op = peekOp('+-!');
+    if (op) {
+      index++;
+      return { type: 'unary', op: op as '+' | '-' | '!', operand: unary() };
+    }
+    return power();
+  }
+
+  function power(): ExpressionNode {
+    const base = atom();
+    if (peekOp('^')) {
+      index++;
+      return { type: 'binary', op: '^', left: base, right: unary() };
+    }
+    return base;
+  }
+
+  function atom(): ExpressionNode {
+    const token = tokens[index];
+    if (!token) return fail('Unexpected end of expression');
+
+    if (token.kind === 'number') {
+      index++;
+      return { type: 'number', value: token.value };
+    }
+
+    if (token.kind === 'ident') {
+      index++;
+      if (peekOp('(')) {
+        if (!Object.hasOwn(FUNCTIONS, token.value)) fail(`Unknown function "${token.value}"`);
+        const fn = FUNCTIONS[token.value];
+        index++;
+        const args: ExpressionNode[] = [];
+        if (!peekOp(')')) {
+          args.push(or());
+          while (peekOp(',')) {
+            index++;
+            args.push(or());
+          }
+        }
+        expectOp(')');
+        if (fn.arity >= 0 ? args.length !== fn.arity : args.length === 0) {
+          fail(`Wrong number of arguments for "${token.value}"`);
+        }
+        return { type: 'call', name: token.value, args };
+      }
+      if (Object.hasOwn(CONSTANTS, token.value)) {
+        return { type: 'number', value: CONSTANTS[token.value] };
+      }
+      return { type: 'path', path: token.value };
+    }
+
+    if (token.value === '(') {
+      index++;
+      const node = or();
+      expectOp(')');
+      return node;
+    }
+
+    return fail(`Unexpected "${token.value}"`);
+  }
+
+  const root = or();
+  if (index < tokens.length) fail(`Unexpected "${tokens[index].value}"`);
+  return root;
+}
+
+/**
+ * List the parameter paths an expression reads.
+ */
+export function expressionPaths(node: ExpressionNode): string[] {
+  switch (node.type) {
+    case 'number':
+      return [];
+    case 'path':
+      return [node.path];
+    case 'unary':
+      return expressionPaths(node.operand);
+    case 'binary':
+      return [...expressionPaths(node.left), ...expressionPaths(node.right)];
+    case 'call':
+      return node.args.flatMap(expressionPaths);
+  }
+}
+
+/**
+ * Evaluate an expression, resolving paths with `lookup`.
+ */
+export function evaluateExpression(
+  node: ExpressionNode,
+  lookup: (path: string) => number
+): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'path':
+      return lookup(node.path);
+    case 'unary': {
+      const v = evaluateExpression(node.operand, lookup);
+      if (node.op === '!') return v === 0 ? 1 : 0;
+      return node.op === '-' ? -v : v;
+    }
+    case 'binary': {
+      // Logic short-circuits, so the right side may assume the left holds
+      if (node.op === '&&' || node.op === '||') {
+        const a = evaluateExpression(node.left, lookup) !== 0;
+        if (a === (node.op === '||')) return a ? 1 : 0;
+        return evaluateExpression(node.right, lookup) !== 0 ? 1 : 0;
+      }
+      const a = evaluateExpression(node.left, lookup);
+      const b = evaluateExpression(node.right, lookup);
+      switch (node.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '%': return a % b;
+        case '^': return Math.pow(a, b);
+        case '<': return a < b ? 1 : 0;
+        case '<=': return a <= b ? 1 : 0;
+        case '>': return a > b ? 1 : 0;
+        case '>=': return a >= b ? 1 : 0;
+        case '==': return a === b ? 1 : 0;
+        case '!=': return a !== b ? 1 : 0;
+      }
+      break;
+    }
+    case 'call':
+      return FUNCTIONS[node.name].fn(...node.args.map((arg) => evaluateExpression(arg, lookup)));
+  }
+  throw new Error('Invalid expression node');
+}
+
+/**
+ * Check that a derived parameter targets an existing numeric parameter.
+ * @throws Error if `path` is missing (e.g. a typo) or not numeric
+ */
+export function checkDerivedParameterPath(params: unknown, path: string): void {
+  const v = getNestedValue(params, path);
+  if (typeof v !== 'number') {
+    throw new Error(`Derived parameter "${path}" is ${v === undefined ? 'not a parameter' : 'not numeric'}`);
+  }
+}
+
+/**
+ * Compute derived parameters and write them into `params`.
+ * Derived parameters are evaluated in declaration order, so later ones may
+ * reference earlier ones. Returns the computed values keyed by path.
+ * @throws Error if an expression is invalid, a path or reference is a
+ *   missing or non-numeric parameter, or a value is not a finite number
+ */
+export function applyDerivedParameters(
+  params: unknown,
+  derived: DerivedParameter[]
+): Record<string, number> {
+  const values: Record<string, number> = {};
+
+  for (const { path, expression } of derived) {
+    const node = parseExpression(expression);
+    const value = evaluateExpression(node, (ref) => {
+      const v = getNestedValue(params, ref);
+      if (typeof v !== 'number') {
+        throw new Error(
+          `Derived parameter "${path}": "${ref}" is ${v === undefined ? 'not a parameter' : 'not numeric'}`
+        );
+      }
+      return v;
+    });
+
+    if (!Number.isFinite(value)) {
+      throw new Error(`Derived parameter "${path}" evaluated to ${value} ("${expression}")`);
+    }
+
+    checkDerivedParameterPath(params, path);
+    setNestedValue(params, path, value);
+    values[path] = value;
+  }
+
+  return values;
+}
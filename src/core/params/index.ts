@@ -34,6 +34,21 @@ export {
   applyOverrides,
 } from './merge';
 
+export {
+  parseOverrideString,
+  parseParamOverride,
+  suggestPath,
+} from './overrides';
+export type { ParamOverride } from './overrides';
+
+export {
+  parseExpression,
+  evaluateExpression,
+  expressionPaths,
+  applyDerivedParameters,
+} from './expression';
+export type { ExpressionNode, DerivedParameter } from './expression';
+
 export {
   parseToml,
   parseTomlWithDefaults,
@@ -68,6 +68,14 @@ export function mergeWithDefaults(
     }
   }
 
+  // User-defined statistics and cell groups replace those of the defaults
+  if (partial.statistics) {
+    result.statistics = partial.statistics;
+  }
+  if (partial.groups) {
+    result.groups = partial.groups;
+  }
+
   return result;
 }
 
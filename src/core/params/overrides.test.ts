@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { parseOverrideString, parseParamOverride } from './overrides';
+import { ehtParamsSchema } from '@/models/eht/params/schema';
+import { createDefaultEHTParams } from '@/models/eht/params/defaults';
+
+const params = createDefaultEHTParams();
+const parse = (override: string) => parseParamOverride(ehtParamsSchema, params, parseOverrideString(override));
+
+describe('parseOverrideString', () => {
+  it('splits at the first =', () => {
+    expect(parseOverrideString('general.perimeter_expr=t == 1')).toEqual({
+      path: 'general.perimeter_expr',
+      value: 't == 1',
+    });
+  });
+
+  it('rejects overrides without a path', () => {
+    expect(() => parseOverrideString('general.dt')).toThrow('expected path=value');
+    expect(() => parseOverrideString('=1')).toThrow('expected path=value');
+  });
+});
+
+describe('parseParamOverride', () => {
+  it('coerces values to the declared type', () => {
+    expect(parse('general.dt=0.05')).toBe(0.05);
+    expect(parse('general.max_substep=1e-3')).toBe(0.001);
+    expect(parse('general.full_circle=true')).toBe(true);
+    expect(parse('cell_types.emt.location=top')).toBe('top');
+    expect(parse('cell_types.emt.location="top"')).toBe('top');
+    expect(parse('cell_types.emt.division_mode=asymmetric')).toBe('asymmetric');
+    expect(parse('cell_types.emt.color={"r":255,"g":0,"b":0}')).toEqual({ r: 255, g: 0, b: 0 });
+  });
+
+  it('accepts new keys of records of values', () => {
+    expect(parse('cell_types.control.type_switch.emt=0.1')).toBe(0.1);
+  });
+
+  it('rejects values that do not fit the parameter', () => {
+    expect(() => parse('general.dt=fast')).toThrow('Invalid value for general.dt: expected a number');
+    expect(() => parse('general.full_circle=yes')).toThrow('expected true or false');
+    expect(() => parse('cell_types.emt.division_mode=random')).toThrow('Invalid value for cell_types.emt.division_mode');
+    expect(() => parse('cell_types.emt.color={"r":300,"g":0,"b":0}')).toThrow('Invalid value');
+    expect(() => parse('cell_types.emt.color=red')).toThrow('expected a JSON object');
+  });
+
+  it('rejects unknown paths with a suggestion', () => {
+    expect(() => parse('general.full_circel=true')).toThrow(
+      'Unknown parameter "general.full_circel" (did you mean "general.full_circle"?)'
+    );
+    expect(() => parse('cell_types.emtt.N_init=3')).toThrow('did you mean "cell_types.emt.N_init"?');
+    expect(() => parse('nothing_like_this=1')).toThrow(/^Unknown parameter "nothing_like_this"$/);
+  });
+
+  it('falls back to the type of the current value without a schema', () => {
+    const plain = { general: { N: 5, on: false, name: 'a' } };
+    expect(parseParamOverride(undefined, plain, { path: 'general.N', value: '7' })).toBe(7);
+    expect(parseParamOverride(undefined, plain, { path: 'general.on', value: 'true' })).toBe(true);
+    expect(parseParamOverride(undefined, plain, { path: 'general.name', value: 'b' })).toBe('b');
+    expect(() => parseParamOverride(undefined, plain, { path: 'general.n', value: '7' })).toThrow(
+      'did you mean "general.N"?'
+    );
+  });
+});
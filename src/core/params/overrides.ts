@@ -0,0 +1,231 @@
+/**
+ * Typed parameter overrides from strings (e.g. CLI `--param path=value`).
+ * Values are coerced to the type the model's schema declares for the path,
+ * so strings, booleans, enums and JSON objects can be overridden as well as
+ * numbers.
+ */
+import { z, type ZodType } from 'zod';
+import { getNestedValue } from './merge';
+
+/** A parameter override parsed from `path=value` */
+export interface ParamOverride {
+  path: string;
+  value: string;
+}
+
+/**
+ * Split `path=value` at the first `=`, so values may contain `=`.
+ * @throws Error if there is no `=` or the path is empty
+ */
+export function parseOverrideString(override: string): ParamOverride {
+  const eq = override.indexOf('=');
+  const path = eq > 0 ? override.slice(0, eq).trim() : '';
+  if (path === '') {
+    throw new Error(`Invalid parameter override "${override}" (expected path=value)`);
+  }
+  return { path, value: override.slice(eq + 1) };
+}
+
+/**
+ * Strip wrappers that do not change the value type (optional, default, ...).
+ */
+function unwrap(schema: ZodType): ZodType {
+  let current = schema;
+  while (
+    current instanceof z.ZodOptional ||
+    current instanceof z.ZodNullable ||
+    current instanceof z.ZodDefault
+  ) {
+    current = current.unwrap() as ZodType;
+  }
+  return current;
+}
+
+/**
+ * Schema of a dot-separated path, or undefined if the path is unknown.
+ * Keys of records of objects (e.g. cell types) must exist in params;
+ * records of plain values (e.g. type switch probabilities) take any key.
+ */
+function schemaAtPath(schema: ZodType, params: unknown, path: string): ZodType | undefined {
+  let current: ZodType = schema;
+  let value: unknown = params;
+
+  for (const key of path.split('.')) {
+    const node = unwrap(current);
+    if (node instanceof z.ZodObject) {
+      const child = (node.shape as Record<string, ZodType>)[key];
+      if (!child) return undefined;
+      current = child;
+    } else if (node instanceof z.ZodRecord) {
+      const child = node.valueType as ZodType;
+      const exists = value !== null && typeof value === 'object' && key in value;
+      if (!exists && unwrap(child) instanceof z.ZodObject) return undefined;
+      current = child;
+    } else {
+      return undefined;
+    }
+    value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+  }
+
+  return current;
+}
+
+/**
+ * All parameter paths (objects and leaves) known to a schema, with record
+ * keys taken from params.
+ */
+function knownPaths(schema: ZodType, params: unknown, prefix = ''): string[] {
+  const node = unwrap(schema);
+  const paths: string[] = [];
+
+  const visit = (key: string, child: ZodType, value: unknown) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    paths.push(path, ...knownPaths(child, value, path));
+  };
+
+  if (node instanceof z.ZodObject) {
+    for (const [key, child] of Object.entries(node.shape as Record<string, ZodType>)) {
+      visit(key, child, getNestedValue(params, key));
+    }
+  } else if (node instanceof z.ZodRecord && params !== null && typeof params === 'object') {
+    for (const [key, value] of Object.entries(params)) {
+      visit(key, node.valueType as ZodType, value);
+    }
+  }
+
+  return paths;
+}
+
+/** Leaf paths of a plain params object (used without a schema) */
+function valuePaths(params: unknown, prefix = ''): string[] {
+  if (params === null || typeof params !== 'object' || Array.isArray(params)) return [];
+  return Object.entries(params).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    return [path, ...valuePaths(value, path)];
+  });
+}
+
+/** Edit distance between two strings */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * The known path closest to an unknown one, if any is close enough to be a
+ * likely typo.
+ */
+export function suggestPath(path: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = levenshtein(path.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= Math.max(2, Math.floor(path.length / 4)) ? best : undefined;
+}
+
+/** Parse JSON, or describe what was expected */
+function parseJSON(raw: string, path: string, expected: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error(`Invalid value for ${path}: expected ${expected}, got "${raw}"`);
+  }
+}
+
+/**
+ * Coerce a raw string to the type of a schema.
+ * Strings may be given bare or JSON-quoted; objects and arrays as JSON.
+ */
+function coerce(schema: ZodType, raw: string, path: string): unknown {
+  const node = unwrap(schema);
+  const text = raw.trim();
+
+  if (node instanceof z.ZodNumber) {
+    const value = Number(text);
+    if (text === '' || Number.isNaN(value)) {
+      throw new Error(`Invalid value for ${path}: expected a number, got "${raw}"`);
+    }
+    return value;
+  }
+  if (node instanceof z.ZodBoolean) {
+    if (text === 'true' || text === 'false') return text === 'true';
+    throw new Error(`Invalid value for ${path}: expected true or false, got "${raw}"`);
+  }
+  if (node instanceof z.ZodString || node instanceof z.ZodEnum || node instanceof z.ZodLiteral) {
+    return text.startsWith('"') ? parseJSON(text, path, 'a string') : raw;
+  }
+  if (node instanceof z.ZodObject || node instanceof z.ZodRecord) {
+    return parseJSON(text, path, 'a JSON object');
+  }
+  if (node instanceof z.ZodArray || node instanceof z.ZodTuple) {
+    return parseJSON(text, path, 'a JSON array');
+  }
+
+  // Anything else: JSON if it parses, else the raw string
+  try {
+    return JSON.parse(text);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Coerce a value from the type of the current value (for models without a
+ * parameter schema).
+ */
+function coerceLike(current: unknown, raw: string, path: string): unknown {
+  switch (typeof current) {
+    case 'number':
+      return coerce(z.number(), raw, path);
+    case 'boolean':
+      return coerce(z.boolean(), raw, path);
+    case 'string':
+      return coerce(z.string(), raw, path);
+    default:
+      return parseJSON(raw.trim(), path, 'JSON');
+  }
+}
+
+/**
+ * Parse the value of a parameter override with the type the schema declares
+ * for its path, and validate it.
+ * Without a schema, the value takes the type of the current value.
+ * @throws Error for unknown paths (with a suggestion if one is close) and
+ *   values that do not fit the parameter
+ */
+export function parseParamOverride(
+  schema: ZodType | undefined,
+  params: unknown,
+  override: ParamOverride
+): unknown {
+  const { path, value: raw } = override;
+
+  const target = schema ? schemaAtPath(schema, params, path) : undefined;
+  const current = getNestedValue(params, path);
+  if (schema ? !target : current === undefined) {
+    const suggestion = suggestPath(path, schema ? knownPaths(schema, params) : valuePaths(params));
+    throw new Error(`Unknown parameter "${path}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`);
+  }
+
+  if (!target) return coerceLike(current, raw, path);
+
+  const value = coerce(target, raw, path);
+  const result = target.safeParse(value);
+  if (!result.success) {
+    throw new Error(`Invalid value for ${path}: ${result.error.issues.map((i) => i.message).join('; ')}`);
+  }
+  return result.data;
+}
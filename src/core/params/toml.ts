@@ -5,11 +5,17 @@ import TOML from '@iarna/toml';
 // import type { SimulationParams, PartialSimulationParams } from '../types';
 type SimulationParams = any;
 type PartialSimulationParams = any;
-import type { ParameterRange } from '../batch/types';
+import type { ParameterRange, ParameterValue, SamplingMode } from '../batch/types';
+import { SAMPLING_MODES } from '../batch/types';
 import { mergeWithDefaults } from './merge';
+import { parseExpression, checkDerivedParameterPath, type DerivedParameter } from './expression';
 import type { SimulationConfig } from './config';
 import { DEFAULT_TIME_SAMPLES } from './config';
 import { validatePartialParams, safeValidatePartialParams } from './schema';
+import { parseVersion, compareVersions } from '../registry/version';
+
+/** EHT config version from which cell types without division_mode divide */
+const DIVISION_MODE_VERSION = parseVersion('1.1.0');
 
 /** Result of parsing TOML with optional batch config */
 export interface TomlParseResult {
@@ -17,6 +23,52 @@ export interface TomlParseResult {
   parameterRanges?: ParameterRange[];
 }
 
+/**
+ * Read one [[parameter_ranges]] entry.
+ * `scale` and `values` are only set when present so numeric ranges
+ * round-trip unchanged. A `values` list makes the range discrete.
+ */
+function parseParameterRange(range: Record<string, unknown>): ParameterRange {
+  const parsed: ParameterRange = {
+    path: String(range.path ?? ''),
+    min: Number(range.min ?? 0),
+    max: Number(range.max ?? 0),
+    steps: Number(range.steps ?? 1),
+  };
+  if (range.values !== undefined) {
+    const values = range.values;
+    if (
+      !Array.isArray(values) ||
+      values.length === 0 ||
+      !values.every((v) => ['number', 'boolean', 'string'].includes(typeof v))
+    ) {
+      throw new Error(`Invalid values for range "${parsed.path}" (expected a non-empty list of numbers, booleans or strings)`);
+    }
+    parsed.values = values as ParameterValue[];
+    parsed.steps = values.length;
+  }
+  if (range.scale !== undefined) {
+    if (range.scale !== 'linear' && range.scale !== 'log') {
+      throw new Error(`Invalid scale "${String(range.scale)}" for range "${parsed.path}" (expected 'linear' or 'log')`);
+    }
+    parsed.scale = range.scale;
+  }
+  return parsed;
+}
+
+/**
+ * Read one [[derived_parameters]] entry.
+ * The expression is parsed here so syntax errors surface when loading; the
+ * path is checked against the merged params by parseSimulationConfigToml.
+ */
+function parseDerivedParameter(entry: Record<string, unknown>): DerivedParameter {
+  if (typeof entry.path !== 'string' || typeof entry.expression !== 'string') {
+    throw new Error('Invalid derived parameter (expected string "path" and "expression")');
+  }
+  parseExpression(entry.expression);
+  return { path: entry.path, expression: entry.expression };
+}
+
 /**
  * Recursively replace Infinity values with large numbers for TOML serialization.
  * TOML format doesn't support Infinity, so we use 1e308 as a substitute.
@@ -39,6 +91,33 @@ function replaceInfinityValues<T>(obj: T): T {
   return result as T;
 }
 
+/**
+ * Bring a config written by an older EHT version up to date.
+ * Before 1.1.0, 'emt' cells never divided, so an emt type without a
+ * division_mode keeps division_mode = "none". Configs without metadata are
+ * the oldest version.
+ */
+function migrateConfig(partial: PartialSimulationParams): PartialSimulationParams {
+  const metadata = partial.metadata ?? {};
+  if ((metadata.model ?? 'EHT') !== 'EHT') return partial;
+  if (compareVersions(parseVersion(String(metadata.version ?? '1.0.0')), DIVISION_MODE_VERSION) >= 0) {
+    return partial;
+  }
+
+  const emt = partial.cell_types?.emt;
+  if (emt && typeof emt === 'object' && emt.division_mode === undefined) {
+    emt.division_mode = 'none';
+  }
+  return partial;
+}
+
+/**
+ * Merge a parsed config over the defaults, migrating older versions first.
+ */
+function mergeConfigWithDefaults(partial: PartialSimulationParams, defaults?: SimulationParams): SimulationParams {
+  return mergeWithDefaults(migrateConfig(partial), defaults);
+}
+
 /**
  * Parse TOML string into partial parameters.
  * Does not merge with defaults - returns only what was in the file.
@@ -57,12 +136,13 @@ export function parseToml(tomlString: string): PartialSimulationParams {
  * This is the main function for loading parameters from files.
  *
  * @param tomlString - TOML formatted string
+ * @param defaults - Model defaults to merge over (default: EHT defaults)
  * @returns Complete parameters with defaults applied
  * @throws Error if TOML parsing fails
  */
-export function parseTomlWithDefaults(tomlString: string): SimulationParams {
+export function parseTomlWithDefaults(tomlString: string, defaults?: SimulationParams): SimulationParams {
   const partial = parseToml(tomlString);
-  return mergeWithDefaults(partial);
+  return mergeConfigWithDefaults(partial, defaults);
 }
 
 /**
@@ -75,7 +155,7 @@ export function parseTomlWithDefaults(tomlString: string): SimulationParams {
 export function parseAndValidateToml(tomlString: string): SimulationParams {
   const partial = parseToml(tomlString);
   validatePartialParams(partial);
-  return mergeWithDefaults(partial);
+  return mergeConfigWithDefaults(partial);
 }
 
 /**
@@ -97,7 +177,7 @@ export function safeParseToml(tomlString: string): {
     }
     return {
       success: true,
-      data: mergeWithDefaults(partial),
+      data: mergeConfigWithDefaults(partial),
     };
   } catch (e) {
     return {
@@ -198,12 +278,7 @@ export function parseTomlWithRanges(tomlString: string): TomlParseResult {
   if (parsed.parameter_ranges && Array.isArray(parsed.parameter_ranges)) {
     parameterRanges = (parsed.parameter_ranges as unknown[]).map((r) => {
       const range = r as Record<string, unknown>;
-      return {
-        path: String(range.path ?? ''),
-        min: Number(range.min ?? 0),
-        max: Number(range.max ?? 0),
-        steps: Number(range.steps ?? 1),
-      };
+      return parseParameterRange(range);
     });
     // Remove from parsed so it doesn't interfere with param validation
     delete parsed.parameter_ranges;
@@ -211,7 +286,7 @@ export function parseTomlWithRanges(tomlString: string): TomlParseResult {
 
   // Parse remaining as simulation params
   const partial = parsed as PartialSimulationParams;
-  const params = mergeWithDefaults(partial);
+  const params = mergeConfigWithDefaults(partial);
 
   return { params, parameterRanges };
 }
@@ -241,8 +316,9 @@ export function toTomlWithRanges(
 /**
  * Parse TOML string into a unified simulation configuration.
  * Includes base params, parameter ranges, time samples, and seeds per config.
+ * Params are merged over the given model defaults (default: EHT defaults).
  */
-export function parseSimulationConfigToml(tomlString: string): SimulationConfig {
+export function parseSimulationConfigToml(tomlString: string, defaults?: SimulationParams): SimulationConfig {
   const parsed = TOML.parse(tomlString) as Record<string, unknown>;
 
   // Extract parameter_ranges if present
@@ -250,12 +326,7 @@ export function parseSimulationConfigToml(tomlString: string): SimulationConfig
   if (parsed.parameter_ranges && Array.isArray(parsed.parameter_ranges)) {
     parameterRanges = (parsed.parameter_ranges as unknown[]).map((r) => {
       const range = r as Record<string, unknown>;
-      return {
-        path: String(range.path ?? ''),
-        min: Number(range.min ?? 0),
-        max: Number(range.max ?? 0),
-        steps: Number(range.steps ?? 1),
-      };
+      return parseParameterRange(range);
     });
     delete parsed.parameter_ranges;
   }
@@ -280,15 +351,49 @@ export function parseSimulationConfigToml(tomlString: string): SimulationConfig
     delete parsed.seeds_per_config;
   }
 
+  // Extract sampling settings if present
+  let samplingMode: SamplingMode | undefined;
+  if (parsed.sampling_mode !== undefined) {
+    const mode = String(parsed.sampling_mode) as SamplingMode;
+    if (!SAMPLING_MODES.includes(mode)) {
+      throw new Error(
+        `Unknown sampling_mode "${mode}" (expected one of: ${SAMPLING_MODES.join(', ')})`
+      );
+    }
+    samplingMode = mode;
+    delete parsed.sampling_mode;
+  }
+  const sampleCount =
+    typeof parsed.random_sample_count === 'number' ? parsed.random_sample_count : undefined;
+  const batchSeed = typeof parsed.batch_seed === 'number' ? parsed.batch_seed : undefined;
+  delete parsed.random_sample_count;
+  delete parsed.batch_seed;
+
+  // Extract derived parameters if present
+  let derivedParameters: DerivedParameter[] | undefined;
+  if (Array.isArray(parsed.derived_parameters)) {
+    derivedParameters = (parsed.derived_parameters as unknown[]).map((d) =>
+      parseDerivedParameter(d as Record<string, unknown>)
+    );
+    delete parsed.derived_parameters;
+  }
+
   // Parse remaining as simulation params
   const partial = parsed as PartialSimulationParams;
-  const params = mergeWithDefaults(partial);
+  const params = mergeConfigWithDefaults(partial, defaults);
+  for (const { path } of derivedParameters ?? []) {
+    checkDerivedParameterPath(params, path);
+  }
 
   return {
     params,
     parameterRanges,
     timeSamples,
     seedsPerConfig,
+    ...(samplingMode !== undefined && { samplingMode }),
+    ...(sampleCount !== undefined && { sampleCount }),
+    ...(batchSeed !== undefined && { batchSeed }),
+    ...(derivedParameters !== undefined && { derivedParameters }),
   };
 }
 
@@ -303,6 +408,10 @@ export function toSimulationConfigToml(config: SimulationConfig): string {
   prepared.parameter_ranges = config.parameterRanges ?? [];
   prepared.time_samples = config.timeSamples ?? DEFAULT_TIME_SAMPLES;
   prepared.seeds_per_config = config.seedsPerConfig ?? 1;
+  if (config.samplingMode !== undefined) prepared.sampling_mode = config.samplingMode;
+  if (config.sampleCount !== undefined) prepared.random_sample_count = config.sampleCount;
+  if (config.batchSeed !== undefined) prepared.batch_seed = config.batchSeed;
+  if (config.derivedParameters?.length) prepared.derived_parameters = config.derivedParameters;
 
   return TOML.stringify(prepared);
 }
@@ -27,10 +27,15 @@ export {
   type ModelDefinition,
   type BoundingBox,
   type ModelRenderContext,
+  type SceneRenderContext,
   type ModelRenderer,
   type DeepPartial,
   type PartialParams,
   type SimulationModel,
+  type SimulationEvent,
+  type SubstepStats,
+  type TrajectoryObserver,
+  type TrajectoryStatisticDefinition,
   type ModelUI,
   type ModelUITabProps,
   type ModelWarningProps,
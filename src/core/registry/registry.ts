@@ -22,10 +22,6 @@ class ModelRegistry {
   private models: Map<string, RegistryEntry> = new Map();
   private defaultModelName: string | null = null;
 
-  constructor() {
-    console.log('[Registry] Initializing');
-  }
-
   /**
    * Register a model definition.
    * If multiple versions of the same model are registered,
@@ -46,7 +42,6 @@ class ModelRegistry {
         latestModel: modelDef,
         versions: new Map([[versionStr, modelDef]]),
       });
-      console.log(`[Registry] Registered new model: ${model.id} (v${versionStr})`);
     } else {
       const entry = this.models.get(model.id)!;
       entry.versions.set(versionStr, modelDef);
@@ -61,7 +56,6 @@ class ModelRegistry {
           version.patch > currentVersion.patch)
       ) {
         entry.latestModel = modelDef;
-        console.log(`[Registry] Updated model ${model.id} to version ${versionStr}`);
       }
     }
   }
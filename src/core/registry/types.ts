@@ -2,14 +2,33 @@
  * Model definition types for the multi-model architecture.
  */
 
-import type { SimulationModel, ModelUI, ModelUITabProps, ModelWarningProps } from '../interfaces/model';
-import type { ModelRenderer, ModelRenderContext, BoundingBox } from '../interfaces/renderer';
+import type {
+  SimulationModel,
+  SimulationEvent,
+  SubstepStats,
+  TrajectoryObserver,
+  TrajectoryStatisticDefinition,
+  ModelUI,
+  ModelUITabProps,
+  ModelWarningProps,
+} from '../interfaces/model';
+import type { ModelRenderer, ModelRenderContext, SceneRenderContext, BoundingBox } from '../interfaces/renderer';
 
 import type { Vector2 } from '../math/vector2';
+import type { ParameterValue } from '../batch/types';
 
 // Re-export interface types
-export type { SimulationModel, ModelUI, ModelUITabProps, ModelWarningProps };
-export type { ModelRenderer, ModelRenderContext, BoundingBox };
+export type {
+  SimulationModel,
+  SimulationEvent,
+  SubstepStats,
+  TrajectoryObserver,
+  TrajectoryStatisticDefinition,
+  ModelUI,
+  ModelUITabProps,
+  ModelWarningProps,
+};
+export type { ModelRenderer, ModelRenderContext, SceneRenderContext, BoundingBox };
 
 // Alias for backward compatibility (if needed) or clarity
 export type ModelDefinition<Params = any, State = any> = SimulationModel<Params, State>;
@@ -82,7 +101,7 @@ export interface BatchParameterDefinition {
   path: string;
   label: string;
   isInteger?: boolean;
-  options?: any[]; // For dropdowns/enums
+  options?: ParameterValue[]; // Discrete values (booleans, enums) swept as a list
 }
 
 /** Statistic definition for batch analysis */
@@ -90,6 +109,8 @@ export interface StatisticDefinition<State = any> {
   id: string;
   label: string;
   description: string;
+  /** Cell group the statistic is computed for; the id is then `<name>_<group>` */
+  group?: string;
   compute: (state: State) => number;
 }
 
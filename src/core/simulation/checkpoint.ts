@@ -0,0 +1,71 @@
+/**
+ * Simulation checkpoints.
+ * A checkpoint captures everything needed to continue a run exactly where it
+ * stopped: the model identity, the parameters and the model's full state.
+ */
+
+/** Format identifier written into every checkpoint file */
+export const CHECKPOINT_FORMAT = 'eht-simulator-checkpoint';
+
+/** Current checkpoint format version */
+export const CHECKPOINT_FORMAT_VERSION = 1;
+
+/**
+ * Model-agnostic checkpoint container.
+ * `state` is the model-specific payload produced by SimulationModel.saveCheckpoint().
+ */
+export interface SimulationCheckpoint<Params = unknown> {
+  format: typeof CHECKPOINT_FORMAT;
+  format_version: number;
+  model: string;
+  model_version: string;
+  params: Params;
+  state: unknown;
+}
+
+/** Tag used to encode numbers JSON cannot represent (Infinity, NaN) */
+const NUMBER_TAG = '__number__';
+
+/**
+ * Serialize a checkpoint to JSON.
+ * Non-finite numbers (e.g. never-firing event times) are tagged so that they
+ * survive the round trip; finite doubles round-trip exactly in JSON.
+ */
+export function checkpointToJSON(checkpoint: SimulationCheckpoint): string {
+  return JSON.stringify(checkpoint, (_key, value) => {
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      return { [NUMBER_TAG]: String(value) };
+    }
+    return value;
+  });
+}
+
+/**
+ * Parse a checkpoint from JSON.
+ * @throws Error if the text is not a checkpoint of a supported version
+ */
+export function checkpointFromJSON(json: string): SimulationCheckpoint {
+  const parsed = JSON.parse(json, (_key, value) => {
+    if (
+      value !== null &&
+      typeof value === 'object' &&
+      !Array.isArray(value) &&
+      Object.keys(value).length === 1 &&
+      typeof value[NUMBER_TAG] === 'string'
+    ) {
+      return Number(value[NUMBER_TAG]);
+    }
+    return value;
+  });
+
+  if (parsed?.format !== CHECKPOINT_FORMAT) {
+    throw new Error('Not a simulation checkpoint (missing or unknown "format" field)');
+  }
+  if (typeof parsed.format_version !== 'number' || parsed.format_version > CHECKPOINT_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported checkpoint format version ${parsed.format_version} (supported: <= ${CHECKPOINT_FORMAT_VERSION})`
+    );
+  }
+
+  return parsed as SimulationCheckpoint;
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { SimulationEngine } from './engine';
+import { ToyModel } from '@/models/toy';
+import { createDefaultToyParams } from '@/models/toy/params/defaults';
+import type { ToyParams } from '@/models/toy/params/types';
+import type { ToySimulationState } from '@/models/toy/simulation/types';
+import type { TrajectoryStatisticDefinition } from '@/core/interfaces/model';
+
+function createParams(): ToyParams {
+  const params = createDefaultToyParams();
+  params.general.N = 5;
+  params.general.dt = 0.25;
+  params.general.t_end = 3;
+  return params;
+}
+
+describe('SimulationEngine time control', () => {
+  it('should step by the model time step until the end time', () => {
+    const engine = new SimulationEngine({ model: ToyModel, params: createParams() });
+    expect(engine.getTimeStep()).toBe(0.25);
+    expect(engine.getEndTime()).toBe(3);
+
+    engine.step();
+    expect(engine.getTime()).toBe(0.25);
+
+    expect(engine.runUntil(Infinity)).toBe(true);
+    expect(engine.getTime()).toBe(3);
+    expect(engine.isComplete()).toBe(true);
+  });
+
+  it('should run until a given time', () => {
+    const engine = new SimulationEngine({ model: ToyModel, params: createParams() });
+    const times: number[] = [];
+    engine.runUntil(1, { onStep: (t) => times.push(t) });
+    expect(times).toEqual([0.25, 0.5, 0.75, 1]);
+
+    // Already there: no steps
+    engine.runUntil(1, { onStep: (t) => times.push(t) });
+    expect(times).toHaveLength(4);
+  });
+
+  it('should report each sample once, at the first step reaching it', () => {
+    const engine = new SimulationEngine({ model: ToyModel, params: createParams() });
+    const samples: [number, number][] = [];
+    engine.runWithSamples([0, 0.5, 0.6, 2, 10], (time, state) => samples.push([time, state.t]));
+
+    // 10 is past the end time and never reached
+    expect(samples).toEqual([[0, 0], [0.5, 0.5], [0.6, 0.75], [2, 2]]);
+    // Runs to the end time looking for the last sample
+    expect(engine.getTime()).toBe(3);
+  });
+
+  it('should stop after the last sample', () => {
+    const engine = new SimulationEngine({ model: ToyModel, params: createParams() });
+    engine.runWithSamples([0.5, 1], () => undefined);
+    expect(engine.getTime()).toBe(1);
+  });
+
+  it('should skip samples before the current time', () => {
+    const engine = new SimulationEngine({ model: ToyModel, params: createParams() });
+    engine.runUntil(1);
+    const samples: number[] = [];
+    engine.runWithSamples([0, 0.5, 1, 1.5], (time) => samples.push(time));
+    expect(samples).toEqual([1, 1.5]);
+  });
+
+  it('should stop when aborted', () => {
+    const engine = new SimulationEngine({ model: ToyModel, params: createParams() });
+    const controller = new AbortController();
+    const completed = engine.runUntil(Infinity, {
+      signal: controller.signal,
+      onStep: (t) => {
+        if (t >= 1) controller.abort();
+      },
+    });
+    expect(completed).toBe(false);
+    expect(engine.getTime()).toBe(1);
+
+    const samples: number[] = [];
+    expect(engine.runWithSamples([2], (time) => samples.push(time), { signal: controller.signal })).toBe(false);
+    expect(samples).toEqual([]);
+  });
+});
+
+describe('SimulationEngine snapshots', () => {
+  it('should record a snapshot every snapshotInterval steps', () => {
+    const { getStepCount: _, ...countless } = ToyModel;
+    for (const model of [ToyModel, countless]) {
+      const times: number[] = [];
+      const engine = new SimulationEngine({
+        model,
+        params: createParams(),
+        snapshotInterval: 2,
+        onSnapshot: (rows) => times.push(Number(rows[0].t)),
+      });
+      engine.runUntil(2);
+      expect(times).toEqual([0, 0.5, 1, 1.5, 2]);
+    }
+  });
+});
+
+describe('SimulationEngine trajectory statistics', () => {
+  // Number of observed states and the time of the last one
+  const definitions: TrajectoryStatisticDefinition<ToyParams, ToySimulationState>[] = [
+    {
+      id: 'observations',
+      label: 'Observations',
+      description: 'Number of observed states',
+      create: () => {
+        let count = 0;
+        return { observe: () => { count++; }, result: () => count };
+      },
+    },
+    {
+      id: 'last_time',
+      label: 'Last Time',
+      description: 'Time of the last observed state',
+      create: () => {
+        let time = NaN;
+        return { observe: (state) => { time = state.t; }, result: () => time };
+      },
+    },
+  ];
+
+  it('should observe the initial state and every step', () => {
+    const engine = new SimulationEngine({ model: ToyModel, params: createParams() });
+    engine.trackTrajectoryStatistics(definitions);
+    engine.runUntil(2);
+
+    expect(engine.getTrajectoryStatistics()).toEqual({ observations: 9, last_time: 2 });
+  });
+
+  it('should restart on init', () => {
+    const engine = new SimulationEngine({ model: ToyModel, params: createParams() });
+    engine.trackTrajectoryStatistics(definitions);
+    engine.runUntil(1);
+    engine.init();
+
+    expect(engine.getTrajectoryStatistics()).toEqual({ observations: 1, last_time: 0 });
+  });
+
+  it('should report nothing unless tracking', () => {
+    const engine = new SimulationEngine({ model: ToyModel, params: createParams() });
+    engine.runUntil(1);
+    expect(engine.getTrajectoryStatistics()).toEqual({});
+  });
+});
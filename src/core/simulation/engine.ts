@@ -2,8 +2,19 @@
  * Generic simulation engine/runner.
  * Orchestrates initialization, stepping, and output collection using a SimulationModel.
  */
-import type { SimulationModel } from '@/core/interfaces/model';
+import type {
+  SimulationModel,
+  SimulationEvent,
+  SubstepStats,
+  TrajectoryObserver,
+  TrajectoryStatisticDefinition,
+} from '@/core/interfaces/model';
 import type { BatchSnapshot } from '../batch/types';
+import {
+  CHECKPOINT_FORMAT,
+  CHECKPOINT_FORMAT_VERSION,
+  type SimulationCheckpoint,
+} from './checkpoint';
 
 export interface SimulationEngineConfig<Params = any, State = any> {
   model: SimulationModel<Params, State>;
@@ -11,6 +22,17 @@ export interface SimulationEngineConfig<Params = any, State = any> {
   onSnapshot?: (snapshot: Record<string, any>[]) => void; // Changed to match model.getSnapshot format
   onBatchSnapshot?: (snapshot: BatchSnapshot) => void; // Batch snapshot might need update?
   snapshotInterval?: number; // Record every N steps (default: 1)
+  onEvent?: (event: SimulationEvent) => void; // Called for each new model event after a step
+}
+
+/**
+ * Options for running an engine over a time span.
+ */
+export interface SimulationRunOptions {
+  /** Stop before the next step once aborted */
+  signal?: AbortSignal;
+  /** Called after every step with the new simulation time */
+  onStep?: (t: number) => void;
 }
 
 /**
@@ -24,15 +46,24 @@ export class SimulationEngine<Params = any, State = any> {
 
   // Callbacks
   private onSnapshot?: (snapshot: Record<string, any>[]) => void;
+  private onEvent?: (event: SimulationEvent) => void;
+  /** Number of model events already passed to onEvent */
+  private seenEvents = 0;
+  /** Tracked trajectory statistics and their observers for the current run */
+  private trajectoryStatistics: TrajectoryStatisticDefinition<Params, State>[] = [];
+  private trajectoryObservers: TrajectoryObserver<State>[] = [];
   // TODO: BatchSnapshot type is currently EHT specific probably?
   // We'll leave it out or adapt it.
 
   private snapshotInterval: number;
+  /** Steps since init or the last restored checkpoint */
+  private stepCount = 0;
 
   constructor(config: SimulationEngineConfig<Params, State>) {
     this.model = config.model;
     this.params = config.params;
     this.onSnapshot = config.onSnapshot;
+    this.onEvent = config.onEvent;
     this.snapshotInterval = config.snapshotInterval ?? 1;
 
     // Initialize immediately
@@ -45,39 +76,26 @@ export class SimulationEngine<Params = any, State = any> {
   init(): void {
     this.state = this.model.init(this.params);
     this.snapshots = [];
+    this.stepCount = 0;
+    this.seenEvents = 0;
     this.recordSnapshot();
+    this.emitNewEvents();
+    this.startTrajectoryObservers();
   }
 
   /**
    * Advance the simulation by one timestep.
    */
   step(): void {
-    // We assume model handles dt internally via params or fixed step
-    // But interface has dt. We pass 0 or fix it?
-    // Let's pass 1.0 or read from params if possible, but params is generic.
-    // For EHT model we implemented it to use params.general.dt inside step if needed, 
-    // or we passed params. 
-    // The generic interface has step(state, dt, params).
-
-    // Try to extract dt from params if it looks like standard params, else 1.0
-    let dt = 1.0;
-    const pAny = this.params as any;
-    if (pAny.general && typeof pAny.general.dt === 'number') {
-      dt = pAny.general.dt;
+    this.state = this.model.step(this.state, this.getTimeStep(), this.params);
+    this.emitNewEvents();
+    for (const observer of this.trajectoryObservers) {
+      observer.observe(this.state);
     }
 
-    this.state = this.model.step(this.state, dt, this.params);
-
-    // Snapshot logic
-    // We need to know step count or time.
-    // Generic state doesn't enforce it, but we can assume model tracks it.
-    // Or we track it here?
-    // Let's assume on every call we might snapshot.
-
-    // But we need to throttle based on interval.
-    // EHT state had step_count.
-    const sAny = this.state as any;
-    const stepCount = typeof sAny.step_count === 'number' ? sAny.step_count : this.snapshots.length;
+    // Record a snapshot every snapshotInterval steps
+    this.stepCount++;
+    const stepCount = this.model.getStepCount?.(this.state) ?? this.stepCount;
 
     if (stepCount % this.snapshotInterval === 0) {
       this.recordSnapshot();
@@ -88,13 +106,75 @@ export class SimulationEngine<Params = any, State = any> {
    * Check if simulation is complete.
    */
   isComplete(): boolean {
-    const pAny = this.params as any;
-    const sAny = this.state as any;
+    return this.getTime() >= this.getEndTime();
+  }
 
-    if (pAny.general && typeof pAny.general.t_end === 'number' && typeof sAny.t === 'number') {
-      return sAny.t >= pAny.general.t_end;
+  /**
+   * Step until the simulation time reaches t or the run is complete.
+   * @returns false if stopped by the abort signal
+   */
+  runUntil(t: number, options: SimulationRunOptions = {}): boolean {
+    while (this.getTime() < t && !this.isComplete()) {
+      if (options.signal?.aborted) return false;
+      this.step();
+      options.onStep?.(this.getTime());
     }
-    return false;
+    return true;
+  }
+
+  /**
+   * Step through a list of sample times (ascending), calling onSample once
+   * for each sample as soon as the simulation time reaches it. Samples before
+   * the current time are skipped, so resumed runs only report later samples.
+   * Stops after the last sample or when the run is complete; samples past
+   * the end time are never reported.
+   * @returns false if stopped by the abort signal
+   */
+  runWithSamples(
+    times: number[],
+    onSample: (time: number, state: State) => void,
+    options: SimulationRunOptions = {}
+  ): boolean {
+    let next = times.findIndex((s) => s >= this.getTime() - 1e-9);
+    if (next === -1) return true;
+
+    const collect = () => {
+      const t = this.getTime();
+      while (next < times.length && t >= times[next]) {
+        onSample(times[next], this.state);
+        next++;
+      }
+    };
+
+    collect();
+    while (next < times.length && !this.isComplete()) {
+      if (options.signal?.aborted) return false;
+      this.step();
+      options.onStep?.(this.getTime());
+      collect();
+    }
+    return true;
+  }
+
+  /**
+   * Current simulation time.
+   */
+  getTime(): number {
+    return this.model.getTime(this.state);
+  }
+
+  /**
+   * Length of one step.
+   */
+  getTimeStep(): number {
+    return this.model.getTimeStep(this.params);
+  }
+
+  /**
+   * Time at which the run is complete.
+   */
+  getEndTime(): number {
+    return this.model.getEndTime(this.params);
   }
 
   /**
@@ -104,6 +184,27 @@ export class SimulationEngine<Params = any, State = any> {
     return this.state;
   }
 
+  /**
+   * Get all events emitted so far (empty if the model has no events).
+   */
+  getEvents(): SimulationEvent[] {
+    return this.model.getEvents?.(this.state) ?? [];
+  }
+
+  /**
+   * Get substep statistics (undefined unless the model steps adaptively).
+   */
+  getSubstepStats(): SubstepStats | undefined {
+    return this.model.getSubstepStats?.(this.state);
+  }
+
+  /**
+   * Get the model this engine runs.
+   */
+  getModel(): SimulationModel<Params, State> {
+    return this.model;
+  }
+
   /**
    * Get parameters.
    */
@@ -119,6 +220,77 @@ export class SimulationEngine<Params = any, State = any> {
     this.init();
   }
 
+  /**
+   * Capture the full simulation state and parameters.
+   * Restoring the checkpoint continues the run bit-identically.
+   * @throws Error if the model does not support checkpoints
+   */
+  saveCheckpoint(): SimulationCheckpoint<Params> {
+    if (!this.model.saveCheckpoint) {
+      throw new Error(`Model "${this.model.id}" does not support checkpoints`);
+    }
+
+    return {
+      format: CHECKPOINT_FORMAT,
+      format_version: CHECKPOINT_FORMAT_VERSION,
+      model: this.model.id,
+      model_version: this.model.version,
+      params: structuredClone(this.params),
+      state: this.model.saveCheckpoint(this.state),
+    };
+  }
+
+  /**
+   * Replace the current state and parameters with a saved checkpoint.
+   * @throws Error if the checkpoint belongs to another model or the model
+   *   does not support checkpoints
+   */
+  restoreCheckpoint(checkpoint: SimulationCheckpoint<Params>): void {
+    if (checkpoint.model !== this.model.id) {
+      throw new Error(
+        `Checkpoint was written by model "${checkpoint.model}", but the engine runs "${this.model.id}"`
+      );
+    }
+    if (!this.model.loadCheckpoint) {
+      throw new Error(`Model "${this.model.id}" does not support checkpoints`);
+    }
+
+    this.params = structuredClone(checkpoint.params);
+    this.state = this.model.loadCheckpoint(checkpoint.state, this.params);
+    this.snapshots = [];
+    this.stepCount = 0;
+    // Events before the checkpoint were already reported by the original run
+    this.seenEvents = this.getEvents().length;
+    this.recordSnapshot();
+    // Observers cannot be checkpointed, so tracking restarts here
+    this.startTrajectoryObservers();
+  }
+
+  /**
+   * Track statistics of the whole trajectory (e.g. first-passage times).
+   * Observation starts at the current state and restarts on init and
+   * restoreCheckpoint.
+   * @param definitions - Defaults to the model's trajectory statistics
+   */
+  trackTrajectoryStatistics(
+    definitions: TrajectoryStatisticDefinition<Params, State>[] =
+      this.model.generateTrajectoryStatistics?.(this.params) ?? []
+  ): void {
+    this.trajectoryStatistics = definitions;
+    this.startTrajectoryObservers();
+  }
+
+  /**
+   * Values of the tracked trajectory statistics over the steps observed so far.
+   */
+  getTrajectoryStatistics(): Record<string, number> {
+    const result: Record<string, number> = {};
+    this.trajectoryStatistics.forEach((stat, i) => {
+      result[stat.id] = this.trajectoryObservers[i].result();
+    });
+    return result;
+  }
+
   /**
    * Record a snapshot.
    */
@@ -130,6 +302,30 @@ export class SimulationEngine<Params = any, State = any> {
     }
   }
 
+  /**
+   * Create fresh observers for the tracked trajectory statistics and let
+   * them see the current state.
+   */
+  private startTrajectoryObservers(): void {
+    this.trajectoryObservers = this.trajectoryStatistics.map((stat) => stat.create(this.params));
+    for (const observer of this.trajectoryObservers) {
+      observer.observe(this.state);
+    }
+  }
+
+  /**
+   * Pass events added since the last call to onEvent.
+   */
+  private emitNewEvents(): void {
+    const events = this.getEvents();
+    if (this.onEvent) {
+      for (let i = this.seenEvents; i < events.length; i++) {
+        this.onEvent(events[i]);
+      }
+    }
+    this.seenEvents = events.length;
+  }
+
   /**
    * Get current statistics.
    */
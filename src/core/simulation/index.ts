@@ -2,4 +2,11 @@
  * Core simulation module.
  */
 
-export { SimulationEngine, type SimulationEngineConfig } from './engine';
+export { SimulationEngine, type SimulationEngineConfig, type SimulationRunOptions } from './engine';
+export {
+  CHECKPOINT_FORMAT,
+  CHECKPOINT_FORMAT_VERSION,
+  checkpointToJSON,
+  checkpointFromJSON,
+  type SimulationCheckpoint,
+} from './checkpoint';
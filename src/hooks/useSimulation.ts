@@ -4,7 +4,7 @@
  */
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { SimulationEngine } from '../core/simulation/engine';
-import type { SimulationModel } from '../core/interfaces/model';
+import type { SimulationModel, SimulationEvent } from '../core/interfaces/model';
 
 /** Behavior when parameters change */
 export type ParamChangeBehavior = 'init' | 'step' | 'run';
@@ -26,6 +26,8 @@ export interface UseSimulationResult<Params = any, State = any> {
   stepCount: number;
   /** Maximum time that has been simulated so far */
   maxSimulatedTime: number;
+  /** Model events up to maxSimulatedTime (empty if the model has none) */
+  events: SimulationEvent[];
   /** Whether simulation is catching up to a seek target */
   isCatchingUp: boolean;
   start: () => void;
@@ -46,9 +48,9 @@ function cloneState<State>(s: State): State {
   return s;
 }
 
-/** Helper to get time from state */
-function getStateTime(state: any): number {
-  return state?.t ?? 0;
+/** Helper to get time from a (possibly missing) state */
+function getStateTime<State>(model: SimulationModel<any, State>, state: State | null | undefined): number {
+  return state ? model.getTime(state) : 0;
 }
 
 export function useSimulation<Params = any, State = any>(options: UseSimulationOptions<Params, State>): UseSimulationResult<Params, State> {
@@ -146,7 +148,7 @@ export function useSimulation<Params = any, State = any>(options: UseSimulationO
         if (isCatchingUp && seekTargetRef.current !== null) {
           // Catching up mode: compute states until we reach target time
           const history = stateHistoryRef.current;
-          const maxTime = history.length > 0 ? getStateTime(history[history.length - 1]) : 0;
+          const maxTime = history.length > 0 ? getStateTime(model, history[history.length - 1]) : 0;
 
           if (maxTime >= seekTargetRef.current || engineRef.current.isComplete()) {
             // We've caught up or reached the end
@@ -154,7 +156,7 @@ export function useSimulation<Params = any, State = any>(options: UseSimulationO
             const targetTime = seekTargetRef.current;
             let bestIndex = history.length - 1;
             for (let i = 0; i < history.length; i++) {
-              if (getStateTime(history[i]) >= targetTime) {
+              if (getStateTime(model, history[i]) >= targetTime) {
                 bestIndex = i;
                 break;
               }
@@ -209,7 +211,7 @@ export function useSimulation<Params = any, State = any>(options: UseSimulationO
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [isRunning, isCatchingUp, currentIndex]);
+  }, [model, isRunning, isCatchingUp, currentIndex]);
 
   const start = useCallback(() => {
     setIsCatchingUp(false);
@@ -261,11 +263,10 @@ export function useSimulation<Params = any, State = any>(options: UseSimulationO
     if (history.length === 0) return;
 
     // Clamp target time to valid range
-    const pAny = params as any;
-    const endTime = pAny?.general?.t_end ?? Infinity;
+    const endTime = model.getEndTime(params);
     targetTime = Math.max(0, Math.min(targetTime, endTime));
 
-    const maxSimulatedTime = getStateTime(history[history.length - 1]);
+    const maxSimulatedTime = getStateTime(model, history[history.length - 1]);
 
     if (targetTime <= maxSimulatedTime) {
       // Target is within computed history - find closest state
@@ -273,7 +274,7 @@ export function useSimulation<Params = any, State = any>(options: UseSimulationO
       let bestDiff = Infinity;
 
       for (let i = 0; i < history.length; i++) {
-        const stateTime = getStateTime(history[i]);
+        const stateTime = getStateTime(model, history[i]);
         const diff = Math.abs(stateTime - targetTime);
         if (diff < bestDiff) {
           bestDiff = diff;
@@ -294,7 +295,7 @@ export function useSimulation<Params = any, State = any>(options: UseSimulationO
       seekTargetRef.current = targetTime;
       setIsCatchingUp(true);
     }
-  }, [params]);
+  }, [model, params]);
 
   const setParams = useCallback((newParams: Params) => {
     setIsRunning(false);
@@ -313,16 +314,18 @@ export function useSimulation<Params = any, State = any>(options: UseSimulationO
 
   // Compute derived values
   const history = stateHistoryRef.current;
-  const maxSimulatedTime = history.length > 0 ? getStateTime(history[history.length - 1]) : 0;
+  const maxSimulatedTime = history.length > 0 ? getStateTime(model, history[history.length - 1]) : 0;
+  const events = history.length > 0 ? model.getEvents?.(history[history.length - 1]) ?? [] : [];
 
   return {
     state,
     params,
     isRunning,
     isComplete: engineRef.current?.isComplete() ?? false,
-    time: (state as any)?.t ?? 0,
-    stepCount: (state as any)?.step_count ?? 0,
+    time: getStateTime(model, state),
+    stepCount: state ? model.getStepCount?.(state) ?? 0 : 0,
     maxSimulatedTime,
+    events,
     isCatchingUp,
     start,
     pause,
@@ -0,0 +1,78 @@
+/**
+ * Tests for distribution aggregators of EHT statistics.
+ */
+import { describe, it, expect } from 'vitest';
+import { parseAggregator, parseStatAggregators, aggregate, aggregatorOutputs } from './aggregators';
+import { EHTModel } from './index';
+import { createDefaultEHTParams } from './params/defaults';
+import { ehtParamsSchema } from './params/schema';
+import { computeEHTStatistics, generateEHTStatistics } from './statistics';
+import { SimulationEngine } from '@/core/simulation/engine';
+
+const values = [4, 1, 3, 2, 10];
+
+describe('EHT distribution aggregators', () => {
+  it('should compute order statistics and spread', () => {
+    expect(aggregate(parseAggregator('median'), values)).toEqual([3]);
+    expect(aggregate(parseAggregator('min'), values)).toEqual([1]);
+    expect(aggregate(parseAggregator('max'), values)).toEqual([10]);
+    expect(aggregate(parseAggregator('p25'), values)).toEqual([2]);
+    expect(aggregate(parseAggregator('p90'), values)[0]).toBeCloseTo(7.6, 10);
+    expect(aggregate(parseAggregator('sd'), values)[0]).toBeCloseTo(Math.sqrt(12.5), 10);
+    expect(aggregate(parseAggregator('sd'), [5])).toEqual([0]);
+  });
+
+  it('should compute histogram fractions with the upper edge in the last bin', () => {
+    const hist = parseAggregator('hist:0:4:2');
+    expect(aggregatorOutputs(hist).map((o) => o.suffix)).toEqual(['hist0', 'hist1']);
+    // 10 is out of range but still counts toward the total
+    expect(aggregate(hist, values)).toEqual([0.2, 0.6]);
+  });
+
+  it('should give 0 for empty groups', () => {
+    expect(aggregate(parseAggregator('median'), [])).toEqual([0]);
+    expect(aggregate(parseAggregator('hist:0:1:3'), [])).toEqual([0, 0, 0]);
+  });
+
+  it('should name percentiles without dots', () => {
+    expect(aggregatorOutputs(parseAggregator('p2.5'))[0].suffix).toBe('p2_5');
+  });
+
+  it('should reject invalid specs and metrics', () => {
+    expect(() => parseAggregator('mode')).toThrow('Unknown aggregator "mode"');
+    expect(() => parseAggregator('constructor')).toThrow('Unknown aggregator "constructor"');
+    expect(() => parseAggregator('toString')).toThrow('Unknown aggregator "toString"');
+    expect(() => parseAggregator('p120')).toThrow('between 0 and 100');
+    expect(() => parseAggregator('hist:1:0:4')).toThrow('min < max');
+    expect(() => parseAggregator('hist:0:1:0')).toThrow('positive integer');
+    expect(() => parseStatAggregators({ below_basal: ['median'] })).toThrow('Unknown metric "below_basal"');
+
+    const params = createDefaultEHTParams();
+    params.general.stat_aggregators = { bx: ['mode'] };
+    const issues = ehtParamsSchema.safeParse(params).error?.issues ?? [];
+    expect(issues.some((issue) => issue.path.join('.') === 'general.stat_aggregators')).toBe(true);
+  });
+
+  it('should add configured statistics for every group', () => {
+    const params = createDefaultEHTParams();
+    params.cell_types.control.N_init = 10;
+    params.cell_types.emt.N_init = 2;
+    params.general.stat_aggregators = { bx: ['median', 'hist:0:10:4'], x: ['p90'] };
+    const state = new SimulationEngine({ model: EHTModel, params }).getState();
+
+    const stats = computeEHTStatistics(state, params);
+    const ids = generateEHTStatistics(params).map((s) => s.id);
+    for (const group of ['all', 'control', 'emt']) {
+      for (const id of ['bx_median', 'bx_hist0', 'bx_hist3', 'x_p90']) {
+        expect(ids).toContain(`${id}_${group}`);
+        expect(stats[`${id}_${group}`]).toBeTypeOf('number');
+      }
+      const bins = [0, 1, 2, 3].reduce((sum, i) => sum + stats[`bx_hist${i}_${group}`], 0);
+      expect(bins).toBeLessThanOrEqual(1 + 1e-12);
+    }
+
+    // Without configuration only the means are reported
+    params.general.stat_aggregators = undefined;
+    expect(Object.keys(computeEHTStatistics(state, params)).some((id) => id.startsWith('bx_median'))).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Distribution aggregators for per-cell EHT metrics.
+ * Configured per metric in general.stat_aggregators, e.g.
+ * `bx = ["median", "sd", "p90", "hist:0:10:5"]`, each aggregator adds
+ * statistics next to the mean (bx_median_all, bx_p90_all, bx_hist0_all, ...).
+ */
+
+/** Per-cell metrics that can be aggregated beyond their mean */
+export const DISTRIBUTION_METRICS = ['ab_distance', 'AX', 'BX', 'ax', 'bx', 'x'] as const;
+export type DistributionMetric = typeof DISTRIBUTION_METRICS[number];
+
+/** A parsed aggregator spec */
+export type Aggregator =
+  | { kind: 'mean' | 'sum' | 'count' | 'median' | 'sd' | 'min' | 'max' }
+  | { kind: 'percentile'; p: number }
+  | { kind: 'hist'; min: number; max: number; bins: number };
+
+/** One statistic produced by an aggregator */
+export interface AggregatorOutput {
+  suffix: string;      // Appended to the metric name (e.g. "p90" for bx_p90)
+  label: string;
+  description: string;
+}
+
+const SIMPLE_AGGREGATORS: Record<string, { label: string; description: string }> = {
+  mean: { label: 'Mean', description: 'Mean' },
+  sum: { label: 'Sum', description: 'Sum' },
+  count: { label: 'Count', description: 'Number of cells' },
+  median: { label: 'Median', description: 'Median' },
+  sd: { label: 'SD', description: 'Standard deviation' },
+  min: { label: 'Min', description: 'Minimum' },
+  max: { label: 'Max', description: 'Maximum' },
+};
+
+/**
+ * Parse an aggregator spec: mean, sum, count, median, sd, min, max, p<percentile>
+ * (e.g. p10, p2.5) or hist:<min>:<max>:<bins>.
+ * @throws Error if the spec is not a valid aggregator
+ */
+export function parseAggregator(spec: string): Aggregator {
+  if (Object.hasOwn(SIMPLE_AGGREGATORS, spec)) {
+    return { kind: spec as 'mean' | 'sum' | 'count' | 'median' | 'sd' | 'min' | 'max' };
+  }
+
+  const percentile = /^p(\d+(?:\.\d+)?)$/.exec(spec);
+  if (percentile) {
+    const p = Number(percentile[1]);
+    if (p > 100) throw new Error(`Percentile must be between 0 and 100: "${spec}"`);
+    return { kind: 'percentile', p };
+  }
+
+  if (spec.startsWith('hist:')) {
+    const [min, max, bins] = spec.slice(5).split(':').map(Number);
+    if (!Number.isFinite(min) || !Number.isFinite(max) || !(max > min)) {
+      throw new Error(`Histogram range must be finite with min < max: "${spec}"`);
+    }
+    if (!Number.isInteger(bins) || bins < 1) {
+      throw new Error(`Histogram bin count must be a positive integer: "${spec}"`);
+    }
+    return { kind: 'hist', min, max, bins };
+  }
+
+  throw new Error(
+    `Unknown aggregator "${spec}" (expected mean, sum, count, median, sd, min, max, p<percentile> or hist:<min>:<max>:<bins>)`
+  );
+}
+
+/**
+ * Parse the aggregators configured for each metric.
+ * @throws Error for unknown metrics and invalid aggregator specs
+ */
+export function parseStatAggregators(
+  config: Record<string, string[]> | undefined
+): Partial<Record<DistributionMetric, Aggregator[]>> {
+  const result: Partial<Record<DistributionMetric, Aggregator[]>> = {};
+  for (const [metric, specs] of Object.entries(config ?? {})) {
+    if (!(DISTRIBUTION_METRICS as readonly string[]).includes(metric)) {
+      throw new Error(`Unknown metric "${metric}" (expected one of ${DISTRIBUTION_METRICS.join(', ')})`);
+    }
+    result[metric as DistributionMetric] = specs.map(parseAggregator);
+  }
+  return result;
+}
+
+/** The statistics an aggregator produces, in the order of aggregate() */
+export function aggregatorOutputs(aggregator: Aggregator): AggregatorOutput[] {
+  switch (aggregator.kind) {
+    case 'percentile': {
+      const p = String(aggregator.p);
+      // No dots in ids: batch plots treat dotted columns as parameter paths
+      return [{ suffix: `p${p.replace('.', '_')}`, label: `P${p}`, description: `${p}th percentile` }];
+    }
+    case 'hist': {
+      const { min, max, bins } = aggregator;
+      const width = (max - min) / bins;
+      return Array.from({ length: bins }, (_, i) => {
+        const lower = min + i * width;
+        const upper = i === bins - 1 ? max : min + (i + 1) * width;
+        const range = `[${lower}, ${upper}${i === bins - 1 ? ']' : ')'}`;
+        return { suffix: `hist${i}`, label: `Bin ${range}`, description: `Fraction of cells in ${range}` };
+      });
+    }
+    default:
+      return [{ suffix: aggregator.kind, ...SIMPLE_AGGREGATORS[aggregator.kind] }];
+  }
+}
+
+/** Quantile with linear interpolation between order statistics (q in [0, 1]) */
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/**
+ * Reduce values with an aggregator, one value per output.
+ * Empty groups give 0 for every output, like the means.
+ */
+export function aggregate(aggregator: Aggregator, values: number[]): number[] {
+  if (aggregator.kind === 'hist') {
+    const { min, max, bins } = aggregator;
+    const counts = new Array<number>(bins).fill(0);
+    for (const v of values) {
+      if (v < min || v > max) continue;
+      counts[Math.min(bins - 1, Math.floor(((v - min) / (max - min)) * bins))]++;
+    }
+    return counts.map((c) => (values.length > 0 ? c / values.length : 0));
+  }
+
+  if (values.length === 0) return [0];
+
+  const sum = values.reduce((a, b) => a + b, 0);
+  const mean = sum / values.length;
+  switch (aggregator.kind) {
+    case 'mean':
+      return [mean];
+    case 'sum':
+      return [sum];
+    case 'count':
+      return [values.length];
+    case 'sd':
+      return [values.length > 1
+        ? Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1))
+        : 0];
+    case 'min':
+      return [Math.min(...values)];
+    case 'max':
+      return [Math.max(...values)];
+    case 'median':
+      return [quantile([...values].sort((a, b) => a - b), 0.5)];
+    case 'percentile':
+      return [quantile([...values].sort((a, b) => a - b), aggregator.p / 100)];
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Tests for user-defined EHT cell groups and the boundary fraction.
+ */
+import { describe, it, expect } from 'vitest';
+import { compileCellGroups } from './cellGroups';
+import { EHTModel } from './index';
+import { createDefaultEHTParams } from './params/defaults';
+import { ehtParamsSchema } from './params/schema';
+import type { EHTParams, EHTCellGroupParams } from './params/types';
+import { computeEHTStatistics, generateEHTStatistics } from './statistics';
+import { founderLookup } from './lineage';
+import { getSnapshot, loadSnapshot } from './output';
+import { generateEHTTrajectoryStatistics } from './trajectoryStatistics';
+import { SimulationEngine } from '@/core/simulation/engine';
+import { parseSimulationConfigToml, toSimulationConfigToml } from '@/core/params/toml';
+import { createDefaultSimulationConfig } from '@/core/params/config';
+
+function createTestParams(groups: EHTCellGroupParams[]): EHTParams {
+  const params = createDefaultEHTParams();
+  params.groups = groups;
+  return params;
+}
+
+/** Schema issues, with Infinity stored as 1e308 like in TOML (zod rejects Infinity) */
+function schemaIssues(params: EHTParams): string[] {
+  const finite = JSON.parse(JSON.stringify(params, (_key, value) => (value === Infinity ? 1e308 : value)));
+  return (ehtParamsSchema.safeParse(finite).error?.issues ?? []).map((issue) => issue.message);
+}
+
+function runStats(params: EHTParams, tEnd = 0): Record<string, number> {
+  const engine = new SimulationEngine({ model: EHTModel, params });
+  engine.runUntil(tEnd);
+  return computeEHTStatistics(engine.getState(), params);
+}
+
+describe('EHT cell groups', () => {
+  it('should report every statistic for every configured group', () => {
+    const params = createTestParams([{ id: 'center', arc_length: [-10, 10] }]);
+    params.statistics = [{ id: 'n_apical', filter: 'has_A', aggregate: 'count' }];
+
+    const ids = generateEHTStatistics(params).map((s) => s.id);
+    for (const name of ['bx', 'cell_count', 'basal_order_inversions', 'n_apical']) {
+      expect(ids).toContain(`${name}_center`);
+    }
+    expect(generateEHTTrajectoryStatistics(params).map((s) => s.id)).toContain('half_below_basal_time_center');
+  });
+
+  it('should select cells by arc-length window from the tissue center', () => {
+    // EMT cells start at the center of the ring, 3.5 apart
+    const stats = runStats(createTestParams([
+      { id: 'center', arc_length: [-8, 8] },
+      { id: 'center_emt', types: ['emt'], arc_length: [-8, 8] },
+      { id: 'everywhere', arc_length: [-60, 60] },
+    ]));
+
+    expect(stats['cell_count_center']).toBe(stats['cell_count_emt']);
+    expect(stats['cell_count_center_emt']).toBe(stats['cell_count_emt']);
+    expect(stats['cell_count_everywhere']).toBe(stats['cell_count_all']);
+    expect(stats['bx_center']).toBeCloseTo(stats['bx_emt'], 10);
+  });
+
+  it('should select cells by adhesion, phase and lineage', () => {
+    const params = createTestParams([
+      { id: 'detached', has_A: false, has_B: false },
+      { id: 'cycling', phases: ['G2', 'Mitosis'] },
+      { id: 'clone', founders: [0, 1] },
+    ]);
+    params.statistics = [
+      { id: 'n_detached', filter: '!has_A && !has_B', aggregate: 'count' },
+      { id: 'n_cycling', filter: 'phase == 1 || phase == 2', aggregate: 'count' },
+    ];
+    const initial = runStats(params);
+    expect(initial['cell_count_clone']).toBe(2);
+    expect(initial['cell_count_detached']).toBe(0);
+
+    const stats = runStats(params, 24);
+    expect(stats['cell_count_detached']).toBe(stats['n_detached_all']);
+    expect(stats['cell_count_detached']).toBeGreaterThan(0);
+    expect(stats['cell_count_cycling']).toBe(stats['n_cycling_all']);
+    expect(stats['cell_count_clone']).toBeGreaterThanOrEqual(2);
+  });
+
+  it('should keep founder groups through snapshot rows', () => {
+    const params = createTestParams([{ id: 'clone', founders: [0, 1, 2, 3] }]);
+    params.general.p_div_out = 0;
+    Object.assign(params.cell_types.control, { apoptosis_rate: 0.05, apoptosis_start: 0, apoptosis_end: 24 });
+    const engine = new SimulationEngine({ model: EHTModel, params });
+    engine.runUntil(24);
+    const state = engine.getState();
+    const stats = computeEHTStatistics(state, params);
+    expect(stats['cell_count_clone']).toBeGreaterThan(4);
+
+    const loaded = loadSnapshot(getSnapshot(state), params);
+    expect(loaded.lineage).toEqual([]);
+    expect(computeEHTStatistics(loaded, params)['cell_count_clone']).toBe(stats['cell_count_clone']);
+
+    const founderOf = founderLookup(state);
+    const loadedFounderOf = founderLookup(loaded);
+    for (const cell of state.cells) expect(loadedFounderOf(cell.id)).toBe(founderOf(cell.id));
+  });
+
+  it('should count lost cells only for groups the lineage can tell', () => {
+    const params = createTestParams([
+      { id: 'all_emt', types: ['emt'] },
+      { id: 'center', arc_length: [-8, 8] },
+    ]);
+    Object.assign(params.cell_types.emt, { apoptosis_rate: 1, apoptosis_start: 0, apoptosis_end: 4 });
+    const stats = runStats(params, 4);
+
+    expect(stats['apoptosis_count_emt']).toBeGreaterThan(0);
+    expect(stats['apoptosis_count_all_emt']).toBe(stats['apoptosis_count_emt']);
+    expect(stats['apoptosis_count_center']).toBeNaN();
+  });
+
+  it('should leave out the configured fraction of boundary control cells', () => {
+    const counts = [0, 0.1, 0.2].map((fraction) => {
+      const params = createTestParams([{ id: 'any' }]);
+      params.general.full_circle = false;
+      params.general.boundary_fraction = fraction;
+      const stats = runStats(params);
+      expect(stats['cell_count_any']).toBe(stats['cell_count_all']);
+      return stats['cell_count_control'];
+    });
+
+    // 25 control cells: none, 3 and 5 at each end
+    expect(counts).toEqual([25, 19, 15]);
+  });
+
+  it('should reject invalid definitions', () => {
+    const types = ['control', 'emt'];
+    expect(() => compileCellGroups([{ id: 'a', types: ['stem'] }], types)).toThrow('Cell group "a": unknown cell type "stem"');
+    expect(() => compileCellGroups([{ id: 'a', arc_length: [5, -5] }], types)).toThrow('arc_length must be [min, max]');
+    expect(() => compileCellGroups([{ id: 'a', filter: 'type.stem' }], types)).toThrow(
+      'Cell group "a": unknown cell field "type.stem"'
+    );
+    expect(() => compileCellGroups([{ id: 'a.b' }], types)).toThrow('Invalid cell group id');
+    expect(() => compileCellGroups([{ id: 'a' }, { id: 'a' }], types)).toThrow('Duplicate cell group id');
+    expect(() => compileCellGroups([{ id: 'emt' }], types)).toThrow('has the name of a built-in group');
+    expect(() => compileCellGroups([{ id: 'all' }], types)).toThrow('has the name of a built-in group');
+
+    expect(schemaIssues(createTestParams([{ id: 'control' }]))).toEqual([
+      'Cell group "control" has the name of a built-in group',
+      "Statistic 'ab_distance_control' is defined more than once",
+    ]);
+    expect(schemaIssues(createTestParams([{ id: 'apical', phases: ['G1'], founders: [3] }]))).toEqual([]);
+  });
+
+  it('should round-trip [[groups]] through TOML', () => {
+    const config = createDefaultSimulationConfig(createTestParams([
+      { id: 'center_apical', types: ['control'], arc_length: [-10, 10], has_A: true, phases: ['G1'], filter: 'bx > 1' },
+    ]));
+    const loaded = parseSimulationConfigToml(toSimulationConfigToml(config), createDefaultEHTParams());
+    expect(loaded.params.groups).toEqual(config.params.groups);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * User-defined EHT cell groups ([[groups]] in the config).
+ * A group holds the cells matching all of its predicates, e.g.
+ *
+ *   [[groups]]
+ *   id = "center_emt"
+ *   types = ["emt"]
+ *   arc_length = [-10, 10]
+ *   has_B = true
+ *
+ * Every statistic is reported for each group, next to 'all' and the cell types.
+ */
+
+import type { ExpressionNode } from '@/core/params/expression';
+import { CellPhase } from './types';
+import { compileCellExpression } from './customStatistics';
+import type { CellPhaseName, EHTCellGroupParams } from './params/types';
+
+/** A user-defined cell group ready to evaluate */
+export interface CompiledCellGroup {
+  id: string;
+  types?: Set<string>;
+  arcLength?: [number, number];
+  has_A?: boolean;
+  has_B?: boolean;
+  phases?: Set<CellPhase>;
+  founders?: Set<number>;
+  filter?: ExpressionNode;
+}
+
+/** Group names taken by the built-in groups besides the cell types */
+const RESERVED_GROUPS = ['all', 'control_boundary'];
+
+/**
+ * Compile the user-defined cell groups of a config.
+ * @param cellTypes - Cell type names (groups may not reuse them)
+ * @throws Error on invalid ids, unknown cell types or phases, and invalid filters
+ */
+export function compileCellGroups(
+  groups: EHTCellGroupParams[] | undefined,
+  cellTypes: string[]
+): CompiledCellGroup[] {
+  const ids = new Set<string>();
+
+  return (groups ?? []).map((group) => {
+    if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(group.id)) {
+      throw new Error(`Invalid cell group id "${group.id}" (letters, digits and underscores only)`);
+    }
+    if (ids.has(group.id)) {
+      throw new Error(`Duplicate cell group id "${group.id}"`);
+    }
+    if (cellTypes.includes(group.id) || RESERVED_GROUPS.includes(group.id)) {
+      throw new Error(`Cell group "${group.id}" has the name of a built-in group`);
+    }
+    ids.add(group.id);
+
+    const unknownType = group.types?.find((type) => !cellTypes.includes(type));
+    if (unknownType !== undefined) {
+      throw new Error(`Cell group "${group.id}": unknown cell type "${unknownType}"`);
+    }
+    if (group.arc_length && !(group.arc_length[0] <= group.arc_length[1])) {
+      throw new Error(`Cell group "${group.id}": arc_length must be [min, max]`);
+    }
+    const unknownPhase = group.phases?.find((phase) => !(phase in CellPhase) || !Number.isNaN(Number(phase)));
+    if (unknownPhase !== undefined) {
+      throw new Error(`Cell group "${group.id}": unknown phase "${unknownPhase}"`);
+    }
+
+    return {
+      id: group.id,
+      types: group.types && new Set(group.types),
+      arcLength: group.arc_length,
+      has_A: group.has_A,
+      has_B: group.has_B,
+      phases: group.phases && new Set(group.phases.map((phase: CellPhaseName) => CellPhase[phase])),
+      founders: group.founders && new Set(group.founders),
+      filter: group.filter !== undefined
+        ? compileCellExpression(group.filter, cellTypes, `Cell group "${group.id}"`)
+        : undefined,
+    };
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * Tests for lossless EHT checkpoints.
+ * A run resumed from a checkpoint must be bit-identical to one that never stopped.
+ */
+import { describe, it, expect } from 'vitest';
+import { EHTModel } from './index';
+import { createDefaultEHTParams } from './params/defaults';
+import type { EHTParams } from './params/types';
+import type { EHTSimulationState } from './types';
+import { saveEHTCheckpoint, loadEHTCheckpoint } from './checkpoint';
+import { SimulationEngine } from '@/core/simulation/engine';
+import { checkpointToJSON, checkpointFromJSON, type SimulationCheckpoint } from '@/core/simulation/checkpoint';
+
+/**
+ * Small, fast parameter set with EMT events and divisions in the first hours.
+ */
+function createTestParams(aspectRatio: number): EHTParams {
+  const params = createDefaultEHTParams();
+  params.general.aspect_ratio = aspectRatio;
+  params.general.n_substeps = 5;
+  params.cell_types.control.N_init = 15;
+  params.cell_types.control.lifespan_start = 0.5;
+  params.cell_types.control.lifespan_end = 1.0;
+  params.cell_types.emt.events.time_A_start = 0.2;
+  params.cell_types.emt.events.time_A_end = 0.6;
+  params.cell_types.emt.events.time_B_start = 0.3;
+  params.cell_types.emt.events.time_B_end = 0.8;
+  return params;
+}
+
+function runSteps(engine: SimulationEngine<EHTParams, EHTSimulationState>, n: number): void {
+  for (let i = 0; i < n; i++) engine.step();
+}
+
+describe('EHT checkpoints', () => {
+  it.each([
+    ['circle', 1],
+    ['ellipse', 0.5],
+    ['line', 0],
+  ])('should resume a %s run bit-identically', (_label, aspectRatio) => {
+    const params = createTestParams(aspectRatio);
+
+    const reference = new SimulationEngine({ model: EHTModel, params });
+    runSteps(reference, 20);
+
+    const first = new SimulationEngine({ model: EHTModel, params });
+    runSteps(first, 8);
+    const json = checkpointToJSON(first.saveCheckpoint());
+
+    const resumed = new SimulationEngine({ model: EHTModel, params: createDefaultEHTParams() });
+    resumed.restoreCheckpoint(checkpointFromJSON(json) as SimulationCheckpoint<EHTParams>);
+    runSteps(resumed, 12);
+
+    const expected = saveEHTCheckpoint(reference.getState());
+    const actual = saveEHTCheckpoint(resumed.getState());
+    expect(actual).toEqual(expected);
+    expect(resumed.getParams()).toEqual(params);
+  });
+
+  it('should preserve Infinity event times and link rest lengths through JSON', () => {
+    const engine = new SimulationEngine({ model: EHTModel, params: createTestParams(1) });
+    runSteps(engine, 3);
+
+    const restored = checkpointFromJSON(checkpointToJSON(engine.saveCheckpoint()));
+    const state = loadEHTCheckpoint(restored.state);
+    const original = engine.getState();
+
+    expect(state.cells).toEqual(original.cells);
+    expect(state.ap_links).toEqual(original.ap_links);
+    expect(state.cells.some(c => c.time_A === Infinity)).toBe(true);
+    expect(state.basalGeometry.type).toBe(original.basalGeometry.type);
+  });
+
+  it('should reject checkpoints from other models or formats', () => {
+    const engine = new SimulationEngine({ model: EHTModel, params: createTestParams(1) });
+    const checkpoint = engine.saveCheckpoint();
+
+    expect(() => engine.restoreCheckpoint({ ...checkpoint, model: 'Toy' })).toThrow(/Toy/);
+    expect(() => checkpointFromJSON('{"format":"something-else"}')).toThrow();
+    expect(() => loadEHTCheckpoint({ cells: [] })).toThrow();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Lossless EHT state serialization for checkpoints.
+ *
+ * Unlike getSnapshot/loadSnapshot (which export a flat per-cell table for
+ * analysis), this keeps every field of EHTSimulationState: rest lengths,
+ * sampled event times, link rest lengths and the basal geometry.
+ *
+ * Randomness: each step draws from a fresh SeededRandom seeded with
+ * `${rngSeed}_step_${step_count}`, so the stored rngSeed and step_count
+ * fully determine the random stream of all future steps.
+ */
+
+import type { BasalGeometryDescriptor } from '@/core/math';
+import { createBasalGeometryFromDescriptor, resolveBasalGeometry } from '@/core/math';
+import type {
+  EHTSimulationState,
+  CellState,
+  ApicalLink,
+  BasalLink,
+  GeometryState,
+  MembraneState,
+  IntegratorState,
+  LineageEvent,
+  EHTEvent,
+} from './types';
+
+/** Checkpoint payload for the EHT model (plain data) */
+export interface EHTCheckpointData {
+  cells: CellState[];
+  ap_links: ApicalLink[];
+  ba_links: BasalLink[];
+  t: number;
+  step_count: number;
+  geometry?: GeometryState;
+  membrane?: MembraneState;
+  integrator?: IntegratorState;
+  basalGeometry: BasalGeometryDescriptor;
+  rngSeed: string;
+  next_cell_id: number;
+  lineage: LineageEvent[];
+  events: EHTEvent[];
+}
+
+
+/**
+ * Serialize the complete EHT state.
+ * The result shares no references with the live state.
+ */
+export function saveEHTCheckpoint(state: EHTSimulationState): EHTCheckpointData {
+  return {
+    cells: structuredClone(state.cells),
+    ap_links: structuredClone(state.ap_links),
+    ba_links: structuredClone(state.ba_links),
+    t: state.t,
+    step_count: state.step_count,
+    geometry: state.geometry ? { ...state.geometry } : undefined,
+    membrane: state.membrane ? structuredClone(state.membrane) : undefined,
+    integrator: state.integrator ? { ...state.integrator } : undefined,
+    // Cloned states may have lost the geometry's class methods
+    basalGeometry: resolveBasalGeometry(state.basalGeometry, state.geometry).toDescriptor(),
+    rngSeed: state.rngSeed,
+    next_cell_id: state.next_cell_id,
+    lineage: structuredClone(state.lineage),
+    events: structuredClone(state.events),
+  };
+}
+
+/**
+ * Restore an EHT state from checkpoint data.
+ * @throws Error if the payload is missing required fields
+ */
+export function loadEHTCheckpoint(data: unknown): EHTSimulationState {
+  const d = data as Partial<EHTCheckpointData> | null;
+  if (
+    !d ||
+    !Array.isArray(d.cells) ||
+    !Array.isArray(d.ap_links) ||
+    !Array.isArray(d.ba_links) ||
+    typeof d.t !== 'number' ||
+    typeof d.step_count !== 'number' ||
+    typeof d.rngSeed !== 'string' ||
+    !d.basalGeometry
+  ) {
+    throw new Error('Invalid EHT checkpoint: missing cells, links, time or RNG seed');
+  }
+
+  // Checkpoints written before lineage tracking have no lineage fields
+  const cells = structuredClone(d.cells).map((cell) => ({
+    ...cell,
+    parent_id: cell.parent_id ?? null,
+    generation: cell.generation ?? 0,
+    birth_event: cell.birth_event ?? 'initial',
+    extruded: cell.extruded ?? false,
+  }));
+
+  return {
+    cells,
+    ap_links: structuredClone(d.ap_links),
+    ba_links: structuredClone(d.ba_links),
+    t: d.t,
+    step_count: d.step_count,
+    geometry: d.geometry ? { ...d.geometry } : undefined,
+    membrane: d.membrane ? structuredClone(d.membrane) : undefined,
+    integrator: d.integrator ? { ...d.integrator } : undefined,
+    basalGeometry: createBasalGeometryFromDescriptor(d.basalGeometry),
+    rngSeed: d.rngSeed,
+    next_cell_id: d.next_cell_id ?? 0,
+    lineage: structuredClone(d.lineage ?? []),
+    events: structuredClone(d.events ?? []),
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Tests for user-defined EHT statistics.
+ */
+import { describe, it, expect } from 'vitest';
+import { compileCustomStatistics } from './customStatistics';
+import { EHTModel } from './index';
+import { createDefaultEHTParams } from './params/defaults';
+import { ehtParamsSchema } from './params/schema';
+import type { EHTParams, EHTCustomStatisticParams } from './params/types';
+import { computeEHTStatistics, generateEHTStatistics } from './statistics';
+import { getSnapshot, loadSnapshot } from './output';
+import { SimulationEngine } from '@/core/simulation/engine';
+import { parseSimulationConfigToml, toSimulationConfigToml } from '@/core/params/toml';
+import { createDefaultSimulationConfig } from '@/core/params/config';
+
+function createTestParams(statistics: EHTCustomStatisticParams[]): EHTParams {
+  const params = createDefaultEHTParams();
+  params.cell_types.control.N_init = 10;
+  params.cell_types.emt.N_init = 2;
+  params.statistics = statistics;
+  return params;
+}
+
+/** Schema issues, with Infinity stored as 1e308 like in TOML (zod rejects Infinity) */
+function schemaIssues(params: EHTParams): string[] {
+  const finite = JSON.parse(JSON.stringify(params, (_key, value) => (value === Infinity ? 1e308 : value)));
+  return (ehtParamsSchema.safeParse(finite).error?.issues ?? []).map((issue) => issue.message);
+}
+
+function computeStats(params: EHTParams): Record<string, number> {
+  const state = new SimulationEngine({ model: EHTModel, params }).getState();
+  return computeEHTStatistics(state, params);
+}
+
+describe('EHT user-defined statistics', () => {
+  it('should filter cells and aggregate a value for every group', () => {
+    const params = createTestParams([
+      { id: 'n_cells', aggregate: 'count' },
+      { id: 'n_emt', filter: 'type.emt', aggregate: 'count' },
+      { id: 'emt_fraction', value: 'typeIndex == 1' },
+      { id: 'apical_bx', filter: 'has_A && phase == 0', value: 'bx' },
+      { id: 'bx_max', value: 'bx', aggregate: 'max' },
+    ]);
+    const stats = computeStats(params);
+
+    for (const group of ['all', 'control', 'emt']) {
+      expect(stats[`n_cells_${group}`]).toBe(stats[`cell_count_${group}`]);
+      expect(stats[`apical_bx_${group}`]).toBeCloseTo(stats[`bx_${group}`], 10);
+    }
+    expect(stats['n_emt_all']).toBe(stats['cell_count_emt']);
+    expect(stats['n_emt_control']).toBe(0);
+    expect(stats['emt_fraction_all']).toBeCloseTo(stats['cell_count_emt'] / stats['cell_count_all'], 10);
+    expect(stats['bx_max_all']).toBeGreaterThanOrEqual(stats['bx_all']);
+
+    const ids = generateEHTStatistics(params).map((s) => s.id);
+    expect(ids).toContain('n_emt_control');
+    expect(ids).toContain('bx_max_emt');
+  });
+
+  it('should give the same values for cell state fields after a snapshot round trip', () => {
+    const fields = [
+      'division_time', 'stiffness_apical_apical', 'stiffness_straightness',
+      'stiffness_nuclei_apical', 'stiffness_nuclei_basal',
+    ];
+    const params = createTestParams(fields.map((field) => ({ id: `sum_${field}`, value: field, aggregate: 'sum' })));
+    Object.assign(params.cell_types.emt.events, {
+      time_A_start: 1, time_A_end: 2, time_B_start: 1, time_B_end: 2, time_S_start: 1, time_S_end: 2,
+    });
+    const engine = new SimulationEngine({ model: EHTModel, params });
+    engine.runUntil(12);
+    const state = engine.getState();
+    expect(state.events.some((e) => e.type === 'lose_straightness')).toBe(true);
+
+    const stats = computeEHTStatistics(state, params);
+    const loadedStats = computeEHTStatistics(loadSnapshot(getSnapshot(state), params), params);
+    for (const field of fields) {
+      for (const group of ['all', 'control', 'emt']) {
+        expect(loadedStats[`sum_${field}_${group}`]).toBeCloseTo(stats[`sum_${field}_${group}`], 10);
+      }
+    }
+  });
+
+  it('should report one statistic per histogram bin', () => {
+    const params = createTestParams([{ id: 'bx_dist', value: 'bx', aggregate: 'hist:0:10:2' }]);
+    const stats = computeStats(params);
+    expect(stats['bx_dist_hist0_all'] + stats['bx_dist_hist1_all']).toBeCloseTo(1, 10);
+    expect(generateEHTStatistics(params).map((s) => s.id)).toContain('bx_dist_hist1_emt');
+  });
+
+  it('should reject invalid definitions', () => {
+    const types = ['control', 'emt'];
+    expect(() => compileCustomStatistics([{ id: 'a', value: 'bx +' }], types)).toThrow('end of expression');
+    expect(() => compileCustomStatistics([{ id: 'a', filter: 'type.stem' }], types)).toThrow(
+      'Statistic "a": unknown cell field "type.stem"'
+    );
+    expect(() => compileCustomStatistics([{ id: 'a', aggregate: 'mode' }], types)).toThrow('Statistic "a": Unknown aggregator');
+    expect(() => compileCustomStatistics([{ id: 'a.b' }], types)).toThrow('Invalid statistic id');
+    expect(() => compileCustomStatistics([{ id: 'a' }, { id: 'a' }], types)).toThrow('Duplicate statistic id');
+  });
+
+  it('should not shadow built-in statistics', () => {
+    expect(schemaIssues(createTestParams([{ id: 'bx' }]))).toEqual(["Statistic 'bx_all' is defined more than once"]);
+    expect(schemaIssues(createTestParams([{ id: 'escaped', filter: '!has_A' }]))).toEqual([]);
+  });
+
+  it('should round-trip [[statistics]] through TOML', () => {
+    const config = createDefaultSimulationConfig(createTestParams([
+      { id: 'escaped', label: 'Escaped', filter: '!has_A && !has_B', aggregate: 'count' },
+    ]));
+    const loaded = parseSimulationConfigToml(toSimulationConfigToml(config), createDefaultEHTParams());
+    expect(loaded.params.statistics).toEqual(config.params.statistics);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * User-defined EHT statistics ([[statistics]] in the config).
+ * Each statistic filters the cells of a group with an expression over cell
+ * fields and aggregates a per-cell value expression, e.g.
+ *
+ *   [[statistics]]
+ *   id = "escaped_bx"
+ *   filter = "!has_A && !has_B"
+ *   value = "bx"
+ *   aggregate = "median"
+ *
+ * Expressions use the safe parameter expression parser (no `eval`).
+ */
+
+import { parseExpression, expressionPaths, type ExpressionNode } from '@/core/params/expression';
+import { parseAggregator, aggregatorOutputs, type Aggregator } from './aggregators';
+import type { EHTCustomStatisticParams } from './params/types';
+
+/** Numeric and boolean cell state fields usable in expressions */
+export const CELL_FIELDS = [
+  'id', 'generation', 'R_soft', 'R_hard', 'eta_A', 'eta_B',
+  'has_A', 'has_B', 'extruded', 'phase', 'birth_time', 'division_time',
+  'is_running', 'running_mode', 'has_inm',
+  'time_A', 'time_B', 'time_S', 'time_P', 'time_AC',
+  'stiffness_apical_apical', 'stiffness_straightness', 'stiffness_nuclei_apical', 'stiffness_nuclei_basal',
+  'pos.x', 'pos.y', 'A.x', 'A.y', 'B.x', 'B.y',
+] as const;
+
+/** Per-cell statistics metrics usable in expressions */
+export const METRIC_FIELDS = [
+  'ab_distance', 'AX', 'BX', 'ax', 'bx', 'x', 'below_basal', 'above_apical', 'below_control_cells',
+] as const;
+
+/**
+ * Other fields: typeIndex (position of the cell type in cell_types),
+ * type.<name> (1 for cells of that type), age (t - birth_time) and t.
+ */
+const DERIVED_FIELDS = ['typeIndex', 'age', 't'] as const;
+
+/** A user-defined statistic ready to evaluate */
+export interface CompiledStatistic {
+  id: string;
+  label: string;
+  description: string;
+  filter?: ExpressionNode;
+  value: ExpressionNode;
+  aggregator: Aggregator;
+}
+
+/** One reported statistic of a user-defined statistic (histograms report several) */
+export interface CustomStatisticOutput {
+  id: string;
+  label: string;
+  description: string;
+}
+
+/**
+ * Parse an expression and check that it only reads known cell fields.
+ * @param owner - What the expression belongs to, for errors (e.g. 'Statistic "a"')
+ * @throws Error on syntax errors and unknown fields
+ */
+export function compileCellExpression(source: string, cellTypes: string[], owner: string): ExpressionNode {
+  const node = parseExpression(source);
+  const known = new Set<string>([
+    ...CELL_FIELDS,
+    ...METRIC_FIELDS,
+    ...DERIVED_FIELDS,
+    ...cellTypes.map((type) => `type.${type}`),
+  ]);
+  for (const path of expressionPaths(node)) {
+    if (!known.has(path)) {
+      throw new Error(`${owner}: unknown cell field "${path}" in "${source}"`);
+    }
+  }
+  return node;
+}
+
+/**
+ * Compile the user-defined statistics of a config.
+ * @param cellTypes - Cell type names, for type.<name> fields
+ * @throws Error on invalid ids, expressions or aggregators
+ */
+export function compileCustomStatistics(
+  statistics: EHTCustomStatisticParams[] | undefined,
+  cellTypes: string[]
+): CompiledStatistic[] {
+  const ids = new Set<string>();
+
+  return (statistics ?? []).map((stat) => {
+    if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(stat.id)) {
+      throw new Error(`Invalid statistic id "${stat.id}" (letters, digits and underscores only)`);
+    }
+    if (ids.has(stat.id)) {
+      throw new Error(`Duplicate statistic id "${stat.id}"`);
+    }
+    ids.add(stat.id);
+
+    const aggregate = stat.aggregate ?? 'mean';
+    let aggregator: Aggregator;
+    try {
+      aggregator = parseAggregator(aggregate);
+    } catch (e) {
+      throw new Error(`Statistic "${stat.id}": ${(e as Error).message}`);
+    }
+
+    const value = stat.value ?? '1';
+    return {
+      id: stat.id,
+      label: stat.label ?? stat.id,
+      description: stat.description ?? `${aggregate} of ${value}${stat.filter ? ` where ${stat.filter}` : ''}`,
+      filter: stat.filter !== undefined ? compileCellExpression(stat.filter, cellTypes, `Statistic "${stat.id}"`) : undefined,
+      value: compileCellExpression(value, cellTypes, `Statistic "${stat.id}"`),
+      aggregator,
+    };
+  });
+}
+
+/**
+ * The statistics a user-defined statistic reports (before the group suffix):
+ * its id, or one id per bin for histograms.
+ */
+export function customStatisticOutputs(stat: CompiledStatistic): CustomStatisticOutput[] {
+  if (stat.aggregator.kind !== 'hist') {
+    return [{ id: stat.id, label: stat.label, description: stat.description }];
+  }
+  return aggregatorOutputs(stat.aggregator).map((output) => ({
+    id: `${stat.id}_${output.suffix}`,
+    label: `${stat.label} ${output.label}`,
+    description: `${stat.description} (${output.description.toLowerCase()})`,
+  }));
+}
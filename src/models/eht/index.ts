@@ -12,12 +12,14 @@ import type { EHTParams } from './params/types';
 import { ehtParamsSchema } from './params/schema';
 import { DEFAULT_EHT_PARAMS, EHT_PRESETS } from './params/defaults';
 import { computeEHTStatistics, generateEHTStatistics, exportCellMetrics } from './statistics';
+import { generateEHTTrajectoryStatistics } from './trajectoryStatistics';
 import { EHT_BATCH_PARAMETERS, generateEHTBatchParameters } from './ui/availableParams';
 import { ehtUI } from './ui';
 import { initializeEHTSimulation } from './simulation/init';
 import { performTimestep } from './simulation/step';
 import { ehtRenderer } from './renderer';
 import { getSnapshot, loadSnapshot } from './output';
+import { saveEHTCheckpoint, loadEHTCheckpoint } from './checkpoint';
 import { SeededRandom } from '@/core/math/random';
 import { EHTRenderOptionsPanel, defaultEHTRenderOptions } from './renderOptions';
 
@@ -28,11 +30,12 @@ export const EHTModel: SimulationModel<EHTParams, EHTSimulationState> = {
   // Identity
   id: 'EHT',
   name: 'Epithelial-to-Hematopoietic Transition',
-  version: '1.0.0',
+  version: '1.1.0',
   description: 'Simulates cell mechanics, division, and EMT events in curved epithelial tissue.',
 
   // Parameter system
   defaultParams: DEFAULT_EHT_PARAMS,
+  paramsSchema: ehtParamsSchema,
   validateParams(params: unknown): EHTParams {
     return ehtParamsSchema.parse(params);
   },
@@ -56,15 +59,26 @@ export const EHTModel: SimulationModel<EHTParams, EHTSimulationState> = {
     return state; // In-place mutation for performance, but return it.
   },
 
+  // Time
+  getTime: (state: EHTSimulationState) => state.t,
+  getTimeStep: (params: EHTParams) => params.general.dt,
+  getEndTime: (params: EHTParams) => params.general.t_end,
+  getStepCount: (state: EHTSimulationState) => state.step_count,
+
   // I/O
   getSnapshot: (state: EHTSimulationState) => getSnapshot(state),
   loadSnapshot: (rows: Record<string, any>[], params: EHTParams) => loadSnapshot(rows, params),
   exportCellMetrics: (state: EHTSimulationState, params: EHTParams) => exportCellMetrics(state, params),
+  saveCheckpoint: (state: EHTSimulationState) => saveEHTCheckpoint(state),
+  loadCheckpoint: (data: unknown) => loadEHTCheckpoint(data),
+  getEvents: (state: EHTSimulationState) => state.events,
+  getSubstepStats: (state: EHTSimulationState) => state.integrator,
 
   // Statistics
   computeStats: (state: EHTSimulationState, params?: EHTParams) => computeEHTStatistics(state, params),
   statistics: generateEHTStatistics(DEFAULT_EHT_PARAMS),
   generateStatistics: (params: EHTParams) => generateEHTStatistics(params),
+  generateTrajectoryStatistics: (params: EHTParams) => generateEHTTrajectoryStatistics(params),
 
   // Batch parameters - dynamic generation
   generateBatchParameters: (params: EHTParams) => generateEHTBatchParameters(params),
@@ -0,0 +1,69 @@
+/**
+ * Tests for EHT lineage tracking and exports.
+ */
+import { describe, it, expect } from 'vitest';
+import { EHTModel } from './index';
+import { createDefaultEHTParams } from './params/defaults';
+import { createInitialEHTState, type EHTSimulationState } from './types';
+import { lineageToNewick, lineageToEdgeList, findFounder } from './lineage';
+import { SimulationEngine } from '@/core/simulation/engine';
+
+/**
+ * Two founders (0, 1); cell 0 divides at t=1 (daughter 2) and again at t=3
+ * (daughter 3); cell 2 divides at t=2 (daughter 4).
+ */
+function createLineageState(): EHTSimulationState {
+  const state = createInitialEHTState('lineage-test');
+  state.t = 5;
+  state.lineage = [
+    { t: 1, type: 'division', cell_id: 0, cell_type: 'control', daughter_id: 2, generation: 1 },
+    { t: 1.5, type: 'emt', cell_id: 1, cell_type: 'emt', emt_event: 'A' },
+    { t: 2, type: 'division', cell_id: 2, cell_type: 'control', daughter_id: 4, generation: 2 },
+    { t: 3, type: 'division', cell_id: 0, cell_type: 'control', daughter_id: 3, generation: 2 },
+  ];
+  return state;
+}
+
+describe('EHT lineage', () => {
+  it('should export a Newick tree with branch lengths in hours', () => {
+    expect(lineageToNewick(createLineageState())).toBe('(((0:2,3:2)0:2,(2:3,4:3)2:1)0:1,1:5);');
+  });
+
+  it('should export division edges with generation and founder', () => {
+    const lines = lineageToEdgeList(createLineageState()).trim().split('\n');
+    expect(lines[0]).toBe('parent_id\tchild_id\ttime\tgeneration\tcell_type\tfounder_id');
+    expect(lines.slice(1)).toEqual([
+      '0\t2\t1\t1\tcontrol\t0',
+      '2\t4\t2\t2\tcontrol\t0',
+      '0\t3\t3\t2\tcontrol\t0',
+    ]);
+    expect(findFounder(createLineageState(), 4)).toBe(0);
+    expect(findFounder(createLineageState(), 1)).toBe(1);
+  });
+
+  it('should record parent, generation and division events during a run', () => {
+    const params = createDefaultEHTParams();
+    params.general.n_substeps = 5;
+    params.general.p_div_out = 0;
+    params.cell_types.control.N_init = 10;
+    params.cell_types.control.lifespan_start = 0.5;
+    params.cell_types.control.lifespan_end = 1.0;
+
+    const engine = new SimulationEngine({ model: EHTModel, params });
+    for (let i = 0; i < 30; i++) engine.step();
+    const state = engine.getState();
+
+    const divisions = state.lineage.filter((e) => e.type === 'division');
+    expect(divisions.length).toBeGreaterThan(0);
+
+    for (const e of divisions) {
+      const daughter = state.cells.find((c) => c.id === e.daughter_id)!;
+      expect(daughter.parent_id).toBe(e.cell_id);
+      expect(daughter.birth_event).toBe('division');
+    }
+    for (const cell of state.cells) {
+      if (cell.birth_event === 'initial') expect(cell.parent_id).toBeNull();
+      expect(cell.generation).toBeGreaterThanOrEqual(0);
+    }
+  });
+});
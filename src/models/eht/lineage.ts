@@ -0,0 +1,138 @@
+/**
+ * EHT cell lineage log and exports.
+ *
+ * IDs follow the convention of the division code: the mother keeps its ID
+ * and the second daughter gets a new one. A division therefore adds one
+ * edge (mother ID -> daughter ID) to the lineage; the mother's branch
+ * continues under the same ID.
+ */
+
+import type { EHTSimulationState, LineageEvent, CellLosses } from './types';
+
+/**
+ * Append an event to the lineage log.
+ */
+export function recordLineageEvent(state: EHTSimulationState, event: LineageEvent): void {
+  state.lineage.push(event);
+}
+
+/** Division events that created a new ID */
+function branchingDivisions(state: EHTSimulationState): LineageEvent[] {
+  return state.lineage.filter((e) => e.type === 'division' && e.daughter_id !== undefined);
+}
+
+/**
+ * Map from daughter ID to mother ID.
+ * Cells missing from the lineage (states loaded from snapshot rows) fall
+ * back to the ID they branched off from.
+ */
+function parentMap(state: EHTSimulationState): Map<number, number> {
+  const parentOf = new Map<number, number>();
+  for (const e of branchingDivisions(state)) {
+    parentOf.set(e.daughter_id!, e.cell_id);
+  }
+  for (const cell of state.cells) {
+    if (cell.parent_id !== null && !parentOf.has(cell.id)) parentOf.set(cell.id, cell.parent_id);
+  }
+  return parentOf;
+}
+
+function rootOf(parentOf: Map<number, number>, cellId: number): number {
+  let id = cellId;
+  while (parentOf.has(id)) {
+    id = parentOf.get(id)!;
+  }
+  return id;
+}
+
+/**
+ * Follow parent links back to the initial cell a cell descends from.
+ * States loaded from snapshot rows know the founders of their cells even
+ * when intermediate ancestors died.
+ */
+export function findFounder(state: EHTSimulationState, cellId: number): number {
+  return founderLookup(state)(cellId);
+}
+
+/**
+ * findFounder for many cells of the same state (reads the lineage once).
+ */
+export function founderLookup(state: EHTSimulationState): (cellId: number) => number {
+  const parentOf = parentMap(state);
+  return (cellId) => state.founders?.[cellId] ?? rootOf(parentOf, cellId);
+}
+
+/**
+ * Cumulative cell losses by cell type.
+ * States loaded from snapshot rows carry the counts instead of a lineage.
+ */
+export function countCellLosses(state: EHTSimulationState): CellLosses {
+  if (state.losses) return state.losses;
+  const losses: CellLosses = { apoptosis: {}, removal: {} };
+  for (const e of state.lineage) {
+    if (e.type === 'apoptosis' || e.type === 'removal') {
+      losses[e.type][e.cell_type] = (losses[e.type][e.cell_type] ?? 0) + 1;
+    }
+  }
+  return losses;
+}
+
+/** Round times and branch lengths to keep files small */
+function formatTime(value: number): string {
+  return String(Number(value.toFixed(6)));
+}
+
+/**
+ * Export the lineage as a Newick tree (branch lengths in hours).
+ *
+ * Each division is an internal node labelled with the mother's ID, with the
+ * mother's continuing branch and the daughter's branch as children. Leaves
+ * end at the current simulation time, or when the cell died or was removed.
+ * Initial cells are the children of an unlabelled root.
+ */
+export function lineageToNewick(state: EHTSimulationState): string {
+  const divisionsOf = new Map<number, LineageEvent[]>();
+  const daughters = new Set<number>();
+  for (const e of branchingDivisions(state)) {
+    if (!divisionsOf.has(e.cell_id)) divisionsOf.set(e.cell_id, []);
+    divisionsOf.get(e.cell_id)!.push(e);
+    daughters.add(e.daughter_id!);
+  }
+  const endOf = new Map<number, number>();
+  for (const e of state.lineage) {
+    if (e.type === 'apoptosis' || e.type === 'removal') endOf.set(e.cell_id, e.t);
+  }
+
+  // Every ID that was not created by a division is a founder
+  const ids = new Set<number>([...state.cells.map((c) => c.id), ...state.lineage.map((e) => e.cell_id)]);
+  const founders = [...ids].filter((id) => !daughters.has(id)).sort((a, b) => a - b);
+
+  // Branch of `id` from time `start`, after its first `k` divisions
+  const branch = (id: number, k: number, start: number): string => {
+    const divisions = divisionsOf.get(id) ?? [];
+    if (k >= divisions.length) {
+      return `${id}:${formatTime((endOf.get(id) ?? state.t) - start)}`;
+    }
+    const d = divisions[k];
+    const children = [branch(id, k + 1, d.t), branch(d.daughter_id!, 0, d.t)].join(',');
+    return `(${children})${id}:${formatTime(d.t - start)}`;
+  };
+
+  return `(${founders.map((id) => branch(id, 0, 0)).join(',')});`;
+}
+
+/**
+ * Export the lineage as an edge list (tab-separated, one row per division
+ * that created a new cell ID).
+ * Columns: parent_id, child_id, time, generation, cell_type, founder_id.
+ */
+export function lineageToEdgeList(state: EHTSimulationState): string {
+  const parentOf = parentMap(state);
+  const rows = [['parent_id', 'child_id', 'time', 'generation', 'cell_type', 'founder_id'].join('\t')];
+  for (const e of branchingDivisions(state)) {
+    rows.push(
+      [e.cell_id, e.daughter_id, formatTime(e.t), e.generation ?? '', e.cell_type, rootOf(parentOf, e.cell_id)].join('\t')
+    );
+  }
+  return rows.join('\n') + '\n';
+}
@@ -1,8 +1,11 @@
 
-import type { EHTSimulationState, CellState, ApicalLink, BasalLink } from './types';
+import type { EHTSimulationState, CellState, ApicalLink, BasalLink, CellLosses } from './types';
 import type { EHTParams } from './params/types';
 import { CellPhase } from './types';
 import { createBasalGeometry } from '@/core/math';
+import { createBasalCurveGeometry } from './params/geometry';
+import { countCellLosses, founderLookup } from './lineage';
+import { scaleBasalCurve } from './simulation/membrane';
 
 
 /**
@@ -27,11 +30,34 @@ function getNeighborIds(
     return neighborIndices.map((i) => cells[i]?.id ?? i).join(';');
 }
 
+/**
+ * Format counts by cell type as "type:count;type:count".
+ */
+function formatCounts(counts: Record<string, number>): string {
+    return Object.entries(counts).map(([type, count]) => `${type}:${count}`).join(';');
+}
+
+/**
+ * Parse counts written by formatCounts.
+ */
+function parseCounts(value: unknown): Record<string, number> {
+    const counts: Record<string, number> = {};
+    for (const entry of String(value ?? '').split(';').filter(s => s !== '')) {
+        const sep = entry.lastIndexOf(':');
+        counts[entry.slice(0, sep)] = Number(entry.slice(sep + 1));
+    }
+    return counts;
+}
+
 /**
  * Serialize state to a list of flat objects (rows).
  */
 export function getSnapshot(state: EHTSimulationState): Record<string, any>[] {
     const rows: Record<string, any>[] = [];
+    const losses = countCellLosses(state);
+    const apoptosisCounts = formatCounts(losses.apoptosis);
+    const removedCounts = formatCounts(losses.removal);
+    const founderOf = founderLookup(state);
 
     for (let i = 0; i < state.cells.length; i++) {
         const cell = state.cells[i];
@@ -39,6 +65,10 @@ export function getSnapshot(state: EHTSimulationState): Record<string, any>[] {
             // Identity
             id: cell.id,
             typeIndex: cell.typeIndex,
+            parent_id: cell.parent_id ?? '',
+            generation: cell.generation,
+            birth_event: cell.birth_event,
+            founder_id: founderOf(cell.id),
 
             // Time
             t: state.t,
@@ -55,6 +85,7 @@ export function getSnapshot(state: EHTSimulationState): Record<string, any>[] {
             // Properties
             has_A: cell.has_A,
             has_B: cell.has_B,
+            extruded: cell.extruded,
             phase: cell.phase,
             age: state.t - cell.birth_time,
             is_running: cell.is_running,
@@ -74,6 +105,13 @@ export function getSnapshot(state: EHTSimulationState): Record<string, any>[] {
             time_P: cell.time_P,
             time_AC: cell.time_AC,
 
+            // Cell cycle and stiffness (changed by events)
+            division_time: cell.division_time,
+            stiffness_apical_apical: cell.stiffness_apical_apical,
+            stiffness_straightness: cell.stiffness_straightness,
+            stiffness_nuclei_apical: cell.stiffness_nuclei_apical,
+            stiffness_nuclei_basal: cell.stiffness_nuclei_basal,
+
             // Network
             apical_neighbors: getNeighborIds(i, state.ap_links, state.cells),
             basal_neighbors: getNeighborIds(i, state.ba_links, state.cells),
@@ -81,6 +119,12 @@ export function getSnapshot(state: EHTSimulationState): Record<string, any>[] {
             // Global Geometry
             curvature_1: state.geometry?.curvature_1 ?? 0,
             curvature_2: state.geometry?.curvature_2 ?? 0,
+            // Perimeter of a time-dependent membrane (scales a custom basal curve)
+            membrane_perimeter: state.membrane?.shape_perimeter ?? '',
+
+            // Cumulative cell losses by type (the lineage is not in the table)
+            apoptosis_counts: apoptosisCounts,
+            removed_counts: removedCounts,
         });
     }
     return rows;
@@ -98,7 +142,10 @@ export function loadSnapshot(rows: Record<string, any>[], params: EHTParams): EH
             t: 0,
             step_count: 0,
             basalGeometry: createBasalGeometry(0, 0, 360),
-            rngSeed: String(params.general.random_seed)
+            rngSeed: String(params.general.random_seed),
+            next_cell_id: 0,
+            lineage: [],
+            events: [],
         };
     }
 
@@ -107,6 +154,21 @@ export function loadSnapshot(rows: Record<string, any>[], params: EHTParams): EH
     const step_count = Number(firstRow.step_count);
     const curvature_1 = Number(firstRow.curvature_1);
     const curvature_2 = Number(firstRow.curvature_2);
+    // A custom basal curve is not in the table, rebuild it from the params
+    // and scale it to the perimeter of a time-dependent membrane
+    const basalCurve = params.general.basal_curve;
+    const membranePerimeter = Number(firstRow.membrane_perimeter);
+    let basalGeometry = basalCurve
+        ? createBasalCurveGeometry(basalCurve)
+        : createBasalGeometry(curvature_1, curvature_2, 360);
+    if (basalCurve && firstRow.membrane_perimeter !== '' && membranePerimeter > 0) {
+        basalGeometry = scaleBasalCurve(basalCurve, membranePerimeter / basalGeometry.perimeter).geometry;
+    }
+    // Tables written before the loss counts were added have no lost cells
+    const losses: CellLosses | undefined = firstRow.apoptosis_counts === undefined ? undefined : {
+        apoptosis: parseCounts(firstRow.apoptosis_counts),
+        removal: parseCounts(firstRow.removed_counts),
+    };
 
     const state: EHTSimulationState = {
         cells: [],
@@ -114,10 +176,19 @@ export function loadSnapshot(rows: Record<string, any>[], params: EHTParams): EH
         ba_links: [],
         t,
         step_count,
-        geometry: { curvature_1, curvature_2 },
-        basalGeometry: createBasalGeometry(curvature_1, curvature_2, 360),
+        geometry: basalCurve ? undefined : { curvature_1, curvature_2 },
+        basalGeometry,
         // Use seed from params since it's not saved in CSV (would require schema change)
-        rngSeed: String(params.general.random_seed)
+        rngSeed: String(params.general.random_seed),
+        // Lineage and event history are not part of the per-cell table
+        next_cell_id: 0,
+        lineage: [],
+        losses,
+        // Ancestors that died are not in the table, so keep the founders
+        founders: firstRow.founder_id === undefined ? undefined : Object.fromEntries(
+            rows.map((row): [number, number] => [Number(row.id), Number(row.founder_id)])
+        ),
+        events: [],
     };
 
     // Map from cell ID to array index
@@ -132,16 +203,20 @@ export function loadSnapshot(rows: Record<string, any>[], params: EHTParams): EH
         const cell: CellState = {
             id,
             typeIndex: String(row.typeIndex),
+            parent_id: row.parent_id === undefined || row.parent_id === '' ? null : Number(row.parent_id),
+            generation: Number(row.generation ?? 0),
+            birth_event: row.birth_event === 'division' ? 'division' : 'initial',
             pos: { x: Number(row.pos_x), y: Number(row.pos_y) },
             A: { x: Number(row.A_x), y: Number(row.A_y) },
             B: { x: Number(row.B_x), y: Number(row.B_y) },
 
             has_A: Boolean(row.has_A),
             has_B: Boolean(row.has_B),
+            extruded: Boolean(row.extruded),
             // Handle legacy phase as number or enum
             phase: Number(row.phase) as CellPhase,
             birth_time: t - Number(row.age),
-            division_time: 0, // Recalculate or store? Simplified: set to 0 and let update logic handle
+            division_time: Number(row.division_time),
 
             is_running: Boolean(row.is_running),
             running_mode: Number(row.running_mode),
@@ -158,32 +233,28 @@ export function loadSnapshot(rows: Record<string, any>[], params: EHTParams): EH
             time_P: Number(row.time_P),
             time_AC: Number(row.time_AC ?? Infinity),
 
-            // Stiffness constants - load from params (approximate for restart) 
-            // or we'd need to save them all.
-            // Since they are mostly constant per cell type (except dynamic changes), 
-            // we'll reload initial from params for simplicity, 
-            // BUT if stiffness changes (e.g. lose straightness), we need to handle that.
-            stiffness_apical_apical: 1.0, // Default
-            stiffness_straightness: Number(row.time_S) < t ? 1.0 : 100.0, // Approximation based on event time
-            stiffness_nuclei_apical: !Boolean(row.has_A) ? 0.1 : 1.0,  // Approximation
-            stiffness_nuclei_basal: !Boolean(row.has_B) ? 0.1 : 1.0,
+            stiffness_apical_apical: Number(row.stiffness_apical_apical),
+            stiffness_straightness: Number(row.stiffness_straightness),
+            stiffness_nuclei_apical: Number(row.stiffness_nuclei_apical),
+            stiffness_nuclei_basal: Number(row.stiffness_nuclei_basal),
         };
 
-        // Fill in correct stiffness from params as baseline
-        const cellType = params.cell_types[cell.typeIndex] || params.cell_types.control;
-        cell.stiffness_apical_apical = cellType.stiffness_apical_apical;
-        // Apply event modifiers logic roughly
-        if (Boolean(row.has_A) === false) cell.stiffness_nuclei_apical = cellType.stiffness_nuclei_apical * 0.1;
-        else cell.stiffness_nuclei_apical = cellType.stiffness_nuclei_apical;
+        if (row.division_time === undefined) {
+            // Older tables lack division time and stiffness: approximate them from params
+            const cellType = params.cell_types[cell.typeIndex] || params.cell_types.control;
+            cell.stiffness_apical_apical = cellType.stiffness_apical_apical;
+            // Apply event modifiers logic roughly
+            if (Boolean(row.has_A) === false) cell.stiffness_nuclei_apical = cellType.stiffness_nuclei_apical * 0.1;
+            else cell.stiffness_nuclei_apical = cellType.stiffness_nuclei_apical;
 
-        if (Boolean(row.has_B) === false) cell.stiffness_nuclei_basal = cellType.stiffness_nuclei_basal * 0.1;
-        else cell.stiffness_nuclei_basal = cellType.stiffness_nuclei_basal;
+            if (Boolean(row.has_B) === false) cell.stiffness_nuclei_basal = cellType.stiffness_nuclei_basal * 0.1;
+            else cell.stiffness_nuclei_basal = cellType.stiffness_nuclei_basal;
 
-        if (cell.time_S && t > cell.time_S) cell.stiffness_straightness = 1.0;
-        else cell.stiffness_straightness = cellType.stiffness_straightness;
+            if (cell.time_S && t > cell.time_S) cell.stiffness_straightness = 1.0;
+            else cell.stiffness_straightness = cellType.stiffness_straightness;
 
-        // Recalculate division time
-        cell.division_time = cell.birth_time + (cellType.lifespan_end + cellType.lifespan_start) / 2; // Approx
+            cell.division_time = cell.birth_time + (cellType.lifespan_end + cellType.lifespan_start) / 2; // Approx
+        }
 
         state.cells.push(cell);
     }
@@ -31,6 +31,15 @@ export const DEFAULT_CONTROL_CELL: EHTCellTypeParams = {
   lifespan_start: 5.5,
   lifespan_end: 6.5,
   INM: 0.0,
+  division_mode: 'symmetric',
+  division_angle_mean: 0,
+  division_angle_sd: 0,
+  division_offset: 0.005,
+  type_switch: {},
+  apoptosis_rate: 0,
+  apoptosis_start: 0,
+  apoptosis_end: Infinity,
+  removal_distance: Infinity,
   hetero: false,
   events: {
     time_A_start: Infinity,
@@ -78,6 +87,15 @@ export const DEFAULT_EMT_CELL: EHTCellTypeParams = {
   lifespan_start: 5.5,
   lifespan_end: 6.5,
   INM: 0.0,
+  division_mode: 'none',
+  division_angle_mean: 0,
+  division_angle_sd: 0,
+  division_offset: 0.005,
+  type_switch: {},
+  apoptosis_rate: 0,
+  apoptosis_start: 0,
+  apoptosis_end: Infinity,
+  removal_distance: Infinity,
   hetero: true,
   events: {
     time_A_start: 3,
@@ -104,7 +122,7 @@ export const DEFAULT_EMT_CELL: EHTCellTypeParams = {
 export const DEFAULT_EHT_PARAMS: EHTParams = {
   metadata: {
     model: 'EHT',
-    version: '1.0.0',
+    version: '1.1.0', // 1.1.0: cell types without division_mode divide symmetrically
   },
   general: {
     t_end: 48,
@@ -115,6 +133,10 @@ export const DEFAULT_EHT_PARAMS: EHTParams = {
     h_init: 5,
     mu: 0.2,
     n_substeps: 30,
+    adaptive_substeps: false,
+    substep_tolerance: 1e-2,
+    min_substep: 1e-5,
+    max_substep: Infinity,
     alg_dt: 0.01,
     w_screen: 50,      // Minimum visible width in simulation units
     h_screen: 25,      // Minimum visible height in simulation units
@@ -122,6 +144,12 @@ export const DEFAULT_EHT_PARAMS: EHTParams = {
     perimeter: 105,    // ≈ 2π × 16.67 (equivalent to curvature 0.06)
     aspect_ratio: 1,   // Circle
     hard_sphere_nuclei: true,
+    perimeter_expr: '',      // Constant perimeter
+    aspect_ratio_expr: '',   // Constant aspect ratio
+    membrane_mobility: 0,    // Rigid membrane
+    membrane_stiffness: 0,
+    gap_threshold: 7,        // Twice the default ring's initial cell spacing (105 / 30 cells); not rescaled with other layouts
+    boundary_fraction: 0.1,  // Left/right 10% of control cells
   },
   cell_prop: {
     // All properties moved to per-cell-type in cell_types
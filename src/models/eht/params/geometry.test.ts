@@ -4,7 +4,13 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { ramanujanPerimeter, computeEllipseFromPerimeter } from './geometry';
+import { ramanujanPerimeter, computeEllipseFromPerimeter, createBasalCurveGeometry } from './geometry';
+import type { EHTParams } from './types';
+import { EHTModel } from '../index';
+import { parseTomlWithDefaults } from '@/core/params/toml';
+import { SimulationEngine } from '@/core/simulation/engine';
+import { PolylineGeometry, SplineGeometry } from '@/core/math';
+import { Vector2 } from '@/core/math/vector2';
 import { assertClose, circlePerimeter } from '@/test/helpers';
 
 describe('ramanujanPerimeter', () => {
@@ -218,3 +224,50 @@ describe('Scientific Correctness', () => {
     }
   });
 });
+
+describe('createBasalCurveGeometry', () => {
+  const points: [number, number][] = [[0, 0], [20, 0], [20, 20], [0, 20]];
+
+  it('should default to a closed spline', () => {
+    const geom = createBasalCurveGeometry({ points });
+    expect(geom).toBeInstanceOf(SplineGeometry);
+    expect(geom.closed).toBe(true);
+  });
+
+  it('should create a polyline for linear interpolation', () => {
+    const geom = createBasalCurveGeometry({ points, interpolation: 'linear', closed: false });
+    expect(geom).toBeInstanceOf(PolylineGeometry);
+    assertClose(geom.perimeter, 60, 1e-10);
+  });
+
+  it('should place cells on a basal curve loaded from TOML', () => {
+    const params = parseTomlWithDefaults(`
+[general]
+n_substeps = 5
+full_circle = true
+
+[general.basal_curve]
+points = [[0, 0], [30, 0], [40, 15], [30, 30], [0, 30], [-10, 15]]
+interpolation = "linear"
+`) as unknown as EHTParams;
+    expect(params.general.basal_curve?.points).toHaveLength(6);
+
+    const engine = new SimulationEngine({ model: EHTModel, params });
+    const state = engine.getState();
+    expect(state.basalGeometry).toBeInstanceOf(PolylineGeometry);
+    expect(state.geometry).toBeUndefined();
+
+    for (const cell of state.cells) {
+      const B = Vector2.from(cell.B);
+      assertClose(state.basalGeometry.projectPoint(B).dist(B), 0, 1e-9);
+      // Cells grow into the curve
+      expect(cell.A.x).toBeGreaterThan(-10);
+      expect(cell.A.x).toBeLessThan(40);
+    }
+
+    for (let i = 0; i < 5; i++) engine.step();
+    for (const cell of engine.getState().cells) {
+      expect(Number.isFinite(cell.pos.x) && Number.isFinite(cell.pos.y)).toBe(true);
+    }
+  });
+});
@@ -8,8 +8,13 @@
  *   - large aspect = large vertical radius, small horizontal radius
  * - aspect < 0: curve below x-axis (normal points outward, down)
  *   - |aspect| determines the shape
+ *
+ * A custom basal curve (general.basal_curve) replaces the ellipse entirely.
  */
 
+import { PolylineGeometry, SplineGeometry } from '@/core/math';
+import type { EHTBasalCurveParams } from './types';
+
 /**
  * Ellipse geometry result containing semi-axes and curvatures.
  */
@@ -107,3 +112,19 @@ export function computeEllipseFromPerimeter(
     curvature_2,
   };
 }
+
+/**
+ * Create the basal geometry for a custom basal curve.
+ * Points are joined by a spline unless interpolation is 'linear'; the curve
+ * is closed unless closed = false.
+ *
+ * @param curve - Custom basal curve parameters
+ * @returns PolylineGeometry or SplineGeometry through the points
+ */
+export function createBasalCurveGeometry(curve: EHTBasalCurveParams): PolylineGeometry | SplineGeometry {
+  const points = curve.points.map(([x, y]) => ({ x, y }));
+  const closed = curve.closed ?? true;
+  return curve.interpolation === 'linear'
+    ? new PolylineGeometry(points, closed)
+    : new SplineGeometry(points, closed);
+}
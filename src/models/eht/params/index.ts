@@ -9,6 +9,7 @@ export type {
   EMTEventTimes,
   EHTCellTypeParams,
   EHTGeneralParams,
+  EHTBasalCurveParams,
   EHTCellPropertyParams,
   EHTCellTypesMap,
   EHTParams,
@@ -41,6 +42,7 @@ export {
   rangeSchema,
   emtEventTimesSchema,
   ehtCellTypeSchema,
+  ehtBasalCurveSchema,
   ehtGeneralParamsSchema,
   ehtCellPropertyParamsSchema,
   ehtCellTypesMapSchema,
@@ -67,4 +69,5 @@ export {
   type EllipseGeometry,
   ramanujanPerimeter,
   computeEllipseFromPerimeter,
+  createBasalCurveGeometry,
 } from './geometry';
@@ -326,6 +326,15 @@ export function importLegacyXLSX(data: LegacyXLSXData): EHTParams {
       lifespan_start: parseNumber(legacyType["life_span.min"], 5.5),
       lifespan_end: parseNumber(legacyType["life_span.max"], 6.5),
       INM: 1, // Default (will be updated from cell_events if INM event exists)
+      division_mode: currentTypeName === 'emt' ? 'none' : 'symmetric', // 'emt' cells never divided before division modes existed
+      division_angle_mean: 0,
+      division_angle_sd: 0,
+      division_offset: 0.005,
+      type_switch: {},
+      apoptosis_rate: 0, // Default, not in legacy
+      apoptosis_start: 0,
+      apoptosis_end: Infinity,
+      removal_distance: Infinity,
       hetero: false, // Will be set based on events
       events: {
         time_A_start: Infinity,
@@ -4,6 +4,11 @@
  */
 
 import { z } from 'zod';
+import { parseExpression } from '@/core/params/expression';
+import { parseStatAggregators } from '../aggregators';
+import { generateEHTStatistics } from '../statistics';
+import { compileCellGroups } from '../cellGroups';
+import type { EHTCellGroupParams, EHTParams } from './types';
 
 /** Metadata schema */
 export const metadataSchema = z.object({
@@ -63,6 +68,18 @@ export const ehtCellTypeSchema = z.object({
   lifespan_start: z.number(),
   lifespan_end: z.number(),
   INM: z.number().min(0).max(1),
+  division_mode: z.enum(['none', 'symmetric', 'asymmetric']),
+  division_angle_mean: z.number(),
+  division_angle_sd: z.number().nonnegative(),
+  division_offset: z.number().nonnegative(),
+  type_switch: z.record(z.string(), z.number().min(0).max(1)).refine(
+    (row) => Object.values(row).reduce((sum, p) => sum + p, 0) <= 1,
+    'Type switch probabilities must sum to at most 1'
+  ),
+  apoptosis_rate: z.number().nonnegative(),
+  apoptosis_start: z.number(),
+  apoptosis_end: z.number(),
+  removal_distance: z.number().nonnegative(),
   hetero: z.boolean(),
   events: emtEventTimesSchema,
   // Per-cell-type properties
@@ -74,6 +91,33 @@ export const ehtCellTypeSchema = z.object({
   apical_junction_init: z.number().nonnegative(),
 });
 
+/** Expression in time t, or empty */
+const timeExpressionSchema = z.string().refine((source) => {
+  if (source.trim() === '') return true;
+  try {
+    parseExpression(source);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid expression');
+
+/** Distribution aggregators per cell metric (e.g. bx = ["median", "p90"]) */
+const statAggregatorsSchema = z.record(z.string(), z.array(z.string())).superRefine((config, ctx) => {
+  try {
+    parseStatAggregators(config);
+  } catch (e) {
+    ctx.addIssue({ code: 'custom', message: (e as Error).message });
+  }
+});
+
+/** Custom basal curve schema */
+export const ehtBasalCurveSchema = z.object({
+  points: z.array(z.tuple([z.number(), z.number()])).min(2),
+  interpolation: z.enum(['linear', 'spline']).optional(),
+  closed: z.boolean().optional(),
+});
+
 /** General params schema */
 export const ehtGeneralParamsSchema = z.object({
   t_end: z.number().positive(),
@@ -84,6 +128,10 @@ export const ehtGeneralParamsSchema = z.object({
   h_init: z.number().positive(),
   mu: z.number().positive(),
   n_substeps: z.number().int().positive(),
+  adaptive_substeps: z.boolean(),
+  substep_tolerance: z.number().positive(),
+  min_substep: z.number().positive(),
+  max_substep: z.number().positive(),
   alg_dt: z.number().positive(),
   w_screen: z.number().positive(),
   h_screen: z.number().positive(),
@@ -91,6 +139,14 @@ export const ehtGeneralParamsSchema = z.object({
   perimeter: z.number().positive(),           // Ellipse perimeter (only used when aspect != 0)
   aspect_ratio: z.number(),                   // 0=line, >0=curve above, <0=curve below; |aspect|=b/a
   hard_sphere_nuclei: z.boolean(),            // If true, use R_hard instead of R_soft for nuclei spring rest length
+  perimeter_expr: timeExpressionSchema,       // Perimeter as a function of time t (empty = constant)
+  aspect_ratio_expr: timeExpressionSchema,    // Aspect ratio as a function of time t (empty = constant)
+  membrane_mobility: z.number().nonnegative(), // 0 = membrane does not respond to cells
+  membrane_stiffness: z.number().nonnegative(),
+  gap_threshold: z.number().positive(),       // Neighbor distance above which cells border a gap (statistics)
+  boundary_fraction: z.number().min(0).max(0.5), // Control cells at each end left out of statistics
+  basal_curve: ehtBasalCurveSchema.optional(), // Custom basal curve (overrides perimeter/aspect_ratio)
+  stat_aggregators: statAggregatorsSchema.optional(), // Distribution statistics per cell metric
 });
 
 /** Cell property params schema (legacy - empty, properties moved to cell types) */
@@ -98,6 +154,28 @@ export const ehtCellPropertyParamsSchema = z.object({
   // All properties moved to per-cell-type in ehtCellTypeSchema
 });
 
+/** User-defined statistic schema (expressions are checked with the whole params) */
+export const ehtCustomStatisticSchema = z.object({
+  id: z.string(),
+  label: z.string().optional(),
+  description: z.string().optional(),
+  filter: z.string().optional(),
+  value: z.string().optional(),
+  aggregate: z.string().optional(),
+});
+
+/** Cell group schema (types and filters are checked with the whole params) */
+export const ehtCellGroupSchema = z.object({
+  id: z.string(),
+  types: z.array(z.string()).optional(),
+  arc_length: z.tuple([z.number(), z.number()]).optional(),
+  has_A: z.boolean().optional(),
+  has_B: z.boolean().optional(),
+  phases: z.array(z.enum(['G1', 'G2', 'Mitosis', 'Division'])).optional(),
+  founders: z.array(z.number().int()).optional(),
+  filter: z.string().optional(),
+});
+
 /** Cell types map schema - any keys allowed */
 export const ehtCellTypesMapSchema = z.record(z.string(), ehtCellTypeSchema);
 
@@ -107,6 +185,52 @@ export const ehtParamsSchema = z.object({
   general: ehtGeneralParamsSchema,
   cell_prop: ehtCellPropertyParamsSchema,
   cell_types: ehtCellTypesMapSchema,
+  statistics: z.array(ehtCustomStatisticSchema).optional(),
+  groups: z.array(ehtCellGroupSchema).optional(),
+}).superRefine((params, ctx) => {
+  // Daughters can only switch to cell types that exist
+  for (const [typeName, cellType] of Object.entries(params.cell_types)) {
+    for (const target of Object.keys(cellType.type_switch)) {
+      if (!(target in params.cell_types)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['cell_types', typeName, 'type_switch', target],
+          message: `Unknown cell type '${target}'`,
+        });
+      }
+    }
+  }
+
+  if (params.general.min_substep > params.general.max_substep) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['general', 'min_substep'],
+      message: 'min_substep must not exceed max_substep',
+    });
+  }
+
+  // Cell groups compile and do not reuse the name of a cell type or another group
+  if (params.groups?.length) {
+    try {
+      compileCellGroups(params.groups as EHTCellGroupParams[], Object.keys(params.cell_types));
+    } catch (e) {
+      ctx.addIssue({ code: 'custom', path: ['groups'], message: (e as Error).message });
+    }
+  }
+
+  // User-defined statistics compile (they may use type.<name>) and no two
+  // statistic ids (with their group suffix) collide
+  if (params.statistics?.length || params.groups?.length) {
+    try {
+      const ids = generateEHTStatistics(params as EHTParams).map((s) => s.id);
+      const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+      if (duplicate) {
+        ctx.addIssue({ code: 'custom', path: ['statistics'], message: `Statistic '${duplicate}' is defined more than once` });
+      }
+    } catch (e) {
+      ctx.addIssue({ code: 'custom', path: ['statistics'], message: (e as Error).message });
+    }
+  }
 });
 
 /** Partial schemas for input validation (allows missing fields) */
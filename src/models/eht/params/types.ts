@@ -22,6 +22,14 @@ export interface EMTEventTimes {
   time_AC_end: number;   // Time for apical constriction (end)
 }
 
+/**
+ * How cells of a type divide.
+ * - none: the cell cycle is reset without dividing
+ * - symmetric: two equivalent daughters
+ * - asymmetric: the second daughter loses apical adhesion at birth
+ */
+export type DivisionMode = 'none' | 'symmetric' | 'asymmetric';
+
 /** Cell type definition - defines the properties of a cell type (e.g., control, emt) */
 export interface EHTCellTypeParams {
   N_init: number;           // Initial number of cells of this type
@@ -47,6 +55,15 @@ export interface EHTCellTypeParams {
   lifespan_start: number;
   lifespan_end: number;
   INM: number;              // Interkinetic nuclear migration probability
+  division_mode: DivisionMode;
+  division_angle_mean: number; // Division plane angle relative to the basal normal (degrees, 0 = daughters side by side)
+  division_angle_sd: number;   // Standard deviation of the division plane angle (degrees)
+  division_offset: number;     // Distance of each daughter's nucleus from the mother's, along the division axis (fraction of R_soft)
+  type_switch: Record<string, number>; // Probability of each daughter switching to another cell type
+  apoptosis_rate: number;   // Apoptosis rate (per hour) within the apoptosis window
+  apoptosis_start: number;  // Apoptosis window (start time)
+  apoptosis_end: number;    // Apoptosis window (end time)
+  removal_distance: number; // Remove detached cells once their basal point is this far beyond the basal membrane
   hetero: boolean;          // Heterogeneous EMT behavior
   events: EMTEventTimes;
   // Per-cell-type properties (previously global in cell_prop)
@@ -58,6 +75,18 @@ export interface EHTCellTypeParams {
   apical_junction_init: number;     // Initial apical junction distance
 }
 
+/**
+ * Basal curve given as a list of points (e.g. traced from an image).
+ * Replaces the ellipse from perimeter/aspect_ratio when set.
+ * The tissue lies to the left of the direction of travel, so closed curves
+ * should be listed counter-clockwise.
+ */
+export interface EHTBasalCurveParams {
+  points: [number, number][];          // Curve points (x, y)
+  interpolation?: 'linear' | 'spline'; // Straight segments or a smooth spline through the points (default: spline)
+  closed?: boolean;                    // Connect the last point to the first (default: true)
+}
+
 /** EHT general simulation parameters */
 export interface EHTGeneralParams {
   t_end: number;            // End time
@@ -67,7 +96,11 @@ export interface EHTGeneralParams {
   w_init: number;           // Initial tissue width
   h_init: number;           // Initial tissue height
   mu: number;               // Friction coefficient
-  n_substeps: number;       // Number of substeps per timestep
+  n_substeps: number;       // Number of substeps per timestep (initial guess with adaptive substeps)
+  adaptive_substeps: boolean; // If true: choose substep lengths from an error estimate instead of n_substeps
+  substep_tolerance: number; // Maximum estimated position error per adaptive substep
+  min_substep: number;      // Smallest adaptive substep (accepted even above the tolerance)
+  max_substep: number;      // Largest adaptive substep
   alg_dt: number;           // Algorithm time step
   w_screen: number;         // Screen width (visualization)
   h_screen: number;         // Screen height (visualization)
@@ -75,6 +108,14 @@ export interface EHTGeneralParams {
   perimeter: number;        // Ellipse perimeter (0 for straight line)
   aspect_ratio: number;     // Shape: 0=line, >0=curve above, <0=curve below; |aspect|=b/a
   hard_sphere_nuclei: boolean; // If true, use R_hard instead of R_soft for nuclei spring rest length
+  perimeter_expr: string;   // Perimeter as a function of time t (hours), e.g. "105 * (1 + 0.01 * t)"; empty = constant
+  aspect_ratio_expr: string; // Aspect ratio as a function of time t; empty = constant
+  membrane_mobility: number; // Response of the perimeter to the forces of basal points (0 = membrane ignores cells); uniform, the whole shape scales
+  membrane_stiffness: number; // Pull of the perimeter back to its prescribed value
+  basal_curve?: EHTBasalCurveParams; // Custom basal curve (overrides perimeter/aspect_ratio)
+  gap_threshold: number;    // Distance between neighboring cells along the apical/basal line above which they border a gap (statistics)
+  boundary_fraction: number; // Fraction of control cells at each end of an open tissue left out of statistics as control_boundary
+  stat_aggregators?: Record<string, string[]>; // Distribution statistics per cell metric, e.g. { bx: ["median", "p90", "hist:0:10:5"] }
 }
 
 /** Cell property parameters (legacy - kept empty for backwards compatibility) */
@@ -86,12 +127,43 @@ export interface EHTCellPropertyParams {
 /** Cell types map - allows any cell types */
 export type EHTCellTypesMap = Record<string, EHTCellTypeParams>;
 
+/** User-defined statistic ([[statistics]] in the config), reported for every cell group */
+export interface EHTCustomStatisticParams {
+  id: string;           // Statistic name; the group is appended (e.g. "escaped" -> "escaped_emt")
+  label?: string;       // Display label (default: id)
+  description?: string;
+  filter?: string;      // Cells counted: expression over cell fields, nonzero = included (default: all)
+  value?: string;       // Per-cell value: expression over cell fields (default: 1)
+  aggregate?: string;   // Aggregator over the values: mean, sum, count, median, p90, hist:0:1:5, ... (default: mean)
+}
+
+/** Cell-cycle phase names, as in CellPhase */
+export type CellPhaseName = 'G1' | 'G2' | 'Mitosis' | 'Division';
+
+/**
+ * Named cell group ([[groups]] in the config): the cells matching every given
+ * predicate. Every statistic is reported for every group; boundary cells are
+ * left out as from 'all'.
+ */
+export interface EHTCellGroupParams {
+  id: string;                     // Group name, appended to statistic ids (e.g. "center" -> "bx_center")
+  types?: string[];               // Cell types (default: all)
+  arc_length?: [number, number];  // Window of the basal point's arc length from the tissue center
+  has_A?: boolean;                // Apical adhesion
+  has_B?: boolean;                // Basal adhesion
+  phases?: CellPhaseName[];       // Cell-cycle phases
+  founders?: number[];            // Descendants of these initial cells (by ID, including themselves)
+  filter?: string;                // Expression over cell fields, nonzero = included
+}
+
 /** Complete EHT simulation parameters */
 export interface EHTParams extends BaseSimulationParams {
   metadata: ParamsMetadata;
   general: EHTGeneralParams;
   cell_prop: EHTCellPropertyParams;
   cell_types: EHTCellTypesMap;
+  statistics?: EHTCustomStatisticParams[]; // User-defined statistics
+  groups?: EHTCellGroupParams[];           // User-defined cell groups
 }
 
 /** Deep partial type for EHT params input */
@@ -104,6 +176,8 @@ export type PartialEHTParams = {
     emt?: Partial<EHTCellTypeParams>;
     [key: string]: Partial<EHTCellTypeParams> | undefined;
   };
+  statistics?: EHTCustomStatisticParams[];
+  groups?: EHTCellGroupParams[];
 };
 
 // Legacy type aliases for backwards compatibility
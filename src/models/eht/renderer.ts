@@ -5,11 +5,14 @@
 
 import { Graphics, Text, TextStyle } from 'pixi.js';
 import type { ModelRenderContext, BoundingBox } from '@/core/registry/types';
-import type { ModelRenderer } from '@/core/interfaces/renderer';
+import type { ModelRenderer, SceneRenderContext } from '@/core/interfaces/renderer';
+import type { SceneBuilder } from '@/core/export/scene';
 import type { EHTSimulationState, GeometryState } from './types';
 import type { EHTParams } from './params/types';
 import { shapeCenter } from '@/core/math/geometry';
-import { computeEllipseFromPerimeter } from './params/geometry';
+import { PolylineGeometry, SplineGeometry, reviveCurveGeometry } from '@/core/math';
+import type { Vector2 } from '@/core/math/vector2';
+import { computeEllipseFromPerimeter, createBasalCurveGeometry } from './params/geometry';
 
 /**
  * Get curvatures from state.geometry or compute from params as fallback.
@@ -26,6 +29,26 @@ function getCurvatures(state: EHTSimulationState | undefined, params: EHTParams)
   };
 }
 
+/**
+ * Get the vertices of a custom basal curve (closed curves end with their
+ * first vertex), or undefined if the membrane is a line or ellipse.
+ * Uses the state's geometry, or the params before the simulation starts.
+ */
+function getCustomCurve(state: EHTSimulationState | undefined, params: EHTParams): Vector2[] | undefined {
+  const geometry = state?.basalGeometry;
+  if (geometry instanceof PolylineGeometry || geometry instanceof SplineGeometry) {
+    return geometry.vertices;
+  }
+  const revived = reviveCurveGeometry(geometry);
+  if (revived) {
+    return revived.vertices;
+  }
+  if (!state?.geometry && params.general.basal_curve) {
+    return createBasalCurveGeometry(params.general.basal_curve).vertices;
+  }
+  return undefined;
+}
+
 /** Theme colors for EHT rendering */
 interface EHTThemeColors {
   apicalPoint: number;
@@ -61,116 +84,167 @@ function rgbToHex(r: number, g: number, b: number): number {
   return (r << 16) | (g << 8) | b;
 }
 
+/** Stroke style in simulation units */
+interface StrokeStyle {
+  color: number;
+  alpha?: number;
+  width: number;
+}
+
+/** Label style; font size in pixels */
+interface LabelStyle {
+  color: number;
+  fontSize: number;
+  bold?: boolean;
+}
+
+/**
+ * Drawing target shared by the live renderer and scene export, so both draw
+ * the same frame. Coordinates are in simulation units.
+ */
+interface EHTDrawTarget {
+  polyline(points: { x: number; y: number }[], stroke: StrokeStyle): void;
+  ellipse(cx: number, cy: number, rx: number, ry: number, stroke: StrokeStyle): void;
+  circle(x: number, y: number, r: number, color: number, alpha?: number): void;
+  /** Text centered on a point, drawn at a fixed pixel size */
+  label(x: number, y: number, text: string, style: LabelStyle): void;
+}
+
+/**
+ * Draw target for a PixiJS Graphics object. Labels are added to the
+ * screen-space uiContainer for crisp text.
+ */
+function pixiTarget(graphics: Graphics, ctx: ModelRenderContext): EHTDrawTarget {
+  return {
+    polyline(points, stroke) {
+      if (points.length < 2) return;
+      graphics.moveTo(points[0].x, points[0].y);
+      for (const p of points.slice(1)) {
+        graphics.lineTo(p.x, p.y);
+      }
+      graphics.stroke({ alpha: 1, ...stroke });
+    },
+    ellipse(cx, cy, rx, ry, stroke) {
+      graphics.ellipse(cx, cy, rx, ry);
+      graphics.stroke({ alpha: 1, ...stroke });
+    },
+    circle(x, y, r, color, alpha = 1) {
+      graphics.circle(x, y, r);
+      graphics.fill({ color, alpha });
+    },
+    label(x, y, text, style) {
+      const { width: canvasWidth, height: canvasHeight } = ctx.canvasSize;
+      const { x: centerX, y: centerY } = ctx.viewportCenter;
+      const label = new Text({
+        text,
+        style: new TextStyle({
+          fontFamily: 'monospace',
+          fontSize: style.fontSize,
+          fill: style.color,
+          fontWeight: style.bold ? 'bold' : 'normal',
+        }),
+      });
+      label.anchor.set(0.5, 0.5);
+      // Transform from simulation coordinates to screen coordinates
+      label.position.set(canvasWidth / 2 + (x - centerX) * ctx.scale, canvasHeight / 2 - (y - centerY) * ctx.scale);
+      ctx.uiContainer.addChild(label);
+    },
+  };
+}
+
+/**
+ * Draw target for a renderer-independent scene (SVG/PNG export).
+ */
+function sceneTarget(scene: SceneBuilder): EHTDrawTarget {
+  return {
+    polyline: (points, stroke) => scene.polyline(points, stroke),
+    ellipse: (cx, cy, rx, ry, stroke) => scene.ellipse(cx, cy, rx, ry, stroke),
+    circle: (x, y, r, color, alpha) => scene.circle(x, y, r, color, alpha),
+    label: (x, y, text, style) => scene.screenText(scene.toScreenX(x), scene.toScreenY(y), text, style),
+  };
+}
+
 /**
  * Draw the basal membrane curve.
  */
-function drawBasalCurve(graphics: Graphics, curvature_1: number, curvature_2: number, w_init: number, theme: EHTThemeColors): void {
-  if (curvature_1 === 0 && curvature_2 === 0) {
+function drawBasalCurve(target: EHTDrawTarget, state: EHTSimulationState, params: EHTParams, theme: EHTThemeColors): void {
+  const { curvature_1, curvature_2 } = getCurvatures(state, params);
+  const membrane = { color: theme.membrane, alpha: 0.5, width: 0.05 };
+  const curve = getCustomCurve(state, params);
+
+  if (curve) {
+    // Custom curve through its vertices
+    target.polyline(curve, membrane);
+  } else if (curvature_1 === 0 && curvature_2 === 0) {
     // Straight line - use w_init for extent
-    const halfWidth = w_init / 2 + 5;
-    graphics.moveTo(-halfWidth, 0);
-    graphics.lineTo(halfWidth, 0);
-    graphics.stroke({ color: theme.membrane, alpha: 0.5, width: 0.05 });
+    const halfWidth = params.general.w_init / 2 + 5;
+    target.polyline([{ x: -halfWidth, y: 0 }, { x: halfWidth, y: 0 }], membrane);
   } else {
     // Ellipse
     const center = shapeCenter(curvature_1, curvature_2);
     const a = curvature_1 !== 0 ? Math.abs(1 / curvature_1) : 20;
     const b = curvature_2 !== 0 ? Math.abs(1 / curvature_2) : 20;
-
-    graphics.ellipse(center.x, center.y, a, b);
-    graphics.stroke({ color: theme.membrane, alpha: 0.5, width: 0.05 });
+    target.ellipse(center.x, center.y, a, b, membrane);
   }
 }
 
 /**
  * Draw all cells with their apical/basal points and cytoskeleton.
  */
-function drawCells(graphics: Graphics, state: EHTSimulationState, params: EHTParams, theme: EHTThemeColors): void {
+function drawCells(target: EHTDrawTarget, state: EHTSimulationState, params: EHTParams, theme: EHTThemeColors): void {
   for (const cell of state.cells) {
     const cellType = params.cell_types[cell.typeIndex] ?? params.cell_types.control;
-    const color = cellType.color;
-
-    // Draw soft radius (semi-transparent ellipse)
-    graphics.circle(cell.pos.x, cell.pos.y, cell.R_soft);
-    graphics.fill({ color: rgbToHex(color.r, color.g, color.b), alpha: 0.4 });
+    const color = rgbToHex(cellType.color.r, cellType.color.g, cellType.color.b);
 
-    // Draw hard radius (solid circle)
-    graphics.circle(cell.pos.x, cell.pos.y, cell.R_hard);
-    graphics.fill({ color: rgbToHex(color.r, color.g, color.b), alpha: 1 });
+    // Soft radius (semi-transparent) and hard radius (solid)
+    target.circle(cell.pos.x, cell.pos.y, cell.R_soft, color, 0.4);
+    target.circle(cell.pos.x, cell.pos.y, cell.R_hard, color, 1);
 
-    // Draw apical point
-    graphics.circle(cell.A.x, cell.A.y, 0.1);
-    graphics.fill({ color: theme.apicalPoint, alpha: 1 });
+    // Apical and basal points
+    target.circle(cell.A.x, cell.A.y, 0.1, theme.apicalPoint);
+    target.circle(cell.B.x, cell.B.y, 0.1, theme.basalPoint);
 
-    // Draw basal point
-    graphics.circle(cell.B.x, cell.B.y, 0.1);
-    graphics.fill({ color: theme.basalPoint, alpha: 1 });
-
-    // Draw cytoskeleton lines (A to pos, B to pos)
-    graphics.moveTo(cell.A.x, cell.A.y);
-    graphics.lineTo(cell.pos.x, cell.pos.y);
-    graphics.lineTo(cell.B.x, cell.B.y);
-    graphics.stroke({ color: theme.cytoskeleton, alpha: 0.5, width: 0.05 });
+    // Cytoskeleton lines (A to pos, B to pos)
+    target.polyline([cell.A, cell.pos, cell.B], { color: theme.cytoskeleton, alpha: 0.5, width: 0.05 });
   }
 }
 
 /**
  * Draw apical links between neighboring cells.
  */
-function drawApicalLinks(graphics: Graphics, state: EHTSimulationState, theme: EHTThemeColors): void {
+function drawApicalLinks(target: EHTDrawTarget, state: EHTSimulationState, theme: EHTThemeColors): void {
   for (const link of state.ap_links) {
     const cellI = state.cells[link.l];
     const cellJ = state.cells[link.r];
-
     if (cellI && cellJ) {
-      graphics.moveTo(cellI.A.x, cellI.A.y);
-      graphics.lineTo(cellJ.A.x, cellJ.A.y);
+      target.polyline([cellI.A, cellJ.A], { color: theme.apicalLink, width: 0.05 });
     }
   }
-
-  graphics.stroke({ color: theme.apicalLink, alpha: 1, width: 0.05 });
 }
 
 /**
  * Draw basal links between neighboring cells.
  */
-function drawBasalLinks(graphics: Graphics, state: EHTSimulationState, theme: EHTThemeColors): void {
+function drawBasalLinks(target: EHTDrawTarget, state: EHTSimulationState, theme: EHTThemeColors): void {
   for (const link of state.ba_links) {
     const cellI = state.cells[link.l];
     const cellJ = state.cells[link.r];
-
     if (cellI && cellJ) {
-      graphics.moveTo(cellI.B.x, cellI.B.y);
-      graphics.lineTo(cellJ.B.x, cellJ.B.y);
+      target.polyline([cellI.B, cellJ.B], { color: theme.basalLink, width: 0.05 });
     }
   }
-
-  graphics.stroke({ color: theme.basalLink, alpha: 1, width: 0.05 });
 }
 
 /**
  * Draw cell IDs at the nucleus center of each cell.
- * Text is rendered in screen space (uiContainer) for crisp display.
  */
-function drawCellIds(ctx: ModelRenderContext, state: EHTSimulationState): void {
-  const style = new TextStyle({
-    fontFamily: 'monospace',
-    fontSize: 10,
-    fill: ctx.isDark ? 0xffffff : 0x000000,
-    fontWeight: 'bold',
-  });
-
-  const { width: canvasWidth, height: canvasHeight } = ctx.canvasSize;
-  const { x: centerX, y: centerY } = ctx.viewportCenter;
-
+function drawCellIds(target: EHTDrawTarget, state: EHTSimulationState, isDark: boolean): void {
   for (const cell of state.cells) {
-    const text = new Text({ text: cell.id.toString(), style });
-    text.anchor.set(0.5, 0.5);
-    // Transform from simulation coordinates to screen coordinates
-    const screenX = canvasWidth / 2 + (cell.pos.x - centerX) * ctx.scale;
-    const screenY = canvasHeight / 2 - (cell.pos.y - centerY) * ctx.scale;
-    text.position.set(screenX, screenY);
-    ctx.uiContainer.addChild(text);
+    target.label(cell.pos.x, cell.pos.y, cell.id.toString(), {
+      color: isDark ? 0xffffff : 0x000000,
+      fontSize: 10,
+      bold: true,
+    });
   }
 }
 
@@ -185,9 +259,18 @@ export const ehtRenderer: ModelRenderer<EHTParams, EHTSimulationState> = {
     const w_screen = params.general.w_screen;
     const h_screen = params.general.h_screen;
 
+    const curve = getCustomCurve(state, params);
+
     let minX: number, maxX: number, minY: number, maxY: number;
 
-    if (curvature_1 === 0 && curvature_2 === 0) {
+    if (curve) {
+      // Curve extent, padded by the tissue height on all sides
+      const pad = h_init + 2;
+      minX = Math.min(...curve.map((p) => p.x)) - pad;
+      maxX = Math.max(...curve.map((p) => p.x)) + pad;
+      minY = Math.min(...curve.map((p) => p.y)) - pad;
+      maxY = Math.max(...curve.map((p) => p.y)) + pad;
+    } else if (curvature_1 === 0 && curvature_2 === 0) {
       // Straight line case - use w_init for width
       const halfWidth = w_init / 2 + 2; // Add small padding
       minX = -halfWidth;
@@ -228,27 +311,36 @@ export const ehtRenderer: ModelRenderer<EHTParams, EHTSimulationState> = {
 
   render(ctx: ModelRenderContext, state: EHTSimulationState, params: EHTParams): void {
     const theme = ctx.isDark ? DARK_THEME : LIGHT_THEME;
-    const cellsGraphics = ctx.graphics.cells as Graphics;
-    const linksGraphics = ctx.graphics.links as Graphics;
-    const { curvature_1, curvature_2 } = getCurvatures(state, params);
-
-    // Draw basal membrane
-    drawBasalCurve(linksGraphics, curvature_1, curvature_2, params.general.w_init, theme);
+    const links = pixiTarget(ctx.graphics.links as Graphics, ctx);
+    const cells = pixiTarget(ctx.graphics.cells as Graphics, ctx);
 
-    // Draw links (behind cells)
-    drawBasalLinks(linksGraphics, state, theme);
-    drawApicalLinks(linksGraphics, state, theme);
+    // Basal membrane and links (behind cells)
+    drawBasalCurve(links, state, params, theme);
+    drawBasalLinks(links, state, theme);
+    drawApicalLinks(links, state, theme);
 
-    // Draw cells
-    drawCells(cellsGraphics, state, params, theme);
+    drawCells(cells, state, params, theme);
 
-    // Draw cell IDs if enabled
     if (ctx.renderOptions?.showCellIds) {
-      drawCellIds(ctx, state);
+      drawCellIds(cells, state, ctx.isDark);
     }
   },
 
   getBackgroundColor(isDark: boolean): number {
     return isDark ? 0x111827 : 0xffffff;
   },
+
+  renderScene(ctx: SceneRenderContext, state: EHTSimulationState, params: EHTParams): void {
+    const theme = ctx.isDark ? DARK_THEME : LIGHT_THEME;
+    const target = sceneTarget(ctx.scene);
+
+    drawBasalCurve(target, state, params, theme);
+    drawBasalLinks(target, state, theme);
+    drawApicalLinks(target, state, theme);
+    drawCells(target, state, params, theme);
+
+    if (ctx.renderOptions.showCellIds) {
+      drawCellIds(target, state, ctx.isDark);
+    }
+  },
 };
@@ -16,6 +16,32 @@ export interface CreateCellInput {
   nucleusPosition: Vector2;
 }
 
+/** EMT event times of a cell */
+type CellEventTimes = Pick<CellState, 'time_A' | 'time_B' | 'time_S' | 'time_P' | 'time_AC'>;
+
+/**
+ * Sample the EMT event times of a cell from its cell type.
+ */
+function sampleEventTimes(cellType: EHTCellTypeParams, rng: SeededRandom): CellEventTimes {
+  let time_A = rng.random(cellType.events.time_A_start, cellType.events.time_A_end);
+  let time_B = rng.random(cellType.events.time_B_start, cellType.events.time_B_end);
+  let time_S = rng.random(cellType.events.time_S_start, cellType.events.time_S_end);
+  let time_AC = rng.random(cellType.events.time_AC_start, cellType.events.time_AC_end);
+  const time_P = rng.random() <= cellType.run
+    ? time_B
+    : Infinity;
+
+  // Heterogeneous EMT behavior
+  if (cellType.hetero) {
+    if (rng.random() > 0.7) time_A = Infinity;
+    if (rng.random() > 0.7) time_B = Infinity;
+    if (rng.random() > 0.7) time_S = Infinity;
+    if (rng.random() > 0.7) time_AC = Infinity;
+  }
+
+  return { time_A, time_B, time_S, time_P, time_AC };
+}
+
 /**
  * Create a new EHT cell state.
  *
@@ -25,7 +51,9 @@ export interface CreateCellInput {
  * @param input - Pre-computed positions (basal, apical, nucleus)
  * @param cellType - Cell type parameters
  * @param typeKey - Key in cell_types map (used as typeIndex)
- * @param parent - Parent cell (for cell division)
+ * @param parent - Parent cell (for cell division). A daughter whose type
+ *   differs from the parent's takes the EMT program, running mode and
+ *   stiffnesses of its new type.
  * @returns New cell state
  */
 export function createCell(
@@ -43,35 +71,22 @@ export function createCell(
   // Determine lifespan
   const maxAge = rng.random(cellType.lifespan_start, cellType.lifespan_end);
 
-  // Generate unique ID
-  const id = state.cells.length > 0
-    ? Math.max(...state.cells.map(c => c.id)) + 1
-    : 0;
+  // Generate unique ID (never reusing the ID of a removed cell)
+  const id = Math.max(state.next_cell_id, ...state.cells.map(c => c.id + 1));
 
   if (parent === undefined) {
     // New cell (not from division)
     const birthTime = state.t - rng.random(0, maxAge);
 
     // Sample EMT event times
-    let time_A = rng.random(cellType.events.time_A_start, cellType.events.time_A_end);
-    let time_B = rng.random(cellType.events.time_B_start, cellType.events.time_B_end);
-    let time_S = rng.random(cellType.events.time_S_start, cellType.events.time_S_end);
-    let time_AC = rng.random(cellType.events.time_AC_start, cellType.events.time_AC_end);
-    const time_P = rng.random() <= cellType.run
-      ? time_B
-      : Infinity;
-
-    // Heterogeneous EMT behavior
-    if (cellType.hetero) {
-      if (rng.random() > 0.7) time_A = Infinity;
-      if (rng.random() > 0.7) time_B = Infinity;
-      if (rng.random() > 0.7) time_S = Infinity;
-      if (rng.random() > 0.7) time_AC = Infinity;
-    }
+    const times = sampleEventTimes(cellType, rng);
 
     return {
       id,
       typeIndex: typeKey,
+      parent_id: null,
+      generation: 0,
+      birth_event: 'initial',
       pos: nucleusPosition.toObject(),
       A: apicalPoint.toObject(),
       B: basalPoint.toObject(),
@@ -81,27 +96,60 @@ export function createCell(
       eta_B: h / 2,
       has_A: true,
       has_B: true,
+      extruded: false,
       phase: CellPhase.G1,
       birth_time: birthTime,
       division_time: birthTime + maxAge,
       is_running: false,
       running_mode: cellType.running_mode,
       has_inm: rng.random() <= cellType.INM,
-      time_A,
-      time_B,
-      time_S,
-      time_P,
-      time_AC,
+      ...times,
       stiffness_apical_apical: cellType.stiffness_apical_apical,
       stiffness_straightness: cellType.stiffness_straightness,
       stiffness_nuclei_apical: cellType.stiffness_nuclei_apical,
       stiffness_nuclei_basal: cellType.stiffness_nuclei_basal,
     };
+  } else if (typeKey !== parent.typeIndex) {
+    // Daughter that switched type - inherit state, start the new type's program
+    const times = sampleEventTimes(cellType, rng);
+
+    return {
+      id,
+      typeIndex: typeKey,
+      parent_id: parent.id,
+      generation: parent.generation + 1,
+      birth_event: 'division',
+      pos: nucleusPosition.toObject(),
+      A: apicalPoint.toObject(),
+      B: basalPoint.toObject(),
+      R_soft: cellType.R_soft,
+      R_hard: cellType.R_hard,
+      eta_A: parent.eta_A,
+      eta_B: parent.eta_B,
+      has_A: parent.has_A,
+      has_B: parent.has_B,
+      extruded: parent.extruded,
+      phase: CellPhase.G1,
+      birth_time: state.t,
+      division_time: state.t + maxAge,
+      is_running: parent.is_running,
+      running_mode: cellType.running_mode,
+      has_inm: rng.random() <= cellType.INM,
+      ...times,
+      stiffness_apical_apical: cellType.stiffness_apical_apical,
+      stiffness_straightness: cellType.stiffness_straightness,
+      // Lost adhesion weakens the nucleus springs (as in the EMT events)
+      stiffness_nuclei_apical: cellType.stiffness_nuclei_apical * (parent.has_A ? 1 : 0.1),
+      stiffness_nuclei_basal: cellType.stiffness_nuclei_basal * (parent.has_B ? 1 : 0.1),
+    };
   } else {
     // Cell from division - inherit properties from parent
     return {
       id,
       typeIndex: typeKey,
+      parent_id: parent.id,
+      generation: parent.generation + 1,
+      birth_event: 'division',
       pos: nucleusPosition.toObject(),
       A: apicalPoint.toObject(),
       B: basalPoint.toObject(),
@@ -111,6 +159,7 @@ export function createCell(
       eta_B: parent.eta_B,
       has_A: parent.has_A,
       has_B: parent.has_B,
+      extruded: parent.extruded,
       phase: CellPhase.G1,
       birth_time: state.t,
       division_time: state.t + maxAge,
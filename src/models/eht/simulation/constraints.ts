@@ -4,41 +4,80 @@
  */
 
 import { Vector2 } from '@/core/math/vector2';
-import type { EHTSimulationState } from '../types';
+import type { EHTSimulationState, CellState } from '../types';
 import type { EHTParams } from '../params/types';
 import { getCellType } from './cell';
+import { type CellNeighborList, hasLeftSkin, rebuildCellNeighborList, refreshCellNeighborList } from './neighbors';
+import { membraneLoad } from './membrane';
+
+/**
+ * Resolve the hard sphere overlap between cells i and j, if any.
+ * Returns true if the nuclei were moved.
+ */
+function projectHardSpherePair(ci: CellState, cj: CellState): boolean {
+  const Rij = ci.R_hard + cj.R_hard;
+  const ciPos = Vector2.from(ci.pos);
+  const cjPos = Vector2.from(cj.pos);
+
+  const d = ciPos.dist(cjPos) - Rij;
+
+  if (d < 0.0 && d !== -Rij) {
+    const xixj = ciPos.sub(cjPos);
+    const correction = xixj.scale(0.5 * d / (d + Rij));
+
+    ci.pos.x -= correction.x;
+    ci.pos.y -= correction.y;
+    cj.pos.x += correction.x;
+    cj.pos.y += correction.y;
+    return true;
+  }
+  return false;
+}
 
 /**
  * Project hard sphere collision constraints.
  * Prevents cell nuclei from overlapping beyond hard radius.
+ *
+ * With a neighbor list, only candidate pairs are visited. If a correction
+ * pushes a nucleus out of the list's skin, the list is rebuilt and the sweep
+ * continues where it left off, so the result matches the all-pairs loop.
  */
 export function projectHardSphereConstraints(
   state: EHTSimulationState,
-  _params: EHTParams
+  _params: EHTParams,
+  neighbors?: CellNeighborList
 ): void {
   const cells = state.cells;
   const n = cells.length;
 
+  if (neighbors) {
+    refreshCellNeighborList(state, neighbors);
+  }
+
   for (let i = 0; i < n; i++) {
     const ci = cells[i];
 
-    for (let j = 0; j < i; j++) {
-      const cj = cells[j];
-
-      const Rij = ci.R_hard + cj.R_hard;
-      const ciPos = Vector2.from(ci.pos);
-      const cjPos = Vector2.from(cj.pos);
-
-      const d = ciPos.dist(cjPos) - Rij;
+    if (!neighbors) {
+      for (let j = 0; j < i; j++) {
+        projectHardSpherePair(ci, cells[j]);
+      }
+      continue;
+    }
 
-      if (d < 0.0 && d !== -Rij) {
-        const xixj = ciPos.sub(cjPos);
-        const correction = xixj.scale(0.5 * d / (d + Rij));
+    let candidates = neighbors.lower[i];
+    for (let k = 0; k < candidates.length; k++) {
+      const j = candidates[k];
+      const cj = cells[j];
 
-        ci.pos.x -= correction.x;
-        ci.pos.y -= correction.y;
-        cj.pos.x += correction.x;
-        cj.pos.y += correction.y;
+      if (
+        projectHardSpherePair(ci, cj) &&
+        (hasLeftSkin(neighbors, ci, i) || hasLeftSkin(neighbors, cj, j))
+      ) {
+        // Continue with the remaining lower neighbors of i after j
+        rebuildCellNeighborList(state, neighbors);
+        candidates = neighbors.lower[i];
+        k = candidates.findIndex(c => c > j) - 1;
+        if (k < -1) break;
       }
     }
   }
@@ -146,12 +185,16 @@ export function projectMaxBasalDistanceConstraints(
 /**
  * Project basal points onto the basal curve.
  * Only applies to cells that still have basal adhesion.
+ * Returns the total outward displacement of the projected points (the load
+ * on a mechanical membrane), or 0 if the membrane does not respond to cells.
  */
 export function projectBasalCurveConstraints(
   state: EHTSimulationState,
-  _params: EHTParams
-): void {
+  params: EHTParams
+): number {
   const cells = state.cells;
+  const mechanical = state.membrane !== undefined && params.general.membrane_mobility > 0;
+  let load = 0;
 
   for (const cell of cells) {
     // Skip cells that have lost basal adhesion
@@ -159,20 +202,27 @@ export function projectBasalCurveConstraints(
 
     const B = Vector2.from(cell.B);
     const projected = state.basalGeometry.projectPoint(B);
+    if (mechanical) {
+      load += membraneLoad(state, B, projected);
+    }
     cell.B.x = projected.x;
     cell.B.y = projected.y;
   }
+
+  return load;
 }
 
 /**
  * Apply all EHT constraints in sequence.
+ * Returns the load on the basal membrane (see projectBasalCurveConstraints).
  */
 export function applyAllConstraints(
   state: EHTSimulationState,
-  params: EHTParams
-): void {
-  projectHardSphereConstraints(state, params);
+  params: EHTParams,
+  neighbors?: CellNeighborList
+): number {
+  projectHardSphereConstraints(state, params, neighbors);
   projectBasalOrderingConstraints(state, params);
   projectMaxBasalDistanceConstraints(state, params);
-  projectBasalCurveConstraints(state, params);
+  return projectBasalCurveConstraints(state, params);
 }
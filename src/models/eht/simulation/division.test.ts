@@ -0,0 +1,142 @@
+/**
+ * Tests for EHT division modes, division angles and daughter type switching.
+ */
+import { describe, it, expect } from 'vitest';
+import { EHTModel } from '../index';
+import { createDefaultEHTParams } from '../params/defaults';
+import { ehtParamsSchema } from '../params/schema';
+import type { EHTParams } from '../params/types';
+import { CellPhase, type EHTSimulationState } from '../types';
+import { processCellDivisions } from './division';
+import { SimulationEngine } from '@/core/simulation/engine';
+import { parseSimulationConfigToml } from '@/core/params/toml';
+import { SeededRandom } from '@/core/math/random';
+import { Vector2 } from '@/core/math/vector2';
+
+function createTestParams(): EHTParams {
+  const params = createDefaultEHTParams();
+  params.general.n_substeps = 5;
+  params.general.p_div_out = 0;
+  params.cell_types.control.N_init = 10;
+  params.cell_types.control.lifespan_start = 0.5;
+  params.cell_types.control.lifespan_end = 1.0;
+  params.cell_types.emt.N_init = 2;
+  return params;
+}
+
+function run(params: EHTParams, steps: number): EHTSimulationState {
+  const engine = new SimulationEngine({ model: EHTModel, params });
+  for (let i = 0; i < steps; i++) engine.step();
+  return engine.getState();
+}
+
+/** Divide the first cell and return the vector and unit vector between the daughters' nuclei */
+function divideFirstCell(params: EHTParams): { separation: Vector2; axis: Vector2; normal: Vector2 } {
+  const state = new SimulationEngine({ model: EHTModel, params }).getState();
+  const B = Vector2.from(state.cells[0].B);
+  const normal = state.basalGeometry.getNormal(state.basalGeometry.projectPoint(B));
+  state.cells[0].phase = CellPhase.Division;
+  processCellDivisions(state, params, new SeededRandom('division'));
+
+  const cell1 = state.cells[0];
+  const cell2 = state.cells[state.cells.length - 1];
+  const separation = Vector2.from(cell2.pos).sub(Vector2.from(cell1.pos));
+  return { separation, axis: separation.normalize(), normal };
+}
+
+describe('EHT division', () => {
+  it('should only reset the cycle of cell types with division mode none', () => {
+    const params = createTestParams();
+    params.cell_types.control.division_mode = 'none';
+    const initial = new SimulationEngine({ model: EHTModel, params }).getState().cells.length;
+
+    const state = run(params, 15);
+    expect(state.cells).toHaveLength(initial);
+    expect(state.events.some((e) => e.type === 'division')).toBe(false);
+  });
+
+  it('should orient the division plane relative to the basal normal', () => {
+    const params = createTestParams();
+    const sideBySide = divideFirstCell(params);
+    expect(Math.abs(sideBySide.axis.dot(sideBySide.normal))).toBeCloseTo(0, 6);
+
+    params.cell_types.control.division_angle_mean = 90;
+    const stacked = divideFirstCell(params);
+    expect(Math.abs(stacked.axis.dot(stacked.normal))).toBeCloseTo(1, 6);
+  });
+
+  it('should separate the daughters by the division offset', () => {
+    const params = createTestParams();
+    const R = params.cell_types.control.R_soft;
+    expect(divideFirstCell(params).separation.mag()).toBeCloseTo(2 * 0.005 * R, 6);
+
+    params.cell_types.control.division_offset = 0.5;
+    const sideBySide = divideFirstCell(params);
+    params.cell_types.control.division_angle_mean = 90;
+    const stacked = divideFirstCell(params);
+    expect(sideBySide.separation.mag()).toBeCloseTo(R, 6);
+    expect(stacked.separation.mag()).toBeCloseTo(R, 6);
+    // Turning the plane by 90° moves the second daughter by √2 · R relative to the first
+    expect(stacked.separation.sub(sideBySide.separation).mag()).toBeCloseTo(Math.SQRT2 * R, 6);
+  });
+
+  it('should switch daughter types with the type-switch probabilities', () => {
+    const params = createTestParams();
+    params.cell_types.control.type_switch = { emt: 1 };
+
+    const state = run(params, 15);
+    const divisions = state.lineage.filter((e) => e.type === 'division');
+    expect(divisions.length).toBeGreaterThan(0);
+    for (const e of divisions) {
+      const daughter = state.cells.find((c) => c.id === e.daughter_id)!;
+      expect(daughter.typeIndex).toBe('emt');
+    }
+  });
+
+  it('should make the second daughter lose apical adhesion in asymmetric mode', () => {
+    const params = createTestParams();
+    params.cell_types.control.division_mode = 'asymmetric';
+
+    const state = run(params, 15);
+    const hasApical = new Map(state.cells.map((c) => [c.id, c.has_A]));
+
+    // Divisions of cells that kept apical adhesion (daughters of daughters start without it)
+    const divisions = state.lineage.filter((e) => e.type === 'division' && hasApical.get(e.cell_id));
+    expect(divisions.length).toBeGreaterThan(0);
+    for (const e of divisions) {
+      expect(hasApical.get(e.daughter_id!)).toBe(false);
+      expect(state.events).toContainEqual(
+        expect.objectContaining({ type: 'lose_apical', cell_id: e.daughter_id, t: e.t })
+      );
+    }
+  });
+
+  it('should reject switches to unknown cell types', () => {
+    const params = createTestParams();
+    params.cell_types.control.type_switch = { missing: 0.5 };
+    expect(ehtParamsSchema.safeParse(params).success).toBe(false);
+
+    params.cell_types.control.type_switch = { emt: 0.7, control: 0.5 };
+    expect(ehtParamsSchema.safeParse(params).success).toBe(false);
+  });
+
+  it('should keep emt cells from dividing in configs older than division modes', () => {
+    const emt = `
+[cell_types.control]
+N_init = 10
+
+[cell_types.emt]
+N_init = 2
+`;
+    const legacy = parseSimulationConfigToml(`[metadata]\nmodel = "EHT"\nversion = "1.0.0"\n${emt}`).params;
+    expect(legacy.cell_types.emt.division_mode).toBe('none');
+    expect(legacy.cell_types.control.division_mode).toBe('symmetric');
+    expect(parseSimulationConfigToml(emt).params.cell_types.emt.division_mode).toBe('none');
+
+    // Configs of the current version and explicit modes are left alone
+    const current = parseSimulationConfigToml(`[metadata]\nmodel = "EHT"\nversion = "1.1.0"\n${emt}`).params;
+    expect(current.cell_types.emt.division_mode).toBe('symmetric');
+    const explicit = parseSimulationConfigToml(`${emt}division_mode = "asymmetric"\n`).params;
+    expect(explicit.cell_types.emt.division_mode).toBe('asymmetric');
+  });
+});
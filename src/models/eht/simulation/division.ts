@@ -5,14 +5,62 @@
 
 import { Vector2 } from '@/core/math/vector2';
 import { SeededRandom } from '@/core/math/random';
-import type { EHTSimulationState } from '../types';
+import type { EHTSimulationState, CellState } from '../types';
 import { CellPhase } from '../types';
-import type { EHTParams } from '../params/types';
+import type { EHTParams, EHTCellTypeParams } from '../params/types';
 import { createCell, getCellType, type CreateCellInput } from './cell';
+import { recordLineageEvent } from '../lineage';
+import { recordEvent, processLoseApicalAdhesion } from './events';
+
+/**
+ * Give a reset or first-daughter cell the identity of the cell it replaces.
+ * The generation is kept only when no division took place.
+ */
+function keepIdentity(newCell: CellState, cell: CellState, divided: boolean): void {
+  newCell.id = cell.id;
+  newCell.parent_id = cell.parent_id;
+  newCell.birth_event = cell.birth_event;
+  if (!divided) newCell.generation = cell.generation;
+}
+
+/**
+ * Pick the type of a daughter from the mother's type-switch row: switch to
+ * another type with the given probabilities, otherwise keep the mother's.
+ * A random number is only drawn when the row has a positive entry.
+ */
+function sampleDaughterType(cellType: EHTCellTypeParams, typeKey: string, rng: SeededRandom): string {
+  const row = Object.entries(cellType.type_switch ?? {}).filter(([, p]) => p > 0);
+  if (row.length === 0) return typeKey;
+
+  let u = rng.random();
+  for (const [target, p] of row) {
+    if (u < p) return target;
+    u -= p;
+  }
+  return typeKey;
+}
+
+/**
+ * Sample the division plane angle relative to the basal normal (radians).
+ * A random number is only drawn when the angle has a spread.
+ */
+function sampleDivisionAngle(cellType: EHTCellTypeParams, rng: SeededRandom): number {
+  const mean = cellType.division_angle_mean ?? 0;
+  const sd = cellType.division_angle_sd ?? 0;
+  const degrees = sd > 0 ? rng.randomGaussian(mean, sd) : mean;
+  return (degrees * Math.PI) / 180;
+}
 
 /**
  * Process cell divisions for all cells in Division phase.
  * Returns the number of divisions that occurred.
+ *
+ * Cell types with division mode 'none' only reset their cycle. Otherwise
+ * each daughter may switch type (type_switch), the daughters' nuclei are
+ * moved apart by division_offset * R_soft each across a division plane at a
+ * sampled angle to the basal normal, and in 'asymmetric' mode the second
+ * daughter loses apical adhesion. With the small default offset the angle
+ * mostly seeds the direction in which the forces push the daughters apart.
  */
 export function processCellDivisions(
   state: EHTSimulationState,
@@ -36,8 +84,8 @@ export function processCellDivisions(
       nucleusPosition: Vector2.from(cell.pos),
     };
 
-    if (cell.typeIndex === 'emt') {
-      // EMT cells just reset their cycle (no actual division)
+    if (cellType.division_mode === 'none') {
+      // Reset the cycle (no actual division)
       const newCell = createCell(
         params,
         state,
@@ -48,55 +96,73 @@ export function processCellDivisions(
         cell
       );
       // Preserve the cell's ID
-      newCell.id = cell.id;
+      keepIdentity(newCell, cell, false);
       state.cells[i] = newCell;
     } else {
-      // Control cells can divide
       const shouldDivideOut = rng.random() < params.general.p_div_out;
+      recordEvent(state, 'division', cell);
 
       if (shouldDivideOut) {
         // One offspring - just reset the cell
+        const type = sampleDaughterType(cellType, cell.typeIndex, rng);
         const newCell = createCell(
           params,
           state,
           rng,
           cellInput,
-          cellType,
-          cell.typeIndex,
+          params.cell_types[type],
+          type,
           cell
         );
-        newCell.id = cell.id;
+        keepIdentity(newCell, cell, true);
         state.cells[i] = newCell;
+        recordLineageEvent(state, {
+          t: state.t,
+          type: 'division',
+          cell_id: cell.id,
+          cell_type: cell.typeIndex,
+          generation: newCell.generation,
+        });
       } else {
         // Two offspring - create a new cell
         divisionCount++;
 
         // Reset the original cell
+        const type1 = sampleDaughterType(cellType, cell.typeIndex, rng);
         const cell1 = createCell(
           params,
           state,
           rng,
           cellInput,
-          cellType,
-          cell.typeIndex,
+          params.cell_types[type1],
+          type1,
           cell
         );
-        cell1.id = cell.id;
+        keepIdentity(cell1, cell, true);
         state.cells[i] = cell1;
 
-        // Create the second cell
+        // Create the second cell (a new ID whose parent is the original cell)
+        const type2 = sampleDaughterType(cellType, cell.typeIndex, rng);
         const cell2 = createCell(
           params,
           state,
           rng,
           cellInput,
-          cellType,
-          cell.typeIndex,
-          cell1
+          params.cell_types[type2],
+          type2,
+          cell
         );
+        recordLineageEvent(state, {
+          t: state.t,
+          type: 'division',
+          cell_id: cell.id,
+          cell_type: cell.typeIndex,
+          daughter_id: cell2.id,
+          generation: cell2.generation,
+        });
 
-        // Offset positions slightly along tangent direction
-        const offset = 0.005 * cell1.R_soft;
+        // Separate the daughters by the division offset (a fraction of R_soft)
+        const offset = (cellType.division_offset ?? 0.005) * cell1.R_soft;
 
         // Get basal point and project onto curve to get normal
         const B = Vector2.from(cell1.B);
@@ -106,11 +172,16 @@ export function processCellDivisions(
         // Rotate normal 90° clockwise to get tangent: (nx, ny) -> (ny, -nx)
         const T = new Vector2(N.y, -N.x);
 
-        // Offset along tangent direction
-        cell1.pos.x -= offset * T.x;
-        cell1.pos.y -= offset * T.y;
-        cell2.pos.x += offset * T.x;
-        cell2.pos.y += offset * T.y;
+        // Nuclei separate across the division plane: along the tangent for
+        // a plane containing the normal, tilted towards the normal otherwise
+        const angle = sampleDivisionAngle(cellType, rng);
+        const axis = T.mult(Math.cos(angle)).add(N.mult(Math.sin(angle)));
+        cell1.pos.x -= offset * axis.x;
+        cell1.pos.y -= offset * axis.y;
+        cell2.pos.x += offset * axis.x;
+        cell2.pos.y += offset * axis.y;
+
+        // Apical and basal points stay on their surfaces (offset along tangent)
 
         cell1.A.x -= offset * T.x;
         cell1.A.y -= offset * T.y;
@@ -131,6 +202,10 @@ export function processCellDivisions(
 
         // Update basal links
         updateBasalLinksAfterDivision(state, params, i, newCellIndex);
+
+        if (cellType.division_mode === 'asymmetric' && cell2.has_A) {
+          processLoseApicalAdhesion(state, newCellIndex);
+        }
       }
     }
   }
@@ -155,7 +230,7 @@ function updateApicalLinksAfterDivision(
     }
   }
 
-  // Use the cell type's apical junction init (both cells are same type after division)
+  // Use the first daughter's apical junction init
   const cellType = getCellType(params, state.cells[originalIndex]);
 
   // Add new link between original and new cell
@@ -0,0 +1,83 @@
+/**
+ * Tests for the EHT event log and SimulationEngine event callbacks.
+ */
+import { describe, it, expect } from 'vitest';
+import { EHTModel } from '../index';
+import { createDefaultEHTParams } from '../params/defaults';
+import type { EHTParams } from '../params/types';
+import type { EHTSimulationState } from '../types';
+import type { SimulationEvent } from '@/core/interfaces/model';
+import { SimulationEngine } from '@/core/simulation/engine';
+
+/**
+ * Small parameter set with adhesion loss and divisions in the first hours.
+ */
+function createTestParams(): EHTParams {
+  const params = createDefaultEHTParams();
+  params.general.n_substeps = 5;
+  params.general.p_div_out = 0;
+  params.cell_types.control.N_init = 10;
+  params.cell_types.control.lifespan_start = 0.5;
+  params.cell_types.control.lifespan_end = 1.0;
+  params.cell_types.emt.events.time_A_start = 0.2;
+  params.cell_types.emt.events.time_A_end = 0.6;
+  params.cell_types.emt.events.time_B_start = 0.3;
+  params.cell_types.emt.events.time_B_end = 0.8;
+  return params;
+}
+
+function runSteps(engine: SimulationEngine<EHTParams, EHTSimulationState>, n: number): void {
+  for (let i = 0; i < n; i++) engine.step();
+}
+
+describe('EHT event log', () => {
+  it('should record adhesion loss and divisions with time, cell and position', () => {
+    const engine = new SimulationEngine({ model: EHTModel, params: createTestParams() });
+    runSteps(engine, 10);
+
+    const events = engine.getState().events;
+    const types = new Set(events.map((e) => e.type));
+    expect(types).toContain('lose_apical');
+    expect(types).toContain('lose_basal');
+    expect(types).toContain('division');
+
+    for (let i = 1; i < events.length; i++) {
+      expect(events[i].t).toBeGreaterThanOrEqual(events[i - 1].t);
+    }
+    for (const e of events) {
+      expect(Number.isFinite(e.x) && Number.isFinite(e.y)).toBe(true);
+    }
+  });
+
+  it('should pass each new event to the engine callback once', () => {
+    const received: SimulationEvent[] = [];
+    const engine = new SimulationEngine({
+      model: EHTModel,
+      params: createTestParams(),
+      onEvent: (event) => received.push(event),
+    });
+    runSteps(engine, 10);
+
+    expect(received.length).toBeGreaterThan(0);
+    expect(received).toEqual(engine.getEvents());
+  });
+
+  it('should not repeat events from before a restored checkpoint', () => {
+    const first = new SimulationEngine({ model: EHTModel, params: createTestParams() });
+    runSteps(first, 10);
+    const checkpoint = first.saveCheckpoint();
+
+    const received: SimulationEvent[] = [];
+    const resumed = new SimulationEngine({
+      model: EHTModel,
+      params: createTestParams(),
+      onEvent: (event) => received.push(event),
+    });
+    resumed.restoreCheckpoint(checkpoint);
+    runSteps(resumed, 10);
+
+    const before = checkpoint.state as { events: SimulationEvent[] };
+    expect(resumed.getEvents().slice(0, before.events.length)).toEqual(before.events);
+    expect(received).toEqual(resumed.getEvents().slice(before.events.length));
+  });
+});
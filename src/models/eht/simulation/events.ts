@@ -4,21 +4,29 @@
  */
 
 import { Vector2 } from '@/core/math/vector2';
-import type { EHTSimulationState, ApicalLink, BasalLink, CellState } from '../types';
+import type { EHTSimulationState, ApicalLink, BasalLink, CellState, EMTEventKind, EHTEventType } from '../types';
 import type { EHTParams } from '../params/types';
+import { recordLineageEvent } from '../lineage';
 
 /**
- * Process apical adhesion loss event.
- * Removes apical links and reduces stiffness.
+ * Append an event for a cell to the event log, at the current step time.
  */
-export function processLoseApicalAdhesion(
+export function recordEvent(
   state: EHTSimulationState,
-  cellIndex: number
+  type: EHTEventType,
+  cell: CellState
 ): void {
-  const cell = state.cells[cellIndex];
-  cell.has_A = false;
-  cell.stiffness_nuclei_apical *= 0.1;
+  state.events.push({ t: state.t, type, cell_id: cell.id, x: cell.pos.x, y: cell.pos.y });
+}
 
+/**
+ * Remove the apical links of a cell and connect its left and right
+ * neighbors to each other (rest length = their current distance).
+ */
+export function detachApicalLinks(
+  state: EHTSimulationState,
+  cellIndex: number
+): void {
   // Find and remove apical links involving this cell
   const inds: number[] = [];
   let newCon: ApicalLink = { l: 0, r: 0, rl: 0.0 };
@@ -55,17 +63,29 @@ export function processLoseApicalAdhesion(
 }
 
 /**
- * Process basal adhesion loss event.
- * Removes basal links.
+ * Process apical adhesion loss event.
+ * Removes apical links and reduces stiffness.
  */
-export function processLoseBasalAdhesion(
+export function processLoseApicalAdhesion(
   state: EHTSimulationState,
   cellIndex: number
 ): void {
   const cell = state.cells[cellIndex];
-  cell.has_B = false;
-  cell.stiffness_nuclei_basal *= 0.1;
+  cell.has_A = false;
+  cell.stiffness_nuclei_apical *= 0.1;
+  recordEvent(state, 'lose_apical', cell);
+
+  detachApicalLinks(state, cellIndex);
+}
 
+/**
+ * Remove the basal links of a cell and connect its left and right
+ * neighbors to each other.
+ */
+export function detachBasalLinks(
+  state: EHTSimulationState,
+  cellIndex: number
+): void {
   // Find and remove basal links involving this cell
   const inds: number[] = [];
   let newCon: BasalLink = { l: 0, r: 0 };
@@ -92,6 +112,22 @@ export function processLoseBasalAdhesion(
   }
 }
 
+/**
+ * Process basal adhesion loss event.
+ * Removes basal links.
+ */
+export function processLoseBasalAdhesion(
+  state: EHTSimulationState,
+  cellIndex: number
+): void {
+  const cell = state.cells[cellIndex];
+  cell.has_B = false;
+  cell.stiffness_nuclei_basal *= 0.1;
+  recordEvent(state, 'lose_basal', cell);
+
+  detachBasalLinks(state, cellIndex);
+}
+
 /**
  * Process straightness loss event.
  */
@@ -101,6 +137,7 @@ export function processLoseStraightness(
 ): void {
   const cell = state.cells[cellIndex];
   cell.stiffness_straightness = 1.0;
+  recordEvent(state, 'lose_straightness', cell);
 }
 
 /**
@@ -112,6 +149,7 @@ export function processStartRunning(
 ): void {
   const cell = state.cells[cellIndex];
   cell.running_mode = 3;
+  recordEvent(state, 'start_running', cell);
 }
 
 /**
@@ -135,6 +173,12 @@ export function processApicalConstriction(
   const constrictionCell = state.cells[cellIndex];
   const constrictingType = constrictionCell.typeIndex;
 
+  for (const cell of state.cells) {
+    if (cell.typeIndex === constrictingType) {
+      recordEvent(state, 'apical_constriction', cell);
+    }
+  }
+
   // Step 1: Identify and remove all links between constricting type and other types
   const linksToRemove: number[] = [];
 
@@ -217,6 +261,22 @@ export function processApicalConstriction(
   state.ap_links.push(...newLinks);
 }
 
+/**
+ * Signed distance of a cell's basal point from the basal curve
+ * (negative on the side opposite to the normal).
+ */
+export function basalSignedDistance(cell: CellState, state: EHTSimulationState): number {
+  // Project cell.B onto basal curve
+  const B = Vector2.from(cell.B);
+  const projB = state.basalGeometry.projectPoint(B);
+
+  // Get normal at projected point (points away from curve)
+  const normal = state.basalGeometry.getNormal(projB);
+
+  // Compute signed distance in normal direction: (B - projB) · normal
+  return B.sub(projB).dot(normal);
+}
+
 /**
  * Update running state for a cell.
  * Checks that the basal point is at distance > 2 in the opposite normal direction.
@@ -230,16 +290,7 @@ export function updateRunningState(
     return;
   }
 
-  // Project cell.B onto basal curve
-  const B = Vector2.from(cell.B);
-  const projB = state.basalGeometry.projectPoint(B);
-
-  // Get normal at projected point (points away from curve)
-  const normal = state.basalGeometry.getNormal(projB);
-
-  // Compute signed distance in normal direction: (B - projB) · normal
-  const displacement = B.sub(projB);
-  const signedDistance = displacement.dot(normal);
+  const signedDistance = basalSignedDistance(cell, state);
 
   // Check if distance in opposite normal direction is > 2 (i.e., signedDistance < -2)
   const isFarEnough = signedDistance < -2.0;
@@ -251,6 +302,23 @@ export function updateRunningState(
   cell.is_running = isFarEnough && modeCheck;
 }
 
+/**
+ * Log an extrusion the first time a cell without basal adhesion has its
+ * basal point more than 2 units beyond the basal curve (the same distance
+ * that allows running).
+ */
+export function updateExtrusionState(
+  cell: CellState,
+  state: EHTSimulationState
+): void {
+  if (cell.extruded || cell.has_B) return;
+
+  if (basalSignedDistance(cell, state) < -2.0) {
+    cell.extruded = true;
+    recordLineageEvent(state, { t: state.t, type: 'extrusion', cell_id: cell.id, cell_type: cell.typeIndex });
+  }
+}
+
 /**
  * Process all EMT events for the current timestep.
  */
@@ -264,28 +332,35 @@ export function processEMTEvents(
   // Track which cell types have triggered apical constriction
   const constrictedTypes = new Set<string>();
 
+  const logEMT = (cell: CellState, emt_event: EMTEventKind, time: number) => {
+    recordLineageEvent(state, { t: time, type: 'emt', cell_id: cell.id, cell_type: cell.typeIndex, emt_event });
+  };
+
   for (let i = 0; i < state.cells.length; i++) {
     const cell = state.cells[i];
 
-    // Lose apical adhesion
-    if (t <= cell.time_A && t + dt > cell.time_A) {
+    // Lose apical adhesion (unless already lost, e.g. at an asymmetric division)
+    if (cell.has_A && t <= cell.time_A && t + dt > cell.time_A) {
       processLoseApicalAdhesion(state, i);
+      logEMT(cell, 'A', cell.time_A);
     }
 
     // Lose basal adhesion
-    if (t <= cell.time_B && t + dt > cell.time_B) {
-      console.log("Event B")
+    if (cell.has_B && t <= cell.time_B && t + dt > cell.time_B) {
       processLoseBasalAdhesion(state, i);
+      logEMT(cell, 'B', cell.time_B);
     }
 
     // Lose straightness
     if (t <= cell.time_S && t + dt > cell.time_S) {
       processLoseStraightness(state, i);
+      logEMT(cell, 'S', cell.time_S);
     }
 
     // Apical constriction - collect types that trigger
     if (t <= cell.time_AC && t + dt > cell.time_AC) {
       constrictedTypes.add(cell.typeIndex);
+      logEMT(cell, 'AC', cell.time_AC);
     }
 
     // Start running
@@ -295,10 +370,12 @@ export function processEMTEvents(
 
     if (shouldStartRunning) {
       processStartRunning(state, i);
+      logEMT(cell, 'P', Math.max(cell.time_P, cell.time_B));
     }
 
     // Update running state
     updateRunningState(cell, state);
+    updateExtrusionState(cell, state);
   }
 
   // Process apical constriction once per cell type
@@ -306,7 +383,6 @@ export function processEMTEvents(
     // Find first cell of this type and process constriction for all cells of that type
     const cellIdx = state.cells.findIndex(c => c.typeIndex === typeIndex);
     if (cellIdx !== -1) {
-      console.log(`Event AC for type ${typeIndex}`);
       processApicalConstriction(state, cellIdx);
     }
   }
@@ -7,6 +7,7 @@ import { Vector2 } from '@/core/math/vector2';
 import type { EHTSimulationState } from '../types';
 import type { EHTParams } from '../params/types';
 import { getCellType } from './cell';
+import type { CellNeighborList } from './neighbors';
 
 /** Force accumulator for a cell */
 export interface CellForces {
@@ -24,40 +25,58 @@ export function zeroForces(): CellForces {
   };
 }
 
+/**
+ * Apply the soft repulsion between cells i and j (j < i).
+ */
+function addRepulsionForce(
+  state: EHTSimulationState,
+  params: EHTParams,
+  forces: CellForces[],
+  i: number,
+  j: number
+): void {
+  const ci = state.cells[i];
+  const cj = state.cells[j];
+  const ciType = getCellType(params, ci);
+  const cjType = getCellType(params, cj);
+
+  const xixj = Vector2.from(cj.pos).sub(Vector2.from(ci.pos));
+  const d = xixj.mag();
+  const Rij = ci.R_soft + cj.R_soft;
+  const sr = ciType.stiffness_repulsion + cjType.stiffness_repulsion;
+
+  if (d < Rij && d > Rij / 20) {
+    const forceMag = -sr * (Rij - d) / (d * Rij * Rij);
+    const force = xixj.scale(forceMag);
+
+    forces[i].f = forces[i].f.add(force);
+    forces[j].f = forces[j].f.sub(force);
+  }
+}
+
 /**
  * Calculate cell-cell repulsion forces.
  * Soft repulsion between overlapping cells.
+ *
+ * With a neighbor list, only candidate pairs are visited (in the same order
+ * as the all-pairs loop); without one, every pair is checked.
  */
 export function calcRepulsionForces(
   state: EHTSimulationState,
   params: EHTParams,
-  forces: CellForces[]
+  forces: CellForces[],
+  neighbors?: CellNeighborList
 ): void {
-  const cells = state.cells;
-  const n = cells.length;
+  const n = state.cells.length;
 
   for (let i = 0; i < n; i++) {
-    const ci = cells[i];
-    const ciType = getCellType(params, ci);
-    const ciPos = Vector2.from(ci.pos);
-
-    for (let j = 0; j < i; j++) {
-      const cj = cells[j];
-
-      const cjType = getCellType(params, cj);
-      const cjPos = Vector2.from(cj.pos);
-
-      const xixj = cjPos.sub(ciPos);
-      const d = xixj.mag();
-      const Rij = ci.R_soft + cj.R_soft;
-      const sr = ciType.stiffness_repulsion + cjType.stiffness_repulsion;
-
-      if (d < Rij && d > Rij / 20) {
-        const forceMag = -sr * (Rij - d) / (d * Rij * Rij);
-        const force = xixj.scale(forceMag);
-
-        forces[i].f = forces[i].f.add(force);
-        forces[j].f = forces[j].f.sub(force);
+    if (neighbors) {
+      for (const j of neighbors.lower[i]) {
+        addRepulsionForce(state, params, forces, i, j);
+      }
+    } else {
+      for (let j = 0; j < i; j++) {
+        addRepulsionForce(state, params, forces, i, j);
       }
     }
   }
@@ -206,11 +225,12 @@ export function calcApicalJunctionForces(
  */
 export function calcAllForces(
   state: EHTSimulationState,
-  params: EHTParams
+  params: EHTParams,
+  neighbors?: CellNeighborList
 ): CellForces[] {
   const forces: CellForces[] = state.cells.map(() => zeroForces());
 
-  calcRepulsionForces(state, params, forces);
+  calcRepulsionForces(state, params, forces, neighbors);
   calcApicalNucleiForces(state, params, forces);
   calcBasalNucleiForces(state, params, forces);
   calcStraightnessForces(state, params, forces);
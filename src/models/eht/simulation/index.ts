@@ -17,6 +17,15 @@ export {
   calcAllForces,
 } from './forces';
 
+// Neighbor search
+export {
+  type CellNeighborList,
+  buildCellNeighborList,
+  rebuildCellNeighborList,
+  refreshCellNeighborList,
+  hasLeftSkin,
+} from './neighbors';
+
 // Constraints
 export {
   projectHardSphereConstraints,
@@ -28,16 +37,27 @@ export {
 
 // Events
 export {
+  recordEvent,
+  detachApicalLinks,
+  detachBasalLinks,
+  basalSignedDistance,
   processLoseApicalAdhesion,
   processLoseBasalAdhesion,
   processLoseStraightness,
   processStartRunning,
   updateRunningState,
+  updateExtrusionState,
   processEMTEvents,
 } from './events';
 
 // Division
 export { processCellDivisions } from './division';
 
+// Cell death and removal
+export { type CellRemovalReason, removeCell, processCellRemoval } from './removal';
+
+// Time-dependent basal membrane
+export { isMembraneDynamic, initMembrane, membraneLoad, updateMembrane } from './membrane';
+
 // Initialization
 export { initializeEHTSimulation } from './init';
@@ -7,8 +7,9 @@ import { SeededRandom } from '@/core/math/random';
 import { createBasalGeometry } from '@/core/math';
 import type { EHTSimulationState } from '../types';
 import type { EHTParams } from '../params/types';
-import { computeEllipseFromPerimeter, ramanujanPerimeter } from '../params/geometry';
+import { computeEllipseFromPerimeter, createBasalCurveGeometry, ramanujanPerimeter } from '../params/geometry';
 import { createCell, type CreateCellInput } from './cell';
+import { initMembrane, isMembraneDynamic } from './membrane';
 
 /**
  * Initialize the EHT simulation with cells.
@@ -21,17 +22,25 @@ export function initializeEHTSimulation(
 ): void {
   const pg = params.general;
 
-  // Compute and store geometry from perimeter/aspect_ratio
-  const geometry = computeEllipseFromPerimeter(pg.perimeter, pg.aspect_ratio);
-  state.geometry = {
-    curvature_1: geometry.curvature_1,
-    curvature_2: geometry.curvature_2,
-  };
-
-  const { curvature_1, curvature_2 } = state.geometry;
-
-  // Create pre-computed basal geometry representation
-  state.basalGeometry = createBasalGeometry(curvature_1, curvature_2, 360);
+  // A custom basal curve replaces the ellipse from perimeter/aspect_ratio
+  const customCurve = pg.basal_curve;
+  if (isMembraneDynamic(params)) {
+    // Time-dependent membrane, starting from its shape at t = 0
+    initMembrane(state, params);
+  } else if (customCurve) {
+    state.basalGeometry = createBasalCurveGeometry(customCurve);
+  } else {
+    // Compute and store geometry from perimeter/aspect_ratio
+    const geometry = computeEllipseFromPerimeter(pg.perimeter, pg.aspect_ratio);
+    state.geometry = {
+      curvature_1: geometry.curvature_1,
+      curvature_2: geometry.curvature_2,
+    };
+
+    // Create pre-computed basal geometry representation
+    state.basalGeometry = createBasalGeometry(geometry.curvature_1, geometry.curvature_2, 360);
+  }
+  const { curvature_1, curvature_2 } = state.geometry ?? { curvature_1: 0, curvature_2: 0 };
 
   // Collect all cell type entries and compute total N
   const cellTypeEntries = Object.entries(params.cell_types);
@@ -110,16 +119,24 @@ export function initializeEHTSimulation(
 
   // For line geometry (curvature = 0), use w_init directly
   // For curved geometry, compute perimeter from curvatures
-  const isLineGeometry = curvature_1 === 0 && curvature_2 === 0;
-  const perimeter = isLineGeometry
-    ? pg.w_init * 4  // Use a finite value for arc length calculations
-    : ramanujanPerimeter(Math.abs(1 / curvature_1), Math.abs(1 / curvature_2));
+  // For a custom curve, use its length
+  const isLineGeometry = !customCurve && curvature_1 === 0 && curvature_2 === 0;
+  const perimeter = customCurve
+    ? state.basalGeometry.perimeter
+    : isLineGeometry
+      ? pg.w_init * 4  // Use a finite value for arc length calculations
+      : ramanujanPerimeter(Math.abs(1 / curvature_1), Math.abs(1 / curvature_2));
+
+  // Arc length of the tissue center: the top of an ellipse, halfway along a
+  // custom curve (so the tissue does not wrap past its first point)
+  const centerArcLength = customCurve ? perimeter / 2 : perimeter / 4;
 
   const w = pg.full_circle ? perimeter : pg.w_init;
   const h = pg.h_init;
 
   // For negative aspect ratio, flip normal direction to place cells outside the ellipse
-  const normalSign = pg.aspect_ratio < 0 ? -1 : 1;
+  const aspectRatio = state.membrane?.aspect_ratio ?? pg.aspect_ratio;
+  const normalSign = !customCurve && aspectRatio < 0 ? -1 : 1;
 
   // Generate initial cell inputs (basal, apical, nucleus positions)
   const cellInputs: CreateCellInput[] = [];
@@ -129,7 +146,7 @@ export function initializeEHTSimulation(
     // For curved geometry, use arc length parameterization
     const arcLength = isLineGeometry
       ? locations[i][0] * (w / 2)
-      : locations[i][0] * (w / 2) + perimeter / 4;
+      : locations[i][0] * (w / 2) + centerArcLength;
 
     // Get the basal point directly from arc length
     const basalPoint = state.basalGeometry.getPointAtArcLength(arcLength);
@@ -0,0 +1,152 @@
+/**
+ * Tests for the time-dependent EHT basal membrane.
+ */
+import { describe, it, expect } from 'vitest';
+import { EHTModel } from '../index';
+import { createDefaultEHTParams } from '../params/defaults';
+import { ehtParamsSchema } from '../params/schema';
+import type { EHTParams } from '../params/types';
+import type { EHTSimulationState } from '../types';
+import { computeEHTStatistics } from '../statistics';
+import { saveEHTCheckpoint, loadEHTCheckpoint } from '../checkpoint';
+import { getSnapshot, loadSnapshot } from '../output';
+import { projectBasalCurveConstraints } from './constraints';
+import { updateMembrane } from './membrane';
+import { SimulationEngine } from '@/core/simulation/engine';
+import { Vector2 } from '@/core/math/vector2';
+
+function createTestParams(): EHTParams {
+  const params = createDefaultEHTParams();
+  params.general.n_substeps = 5;
+  params.general.p_div_out = 0;
+  params.cell_types.control.N_init = 10;
+  params.cell_types.emt.N_init = 2;
+  return params;
+}
+
+function createTestState(params: EHTParams): EHTSimulationState {
+  return new SimulationEngine({ model: EHTModel, params }).getState();
+}
+
+describe('EHT basal membrane', () => {
+  it('should keep a fixed membrane without membrane parameters', () => {
+    const state = createTestState(createTestParams());
+    expect(state.membrane).toBeUndefined();
+  });
+
+  it('should follow a prescribed perimeter and keep basal points on it', () => {
+    const params = createTestParams();
+    params.general.perimeter_expr = 'general.perimeter * (1 + 0.1 * t)';
+
+    const engine = new SimulationEngine({ model: EHTModel, params });
+    expect(engine.getState().membrane?.perimeter).toBeCloseTo(105, 10);
+    for (let i = 0; i < 10; i++) engine.step();
+    const state = engine.getState();
+
+    expect(state.membrane?.perimeter).toBeCloseTo(105 * (1 + 0.1 * state.t), 6);
+    expect(computeEHTStatistics(state, params)['basal_perimeter_all']).toBeCloseTo(105 * (1 + 0.1 * state.t), 0);
+    for (const cell of state.cells.filter((c) => c.has_B)) {
+      const B = Vector2.from(cell.B);
+      expect(state.basalGeometry.projectPoint(B).dist(B)).toBeLessThan(1e-6);
+    }
+  });
+
+  it('should change the aspect ratio over time', () => {
+    const params = createTestParams();
+    params.general.aspect_ratio_expr = '1 + t';
+
+    const engine = new SimulationEngine({ model: EHTModel, params });
+    for (let i = 0; i < 10; i++) engine.step();
+    const state = engine.getState();
+
+    expect(state.membrane?.aspect_ratio).toBeCloseTo(1 + state.t, 6);
+    expect(state.geometry!.curvature_1 / state.geometry!.curvature_2).toBeCloseTo(1 + state.t, 6);
+  });
+
+  it('should expand when cells push outward and relax back with its stiffness', () => {
+    const params = createTestParams();
+    params.general.membrane_mobility = 1;
+    params.general.membrane_stiffness = 0.5;
+    const state = createTestState(params);
+    const center = Vector2.from(state.membrane!.center);
+
+    // Push every basal point 0.1 outward
+    for (const cell of state.cells) {
+      const B = Vector2.from(cell.B);
+      cell.B = B.add(B.sub(center).normalize().mult(0.1)).toObject();
+    }
+    const load = projectBasalCurveConstraints(state, params);
+    expect(load).toBeGreaterThan(0);
+
+    const dt = params.general.dt / params.general.n_substeps;
+    updateMembrane(state, params, dt, load);
+    const expanded = state.membrane!.perimeter;
+    expect(expanded).toBeGreaterThan(105);
+    expect(state.basalGeometry.perimeter).toBeCloseTo(expanded, 1);
+
+    // Without load the stiffness pulls the perimeter back toward 105
+    updateMembrane(state, params, dt, 0);
+    expect(state.membrane!.perimeter).toBeLessThan(expanded);
+    expect(state.membrane!.perimeter).toBeGreaterThan(105);
+  });
+
+  it('should keep the geometry while the perimeter barely moves', () => {
+    const params = createTestParams();
+    params.general.membrane_mobility = 1;
+    const state = createTestState(params);
+    const geometry = state.basalGeometry;
+    const dt = params.general.dt / params.general.n_substeps;
+
+    // A load moving the perimeter by a millionth leaves the geometry as is
+    const small = (1e-6 * 105 * 2 * Math.PI) / params.general.mu;
+    expect(updateMembrane(state, params, dt, small)).toBe(false);
+    expect(state.membrane!.perimeter).toBeGreaterThan(105);
+    expect(state.basalGeometry).toBe(geometry);
+
+    // Moves add up until the geometry is rebuilt
+    let rebuilt = false;
+    for (let i = 0; i < 10 && !rebuilt; i++) rebuilt = updateMembrane(state, params, dt, small * 20);
+    expect(rebuilt).toBe(true);
+    expect(state.basalGeometry).not.toBe(geometry);
+    expect(state.membrane!.shape_perimeter).toBe(state.membrane!.perimeter);
+  });
+
+  it('should restore the membrane from a checkpoint', () => {
+    const params = createTestParams();
+    params.general.perimeter_expr = '105 + 5 * t';
+    const engine = new SimulationEngine({ model: EHTModel, params });
+    for (let i = 0; i < 5; i++) engine.step();
+
+    const state = engine.getState();
+    const restored = loadEHTCheckpoint(JSON.parse(JSON.stringify(saveEHTCheckpoint(state))));
+    expect(restored.membrane).toEqual(state.membrane);
+    expect(restored.basalGeometry.perimeter).toBeCloseTo(state.basalGeometry.perimeter, 10);
+  });
+
+  it('should keep a scaled custom basal curve in snapshot rows', () => {
+    const params = createTestParams();
+    const points = Array.from({ length: 24 }, (_, i): [number, number] => {
+      const angle = (2 * Math.PI * i) / 24;
+      return [20 * Math.cos(angle), 15 * Math.sin(angle)];
+    });
+    params.general.basal_curve = { points, interpolation: 'linear', closed: true };
+    params.general.perimeter_expr = '110 + 5 * t';
+    const engine = new SimulationEngine({ model: EHTModel, params });
+    for (let i = 0; i < 5; i++) engine.step();
+    const state = engine.getState();
+
+    const loaded = loadSnapshot(getSnapshot(state), params);
+    expect(loaded.basalGeometry.perimeter).toBeCloseTo(state.basalGeometry.perimeter, 10);
+    const stats = computeEHTStatistics(state, params);
+    const loadedStats = computeEHTStatistics(loaded, params);
+    for (const id of ['basal_perimeter_all', 'bx_all', 'basal_gap_count_all']) {
+      expect(loadedStats[id]).toBeCloseTo(stats[id], 10);
+    }
+  });
+
+  it('should reject invalid membrane expressions', () => {
+    const params = createTestParams();
+    params.general.perimeter_expr = '105 * (1 + t';
+    expect(ehtParamsSchema.safeParse(params).success).toBe(false);
+  });
+});
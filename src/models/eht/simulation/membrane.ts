@@ -0,0 +1,188 @@
+/**
+ * EHT model time-dependent basal membrane.
+ * The membrane perimeter and aspect ratio can follow prescribed functions of
+ * time (general.perimeter_expr, general.aspect_ratio_expr), and the perimeter
+ * can respond to the forces cells exert on the membrane through their basal
+ * points (general.membrane_mobility, general.membrane_stiffness).
+ * The response is uniform: the summed load changes the perimeter, which
+ * scales the whole shape, so cells pushing on one side expand it everywhere.
+ * Local deformations of the membrane are not modeled.
+ *
+ * Ellipses keep their aspect ratio semantics; a custom basal curve is scaled
+ * about the mean of its points and ignores the aspect ratio.
+ */
+
+import { Vector2 } from '@/core/math/vector2';
+import { createBasalGeometry, type BasalGeometry } from '@/core/math';
+import { shapeCenter } from '@/core/math/geometry';
+import { parseExpression, evaluateExpression, type ExpressionNode } from '@/core/params/expression';
+import { getNestedValue } from '@/core/params/merge';
+import type { EHTSimulationState } from '../types';
+import type { EHTParams, EHTBasalCurveParams } from '../params/types';
+import { computeEllipseFromPerimeter, createBasalCurveGeometry } from '../params/geometry';
+
+/**
+ * Relative perimeter change at which the basal geometry is rebuilt. A mobile
+ * membrane moves a little every substep; smaller changes keep the geometry.
+ */
+const SHAPE_TOLERANCE = 1e-4;
+
+/** Parsed membrane expressions, by source */
+const parsedExpressions = new Map<string, ExpressionNode>();
+
+/**
+ * Evaluate a membrane expression at time t.
+ * `t` is the time in hours; other paths are read from the parameters.
+ */
+function evaluateAt(expression: string, t: number, params: EHTParams): number {
+  let node = parsedExpressions.get(expression);
+  if (!node) {
+    node = parseExpression(expression);
+    parsedExpressions.set(expression, node);
+  }
+
+  const value = evaluateExpression(node, (path) => {
+    if (path === 't') return t;
+    const v = getNestedValue(params, path);
+    if (typeof v !== 'number') {
+      throw new Error(
+        `Membrane expression "${expression}": "${path}" is ${v === undefined ? 'not a parameter' : 'not numeric'}`
+      );
+    }
+    return v;
+  });
+  if (!Number.isFinite(value)) {
+    throw new Error(`Membrane expression "${expression}" evaluated to ${value} at t=${t}`);
+  }
+  return value;
+}
+
+/**
+ * Whether the basal membrane changes over time.
+ */
+export function isMembraneDynamic(params: EHTParams): boolean {
+  const pg = params.general;
+  return pg.perimeter_expr.trim() !== '' || pg.aspect_ratio_expr.trim() !== '' || pg.membrane_mobility > 0;
+}
+
+/**
+ * Prescribed perimeter and aspect ratio at time t.
+ * Without expressions these are the base perimeter and general.aspect_ratio.
+ */
+function prescribedShape(
+  params: EHTParams,
+  basePerimeter: number,
+  t: number
+): { perimeter: number; aspect_ratio: number } {
+  const pg = params.general;
+  return {
+    perimeter: pg.perimeter_expr.trim() !== '' ? evaluateAt(pg.perimeter_expr, t, params) : basePerimeter,
+    aspect_ratio: pg.aspect_ratio_expr.trim() !== '' ? evaluateAt(pg.aspect_ratio_expr, t, params) : pg.aspect_ratio,
+  };
+}
+
+/**
+ * Geometry of a custom basal curve scaled about the mean of its points.
+ */
+export function scaleBasalCurve(
+  curve: EHTBasalCurveParams,
+  scale: number
+): { geometry: BasalGeometry; center: { x: number; y: number } } {
+  const cx = curve.points.reduce((sum, [x]) => sum + x, 0) / curve.points.length;
+  const cy = curve.points.reduce((sum, [, y]) => sum + y, 0) / curve.points.length;
+  const geometry = createBasalCurveGeometry({
+    ...curve,
+    points: curve.points.map(([x, y]): [number, number] => [cx + (x - cx) * scale, cy + (y - cy) * scale]),
+  });
+  return { geometry, center: { x: cx, y: cy } };
+}
+
+/**
+ * Rebuild the basal geometry (and curvatures) from the membrane state.
+ */
+function applyMembraneShape(state: EHTSimulationState, params: EHTParams): void {
+  const membrane = state.membrane!;
+  if (!(membrane.perimeter > 0)) {
+    throw new Error(`Basal membrane perimeter must stay positive (${membrane.perimeter} at t=${state.t})`);
+  }
+  membrane.shape_perimeter = membrane.perimeter;
+
+  const curve = params.general.basal_curve;
+  if (curve) {
+    const scaled = scaleBasalCurve(curve, membrane.perimeter / membrane.base_perimeter);
+    state.basalGeometry = scaled.geometry;
+    membrane.center = scaled.center;
+    return;
+  }
+
+  const geometry = computeEllipseFromPerimeter(membrane.perimeter, membrane.aspect_ratio);
+  state.geometry = {
+    curvature_1: geometry.curvature_1,
+    curvature_2: geometry.curvature_2,
+  };
+  state.basalGeometry = createBasalGeometry(geometry.curvature_1, geometry.curvature_2, 360);
+  membrane.center = shapeCenter(geometry.curvature_1, geometry.curvature_2).toObject();
+}
+
+/**
+ * Set up a time-dependent membrane with its shape at the current time.
+ */
+export function initMembrane(state: EHTSimulationState, params: EHTParams): void {
+  const pg = params.general;
+  const basePerimeter = pg.basal_curve ? createBasalCurveGeometry(pg.basal_curve).perimeter : pg.perimeter;
+  const shape = prescribedShape(params, basePerimeter, state.t);
+
+  state.membrane = { ...shape, base_perimeter: basePerimeter, shape_perimeter: shape.perimeter, center: { x: 0, y: 0 } };
+  applyMembraneShape(state, params);
+}
+
+/**
+ * Outward displacement of a basal point projected onto the membrane:
+ * positive when the cell pushed it past the membrane, away from its center.
+ */
+export function membraneLoad(state: EHTSimulationState, B: Vector2, projected: Vector2): number {
+  const outward = projected.sub(Vector2.from(state.membrane!.center));
+  return outward.magSq() > 0 ? B.sub(projected).dot(outward.normalize()) : 0;
+}
+
+/**
+ * Advance the membrane by one substep.
+ *
+ * The perimeter follows its prescribed value. With a positive mobility it
+ * instead relaxes toward it (with the membrane stiffness) while being pushed
+ * by the cells: `load` is the total outward displacement of basal points
+ * projected onto the membrane during the substep, which the friction mu
+ * turns into a force. A straight line membrane has no perimeter to move.
+ * The geometry is rebuilt when the aspect ratio changes or the perimeter
+ * moved by more than SHAPE_TOLERANCE since the last rebuild.
+ * Returns true if the geometry changed.
+ */
+export function updateMembrane(
+  state: EHTSimulationState,
+  params: EHTParams,
+  dt: number,
+  load: number
+): boolean {
+  const membrane = state.membrane;
+  if (!membrane) return false;
+
+  const pg = params.general;
+  const target = prescribedShape(params, membrane.base_perimeter, state.t);
+  const isLine = !pg.basal_curve && target.aspect_ratio === 0;
+
+  let perimeter = target.perimeter;
+  if (pg.membrane_mobility > 0 && !isLine) {
+    // Total radial force, as a force on the perimeter (dP = 2π dr)
+    const force = (pg.mu * load) / dt / (2 * Math.PI);
+    perimeter = membrane.perimeter +
+      dt * pg.membrane_mobility * (force - pg.membrane_stiffness * (membrane.perimeter - target.perimeter));
+  }
+
+  const reshaped = target.aspect_ratio !== membrane.aspect_ratio ||
+    !(Math.abs(perimeter - membrane.shape_perimeter) <= SHAPE_TOLERANCE * membrane.shape_perimeter);
+  membrane.perimeter = perimeter;
+  membrane.aspect_ratio = target.aspect_ratio;
+  if (!reshaped) return false;
+  applyMembraneShape(state, params);
+  return true;
+}
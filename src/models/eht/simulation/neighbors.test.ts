@@ -0,0 +1,96 @@
+/**
+ * Tests for the EHT neighbor list.
+ * The grid-based path must reproduce the all-pairs path exactly.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createInitialEHTState } from '../types';
+import type { EHTSimulationState } from '../types';
+import type { EHTParams } from '../params/types';
+import { createDefaultEHTParams } from '../params/defaults';
+import { initializeEHTSimulation } from './init';
+import { calcAllForces } from './forces';
+import { applyAllConstraints, projectHardSphereConstraints } from './constraints';
+import { buildCellNeighborList } from './neighbors';
+import { createTestRng } from '@/test/helpers';
+
+/**
+ * Create a ring of cells with jittered nuclei so that many pairs overlap.
+ */
+function createJitteredState(nCells: number, jitter: number): { state: EHTSimulationState; params: EHTParams } {
+  const params = createDefaultEHTParams();
+  params.cell_types.control.N_init = nCells - 5;
+  params.general.perimeter = nCells * 1.2;
+
+  const state = createInitialEHTState('neighbors-test');
+  initializeEHTSimulation(params, state, createTestRng('neighbors-init'));
+
+  const rng = createTestRng('neighbors-jitter');
+  for (const cell of state.cells) {
+    cell.pos.x += rng.random(-jitter, jitter);
+    cell.pos.y += rng.random(-jitter, jitter);
+  }
+
+  return { state, params };
+}
+
+/** Copy the mutable parts of a state (keeps the basal geometry instance) */
+function cloneState(state: EHTSimulationState): EHTSimulationState {
+  return {
+    ...state,
+    cells: structuredClone(state.cells),
+    ap_links: structuredClone(state.ap_links),
+    ba_links: structuredClone(state.ba_links),
+  };
+}
+
+describe('EHT neighbor list', () => {
+  it('should give identical repulsion forces to the all-pairs loop', () => {
+    const { state, params } = createJitteredState(400, 1.5);
+
+    const naive = calcAllForces(state, params);
+    const grid = calcAllForces(state, params, buildCellNeighborList(state));
+
+    expect(grid).toEqual(naive);
+  });
+
+  it('should give identical hard-sphere projections, including mid-sweep rebuilds', () => {
+    const { state, params } = createJitteredState(400, 3);
+    const naiveState = cloneState(state);
+    const gridState = cloneState(state);
+
+    const neighbors = buildCellNeighborList(gridState);
+    projectHardSphereConstraints(naiveState, params);
+    projectHardSphereConstraints(gridState, params, neighbors);
+
+    expect(gridState.cells).toEqual(naiveState.cells);
+    expect(neighbors.builds).toBeGreaterThan(1);
+  });
+
+  it('should reproduce repeated force/constraint substeps exactly', () => {
+    const { state, params } = createJitteredState(300, 1);
+    const naiveState = cloneState(state);
+    const gridState = cloneState(state);
+    const dt = params.general.dt / params.general.n_substeps;
+
+    for (let step = 0; step < 20; step++) {
+      for (const [s, neighbors] of [
+        [naiveState, undefined],
+        [gridState, buildCellNeighborList(gridState)],
+      ] as const) {
+        const forces = calcAllForces(s, params, neighbors);
+        s.cells.forEach((cell, i) => {
+          cell.pos.x += (dt * forces[i].f.x) / params.general.mu;
+          cell.pos.y += (dt * forces[i].f.y) / params.general.mu;
+          cell.A.x += (dt * forces[i].fA.x) / params.general.mu;
+          cell.A.y += (dt * forces[i].fA.y) / params.general.mu;
+          cell.B.x += (dt * forces[i].fB.x) / params.general.mu;
+          cell.B.y += (dt * forces[i].fB.y) / params.general.mu;
+        });
+        applyAllConstraints(s, params, neighbors);
+      }
+    }
+
+    expect(gridState.cells).toEqual(naiveState.cells);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * EHT model neighbor search for nucleus-nucleus interactions.
+ * Shared by soft repulsion forces and hard-sphere constraints.
+ *
+ * A Verlet-style neighbor list is built on a uniform grid with a cutoff of
+ * the largest possible interaction distance plus a skin. As long as no
+ * nucleus has moved more than half the skin since the last build, every
+ * interacting pair is guaranteed to be in the list, so results are
+ * identical to the all-pairs loop.
+ */
+
+import { SpatialGrid, buildLowerNeighborLists } from '@/core/math/spatial-grid';
+import type { CellState, EHTSimulationState } from '../types';
+
+/** Skin added to the interaction cutoff, as a fraction of the cutoff */
+const SKIN_FRACTION = 0.25;
+
+/** Neighbor list over cell nuclei */
+export interface CellNeighborList {
+  /** lower[i] lists all j < i within `radius` at build time, ascending */
+  lower: number[][];
+  /** Nucleus positions at build time */
+  refPos: { x: number; y: number }[];
+  /** Search radius (interaction cutoff + skin) */
+  radius: number;
+  /** Skin width; rebuild once any nucleus moved more than skin / 2 */
+  skin: number;
+  /** Number of rebuilds since creation (diagnostics) */
+  builds: number;
+}
+
+/**
+ * Largest pairwise interaction distance for the current cells.
+ * Covers both soft (R_soft) and hard (R_hard) radii.
+ */
+function maxInteractionDistance(cells: CellState[]): number {
+  let maxR = 0;
+  for (const cell of cells) {
+    maxR = Math.max(maxR, cell.R_soft, cell.R_hard);
+  }
+  return 2 * maxR;
+}
+
+/**
+ * Build a neighbor list for the current nucleus positions.
+ */
+export function buildCellNeighborList(state: EHTSimulationState): CellNeighborList {
+  const list: CellNeighborList = {
+    lower: [],
+    refPos: [],
+    radius: 0,
+    skin: 0,
+    builds: 0,
+  };
+  rebuildCellNeighborList(state, list);
+  return list;
+}
+
+/**
+ * Rebuild a neighbor list in place from the current nucleus positions.
+ */
+export function rebuildCellNeighborList(
+  state: EHTSimulationState,
+  list: CellNeighborList
+): void {
+  const cells = state.cells;
+  const cutoff = maxInteractionDistance(cells);
+
+  list.skin = SKIN_FRACTION * cutoff;
+  list.radius = cutoff + list.skin;
+  list.refPos = cells.map(c => ({ x: c.pos.x, y: c.pos.y }));
+
+  if (list.radius > 0) {
+    list.lower = buildLowerNeighborLists(list.refPos, list.radius, new SpatialGrid(list.radius));
+  } else {
+    list.lower = cells.map(() => []);
+  }
+
+  list.builds++;
+}
+
+/**
+ * Check whether a single nucleus has left the skin of its build position.
+ */
+export function hasLeftSkin(
+  list: CellNeighborList,
+  cell: CellState,
+  index: number
+): boolean {
+  const ref = list.refPos[index];
+  if (!ref) return true;
+
+  const dx = cell.pos.x - ref.x;
+  const dy = cell.pos.y - ref.y;
+  const halfSkin = 0.5 * list.skin;
+  return dx * dx + dy * dy > halfSkin * halfSkin;
+}
+
+/**
+ * Rebuild the neighbor list if the cell count changed or any nucleus has
+ * moved farther than half the skin since the last build.
+ * Returns true if a rebuild happened.
+ */
+export function refreshCellNeighborList(
+  state: EHTSimulationState,
+  list: CellNeighborList
+): boolean {
+  const cells = state.cells;
+  let stale = cells.length !== list.lower.length;
+
+  for (let i = 0; !stale && i < cells.length; i++) {
+    stale = hasLeftSkin(list, cells[i], i);
+  }
+
+  if (stale) {
+    rebuildCellNeighborList(state, list);
+  }
+  return stale;
+}
@@ -4,7 +4,7 @@
  */
 
 import { Vector2 } from '@/core/math/vector2';
-import { createBasalGeometry } from '@/core/math';
+import { resolveBasalGeometry } from '@/core/math';
 import type { EHTSimulationState } from '../types';
 
 /**
@@ -24,23 +24,6 @@ function projectOntoSegment(point: Vector2, p1: Vector2, p2: Vector2): Vector2 {
   return p1.add(segment.scale(t));
 }
 
-/**
- * Get a working BasalGeometry instance from state.
- * Handles cases where state was cloned (structuredClone loses class methods).
- */
-function getBasalGeometry(state: EHTSimulationState) {
-  // If basalGeometry has working methods, use it directly
-  if (typeof state.basalGeometry?.projectPoint === 'function') {
-    return state.basalGeometry;
-  }
-
-  // Otherwise, recreate from curvatures stored in geometry or basalGeometry
-  const curvature_1 = state.geometry?.curvature_1 ?? state.basalGeometry?.curvature_1 ?? 0;
-  const curvature_2 = state.geometry?.curvature_2 ?? state.basalGeometry?.curvature_2 ?? 0;
-
-  return createBasalGeometry(curvature_1, curvature_2, 360);
-}
-
 /**
  * Project a point onto the apical line strip.
  * The apical line strip is formed by the segments defined by apical links.
@@ -84,6 +67,5 @@ export function projectOntoApicalStrip(point: Vector2, state: EHTSimulationState
  * Handles cases where state was cloned and basalGeometry lost its methods.
  */
 export function projectOntoBasalCurve(point: Vector2, state: EHTSimulationState): Vector2 {
-  const geometry = getBasalGeometry(state);
-  return geometry.projectPoint(point);
+  return resolveBasalGeometry(state.basalGeometry, state.geometry).projectPoint(point);
 }
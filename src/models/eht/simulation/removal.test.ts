@@ -0,0 +1,143 @@
+/**
+ * Tests for EHT cell death and removal.
+ */
+import { describe, it, expect } from 'vitest';
+import { EHTModel } from '../index';
+import { createDefaultEHTParams } from '../params/defaults';
+import type { EHTParams } from '../params/types';
+import type { EHTSimulationState } from '../types';
+import { computeEHTStatistics } from '../statistics';
+import { getSnapshot, loadSnapshot } from '../output';
+import { removeCell, processCellRemoval } from './removal';
+import { SimulationEngine } from '@/core/simulation/engine';
+import { SeededRandom } from '@/core/math/random';
+import { Vector2 } from '@/core/math/vector2';
+
+function createTestParams(): EHTParams {
+  const params = createDefaultEHTParams();
+  params.general.n_substeps = 5;
+  params.general.p_div_out = 0;
+  params.cell_types.control.N_init = 10;
+  params.cell_types.emt.N_init = 2;
+  return params;
+}
+
+function createTestState(params: EHTParams): EHTSimulationState {
+  return new SimulationEngine({ model: EHTModel, params }).getState();
+}
+
+/** Every link refers to existing, distinct cells */
+function expectValidLinks(state: EHTSimulationState): void {
+  for (const link of [...state.ap_links, ...state.ba_links]) {
+    expect(link.l).toBeGreaterThanOrEqual(0);
+    expect(link.r).toBeGreaterThanOrEqual(0);
+    expect(link.l).toBeLessThan(state.cells.length);
+    expect(link.r).toBeLessThan(state.cells.length);
+    expect(link.l).not.toBe(link.r);
+  }
+}
+
+describe('EHT cell removal', () => {
+  it('should compact cells, re-index links and reconnect neighbors', () => {
+    const state = createTestState(createTestParams());
+    const link = state.ap_links[0];
+    const middle = state.ap_links.find((l) => l.l === link.r)!;
+    const left = state.cells[link.l];
+    const removed = state.cells[link.r];
+    const right = state.cells[middle.r];
+    const nCells = state.cells.length;
+    const nApical = state.ap_links.length;
+    const nBasal = state.ba_links.length;
+
+    removeCell(state, link.r, 'apoptosis');
+
+    expect(state.cells).toHaveLength(nCells - 1);
+    expect(state.cells).not.toContain(removed);
+    expect(state.ap_links).toHaveLength(nApical - 1);
+    expect(state.ba_links).toHaveLength(nBasal - 1);
+    expectValidLinks(state);
+
+    const l = state.cells.indexOf(left);
+    const r = state.cells.indexOf(right);
+    expect(state.ap_links.some((e) => e.l === l && e.r === r)).toBe(true);
+    expect(state.ba_links.some((e) => e.l === l && e.r === r)).toBe(true);
+
+    expect(state.events.at(-1)).toMatchObject({ type: 'apoptosis', cell_id: removed.id });
+    expect(state.lineage.at(-1)).toMatchObject({ type: 'apoptosis', cell_id: removed.id });
+  });
+
+  it('should remove detached cells past the removal distance', () => {
+    const params = createTestParams();
+    params.cell_types.control.removal_distance = 2;
+    const state = createTestState(params);
+
+    const cell = state.cells[3];
+    const B = Vector2.from(cell.B);
+    const projB = state.basalGeometry.projectPoint(B);
+    cell.has_B = false;
+    cell.B = projB.sub(state.basalGeometry.getNormal(projB).mult(3)).toObject();
+
+    processCellRemoval(state, params, new SeededRandom('removal'), params.general.dt);
+
+    expect(state.cells).not.toContain(cell);
+    expect(state.events.map((e) => e.type)).toEqual(['removal']);
+    expectValidLinks(state);
+  });
+
+  it('should kill cells by apoptosis inside the window and count them in the statistics', () => {
+    const params = createTestParams();
+    params.cell_types.control.apoptosis_rate = 2;
+    params.cell_types.control.apoptosis_start = 0.2;
+    params.cell_types.control.apoptosis_end = 1.0;
+
+    const engine = new SimulationEngine({ model: EHTModel, params });
+    const initial = engine.getState().cells.length;
+    for (let i = 0; i < 30; i++) engine.step();
+    const state = engine.getState();
+
+    const deaths = state.events.filter((e) => e.type === 'apoptosis');
+    expect(deaths.length).toBeGreaterThan(0);
+    for (const e of deaths) {
+      expect(e.t).toBeGreaterThanOrEqual(0.2);
+      expect(e.t).toBeLessThan(1.0);
+    }
+    const divisions = state.events.filter((e) => e.type === 'division');
+    expect(state.cells.length).toBe(initial + divisions.length - deaths.length);
+    expectValidLinks(state);
+
+    const stats = computeEHTStatistics(state, params);
+    expect(stats['apoptosis_count_all']).toBe(deaths.length);
+    expect(stats['apoptosis_count_control']).toBe(deaths.length);
+    expect(stats['apoptosis_count_emt']).toBe(0);
+    expect(stats['cell_count_emt']).toBe(2);
+
+    // IDs of dead cells are not handed out again
+    const ids = new Set(state.cells.map((c) => c.id));
+    expect(ids.size).toBe(state.cells.length);
+    for (const e of deaths) expect(ids.has(e.cell_id)).toBe(false);
+    expect(state.next_cell_id).toBeGreaterThan(Math.max(...deaths.map((e) => e.cell_id)));
+  });
+
+  it('should keep the loss counts through snapshot rows', () => {
+    const params = createTestParams();
+    Object.assign(params.cell_types.control, { apoptosis_rate: 2, apoptosis_start: 0.2, apoptosis_end: 1.0 });
+
+    const engine = new SimulationEngine({ model: EHTModel, params });
+    for (let i = 0; i < 30; i++) engine.step();
+    const state = engine.getState();
+    const stats = computeEHTStatistics(state, params);
+    expect(stats['apoptosis_count_control']).toBeGreaterThan(0);
+
+    const loaded = loadSnapshot(getSnapshot(state), params);
+    expect(loaded.lineage).toEqual([]);
+    const loadedStats = computeEHTStatistics(loaded, params);
+    for (const group of ['all', 'control', 'emt']) {
+      expect(loadedStats[`apoptosis_count_${group}`]).toBe(stats[`apoptosis_count_${group}`]);
+      expect(loadedStats[`removed_count_${group}`]).toBe(stats[`removed_count_${group}`]);
+    }
+
+    // Counts survive another round trip
+    expect(computeEHTStatistics(loadSnapshot(getSnapshot(loaded), params), params)['apoptosis_count_all'])
+      .toBe(stats['apoptosis_count_all']);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * EHT model cell death and removal.
+ * Cells leave the simulation by apoptosis (random, per cell type and time
+ * window) or when they have detached from the basal membrane and moved
+ * past the removal distance of their cell type.
+ */
+
+import { SeededRandom } from '@/core/math/random';
+import type { EHTSimulationState } from '../types';
+import type { EHTParams } from '../params/types';
+import { getCellType } from './cell';
+import { recordEvent, detachApicalLinks, detachBasalLinks, basalSignedDistance } from './events';
+import { recordLineageEvent } from '../lineage';
+
+/** Why a cell was removed */
+export type CellRemovalReason = 'apoptosis' | 'removal';
+
+/**
+ * Drop links that still reference a removed cell (or that would connect a
+ * cell to itself) and shift the indices of the cells after it.
+ */
+function reindexLinks(links: { l: number; r: number }[], removedIndex: number): void {
+  for (let e = links.length - 1; e >= 0; e--) {
+    const link = links[e];
+    if (link.l === removedIndex || link.r === removedIndex || link.l === link.r) {
+      links.splice(e, 1);
+      continue;
+    }
+    if (link.l > removedIndex) link.l--;
+    if (link.r > removedIndex) link.r--;
+  }
+}
+
+/**
+ * Remove a cell from the simulation.
+ * Its neighbors are connected to each other, the cell list is compacted and
+ * link indices are updated. The removal is recorded in the event and
+ * lineage logs.
+ */
+export function removeCell(
+  state: EHTSimulationState,
+  cellIndex: number,
+  reason: CellRemovalReason
+): void {
+  const cell = state.cells[cellIndex];
+  recordEvent(state, reason, cell);
+  recordLineageEvent(state, { t: state.t, type: reason, cell_id: cell.id, cell_type: cell.typeIndex });
+
+  detachApicalLinks(state, cellIndex);
+  detachBasalLinks(state, cellIndex);
+
+  state.cells.splice(cellIndex, 1);
+  reindexLinks(state.ap_links, cellIndex);
+  reindexLinks(state.ba_links, cellIndex);
+
+  state.next_cell_id = Math.max(state.next_cell_id, cell.id + 1);
+}
+
+/**
+ * Remove cells that died by apoptosis during this timestep or that have
+ * detached past their removal distance.
+ *
+ * Random numbers are only drawn for cells inside an apoptosis window with a
+ * positive rate.
+ */
+export function processCellRemoval(
+  state: EHTSimulationState,
+  params: EHTParams,
+  rng: SeededRandom,
+  dt: number
+): void {
+  const t = state.t;
+
+  // Backwards, so removals do not shift the cells still to be visited
+  for (let i = state.cells.length - 1; i >= 0; i--) {
+    const cell = state.cells[i];
+    const cellType = getCellType(params, cell);
+
+    if (
+      !cell.has_B &&
+      isFinite(cellType.removal_distance) &&
+      basalSignedDistance(cell, state) < -cellType.removal_distance
+    ) {
+      removeCell(state, i, 'removal');
+      continue;
+    }
+
+    if (cellType.apoptosis_rate > 0 && t >= cellType.apoptosis_start && t < cellType.apoptosis_end) {
+      if (rng.random() < 1 - Math.exp(-cellType.apoptosis_rate * dt)) {
+        removeCell(state, i, 'apoptosis');
+      }
+    }
+  }
+}
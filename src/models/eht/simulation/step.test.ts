@@ -0,0 +1,92 @@
+/**
+ * Tests for EHT adaptive substeps.
+ */
+import { describe, it, expect } from 'vitest';
+import { EHTModel } from '../index';
+import { createDefaultEHTParams } from '../params/defaults';
+import { ehtParamsSchema } from '../params/schema';
+import type { EHTParams } from '../params/types';
+import type { EHTSimulationState } from '../types';
+import { SimulationEngine } from '@/core/simulation/engine';
+import { checkpointToJSON, checkpointFromJSON, type SimulationCheckpoint } from '@/core/simulation/checkpoint';
+
+function createTestParams(tolerance = 1e-2): EHTParams {
+  const params = createDefaultEHTParams();
+  params.general.n_substeps = 5;
+  params.general.adaptive_substeps = true;
+  params.general.substep_tolerance = tolerance;
+  params.cell_types.control.N_init = 10;
+  params.cell_types.emt.N_init = 2;
+  return params;
+}
+
+function runSteps(params: EHTParams, steps: number): SimulationEngine<EHTParams, EHTSimulationState> {
+  const engine = new SimulationEngine({ model: EHTModel, params });
+  for (let i = 0; i < steps; i++) engine.step();
+  return engine;
+}
+
+describe('EHT adaptive substeps', () => {
+  it('should not report substep statistics with fixed substeps', () => {
+    const params = createTestParams();
+    params.general.adaptive_substeps = false;
+    const engine = runSteps(params, 2);
+    expect(engine.getSubstepStats()).toBeUndefined();
+  });
+
+  it('should land exactly on the output time grid', () => {
+    const engine = runSteps(createTestParams(), 10);
+    expect(engine.getState().t).toBe(1);
+  });
+
+  it('should report consistent substep statistics', () => {
+    const params = createTestParams();
+    const engine = runSteps(params, 5);
+    const stats = engine.getSubstepStats()!;
+
+    expect(stats.substeps).toBeGreaterThanOrEqual(5);
+    expect(stats.last_substeps).toBeGreaterThanOrEqual(1);
+    expect(stats.last_substeps).toBeLessThanOrEqual(stats.substeps);
+    expect(stats.last_rejected).toBeLessThanOrEqual(stats.rejected);
+    expect(stats.last_min_dt).toBeGreaterThan(0);
+    expect(stats.last_min_dt).toBeLessThanOrEqual(stats.last_max_dt);
+    expect(stats.last_max_dt).toBeLessThanOrEqual(params.general.dt + 1e-12);
+  });
+
+  it('should take more substeps with a tighter tolerance', () => {
+    const loose = runSteps(createTestParams(1e-1), 5).getSubstepStats()!;
+    const tight = runSteps(createTestParams(1e-3), 5).getSubstepStats()!;
+    expect(tight.substeps).toBeGreaterThan(loose.substeps);
+  });
+
+  it('should respect the maximum substep', () => {
+    const params = createTestParams(1);
+    params.general.max_substep = params.general.dt / 20;
+    const stats = runSteps(params, 3).getSubstepStats()!;
+    expect(stats.last_max_dt).toBeLessThanOrEqual(params.general.max_substep);
+    expect(stats.substeps).toBeGreaterThanOrEqual(60);
+  });
+
+  it('should continue identically from a checkpoint', () => {
+    const params = createTestParams();
+    const engine = runSteps(params, 3);
+    const resumed = new SimulationEngine({ model: EHTModel, params });
+    resumed.restoreCheckpoint(
+      checkpointFromJSON(checkpointToJSON(engine.saveCheckpoint())) as SimulationCheckpoint<EHTParams>
+    );
+
+    for (let i = 0; i < 3; i++) {
+      engine.step();
+      resumed.step();
+    }
+    expect(resumed.getSubstepStats()).toEqual(engine.getSubstepStats());
+    expect(resumed.getState().cells).toEqual(engine.getState().cells);
+  });
+
+  it('should reject a minimum substep above the maximum', () => {
+    const params = createTestParams();
+    params.general.min_substep = 0.01;
+    params.general.max_substep = 0.001;
+    expect(ehtParamsSchema.safeParse(params).success).toBe(false);
+  });
+});
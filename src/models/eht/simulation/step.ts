@@ -4,15 +4,18 @@
  */
 import { Vector2 } from '@/core/math/vector2';
 import { SeededRandom } from '@/core/math/random';
-import type { EHTSimulationState } from '../types';
+import type { EHTSimulationState, IntegratorState } from '../types';
 
 import { CellPhase } from '../types';
 import type { EHTParams } from '../params/types';
 import { getCellType, updateCellPhase } from './cell';
 import { calcAllForces, CellForces } from './forces';
-import { applyAllConstraints } from './constraints';
+import { applyAllConstraints, projectBasalCurveConstraints } from './constraints';
+import { buildCellNeighborList, type CellNeighborList } from './neighbors';
 import { processEMTEvents } from './events';
 import { processCellDivisions } from './division';
+import { processCellRemoval } from './removal';
+import { updateMembrane } from './membrane';
 
 /**
  * Update cytoskeleton rest lengths (eta_A, eta_B).
@@ -163,6 +166,148 @@ function integrateForces(
     }
 }
 
+/**
+ * Run one substep: forces, integration, constraints and membrane.
+ */
+function performSubstep(
+    state: EHTSimulationState,
+    params: EHTParams,
+    forces: CellForces[],
+    neighbors: CellNeighborList,
+    rng: SeededRandom,
+    dt: number
+): void {
+    // Integrate
+    integrateForces(state, params, forces, rng, dt);
+
+    // Apply constraints
+    const membraneLoad = applyAllConstraints(state, params, neighbors);
+
+    // Move a time-dependent basal membrane, carrying attached basal points along
+    if (updateMembrane(state, params, dt, membraneLoad)) {
+        projectBasalCurveConstraints(state, params);
+    }
+}
+
+/**
+ * Estimate the local error of an explicit Euler substep of length dt from
+ * the change of the forces over the substep (the difference between Euler
+ * and Heun). Diffusion noise is not part of the estimate.
+ * Leaves the cells where they are.
+ */
+function estimateSubstepError(
+    state: EHTSimulationState,
+    params: EHTParams,
+    forces: CellForces[],
+    neighbors: CellNeighborList,
+    dt: number
+): number {
+    const mu = params.general.mu;
+    const saved = state.cells.map((cell) => ({ pos: { ...cell.pos }, A: { ...cell.A }, B: { ...cell.B } }));
+
+    // Euler prediction without noise
+    for (let i = 0; i < state.cells.length; i++) {
+        const cell = state.cells[i];
+        const f = forces[i];
+        cell.pos.x += (dt * f.f.x) / mu;
+        cell.pos.y += (dt * f.f.y) / mu;
+        cell.A.x += (dt * f.fA.x) / mu;
+        cell.A.y += (dt * f.fA.y) / mu;
+        if (!cell.is_running) {
+            cell.B.x += (dt * f.fB.x) / mu;
+            cell.B.y += (dt * f.fB.y) / mu;
+        }
+    }
+    const predicted = calcAllForces(state, params, neighbors);
+
+    let maxChange = 0;
+    for (let i = 0; i < state.cells.length; i++) {
+        const cell = state.cells[i];
+        cell.pos = saved[i].pos;
+        cell.A = saved[i].A;
+        cell.B = saved[i].B;
+
+        maxChange = Math.max(
+            maxChange,
+            predicted[i].f.dist(forces[i].f),
+            predicted[i].fA.dist(forces[i].fA),
+            cell.is_running ? 0 : predicted[i].fB.dist(forces[i].fB)
+        );
+    }
+
+    return (dt * maxChange) / (2 * mu);
+}
+
+/**
+ * Integrate one timestep with adaptive substeps.
+ *
+ * Each substep is checked against general.substep_tolerance and retried with
+ * a shorter length if the estimated error is too large. The next substep is
+ * lengthened or shortened from the error (local error ~ dt², so by
+ * sqrt(tolerance / error)). The last substep ends exactly at the end of the
+ * timestep, so sample times stay on the dt grid.
+ */
+function integrateAdaptive(
+    state: EHTSimulationState,
+    params: EHTParams,
+    rng: SeededRandom,
+    fullDt: number
+): void {
+    const pg = params.general;
+    const tolerance = pg.substep_tolerance;
+    const integrator: IntegratorState = state.integrator ??= {
+        dt: fullDt / pg.n_substeps,
+        substeps: 0,
+        rejected: 0,
+        last_substeps: 0,
+        last_rejected: 0,
+        last_min_dt: 0,
+        last_max_dt: 0,
+    };
+
+    // Rounded, so sums of decimal timesteps land on the decimal grid
+    const tEnd = Math.round((state.t + fullDt) * 1e9) / 1e9;
+    let remaining = fullDt;
+    integrator.last_substeps = 0;
+    integrator.last_rejected = 0;
+    integrator.last_min_dt = Infinity;
+    integrator.last_max_dt = 0;
+
+    while (remaining > 1e-9 * fullDt) {
+        // Neighbor search shared by repulsion and hard-sphere constraints
+        const neighbors = buildCellNeighborList(state);
+        const forces = calcAllForces(state, params, neighbors);
+
+        const maxDt = Math.min(pg.max_substep, remaining);
+        let dt = Math.max(Math.min(integrator.dt, maxDt), Math.min(pg.min_substep, maxDt));
+        if (!(dt > 0)) {
+            throw new Error(`Adaptive substep length must be positive (${dt} at t=${state.t})`);
+        }
+        let error = estimateSubstepError(state, params, forces, neighbors, dt);
+        while (error > tolerance && dt > pg.min_substep) {
+            integrator.rejected++;
+            integrator.last_rejected++;
+            dt = Math.max(pg.min_substep, dt * Math.max(0.2, 0.9 * Math.sqrt(tolerance / error)));
+            error = estimateSubstepError(state, params, forces, neighbors, dt);
+        }
+
+        state.t += dt;
+        remaining -= dt;
+        performSubstep(state, params, forces, neighbors, rng, dt);
+
+        integrator.substeps++;
+        integrator.last_substeps++;
+        integrator.last_min_dt = Math.min(integrator.last_min_dt, dt);
+        integrator.last_max_dt = Math.max(integrator.last_max_dt, dt);
+
+        // A substep cut short by the end of the timestep says little about the next one
+        const next = error > 0 ? dt * Math.min(2, 0.9 * Math.sqrt(tolerance / error)) : dt * 2;
+        integrator.dt = dt < integrator.dt && dt === maxDt ? Math.max(integrator.dt, next) : next;
+    }
+
+    state.t = tEnd;
+}
+
 /**
  * Perform one full timestep (with substeps).
  */
@@ -186,6 +331,9 @@ export function performTimestep(
     // Process EMT events
     processEMTEvents(state, params, fullDt);
 
+    // Remove dead and detached cells
+    processCellRemoval(state, params, rng, fullDt);
+
     // Update cytoskeleton
     updateCytoskeleton(state, params, fullDt);
 
@@ -193,19 +341,22 @@ export function performTimestep(
     updateApicalJunctions(state, params, fullDt);
 
     // Substep integration
-    const substepDt = fullDt / pg.n_substeps;
+    if (pg.adaptive_substeps) {
+        integrateAdaptive(state, params, rng, fullDt);
+    } else {
+        const substepDt = fullDt / pg.n_substeps;
 
-    for (let step = 0; step < pg.n_substeps; step++) {
-        state.t += substepDt;
+        for (let step = 0; step < pg.n_substeps; step++) {
+            state.t += substepDt;
 
-        // Calculate forces
-        const forces = calcAllForces(state, params);
+            // Neighbor search shared by repulsion and hard-sphere constraints
+            const neighbors = buildCellNeighborList(state);
 
-        // Integrate
-        integrateForces(state, params, forces, rng, substepDt);
+            // Calculate forces
+            const forces = calcAllForces(state, params, neighbors);
 
-        // Apply constraints
-        applyAllConstraints(state, params);
+            performSubstep(state, params, forces, neighbors, rng, substepDt);
+        }
     }
 
     state.step_count++;
@@ -22,6 +22,7 @@ function createTestState(cellTypes: string[]): EHTSimulationState {
       cells.push({
         id: cells.length,
         typeIndex: typeKey,
+        parent_id: null, generation: 0, birth_event: 'initial',
         pos: { x, y },
         A: { x, y: 28 },
         B: { x, y: 33 },
@@ -31,6 +32,7 @@ function createTestState(cellTypes: string[]): EHTSimulationState {
         eta_B: 2.5,
         has_A: true,
         has_B: true,
+        extruded: false,
         phase: 0,
         birth_time: 0,
         division_time: 10,
@@ -62,6 +64,9 @@ function createTestState(cellTypes: string[]): EHTSimulationState {
     },
     basalGeometry: new StraightLineGeometry(),
     rngSeed: 'test-seed',
+    next_cell_id: 0,
+    lineage: [],
+    events: [],
   };
 }
 
@@ -158,8 +163,8 @@ describe('EHT Statistics - Cell Type Groups', () => {
       expect(statIds).toContain(`ab_distance_${group}`);
     });
 
-    // Count total stats: 9 metrics × 4 groups = 36 statistics
-    expect(statDefs).toHaveLength(9 * 4);
+    // Count total stats: 19 metrics × 4 groups = 76 statistics
+    expect(statDefs).toHaveLength(19 * 4);
   });
 
   it('should compute correct values for each group', () => {
@@ -205,7 +210,7 @@ describe('EHT Statistics - Cell Type Groups', () => {
     const groupsArray = Array.from(groups).sort();
     console.log('All unique groups:', groupsArray);
     console.log('Total statistics:', stats.length);
-    console.log('Expected:', 9, 'metrics ×', 4, 'groups =', 36);
+    console.log('Expected:', 19, 'metrics ×', 4, 'groups =', 76);
 
     // Should have 4 groups: all + 3 individuals (no pairs)
     expect(groupsArray).toEqual([
@@ -216,7 +221,7 @@ describe('EHT Statistics - Cell Type Groups', () => {
     ]);
 
     // Verify count
-    expect(stats).toHaveLength(9 * 4);
+    expect(stats).toHaveLength(19 * 4);
   });
 
   it('should dynamically update when cell type names change', () => {
@@ -315,6 +320,7 @@ describe('EHT Statistics - x position calculation', () => {
       cells.push({
         id: i,
         typeIndex: 'control',
+        parent_id: null, generation: 0, birth_event: 'initial',
         pos: { x, y: 5 },     // Nucleus at mid-height (50% of tissue height)
         A: { x, y: h },       // Apical point at height h
         B: { x, y: 0 },       // Basal point ON the basal curve (y=0)
@@ -324,6 +330,7 @@ describe('EHT Statistics - x position calculation', () => {
         eta_B: 2.5,
         has_A: true,
         has_B: true,
+        extruded: false,
         phase: 0,
         birth_time: 0,
         division_time: 10,
@@ -351,6 +358,9 @@ describe('EHT Statistics - x position calculation', () => {
       geometry: { curvature_1: 0, curvature_2: 0 },
       basalGeometry: new StraightLineGeometry(),
       rngSeed: 'test-seed',
+      next_cell_id: 0,
+      lineage: [],
+      events: [],
     };
 
     const params = createTestParams(['control']);
@@ -377,6 +387,7 @@ describe('EHT Statistics - x position calculation', () => {
       cells.push({
         id: i,
         typeIndex: 'control',
+        parent_id: null, generation: 0, birth_event: 'initial',
         pos: { x, y: 12 },    // Nucleus ABOVE apical strip (y=12 > y=10)
         A: { x, y: h },       // Apical at height h=10
         B: { x, y: 0 },       // Basal on curve
@@ -386,6 +397,7 @@ describe('EHT Statistics - x position calculation', () => {
         eta_B: 2.5,
         has_A: true,
         has_B: true,
+        extruded: false,
         phase: 0,
         birth_time: 0,
         division_time: 10,
@@ -413,6 +425,9 @@ describe('EHT Statistics - x position calculation', () => {
       geometry: { curvature_1: 0, curvature_2: 0 },
       basalGeometry: new StraightLineGeometry(),
       rngSeed: 'test-seed',
+      next_cell_id: 0,
+      lineage: [],
+      events: [],
     };
 
     const params = createTestParams(['control']);
@@ -438,11 +453,12 @@ describe('EHT Statistics - x position calculation', () => {
     cells.push({
       id: 0,
       typeIndex: 'control',
+      parent_id: null, generation: 0, birth_event: 'initial',
       pos: { x: 0, y: 5 },   // Nucleus at y=5
       A: { x: 0, y: 10 },    // Apical at y=10
       B: { x: 0, y: 0 },
       R_soft: 1.2, R_hard: 0.4, eta_A: 2.5, eta_B: 2.5,
-      has_A: true, has_B: true, phase: 0, birth_time: 0, division_time: 10,
+      has_A: true, has_B: true, extruded: false, phase: 0, birth_time: 0, division_time: 10,
       is_running: false, running_mode: 0, has_inm: false,
       time_A: Infinity, time_B: Infinity, time_S: Infinity, time_P: Infinity, time_AC: Infinity,
       stiffness_apical_apical: 1.0, stiffness_straightness: 100.0,
@@ -454,11 +470,12 @@ describe('EHT Statistics - x position calculation', () => {
     cells.push({
       id: 1,
       typeIndex: 'control',
+      parent_id: null, generation: 0, birth_event: 'initial',
       pos: { x: 5, y: 5 },   // Nucleus at y=5 (same as cell 0)
       A: { x: 5, y: 4 },     // Apical LOWER than nucleus! (y=4 < y=5)
       B: { x: 5, y: 0 },
       R_soft: 1.2, R_hard: 0.4, eta_A: 2.5, eta_B: 2.5,
-      has_A: true, has_B: true, phase: 0, birth_time: 0, division_time: 10,
+      has_A: true, has_B: true, extruded: false, phase: 0, birth_time: 0, division_time: 10,
       is_running: false, running_mode: 0, has_inm: false,
       time_A: Infinity, time_B: Infinity, time_S: Infinity, time_P: Infinity, time_AC: Infinity,
       stiffness_apical_apical: 1.0, stiffness_straightness: 100.0,
@@ -469,11 +486,12 @@ describe('EHT Statistics - x position calculation', () => {
     cells.push({
       id: 2,
       typeIndex: 'control',
+      parent_id: null, generation: 0, birth_event: 'initial',
       pos: { x: 10, y: 5 },  // Nucleus at y=5
       A: { x: 10, y: 10 },   // Apical at y=10
       B: { x: 10, y: 0 },
       R_soft: 1.2, R_hard: 0.4, eta_A: 2.5, eta_B: 2.5,
-      has_A: true, has_B: true, phase: 0, birth_time: 0, division_time: 10,
+      has_A: true, has_B: true, extruded: false, phase: 0, birth_time: 0, division_time: 10,
       is_running: false, running_mode: 0, has_inm: false,
       time_A: Infinity, time_B: Infinity, time_S: Infinity, time_P: Infinity, time_AC: Infinity,
       stiffness_apical_apical: 1.0, stiffness_straightness: 100.0,
@@ -489,6 +507,9 @@ describe('EHT Statistics - x position calculation', () => {
       geometry: { curvature_1: 0, curvature_2: 0 },
       basalGeometry: new StraightLineGeometry(),
       rngSeed: 'test-seed',
+      next_cell_id: 0,
+      lineage: [],
+      events: [],
     };
 
     const params = createTestParams(['control']);
@@ -517,6 +538,7 @@ describe('EHT Statistics - x position calculation', () => {
     cells.push({
       id: 0,
       typeIndex: 'control',
+      parent_id: null, generation: 0, birth_event: 'initial',
       pos: { x: 10, y: 6 },  // Nucleus at 60% height
       A: { x: 10, y: 10 },   // Apical at height 10
       B: { x: 10, y: 0 },    // Basal on curve
@@ -526,6 +548,7 @@ describe('EHT Statistics - x position calculation', () => {
       eta_B: 2.5,
       has_A: true,
       has_B: true,
+      extruded: false,
       phase: 0,
       birth_time: 0,
       division_time: 10,
@@ -552,6 +575,9 @@ describe('EHT Statistics - x position calculation', () => {
       geometry: { curvature_1: 0, curvature_2: 0 },
       basalGeometry: new StraightLineGeometry(),
       rngSeed: 'test-seed',
+      next_cell_id: 0,
+      lineage: [],
+      events: [],
     };
 
     const params = createTestParams(['control']);
@@ -584,6 +610,7 @@ describe('EHT Statistics - Batch state reconstruction', () => {
       cells.push({
         id: i,
         typeIndex: 'control',
+        parent_id: null, generation: 0, birth_event: 'initial',
         pos: { x, y: 5 },     // Nucleus at mid-height
         A: { x, y: 10 },      // Apical at height 10
         B: { x, y: 0 },       // Basal on curve
@@ -593,6 +620,7 @@ describe('EHT Statistics - Batch state reconstruction', () => {
         eta_B: 2.5,
         has_A: true,
         has_B: true,
+        extruded: false,
         phase: 0,
         birth_time: 0,
         division_time: 10,
@@ -620,6 +648,9 @@ describe('EHT Statistics - Batch state reconstruction', () => {
       geometry: { curvature_1: 0, curvature_2: 0 },
       basalGeometry: new StraightLineGeometry(),
       rngSeed: 'test-seed',
+      next_cell_id: 0,
+      lineage: [],
+      events: [],
     };
 
     const params = createTestParams(['control']);
@@ -678,6 +709,7 @@ describe('EHT Statistics - Batch state reconstruction', () => {
       cells.push({
         id: i,
         typeIndex: 'control',
+        parent_id: null, generation: 0, birth_event: 'initial',
         pos: nucleusPos,
         A: apicalPoint,
         B: basalPoint,
@@ -687,6 +719,7 @@ describe('EHT Statistics - Batch state reconstruction', () => {
         eta_B: 2.5,
         has_A: true,
         has_B: true,
+        extruded: false,
         phase: 0,
         birth_time: 0,
         division_time: 10,
@@ -714,6 +747,9 @@ describe('EHT Statistics - Batch state reconstruction', () => {
       geometry: { curvature_1: curvature, curvature_2: curvature },
       basalGeometry: circularGeometry,
       rngSeed: 'test-seed',
+      next_cell_id: 0,
+      lineage: [],
+      events: [],
     };
 
     const params = createTestParams(['control']);
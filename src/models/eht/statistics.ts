@@ -7,13 +7,27 @@ import type { StatisticDefinition } from '@/core/registry/types';
 import type { EHTSimulationState, CellState } from './types';
 import type { EHTParams } from './params/types';
 import { Vector2 } from '@/core/math/vector2';
-import { createBasalGeometry } from '@/core/math';
-import { projectOntoApicalStrip, projectOntoBasalCurve } from './simulation/projections';
+import { resolveBasalGeometry, type BasalGeometry } from '@/core/math';
+import { projectOntoApicalStrip } from './simulation/projections';
+import {
+  DISTRIBUTION_METRICS,
+  aggregate,
+  aggregatorOutputs,
+  parseStatAggregators,
+  type Aggregator,
+  type DistributionMetric,
+} from './aggregators';
+import { compileCustomStatistics, customStatisticOutputs, type CompiledStatistic } from './customStatistics';
+import { countApicalSegments, countBasalOrderInversions, findLineGaps, tissueArcPosition } from './topology';
+import { compileCellGroups, type CompiledCellGroup } from './cellGroups';
+import { founderLookup } from './lineage';
+import { evaluateExpression } from '@/core/params/expression';
+import { getNestedValue } from '@/core/params/merge';
 
 /**
  * Per-cell computed values for statistics.
  */
-interface CellMetrics {
+export interface CellMetrics {
   cell: CellState;
   X: Vector2;    // Cell nucleus position
   A: Vector2;    // Apical point
@@ -28,35 +42,39 @@ interface CellMetrics {
   below_basal: boolean;         // x < 0
   above_apical: boolean;        // x > 1
   below_control_cells: boolean; // bx < lowest control cell's bx
-  isBoundary: boolean;          // Is this control cell in the boundary (left/right 10%)
+  isBoundary: boolean;          // Is this control cell in the boundary (left/right boundary_fraction)
   effectiveType: string;        // Effective type for statistics ('control_boundary' for boundary cells)
+  groups: Set<string>;          // Groups the cell is in ('all', its effective type and configured groups)
+}
+
+/** User-defined statistics and cell groups of a config, compiled once per params */
+export interface CompiledStatisticsConfig {
+  customStatistics: CompiledStatistic[];
+  cellGroups: CompiledCellGroup[];
 }
 
 /**
- * Get a working BasalGeometry instance from state.
- * Handles cases where state was cloned (structuredClone loses class methods).
+ * Compile the user-defined statistics and cell groups of a config, to pass
+ * to computeCellMetrics and computeEHTStatistics for every snapshot.
+ * @throws Error on invalid definitions
  */
-function getBasalGeometry(state: EHTSimulationState) {
-  // If basalGeometry has working methods, use it directly
-  if (typeof state.basalGeometry?.getArcLength === 'function') {
-    return state.basalGeometry;
-  }
-
-  // Otherwise, recreate from curvatures stored in geometry or basalGeometry
-  const curvature_1 = state.geometry?.curvature_1 ?? state.basalGeometry?.curvature_1 ?? 0;
-  const curvature_2 = state.geometry?.curvature_2 ?? state.basalGeometry?.curvature_2 ?? 0;
-
-  return createBasalGeometry(curvature_1, curvature_2, 360);
+export function compileStatisticsConfig(params: EHTParams): CompiledStatisticsConfig {
+  const cellTypes = Object.keys(params.cell_types);
+  return {
+    customStatistics: compileCustomStatistics(params.statistics, cellTypes),
+    cellGroups: compileCellGroups(params.groups, cellTypes),
+  };
 }
 
 /**
- * Identify boundary control cells (left/right 10% when full_circle = false).
+ * Identify boundary control cells (left/right boundary_fraction when full_circle = false).
  * For ellipse/circle geometries, use arc length along the basal curve.
  * Returns a Set of cell indices that are boundary cells.
  */
 function identifyBoundaryCells(
   state: EHTSimulationState,
-  params: EHTParams
+  params: EHTParams,
+  geometry: BasalGeometry
 ): Set<number> {
   const boundarySet = new Set<number>();
 
@@ -65,9 +83,6 @@ function identifyBoundaryCells(
     return boundarySet;
   }
 
-  // Get working geometry (handles cloned states)
-  const geometry = getBasalGeometry(state);
-
   // Find all control cells with their arc lengths
   const controlCells: { index: number; arcLength: number }[] = [];
 
@@ -88,15 +103,15 @@ function identifyBoundaryCells(
   // Sort by arc length to find leftmost and rightmost
   controlCells.sort((a, b) => a.arcLength - b.arcLength);
 
-  // Calculate 10% boundary threshold
-  const boundaryCount = Math.ceil(controlCells.length * 0.1);
+  // Number of boundary cells at each end
+  const boundaryCount = Math.ceil(controlCells.length * params.general.boundary_fraction);
 
-  // Mark left 10% as boundary
+  // Mark left cells as boundary
   for (let i = 0; i < boundaryCount && i < controlCells.length; i++) {
     boundarySet.add(controlCells[i].index);
   }
 
-  // Mark right 10% as boundary
+  // Mark right cells as boundary
   for (let i = Math.max(0, controlCells.length - boundaryCount); i < controlCells.length; i++) {
     boundarySet.add(controlCells[i].index);
   }
@@ -106,13 +121,21 @@ function identifyBoundaryCells(
 
 /**
  * Compute per-cell metrics for all cells.
+ * @param cellGroups - The configured groups, compiled from params if not given
  */
-function computeCellMetrics(state: EHTSimulationState, params: EHTParams): CellMetrics[] {
+export function computeCellMetrics(
+  state: EHTSimulationState,
+  params: EHTParams,
+  cellGroups: CompiledCellGroup[] = compileCellGroups(params.groups, Object.keys(params.cell_types))
+): CellMetrics[] {
   const cells = state.cells;
   const metrics: CellMetrics[] = [];
 
+  // Resolve the basal geometry once (handles cloned states)
+  const geometry = resolveBasalGeometry(state.basalGeometry, state.geometry);
+
   // Identify boundary control cells
-  const boundaryCells = identifyBoundaryCells(state, params);
+  const boundaryCells = identifyBoundaryCells(state, params, geometry);
 
   // First pass: compute basic metrics for each cell and track lowest control cell bx
   let lowestControlBx = Infinity;
@@ -125,7 +148,7 @@ function computeCellMetrics(state: EHTSimulationState, params: EHTParams): CellM
 
     // Project X onto apical strip and basal curve
     const a = projectOntoApicalStrip(X, state);
-    const b = projectOntoBasalCurve(X, state);
+    const b = geometry.projectPoint(X);
 
     // Compute distances
     const AX = A.dist(X);
@@ -174,6 +197,7 @@ function computeCellMetrics(state: EHTSimulationState, params: EHTParams): CellM
       below_control_cells: false, // Computed in second pass
       isBoundary,
       effectiveType,
+      groups: new Set(isBoundary ? [effectiveType] : ['all', effectiveType]),
     });
   }
 
@@ -184,15 +208,53 @@ function computeCellMetrics(state: EHTSimulationState, params: EHTParams): CellM
     m.below_control_cells = hasControlCells && m.bx < lowestControlBx;
   }
 
+  // Third pass: configured groups (boundary cells are left out, as from 'all')
+  const cellTypes = Object.keys(params.cell_types);
+  if (cellGroups.length > 0) {
+    const founderOf = founderLookup(state);
+    for (const m of metrics) {
+      if (m.isBoundary) continue;
+      const arcPosition = tissueArcPosition(geometry, m.B);
+      for (const group of cellGroups) {
+        if (inCellGroup(m, group, arcPosition, founderOf, state, cellTypes)) {
+          m.groups.add(group.id);
+        }
+      }
+    }
+  }
+
   return metrics;
 }
 
+/**
+ * Whether a cell matches every predicate of a configured group.
+ * @param arcPosition - Arc length of the cell's basal point from the tissue center
+ */
+function inCellGroup(
+  m: CellMetrics,
+  group: CompiledCellGroup,
+  arcPosition: number,
+  founderOf: (cellId: number) => number,
+  state: EHTSimulationState,
+  cellTypes: string[]
+): boolean {
+  const { cell } = m;
+  if (group.types && !group.types.has(cell.typeIndex)) return false;
+  if (group.arcLength && (arcPosition < group.arcLength[0] || arcPosition > group.arcLength[1])) return false;
+  if (group.has_A !== undefined && cell.has_A !== group.has_A) return false;
+  if (group.has_B !== undefined && cell.has_B !== group.has_B) return false;
+  if (group.phases && !group.phases.has(cell.phase)) return false;
+  if (group.founders && !group.founders.has(founderOf(cell.id))) return false;
+  if (group.filter && evaluateExpression(group.filter, (path) => cellField(m, path, state, cellTypes)) === 0) return false;
+  return true;
+}
+
 /**
  * Generate all cell groups for statistics.
- * Returns: individual types + "all"
+ * Returns: "all" + individual types + configured groups ([[groups]])
  * Note: Pair combinations are not computed.
  */
-function generateCellGroups(params: EHTParams): string[] {
+export function generateCellGroups(params: EHTParams): string[] {
   const cellTypeKeys = Object.keys(params.cell_types);
   const groups: string[] = [];
 
@@ -204,22 +266,34 @@ function generateCellGroups(params: EHTParams): string[] {
     groups.push(typeKey);
   }
 
+  // Add configured groups
+  for (const group of params.groups ?? []) {
+    groups.push(group.id);
+  }
+
   return groups;
 }
 
 /**
  * Filter metrics by cell group.
+ * 'all' excludes control_boundary cells; cell types match the effective type.
  */
-function filterByGroup(metrics: CellMetrics[], group: string): CellMetrics[] {
-  if (group === 'all') {
-    // Exclude control_boundary from 'all' group
-    return metrics.filter(m => m.effectiveType !== 'control_boundary');
-  }
-
-  // Single type (use effectiveType for filtering)
-  return metrics.filter(m => m.effectiveType === group);
+export function filterByGroup(metrics: CellMetrics[], group: string): CellMetrics[] {
+  return metrics.filter(m => m.groups.has(group));
 }
 
+/**
+ * Per-cell values of the metrics that have distributions.
+ */
+const METRIC_VALUES: Record<DistributionMetric, (m: CellMetrics) => number> = {
+  ab_distance: m => m.A.dist(m.B),
+  AX: m => m.AX,
+  BX: m => m.BX,
+  ax: m => m.ax,
+  bx: m => m.bx,
+  x: m => m.x,
+};
+
 /**
  * Compute aggregated statistics for a group of cells.
  */
@@ -242,25 +316,131 @@ function aggregateMetrics(metrics: CellMetrics[]): Record<string, number> {
   const fraction = (values: boolean[]) => values.filter(v => v).length / values.length;
 
   return {
-    ab_distance: mean(metrics.map(m => m.A.dist(m.B))),
-    AX: mean(metrics.map(m => m.AX)),
-    BX: mean(metrics.map(m => m.BX)),
-    ax: mean(metrics.map(m => m.ax)),
-    bx: mean(metrics.map(m => m.bx)),
-    x: mean(metrics.map(m => m.x)),
+    ab_distance: mean(metrics.map(METRIC_VALUES.ab_distance)),
+    AX: mean(metrics.map(METRIC_VALUES.AX)),
+    BX: mean(metrics.map(METRIC_VALUES.BX)),
+    ax: mean(metrics.map(METRIC_VALUES.ax)),
+    bx: mean(metrics.map(METRIC_VALUES.bx)),
+    x: mean(metrics.map(METRIC_VALUES.x)),
     below_basal: fraction(metrics.map(m => m.below_basal)),
     above_apical: fraction(metrics.map(m => m.above_apical)),
     below_control_cells: fraction(metrics.map(m => m.below_control_cells)),
   };
 }
 
+/**
+ * Compute the configured distribution statistics (median, percentiles,
+ * histogram bins, ...) for a group of cells, keyed like "bx_median".
+ */
+function aggregateDistributions(
+  metrics: CellMetrics[],
+  aggregators: Partial<Record<DistributionMetric, Aggregator[]>>
+): Record<string, number> {
+  const result: Record<string, number> = {};
+
+  for (const metric of DISTRIBUTION_METRICS) {
+    const metricAggregators = aggregators[metric];
+    if (!metricAggregators) continue;
+
+    const values = metrics.map(METRIC_VALUES[metric]);
+    for (const aggregator of metricAggregators) {
+      const outputs = aggregatorOutputs(aggregator);
+      aggregate(aggregator, values).forEach((value, i) => {
+        result[`${metric}_${outputs[i].suffix}`] = value;
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Value of a cell field in a user-defined statistic expression
+ * (booleans read as 1 and 0).
+ */
+function cellField(m: CellMetrics, path: string, state: EHTSimulationState, cellTypes: string[]): number {
+  if (path === 'typeIndex') return cellTypes.indexOf(m.cell.typeIndex);
+  if (path === 'age') return state.t - m.cell.birth_time;
+  if (path === 't') return state.t;
+  if (path.startsWith('type.')) return m.cell.typeIndex === path.slice(5) ? 1 : 0;
+  if (path === 'ab_distance') return m.A.dist(m.B);
+
+  const value = path in m && !path.includes('.') ? m[path as keyof CellMetrics] : getNestedValue(m.cell, path);
+  return typeof value === 'boolean' ? (value ? 1 : 0) : Number(value);
+}
+
+/**
+ * Compute user-defined statistics for a group of cells, keyed by their ids.
+ */
+function aggregateCustomStatistics(
+  metrics: CellMetrics[],
+  statistics: CompiledStatistic[],
+  state: EHTSimulationState,
+  cellTypes: string[]
+): Record<string, number> {
+  const result: Record<string, number> = {};
+
+  for (const stat of statistics) {
+    const lookup = (m: CellMetrics) => (path: string) => cellField(m, path, state, cellTypes);
+    const cells = stat.filter
+      ? metrics.filter(m => evaluateExpression(stat.filter!, lookup(m)) !== 0)
+      : metrics;
+    const values = cells.map(m => evaluateExpression(stat.value, lookup(m)));
+
+    const outputs = customStatisticOutputs(stat);
+    aggregate(stat.aggregator, values).forEach((value, i) => {
+      result[outputs[i].id] = value;
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Count the cells of a group that died by apoptosis or were removed
+ * (uses the original cell type; boundary cells are not tracked once removed).
+ * The lineage only keeps the type and ancestry of lost cells, so configured
+ * groups with other predicates give NaN. States loaded from snapshot rows
+ * only keep the counts per type, so founder groups give NaN there too.
+ */
+function countRemovedCells(
+  state: EHTSimulationState,
+  group: string,
+  type: 'apoptosis' | 'removal',
+  cellGroups: CompiledCellGroup[],
+  founderOf: (cellId: number) => number
+): number {
+  const cellGroup = cellGroups.find(g => g.id === group);
+  let types = group === 'all' ? undefined : new Set([group]);
+  if (cellGroup) {
+    const { arcLength, has_A, has_B, phases, filter } = cellGroup;
+    if (arcLength || has_A !== undefined || has_B !== undefined || phases || filter) return NaN;
+    types = cellGroup.types;
+  }
+
+  if (state.losses) {
+    if (cellGroup?.founders) return NaN;
+    return Object.entries(state.losses[type])
+      .filter(([cellType]) => !types || types.has(cellType))
+      .reduce((sum, [, count]) => sum + count, 0);
+  }
+
+  return state.lineage.filter(
+    e => e.type === type &&
+      (!types || types.has(e.cell_type)) &&
+      (!cellGroup?.founders || cellGroup.founders.has(founderOf(e.cell_id)))
+  ).length;
+}
+
 /**
  * Compute statistics for all groups.
  * Returns a flat record with keys like "ab_distance_all", "AX_control", etc.
+ * @param compiled - The config's custom statistics and groups, compiled from params if not given
  */
 export function computeEHTStatistics(
   state: EHTSimulationState,
-  params?: EHTParams
+  params?: EHTParams,
+  compiled?: CompiledStatisticsConfig
 ): Record<string, number> {
   const result: Record<string, number> = {};
 
@@ -275,20 +455,52 @@ export function computeEHTStatistics(
 
   try {
     // Compute per-cell metrics
-    const cellMetrics = computeCellMetrics(state, params);
+    const { customStatistics, cellGroups } = compiled ?? compileStatisticsConfig(params);
+    const cellMetrics = computeCellMetrics(state, params, cellGroups);
 
     // Generate all groups
     const groups = generateCellGroups(params);
+    const aggregators = parseStatAggregators(params.general.stat_aggregators);
+    const cellTypes = Object.keys(params.cell_types);
+    const founderOf = founderLookup(state);
+
+    // Length of the basal membrane (0 for a straight line), the same for every group
+    const geometry = resolveBasalGeometry(state.basalGeometry, state.geometry);
+    const basalPerimeter = Number.isFinite(geometry.perimeter) ? geometry.perimeter : 0;
+
+    const { gap_threshold, full_circle } = params.general;
 
     // Compute statistics for each group
     for (const group of groups) {
       const groupMetrics = filterByGroup(cellMetrics, group);
-      const stats = aggregateMetrics(groupMetrics);
+      const stats = {
+        ...aggregateMetrics(groupMetrics),
+        ...aggregateDistributions(groupMetrics, aggregators),
+        ...aggregateCustomStatistics(groupMetrics, customStatistics, state, cellTypes),
+      };
 
       // Add to result with group suffix
       for (const [statName, value] of Object.entries(stats)) {
         result[`${statName}_${group}`] = value;
       }
+
+      // Population size and cumulative cell losses
+      result[`cell_count_${group}`] = groupMetrics.length;
+      result[`apoptosis_count_${group}`] = countRemovedCells(state, group, 'apoptosis', cellGroups, founderOf);
+      result[`removed_count_${group}`] = countRemovedCells(state, group, 'removal', cellGroups, founderOf);
+      result[`basal_perimeter_${group}`] = basalPerimeter;
+
+      // Neighbor topology around the group's cells
+      const groupCells = new Set(groupMetrics.map(m => m.cell));
+      const inGroup = (i: number) => groupCells.has(state.cells[i]);
+      const apicalGaps = findLineGaps(state, geometry, 'apical', gap_threshold, full_circle, inGroup);
+      const basalGaps = findLineGaps(state, geometry, 'basal', gap_threshold, full_circle, inGroup);
+      result[`apical_segments_${group}`] = countApicalSegments(state, inGroup);
+      result[`apical_gap_count_${group}`] = apicalGaps.count;
+      result[`apical_gap_length_${group}`] = apicalGaps.length;
+      result[`basal_gap_count_${group}`] = basalGaps.count;
+      result[`basal_gap_length_${group}`] = basalGaps.length;
+      result[`basal_order_inversions_${group}`] = countBasalOrderInversions(state, geometry, inGroup);
     }
   } catch (e) {
     console.error('Failed to compute EHT statistics', e);
@@ -349,16 +561,51 @@ export function generateEHTStatistics(params: EHTParams): StatisticDefinition<EH
     { id: 'below_basal', label: 'Below Basal', description: 'Fraction of cells below basal layer' },
     { id: 'above_apical', label: 'Above Apical', description: 'Fraction of cells above apical layer' },
     { id: 'below_control_cells', label: 'Below Control Cells', description: 'Fraction of cells below the lowest control cell' },
+    { id: 'cell_count', label: 'Cell Count', description: 'Number of cells' },
+    { id: 'apoptosis_count', label: 'Apoptoses', description: 'Cumulative number of apoptotic deaths' },
+    { id: 'removed_count', label: 'Removed Cells', description: 'Cumulative number of detached cells removed' },
+    { id: 'basal_perimeter', label: 'Basal Perimeter', description: 'Length of the basal membrane (0 for a straight line)' },
+    { id: 'apical_segments', label: 'Apical Segments', description: 'Number of connected segments of the apical strip containing cells of the group' },
+    { id: 'apical_gap_count', label: 'Apical Gaps', description: 'Number of gaps along the apical line bordered by cells of the group' },
+    { id: 'apical_gap_length', label: 'Apical Gap Length', description: 'Total length of the gaps along the apical line bordered by cells of the group' },
+    { id: 'basal_gap_count', label: 'Basal Gaps', description: 'Number of gaps along the basal line bordered by cells of the group' },
+    { id: 'basal_gap_length', label: 'Basal Gap Length', description: 'Total length of the gaps along the basal line bordered by cells of the group' },
+    { id: 'basal_order_inversions', label: 'Basal Order Inversions', description: 'Number of cell pairs out of order along the basal arc involving cells of the group' },
   ];
 
+  // Configured distributions of per-cell metrics (median, percentiles, histogram bins, ...)
+  const aggregators = parseStatAggregators(params.general.stat_aggregators);
+  for (const metric of DISTRIBUTION_METRICS) {
+    const base = statNames.find(s => s.id === metric)!;
+    for (const aggregator of aggregators[metric] ?? []) {
+      for (const output of aggregatorOutputs(aggregator)) {
+        statNames.push({
+          id: `${metric}_${output.suffix}`,
+          label: `${base.label} ${output.label}`,
+          description: `${base.description} (${output.description.toLowerCase()})`,
+        });
+      }
+    }
+  }
+
+  // User-defined statistics ([[statistics]] in the config)
+  const customStatistics = compileCustomStatistics(params.statistics, Object.keys(params.cell_types));
+  for (const stat of customStatistics) {
+    statNames.push(...customStatisticOutputs(stat));
+  }
+
+  // Cell groups are compiled on first use (the schema reports invalid ones)
+  let compiled: CompiledStatisticsConfig | undefined;
   for (const group of groups) {
     for (const stat of statNames) {
       stats.push({
         id: `${stat.id}_${group}`,
         label: `${stat.label} (${group})`,
         description: `${stat.description} for ${group} cells`,
+        group,
         compute: (s) => {
-          const result = computeEHTStatistics(s, params);
+          compiled ??= { customStatistics, cellGroups: compileCellGroups(params.groups, Object.keys(params.cell_types)) };
+          const result = computeEHTStatistics(s, params, compiled);
           return result[`${stat.id}_${group}`] || 0;
         },
       });
@@ -0,0 +1,109 @@
+/**
+ * Tests for EHT neighbor topology (segments, gaps, basal order).
+ */
+import { describe, it, expect } from 'vitest';
+import { EHTModel } from './index';
+import { createDefaultEHTParams } from './params/defaults';
+import type { EHTParams } from './params/types';
+import { Vector2 } from '@/core/math/vector2';
+import {
+  apicalNeighborPairs,
+  countApicalSegments,
+  countBasalOrderInversions,
+  findLineGaps,
+} from './topology';
+
+function createState(fullCircle: boolean, configure?: (params: EHTParams) => void) {
+  const params = createDefaultEHTParams();
+  params.general.full_circle = fullCircle;
+  configure?.(params);
+  const state = EHTModel.init(params, 'topology-test');
+  return { state, params, geometry: state.basalGeometry };
+}
+
+describe('EHT topology', () => {
+  for (const fullCircle of [false, true]) {
+    it(`should find an intact epithelium at t=0 (full_circle = ${fullCircle})`, () => {
+      const { state, params, geometry } = createState(fullCircle);
+      const threshold = params.general.gap_threshold;
+
+      expect(countApicalSegments(state)).toBe(1);
+      expect(findLineGaps(state, geometry, 'apical', threshold, fullCircle)).toEqual({ count: 0, length: 0 });
+      expect(findLineGaps(state, geometry, 'basal', threshold, fullCircle)).toEqual({ count: 0, length: 0 });
+      expect(countBasalOrderInversions(state, geometry)).toBe(0);
+    });
+  }
+
+  it('should split the apical strip where a link is cut', () => {
+    const { state } = createState(false);
+    const { l, r } = state.ap_links.splice(Math.floor(state.ap_links.length / 2), 1)[0];
+
+    expect(countApicalSegments(state)).toBe(2);
+    expect(countApicalSegments(state, i => i === l)).toBe(1);
+    expect(countApicalSegments(state, i => i === l || i === r)).toBe(2);
+  });
+
+  it('should measure the gap left by cells without apical adhesion', () => {
+    const { state, params, geometry } = createState(false);
+    const middle = state.ba_links[Math.floor(state.ba_links.length / 2)];
+    const chain = [middle.l, middle.r];
+    chain.push(state.ba_links.find(link => link.l === middle.r)!.r);
+    const left = state.ba_links.find(link => link.r === middle.l)!.l;
+    const right = state.ba_links.find(link => link.l === chain[2])!.r;
+    for (const i of chain) state.cells[i].has_A = false;
+
+    const gaps = findLineGaps(state, geometry, 'apical', params.general.gap_threshold, false);
+    expect(gaps.count).toBe(1);
+    expect(gaps.length).toBeCloseTo(Vector2.from(state.cells[left].A).dist(Vector2.from(state.cells[right].A)), 10);
+
+    // Only groups with a cell bordering the gap see it
+    expect(findLineGaps(state, geometry, 'apical', params.general.gap_threshold, false, i => i === right)).toEqual(gaps);
+    expect(findLineGaps(state, geometry, 'apical', params.general.gap_threshold, false, i => i === chain[1]).count).toBe(0);
+
+    // Every spacing is a gap below the initial cell spacing
+    const adhered = state.cells.filter(c => c.has_B).length;
+    expect(findLineGaps(state, geometry, 'basal', 0.1, false).count).toBe(adhered - 1);
+  });
+
+  it('should not wrap around the ends of an open basal curve', () => {
+    // Open line a little longer than the tissue, so the empty arc between
+    // its ends is narrower than the gap in the middle
+    const { state, params, geometry } = createState(false, (p) => {
+      p.general.basal_curve = { points: [[-45, 0], [45, 0]], interpolation: 'linear', closed: false };
+    });
+    const threshold = params.general.gap_threshold;
+    expect(findLineGaps(state, geometry, 'basal', threshold, false)).toEqual({ count: 0, length: 0 });
+    expect(countBasalOrderInversions(state, geometry)).toBe(0);
+
+    const middle = state.ba_links[Math.floor(state.ba_links.length / 2)];
+    const chain = [middle.l];
+    while (chain.length < 5) chain.push(state.ba_links.find(link => link.l === chain[chain.length - 1])!.r);
+    const left = state.ba_links.find(link => link.r === chain[0])!.l;
+    const right = state.ba_links.find(link => link.l === chain[chain.length - 1])!.r;
+    for (const i of chain) state.cells[i].has_B = false;
+
+    const gaps = findLineGaps(state, geometry, 'basal', threshold, false);
+    expect(gaps.count).toBe(1);
+    expect(gaps.length).toBeCloseTo(Vector2.from(state.cells[left].B).dist(Vector2.from(state.cells[right].B)), 10);
+  });
+
+  it('should count swapped nuclei as an order inversion', () => {
+    const { state, geometry } = createState(false);
+    const { l, r } = state.ba_links[5];
+    [state.cells[l].pos, state.cells[r].pos] = [state.cells[r].pos, state.cells[l].pos];
+
+    expect(countBasalOrderInversions(state, geometry)).toBe(1);
+    expect(countBasalOrderInversions(state, geometry, i => i === r)).toBe(1);
+    expect(countBasalOrderInversions(state, geometry, i => i !== l && i !== r)).toBe(0);
+  });
+
+  it('should key apical neighbor pairs by cell id', () => {
+    const { state } = createState(false);
+    const pairs = apicalNeighborPairs(state);
+
+    expect(pairs.size).toBe(state.ap_links.length);
+    const { l, r } = state.ap_links[0];
+    const [a, b] = [state.cells[l].id, state.cells[r].id].sort((x, y) => x - y);
+    expect(pairs.has(`${a}:${b}`)).toBe(true);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Neighbor topology of the EHT epithelium, read off the apical and basal
+ * links (ap_links, ba_links): connected apical segments, gaps along the
+ * apical and basal lines, and the order of cells along the basal arc.
+ * Used by the statistics to quantify how much EMT disrupts the tissue.
+ */
+
+import { Vector2 } from '@/core/math/vector2';
+import type { BasalGeometry } from '@/core/math';
+import type { EHTSimulationState } from './types';
+
+/** Gaps between neighboring cells along a line */
+export interface LineGaps {
+  count: number;
+  length: number; // Total distance between the cells bordering the gaps
+}
+
+/**
+ * Number of connected apical segments: components of the apical link graph
+ * among cells with apical adhesion (an unlinked adherent cell is a segment).
+ * @param inGroup - Only count segments with at least one cell for which this is true
+ */
+export function countApicalSegments(
+  state: EHTSimulationState,
+  inGroup: (cellIndex: number) => boolean = () => true
+): number {
+  const parent = state.cells.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  for (const link of state.ap_links) {
+    parent[find(link.l)] = find(link.r);
+  }
+
+  const segments = new Set<number>();
+  state.cells.forEach((cell, i) => {
+    if (cell.has_A && inGroup(i)) segments.add(find(i));
+  });
+  return segments.size;
+}
+
+/**
+ * Sign of getArcLength along getPointAtArcLength, the direction in which
+ * cells are laid out (the two run opposite ways on some curves).
+ */
+function arcDirection(geometry: BasalGeometry): number {
+  let ds = geometry.getArcLength(geometry.getPointAtArcLength(1)) - geometry.getArcLength(geometry.getPointAtArcLength(0));
+  if (geometry.closed) {
+    ds -= geometry.perimeter * Math.round(ds / geometry.perimeter);
+  }
+  return ds < 0 ? -1 : 1;
+}
+
+/**
+ * Position along the basal arc in the direction cells are laid out, measured
+ * on closed curves from 0 to the perimeter and on open curves as is.
+ */
+function arcPosition(geometry: BasalGeometry, point: Vector2): number {
+  const s = arcDirection(geometry) * geometry.getArcLength(geometry.projectPoint(point));
+  if (!geometry.closed) return s;
+  return ((s % geometry.perimeter) + geometry.perimeter) % geometry.perimeter;
+}
+
+/**
+ * Arc length from the tissue center to a point's projection on the basal
+ * curve, in the direction cells are laid out (negative to the left).
+ * The center is where initializeEHTSimulation centers the tissue: 0 on a
+ * line, halfway along custom curves and the top of ellipses. On closed
+ * curves the result lies within half a perimeter of the center.
+ */
+export function tissueArcPosition(geometry: BasalGeometry, point: Vector2): number {
+  const isCustom = geometry.type === 'polyline' || geometry.type === 'spline';
+  const centerArcLength = !Number.isFinite(geometry.perimeter) ? 0 : geometry.perimeter / (isCustom ? 2 : 4);
+  const s = arcPosition(geometry, point) - arcPosition(geometry, geometry.getPointAtArcLength(centerArcLength));
+  if (!geometry.closed) return s;
+  return s - geometry.perimeter * Math.round(s / geometry.perimeter);
+}
+
+/**
+ * Gaps along the apical or basal line: cells adhering to the line are
+ * ordered along the basal arc, and neighbors whose apical (basal) points are
+ * farther apart than the threshold border a gap. On a full circle the last
+ * and first cells are neighbors too; a tissue that does not close on a closed
+ * curve ends at the widest empty arc between its cells.
+ * @param inGroup - Only count gaps bordered by a cell for which this is true
+ */
+export function findLineGaps(
+  state: EHTSimulationState,
+  geometry: BasalGeometry,
+  line: 'apical' | 'basal',
+  threshold: number,
+  fullCircle: boolean,
+  inGroup: (cellIndex: number) => boolean = () => true
+): LineGaps {
+  const points = state.cells
+    .map((cell, index) => ({ cell, index }))
+    .filter(({ cell }) => (line === 'apical' ? cell.has_A : cell.has_B))
+    .map(({ cell, index }) => ({ index, point: Vector2.from(line === 'apical' ? cell.A : cell.B) }))
+    .map(p => ({ ...p, s: arcPosition(geometry, p.point) }))
+    .sort((a, b) => a.s - b.s);
+
+  // Index of the first cell after the open end
+  let start = 0;
+  if (geometry.closed && !fullCircle) {
+    let widest = -Infinity;
+    points.forEach((p, i) => {
+      const next = points[(i + 1) % points.length];
+      const arc = ((next.s - p.s) % geometry.perimeter + geometry.perimeter) % geometry.perimeter;
+      if (arc > widest) {
+        widest = arc;
+        start = (i + 1) % points.length;
+      }
+    });
+  }
+
+  const gaps: LineGaps = { count: 0, length: 0 };
+  const pairs = fullCircle && points.length > 2 ? points.length : points.length - 1;
+  for (let k = 0; k < pairs; k++) {
+    const a = points[(start + k) % points.length];
+    const b = points[(start + k + 1) % points.length];
+    const distance = a.point.dist(b.point);
+    if (distance > threshold && (inGroup(a.index) || inGroup(b.index))) {
+      gaps.count++;
+      gaps.length += distance;
+    }
+  }
+  return gaps;
+}
+
+/**
+ * Chains of cell indices along the basal links, from left to right.
+ * A closed chain (full circle) starts at its lowest cell index.
+ */
+function basalChains(state: EHTSimulationState): number[][] {
+  const right = new Map<number, number>();
+  const hasLeft = new Set<number>();
+  for (const link of state.ba_links) {
+    right.set(link.l, link.r);
+    hasLeft.add(link.r);
+  }
+
+  const visited = new Set<number>();
+  const chains: number[][] = [];
+  const walk = (start: number) => {
+    const chain: number[] = [];
+    for (let i: number | undefined = start; i !== undefined && !visited.has(i); i = right.get(i)) {
+      visited.add(i);
+      chain.push(i);
+    }
+    chains.push(chain);
+  };
+
+  // Open chains start at cells without a left neighbor, closed ones anywhere
+  for (const start of right.keys()) {
+    if (!hasLeft.has(start)) walk(start);
+  }
+  for (const start of [...right.keys()].sort((a, b) => a - b)) {
+    if (!visited.has(start)) walk(start);
+  }
+  return chains;
+}
+
+/**
+ * Number of cell-order inversions along the basal arc: pairs of cells whose
+ * order along the basal links differs from the order of their nuclei along
+ * the basal arc. On closed curves positions are measured from the first cell
+ * of each chain.
+ * @param inGroup - Only count pairs with at least one cell for which this is true
+ */
+export function countBasalOrderInversions(
+  state: EHTSimulationState,
+  geometry: BasalGeometry,
+  inGroup: (cellIndex: number) => boolean = () => true
+): number {
+  let inversions = 0;
+
+  for (const chain of basalChains(state)) {
+    const positions = chain.map(i => arcPosition(geometry, Vector2.from(state.cells[i].pos)));
+    if (geometry.closed) {
+      const { perimeter } = geometry;
+      const start = positions[0];
+      for (let k = 0; k < positions.length; k++) {
+        positions[k] = (((positions[k] - start) % perimeter) + perimeter) % perimeter;
+      }
+    }
+
+    for (let a = 0; a < chain.length; a++) {
+      for (let b = a + 1; b < chain.length; b++) {
+        if (positions[a] > positions[b] && (inGroup(chain[a]) || inGroup(chain[b]))) {
+          inversions++;
+        }
+      }
+    }
+  }
+
+  return inversions;
+}
+
+/**
+ * Apical neighbor pairs by cell id, as "<lower id>:<higher id>" keys.
+ */
+export function apicalNeighborPairs(state: EHTSimulationState): Set<string> {
+  const pairs = new Set<string>();
+  for (const link of state.ap_links) {
+    const a = state.cells[link.l].id;
+    const b = state.cells[link.r].id;
+    pairs.add(a < b ? `${a}:${b}` : `${b}:${a}`);
+  }
+  return pairs;
+}
@@ -0,0 +1,101 @@
+/**
+ * Tests for EHT trajectory statistics (first-passage times, durations).
+ */
+import { describe, it, expect } from 'vitest';
+import { EHTModel } from './index';
+import { createDefaultEHTParams } from './params/defaults';
+import { computeEHTStatistics } from './statistics';
+import { generateEHTTrajectoryStatistics } from './trajectoryStatistics';
+import type { EHTSimulationState } from './types';
+import { SimulationEngine } from '@/core/simulation/engine';
+
+function runTracked(tEnd: number) {
+  const params = createDefaultEHTParams();
+  params.general.random_seed = 0;
+  params.general.t_end = tEnd;
+  const engine = new SimulationEngine({ model: EHTModel, params });
+  engine.trackTrajectoryStatistics();
+
+  // Fraction of EMT cells below the basal layer after every step
+  const belowBasal: { t: number; fraction: number }[] = [];
+  const record = () => {
+    const stats = computeEHTStatistics(engine.getState(), params);
+    belowBasal.push({ t: engine.getTime(), fraction: stats['below_basal_emt'] });
+  };
+  record();
+  engine.runUntil(tEnd, { onStep: record });
+
+  return { engine, params, belowBasal };
+}
+
+describe('EHT trajectory statistics', () => {
+  const { engine, params, belowBasal } = runTracked(16);
+  const stats = engine.getTrajectoryStatistics();
+
+  it('should define every statistic for every group', () => {
+    const ids = generateEHTTrajectoryStatistics(params).map((s) => s.id);
+    for (const group of ['all', 'control', 'emt']) {
+      for (const name of ['half_below_basal_time', 'adhesion_loss_interval', 'apical_residence_time', 'neighbor_exchange_rate']) {
+        expect(ids).toContain(`${name}_${group}`);
+        expect(stats).toHaveProperty(`${name}_${group}`);
+      }
+    }
+  });
+
+  it('should report the first time half of the cells are below the basal layer', () => {
+    const first = belowBasal.find((s) => s.fraction >= 0.5);
+    expect(first).toBeDefined();
+    expect(stats['half_below_basal_time_emt']).toBe(first!.t);
+    expect(stats['half_below_basal_time_control']).toBeNaN();
+  });
+
+  it('should average the time from apical to basal adhesion loss', () => {
+    const events = engine.getEvents();
+    const emtIds = new Set(engine.getState().cells.filter((c) => c.typeIndex === 'emt').map((c) => c.id));
+    // Only cells that lost apical adhesion first
+    const intervals: number[] = [];
+    for (const e of events) {
+      const apical = events.find((a) => a.type === 'lose_apical' && a.cell_id === e.cell_id && a.t <= e.t);
+      if (e.type === 'lose_basal' && emtIds.has(e.cell_id) && apical) intervals.push(e.t - apical.t);
+    }
+
+    expect(intervals.length).toBeGreaterThan(0);
+    expect(stats['adhesion_loss_interval_emt']).toBeCloseTo(intervals.reduce((a, b) => a + b, 0) / intervals.length, 10);
+  });
+
+  it('should integrate the time spent above the apical layer', () => {
+    expect(stats['apical_residence_time_control']).toBe(0);
+    expect(stats['apical_residence_time_emt']).toBeGreaterThan(0);
+    expect(stats['apical_residence_time_emt']).toBeLessThanOrEqual(engine.getTime());
+  });
+
+  it('should count neighbor exchanges per hour but not bridges over detached cells', () => {
+    const params = createDefaultEHTParams();
+    const exchangeRate = () => {
+      const definition = generateEHTTrajectoryStatistics(params).find((s) => s.id === 'neighbor_exchange_rate_all')!;
+      const state = EHTModel.init(params, 'exchange-test');
+      const observer = definition.create(params);
+      observer.observe(state);
+      return { state, observer };
+    };
+    const relink = (state: EHTSimulationState, links: [number, number][]) => {
+      state.ap_links = state.ap_links.filter((link) => link.l > 3 || link.r > 3);
+      state.ap_links.push(...links.map(([l, r]) => ({ l, r, rl: 1 })));
+      state.t = 2;
+      state.step_count++;
+    };
+
+    // Cells 1 and 2 swap places: 0-2 and 1-3 become neighbors
+    const swapped = exchangeRate();
+    relink(swapped.state, [[0, 2], [2, 1], [1, 3]]);
+    swapped.observer.observe(swapped.state);
+    expect(swapped.observer.result()).toBe(1);
+
+    // Cell 1 leaves the apical line and its neighbors close the gap
+    const bridged = exchangeRate();
+    bridged.state.cells[1].has_A = false;
+    relink(bridged.state, [[0, 2], [2, 3]]);
+    bridged.observer.observe(bridged.state);
+    expect(bridged.observer.result()).toBe(0);
+  });
+});
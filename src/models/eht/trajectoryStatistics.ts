@@ -0,0 +1,202 @@
+/**
+ * EHT trajectory statistics: values of a whole run (first-passage times,
+ * durations) that are reported once per run instead of per snapshot.
+ * The engine passes every state of the run to each observer.
+ */
+
+import type { TrajectoryObserver, TrajectoryStatisticDefinition } from '@/core/interfaces/model';
+import type { EHTSimulationState } from './types';
+import type { EHTParams } from './params/types';
+import { computeCellMetrics, filterByGroup, generateCellGroups, type CellMetrics } from './statistics';
+import { compileCellGroups, type CompiledCellGroup } from './cellGroups';
+import { apicalNeighborPairs } from './topology';
+
+type EHTTrajectoryObserver = TrajectoryObserver<EHTSimulationState>;
+
+/** Parameters of an observed run, with its cell groups compiled when the run starts */
+interface ObservedRun {
+  params: EHTParams;
+  cellGroups: CompiledCellGroup[];
+}
+
+/**
+ * Cell metrics of the last observed state, shared by all observers of a run
+ * so that they are computed once per step.
+ */
+const metricsCache = new WeakMap<EHTSimulationState, { step: number; t: number; metrics: CellMetrics[] }>();
+
+function observedMetrics(state: EHTSimulationState, run: ObservedRun): CellMetrics[] {
+  const cached = metricsCache.get(state);
+  if (cached && cached.step === state.step_count && cached.t === state.t) {
+    return cached.metrics;
+  }
+  const metrics = computeCellMetrics(state, run.params, run.cellGroups);
+  metricsCache.set(state, { step: state.step_count, t: state.t, metrics });
+  return metrics;
+}
+
+/**
+ * First time at which at least half of the group's cells are below the basal
+ * layer (NaN if that never happens).
+ */
+function halfBelowBasalTime(run: ObservedRun, group: string): EHTTrajectoryObserver {
+  let time = NaN;
+  return {
+    observe(state) {
+      if (!Number.isNaN(time)) return;
+      const cells = filterByGroup(observedMetrics(state, run), group);
+      const below = cells.filter(m => m.below_basal).length;
+      if (cells.length > 0 && below >= cells.length / 2) {
+        time = state.t;
+      }
+    },
+    result: () => time,
+  };
+}
+
+/**
+ * Mean time from a cell's apical adhesion loss to its basal adhesion loss,
+ * from the event log (NaN if no cell of the group lost both).
+ * Cells count for the group they are in when they lose basal adhesion.
+ */
+function adhesionLossInterval(run: ObservedRun, group: string): EHTTrajectoryObserver {
+  const apicalLoss = new Map<number, number>();
+  const intervals: number[] = [];
+  let seenEvents = 0;
+  return {
+    observe(state) {
+      if (state.events.length === seenEvents) return;
+      const inGroup = new Set(filterByGroup(observedMetrics(state, run), group).map(m => m.cell.id));
+      for (let i = seenEvents; i < state.events.length; i++) {
+        const event = state.events[i];
+        if (event.type === 'lose_apical') {
+          apicalLoss.set(event.cell_id, event.t);
+        } else if (event.type === 'lose_basal' && apicalLoss.has(event.cell_id) && inGroup.has(event.cell_id)) {
+          intervals.push(event.t - apicalLoss.get(event.cell_id)!);
+        }
+      }
+      seenEvents = state.events.length;
+    },
+    result: () => intervals.length > 0 ? intervals.reduce((a, b) => a + b, 0) / intervals.length : NaN,
+  };
+}
+
+/**
+ * Mean time the group's cells spent above the apical layer, over all cells
+ * ever seen in the group (0 for an empty group).
+ */
+function apicalResidenceTime(run: ObservedRun, group: string): EHTTrajectoryObserver {
+  const residence = new Map<number, number>();
+  let lastTime: number | undefined;
+  return {
+    observe(state) {
+      const dt = lastTime === undefined ? 0 : state.t - lastTime;
+      lastTime = state.t;
+      for (const m of filterByGroup(observedMetrics(state, run), group)) {
+        residence.set(m.cell.id, (residence.get(m.cell.id) ?? 0) + (m.above_apical ? dt : 0));
+      }
+    },
+    result: () => {
+      if (residence.size === 0) return 0;
+      let total = 0;
+      for (const time of residence.values()) total += time;
+      return total / residence.size;
+    },
+  };
+}
+
+/**
+ * Rate of T1-like neighbor exchanges (per hour): apical neighbor pairs formed
+ * between two cells that were both in the apical line before. Pairs bridging
+ * a common neighbor that left the line (detachment, removal) are not exchanges.
+ * A pair counts for the group if either cell is in it.
+ */
+function neighborExchangeRate(run: ObservedRun, group: string): EHTTrajectoryObserver {
+  let previous: { pairs: Set<string>; inLine: Set<number>; neighbors: Map<number, number[]> } | undefined;
+  let exchanges = 0;
+  let startTime: number | undefined;
+  let lastTime = 0;
+  return {
+    observe(state) {
+      const pairs = apicalNeighborPairs(state);
+      const inLine = new Set(state.cells.filter(c => c.has_A).map(c => c.id));
+      const neighbors = new Map<number, number[]>();
+      for (const pair of pairs) {
+        const [a, b] = pair.split(':').map(Number);
+        neighbors.set(a, [...(neighbors.get(a) ?? []), b]);
+        neighbors.set(b, [...(neighbors.get(b) ?? []), a]);
+      }
+
+      if (previous) {
+        const inGroup = new Set(filterByGroup(observedMetrics(state, run), group).map(m => m.cell.id));
+        for (const pair of pairs) {
+          if (previous.pairs.has(pair)) continue;
+          const [a, b] = pair.split(':').map(Number);
+          if (!previous.inLine.has(a) || !previous.inLine.has(b)) continue;
+          const bridged = (previous.neighbors.get(a) ?? []).some(
+            c => !inLine.has(c) && (previous!.neighbors.get(b) ?? []).includes(c)
+          );
+          if (!bridged && (inGroup.has(a) || inGroup.has(b))) exchanges++;
+        }
+      }
+
+      previous = { pairs, inLine, neighbors };
+      startTime ??= state.t;
+      lastTime = state.t;
+    },
+    result: () => startTime !== undefined && lastTime > startTime ? exchanges / (lastTime - startTime) : 0,
+  };
+}
+
+const TRAJECTORY_STATISTICS = [
+  {
+    id: 'half_below_basal_time',
+    label: 'Half Below Basal Time',
+    description: 'Time until half of the cells are below the basal layer (NaN if never)',
+    create: halfBelowBasalTime,
+  },
+  {
+    id: 'adhesion_loss_interval',
+    label: 'Apical-Basal Loss Interval',
+    description: 'Mean time between losing apical and basal adhesion (NaN if no cell lost both)',
+    create: adhesionLossInterval,
+  },
+  {
+    id: 'apical_residence_time',
+    label: 'Apical Residence Time',
+    description: 'Mean time spent above the apical layer',
+    create: apicalResidenceTime,
+  },
+  {
+    id: 'neighbor_exchange_rate',
+    label: 'Neighbor Exchange Rate',
+    description: 'T1-like apical neighbor exchanges per hour',
+    create: neighborExchangeRate,
+  },
+];
+
+/**
+ * Generate trajectory statistics definitions for every cell group.
+ */
+export function generateEHTTrajectoryStatistics(
+  params: EHTParams
+): TrajectoryStatisticDefinition<EHTParams, EHTSimulationState>[] {
+  const stats: TrajectoryStatisticDefinition<EHTParams, EHTSimulationState>[] = [];
+
+  for (const group of generateCellGroups(params)) {
+    for (const stat of TRAJECTORY_STATISTICS) {
+      stats.push({
+        id: `${stat.id}_${group}`,
+        label: `${stat.label} (${group})`,
+        description: `${stat.description} for ${group} cells`,
+        group,
+        create: (runParams) => stat.create(
+          { params: runParams, cellGroups: compileCellGroups(runParams.groups, Object.keys(runParams.cell_types)) },
+          group
+        ),
+      });
+    }
+  }
+
+  return stats;
+}
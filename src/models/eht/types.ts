@@ -3,6 +3,7 @@
  */
 
 import type { BasalGeometry } from '@/core/math';
+import type { SimulationEvent, SubstepStats } from '@/core/interfaces/model';
 import { StraightLineGeometry } from '@/core/math';
 
 /** Cell phase enum */
@@ -26,6 +27,9 @@ export interface BasalLink {
     r: number;  // Right cell index
 }
 
+/** How a cell came into existence */
+export type CellBirthEvent = 'initial' | 'division';
+
 /**
  * Cell state - runtime data for a single cell.
  */
@@ -33,6 +37,11 @@ export interface CellState {
     id: number;
     typeIndex: string;  // Key into cell_types map (e.g., 'control', 'emt')
 
+    // Lineage (at division the mother keeps its ID; the second daughter gets a new one)
+    parent_id: number | null; // Cell this ID branched off from (null for initial cells)
+    generation: number;       // Divisions since the initial population
+    birth_event: CellBirthEvent;
+
     // Positions
     pos: { x: number; y: number };  // Nucleus position
     A: { x: number; y: number };    // Apical point
@@ -49,6 +58,7 @@ export interface CellState {
     // Adhesion state
     has_A: boolean;  // Has apical adhesion
     has_B: boolean;  // Has basal adhesion
+    extruded: boolean; // Basal point has left the epithelium (logged once)
 
     // Cell cycle
     phase: CellPhase;
@@ -76,12 +86,62 @@ export interface CellState {
     stiffness_nuclei_basal: number;
 }
 
-/** Geometry parameters computed at initialization */
+/** EMT sub-events, named after the sampled event times */
+export type EMTEventKind = 'A' | 'B' | 'S' | 'P' | 'AC';
+
+/** Entry of the lineage log */
+export interface LineageEvent {
+    t: number;
+    type: 'division' | 'emt' | 'extrusion' | 'apoptosis' | 'removal';
+    cell_id: number;
+    cell_type: string;
+    /** Division: new daughter ID (undefined when one daughter divides out) */
+    daughter_id?: number;
+    /** Division: generation of the daughters */
+    generation?: number;
+    /** EMT: which event fired */
+    emt_event?: EMTEventKind;
+}
+
+/** Cumulative cell losses (apoptosis, removal) by cell type */
+export type CellLosses = Record<'apoptosis' | 'removal', Record<string, number>>;
+
+/** Types of events in the EHT event log */
+export type EHTEventType =
+    | 'lose_apical'
+    | 'lose_basal'
+    | 'lose_straightness'
+    | 'start_running'
+    | 'apical_constriction'
+    | 'division'
+    | 'apoptosis'
+    | 'removal';
+
+/** Entry of the event log (position is the nucleus) */
+export interface EHTEvent extends SimulationEvent {
+    type: EHTEventType;
+}
+
+/** Membrane curvatures (updated over time for a time-dependent membrane) */
 export interface GeometryState {
     curvature_1: number; // Horizontal membrane curvature (1/a)
     curvature_2: number; // Vertical membrane curvature (1/b)
 }
 
+/** Current shape of a time-dependent basal membrane */
+export interface MembraneState {
+    perimeter: number;       // Current perimeter (length of a custom curve)
+    aspect_ratio: number;    // Current aspect ratio (ellipse membranes)
+    base_perimeter: number;  // general.perimeter, or the length of the custom curve as given
+    shape_perimeter: number; // Perimeter the basal geometry was last built for
+    center: { x: number; y: number }; // Point the membrane expands from
+}
+
+/** Adaptive substep controller state */
+export interface IntegratorState extends SubstepStats {
+    dt: number; // Next substep length to try
+}
+
 /** Complete simulation state for EHT */
 export interface EHTSimulationState {
     cells: CellState[];
@@ -90,9 +150,21 @@ export interface EHTSimulationState {
     t: number;
     step_count: number;
     geometry?: GeometryState; // Computed geometry (model-specific)
+    membrane?: MembraneState; // Only for a time-dependent membrane
+    integrator?: IntegratorState; // Only with adaptive substeps
     basalGeometry: BasalGeometry; // Pre-computed basal curve geometry
     /** RNG seed for reproducibility (stored for deterministic replay) */
     rngSeed: string;
+    /** Lower bound for new cell IDs, so IDs of removed cells are not reused */
+    next_cell_id: number;
+    /** Divisions, EMT events, extrusions and cell deaths in time order */
+    lineage: LineageEvent[];
+    /** Cell losses of a state loaded from snapshot rows, which carry no lineage */
+    losses?: CellLosses;
+    /** Founder by cell ID of a state loaded from snapshot rows */
+    founders?: Record<number, number>;
+    /** EMT, adhesion-loss, division and cell death events in time order */
+    events: EHTEvent[];
 }
 
 /** Initial state for a new simulation */
@@ -105,5 +177,8 @@ export function createInitialEHTState(seed: string = 'default'): EHTSimulationSt
         step_count: 0,
         basalGeometry: new StraightLineGeometry(), // Placeholder, will be replaced during init
         rngSeed: seed,
+        next_cell_id: 0,
+        lineage: [],
+        events: [],
     };
 }
@@ -3,7 +3,7 @@
  */
 import { useState, useCallback } from 'react';
 import type { ModelUITabProps } from '@/core/registry';
-import type { EHTParams, EHTCellTypeParams } from '../params/types';
+import type { EHTParams, EHTCellTypeParams, DivisionMode } from '../params/types';
 import { DEFAULT_CONTROL_CELL } from '../params/defaults';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -32,12 +32,14 @@ const SECTIONS: SectionDefinition[] = [
   { key: 'geometry', label: 'Geometry', fields: ['R_hard', 'R_hard_div', 'R_soft'] },
   { key: 'appearance', label: 'Appearance', fields: ['color'] },
   { key: 'stiffness', label: 'Stiffness', fields: ['k_apical_junction', 'k_cytos', 'stiffness_apical_apical', 'stiffness_apical_apical_div', 'stiffness_nuclei_apical', 'stiffness_nuclei_basal', 'stiffness_repulsion', 'stiffness_straightness'] },
-  { key: 'division', label: 'Division & Lifecycle', fields: ['lifespan_start', 'lifespan_end', 'dur_G2', 'dur_mitosis', 'INM'] },
+  { key: 'division', label: 'Division & Lifecycle', fields: ['lifespan_start', 'lifespan_end', 'dur_G2', 'dur_mitosis', 'INM', 'division_mode', 'division_angle_mean', 'division_angle_sd', 'division_offset', 'type_switch', 'apoptosis_rate', 'apoptosis_start', 'apoptosis_end', 'removal_distance'] },
   { key: 'cellTypeProps', label: 'Cell-Type Properties', fields: ['diffusion', 'basal_damping_ratio', 'max_basal_junction_dist', 'cytos_init', 'basal_membrane_repulsion', 'apical_junction_init', 'max_cytoskeleton_length'] },
   { key: 'events', label: 'EMT Events (time ranges)', fields: ['hetero', 'events'] },
   { key: 'running', label: 'Running Behavior', fields: ['run', 'running_speed', 'running_mode'] },
 ];
 
+const DIVISION_MODES: readonly DivisionMode[] = ['none', 'symmetric', 'asymmetric'];
+
 interface CellTypeRowProps {
   label: string;
   tooltip?: string;
@@ -183,6 +185,75 @@ function SplitRangeCell({ valueStart, valueEnd, onChangeStart, onChangeEnd, disa
   );
 }
 
+interface SelectCellProps<T extends string> {
+  value: T;
+  options: readonly T[];
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}
+
+function SelectCell<T extends string>({ value, options, onChange, disabled }: SelectCellProps<T>) {
+  return (
+    <td className="py-1 px-1">
+      <Select value={value} onValueChange={(v) => onChange(v as T)} disabled={disabled}>
+        <SelectTrigger className="h-6 text-xs w-24">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option} value={option}>{option}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </td>
+  );
+}
+
+interface OptionalNumberCellProps {
+  value: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+/** Number input that can be switched off (stored as Infinity) */
+function OptionalNumberCell({ value, onChange, disabled }: OptionalNumberCellProps) {
+  const isActive = isFinite(value);
+
+  const handleValueChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const parsed = parseFloat(e.target.value);
+    if (e.target.value === '') {
+      onChange(Infinity);
+    } else if (!isNaN(parsed)) {
+      onChange(Math.max(0, parsed));
+    }
+  };
+
+  return (
+    <td className="py-1 px-1">
+      <div className="flex items-center gap-1">
+        <Checkbox
+          checked={isActive}
+          onCheckedChange={(checked) => onChange(checked ? 1 : Infinity)}
+          disabled={disabled}
+          title="Active (enabled when checked)"
+        />
+        {!isActive ? (
+          <span className="text-xs text-muted-foreground w-20">-</span>
+        ) : (
+          <Input
+            type="number"
+            value={value}
+            onChange={handleValueChange}
+            disabled={disabled}
+            min={0}
+            className="h-6 text-xs w-20"
+          />
+        )}
+      </div>
+    </td>
+  );
+}
+
 interface BoolCellProps {
   value: boolean;
   onChange: (value: boolean) => void;
@@ -439,10 +510,25 @@ export function EHTCellTypesTab({ params, onChange, disabled }: ModelUITabProps<
     onChange(newParams);
   }, [params, onChange]);
 
+  const updateTypeSwitch = (cellType: string, target: string, value: number) => {
+    const newParams = structuredClone(params);
+    const row = (newParams.cell_types[cellType] as EHTCellTypeParams).type_switch;
+    if (value > 0) {
+      row[target] = value;
+    } else {
+      delete row[target];
+    }
+    onChange(newParams);
+  };
+
   const deleteCellType = (key: string) => {
     if (cellTypeKeys.length <= 1) return; // Keep at least one cell type
     const newParams = structuredClone(params);
     delete newParams.cell_types[key];
+    // Daughters can no longer switch to the deleted type
+    for (const cellType of Object.values(newParams.cell_types)) {
+      delete cellType.type_switch[key];
+    }
     onChange(newParams);
   };
 
@@ -456,6 +542,13 @@ export function EHTCellTypesTab({ params, onChange, disabled }: ModelUITabProps<
     // Copy cell type to new key and delete old key
     newParams.cell_types[newKey] = newParams.cell_types[oldKey];
     delete newParams.cell_types[oldKey];
+    // Keep type-switch probabilities pointing at the renamed type
+    for (const cellType of Object.values(newParams.cell_types)) {
+      if (oldKey in cellType.type_switch) {
+        cellType.type_switch[newKey] = cellType.type_switch[oldKey];
+        delete cellType.type_switch[oldKey];
+      }
+    }
     onChange(newParams);
   };
 
@@ -757,6 +850,110 @@ export function EHTCellTypesTab({ params, onChange, disabled }: ModelUITabProps<
               />
             ))}
           </CellTypeRow>
+          <CellTypeRow label="Division Mode" tooltip="none: reset the cycle without dividing; asymmetric: the second daughter loses apical adhesion">
+            {cellTypeKeys.map((key) => (
+              <SelectCell
+                key={key}
+                value={getCellType(key).division_mode}
+                options={DIVISION_MODES}
+                onChange={(v) => updateCellType(key, 'division_mode', v)}
+                disabled={disabled}
+              />
+            ))}
+          </CellTypeRow>
+          <CellTypeRow label="Division Angle" tooltip="Mean angle of the division plane to the basal normal (degrees, 0 = daughters side by side)">
+            {cellTypeKeys.map((key) => (
+              <NumberCell
+                key={key}
+                value={getCellType(key).division_angle_mean}
+                onChange={(v) => updateCellType(key, 'division_angle_mean', v)}
+                disabled={disabled}
+              />
+            ))}
+          </CellTypeRow>
+          <CellTypeRow label="Division Angle SD" tooltip="Standard deviation of the division plane angle (degrees)">
+            {cellTypeKeys.map((key) => (
+              <NumberCell
+                key={key}
+                value={getCellType(key).division_angle_sd}
+                onChange={(v) => updateCellType(key, 'division_angle_sd', v)}
+                disabled={disabled}
+                min={0}
+              />
+            ))}
+          </CellTypeRow>
+          <CellTypeRow label="Division Offset" tooltip="Distance of each daughter's nucleus from the mother's along the division axis (fraction of R_soft)">
+            {cellTypeKeys.map((key) => (
+              <NumberCell
+                key={key}
+                value={getCellType(key).division_offset}
+                onChange={(v) => updateCellType(key, 'division_offset', v)}
+                disabled={disabled}
+                min={0}
+              />
+            ))}
+          </CellTypeRow>
+          {cellTypeKeys.map((target) => (
+            <CellTypeRow key={target} label={`Switch to ${target}`} tooltip={`Probability of each daughter becoming a ${target} cell`}>
+              {cellTypeKeys.map((key) => (
+                <NumberCell
+                  key={key}
+                  value={getCellType(key).type_switch[target] ?? 0}
+                  onChange={(v) => updateTypeSwitch(key, target, v)}
+                  disabled={disabled || key === target}
+                  min={0}
+                  max={1}
+                />
+              ))}
+            </CellTypeRow>
+          ))}
+          <CellTypeRow label="Apoptosis Rate" tooltip="Probability per hour of apoptosis within the apoptosis window">
+            {cellTypeKeys.map((key) => (
+              <NumberCell
+                key={key}
+                value={getCellType(key).apoptosis_rate}
+                onChange={(v) => updateCellType(key, 'apoptosis_rate', v)}
+                disabled={disabled}
+                min={0}
+              />
+            ))}
+          </CellTypeRow>
+          <CellTypeRow label="Apoptosis (start)">
+            {cellTypeKeys.map((key) => (
+              <SplitRangeCell
+                key={key}
+                valueStart={getCellType(key).apoptosis_start}
+                valueEnd={getCellType(key).apoptosis_end}
+                onChangeStart={(v) => updateCellType(key, 'apoptosis_start', v)}
+                onChangeEnd={(v) => updateCellType(key, 'apoptosis_end', v)}
+                disabled={disabled}
+                label="start"
+              />
+            ))}
+          </CellTypeRow>
+          <CellTypeRow label="Apoptosis (end)">
+            {cellTypeKeys.map((key) => (
+              <SplitRangeCell
+                key={key}
+                valueStart={getCellType(key).apoptosis_start}
+                valueEnd={getCellType(key).apoptosis_end}
+                onChangeStart={(v) => updateCellType(key, 'apoptosis_start', v)}
+                onChangeEnd={(v) => updateCellType(key, 'apoptosis_end', v)}
+                disabled={disabled}
+                label="end"
+              />
+            ))}
+          </CellTypeRow>
+          <CellTypeRow label="Removal Distance" tooltip="Remove cells without basal adhesion once their basal point is this far beyond the basal membrane">
+            {cellTypeKeys.map((key) => (
+              <OptionalNumberCell
+                key={key}
+                value={getCellType(key).removal_distance}
+                onChange={(v) => updateCellType(key, 'removal_distance', v)}
+                disabled={disabled}
+              />
+            ))}
+          </CellTypeRow>
 
           {/* Cell-Type Specific Properties */}
           <SectionHeader section={SECTIONS[5]} cellTypeKeys={cellTypeKeys} disabled={disabled} params={params} onChange={onChange} />
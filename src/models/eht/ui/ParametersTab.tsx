@@ -3,7 +3,7 @@
  */
 import type { ModelUITabProps } from '@/core/registry';
 import type { EHTParams } from '../params/types';
-import { NumberInput, IntegerInput, BoolInput } from '@/components/params/inputs';
+import { NumberInput, IntegerInput, BoolInput, StringInput } from '@/components/params/inputs';
 import { Label } from '@/components/ui/label';
 
 export function EHTParametersTab({ params, onChange, disabled }: ModelUITabProps<EHTParams>) {
@@ -39,6 +39,17 @@ export function EHTParametersTab({ params, onChange, disabled }: ModelUITabProps
         </div>
       </div>
 
+      {/* Time-dependent basal membrane */}
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Basal Membrane</Label>
+        <div className="space-y-2 pl-2">
+          <StringInput label="Perimeter (t)" value={g.perimeter_expr} onChange={(v) => update('perimeter_expr', v)} disabled={disabled} placeholder="constant" />
+          <StringInput label="Aspect (t)" value={g.aspect_ratio_expr} onChange={(v) => update('aspect_ratio_expr', v)} disabled={disabled} placeholder="constant" />
+          <NumberInput label="Mobility (0=rigid)" value={g.membrane_mobility} onChange={(v) => update('membrane_mobility', v)} disabled={disabled} min={0} />
+          <NumberInput label="Stiffness" value={g.membrane_stiffness} onChange={(v) => update('membrane_stiffness', v)} disabled={disabled} min={0} />
+        </div>
+      </div>
+
       {/* Model Parameters */}
       <div className="space-y-2">
         <Label className="text-sm font-medium">Model Parameters</Label>
@@ -48,6 +59,15 @@ export function EHTParametersTab({ params, onChange, disabled }: ModelUITabProps
         </div>
       </div>
 
+      {/* Statistics */}
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Statistics</Label>
+        <div className="space-y-2 pl-2">
+          <NumberInput label="Gap Threshold" value={g.gap_threshold} onChange={(v) => update('gap_threshold', v)} disabled={disabled} min={0} />
+          <NumberInput label="Boundary Fraction" value={g.boundary_fraction} onChange={(v) => update('boundary_fraction', v)} disabled={disabled} min={0} max={0.5} />
+        </div>
+      </div>
+
       {/* Display */}
       <div className="space-y-2">
         <Label className="text-sm font-medium">Display</Label>
@@ -3,7 +3,7 @@
  */
 import type { ModelUITabProps } from '@/core/registry';
 import type { EHTParams } from '../params/types';
-import { NumberInput, IntegerInput } from '@/components/params/inputs';
+import { NumberInput, IntegerInput, BoolInput, OptionalFloat } from '@/components/params/inputs';
 import { Label } from '@/components/ui/label';
 
 export function EHTSimulationTab({ params, onChange, disabled }: ModelUITabProps<EHTParams>) {
@@ -44,6 +44,41 @@ export function EHTSimulationTab({ params, onChange, disabled }: ModelUITabProps
             disabled={disabled}
             min={1}
           />
+          <BoolInput
+            label="Adaptive Substeps"
+            value={g.adaptive_substeps}
+            onChange={(v) => update('adaptive_substeps', v)}
+            disabled={disabled}
+          />
+          {g.adaptive_substeps && (
+            <>
+              <NumberInput
+                label="Substep Tolerance"
+                value={g.substep_tolerance}
+                onChange={(v) => update('substep_tolerance', v)}
+                disabled={disabled}
+                step={0.001}
+                min={1e-6}
+              />
+              <NumberInput
+                label="Min Substep"
+                value={g.min_substep}
+                onChange={(v) => update('min_substep', v)}
+                disabled={disabled}
+                step={0.00001}
+                min={1e-9}
+              />
+              <OptionalFloat
+                label="Max Substep"
+                value={g.max_substep}
+                onChange={(v) => update('max_substep', v ?? Infinity)}
+                disabled={disabled}
+                step={0.001}
+                min={g.min_substep}
+                disabledLabel="Unlimited"
+              />
+            </>
+          )}
         </div>
       </div>
 
@@ -55,6 +90,7 @@ export function EHTSimulationTab({ params, onChange, disabled }: ModelUITabProps
           <li><strong>alg_dt</strong>: Internal algorithm time step for physics</li>
           <li><strong>n_substeps</strong>: Number of physics steps per output step</li>
           <li>Effective physics dt = alg_dt, run n_substeps times per dt</li>
+          <li><strong>Adaptive substeps</strong>: substep lengths follow an error estimate (tolerance in position units); n_substeps is the first guess</li>
         </ul>
       </div>
     </div>
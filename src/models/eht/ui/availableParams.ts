@@ -1,14 +1,21 @@
 /**
  * EHT model available parameters for batch sweeps.
- * Generates a flat list of all numeric parameters from the current params.
+ * Generates a flat list of all sweepable parameters from the current params.
+ * Booleans and enum-like settings carry `options` and are swept as lists.
  */
 
 import type { BatchParameterDefinition } from '@/core/registry/types';
 import type { EHTParams } from '../params/types';
 
+/** Discrete running modes (0: none, 1: after extrusion, 2: retain length, 3: immediate) */
+const RUNNING_MODE_OPTIONS = [0, 1, 2, 3];
+
+/** Division modes */
+const DIVISION_MODE_OPTIONS = ['none', 'symmetric', 'asymmetric'];
+
 /**
  * Generate batch parameters dynamically from the current EHT params.
- * Creates a flat list of all numeric parameters that can be swept.
+ * Creates a flat list of all parameters that can be swept.
  */
 export function generateEHTBatchParameters(params: EHTParams): BatchParameterDefinition[] {
   const batchParams: BatchParameterDefinition[] = [];
@@ -22,10 +29,15 @@ export function generateEHTBatchParameters(params: EHTParams): BatchParameterDef
     { path: 'general.h_init', label: 'h_init (Initial height)' },
     { path: 'general.mu', label: 'mu (Friction)' },
     { path: 'general.n_substeps', label: 'n_substeps', isInteger: true },
+    { path: 'general.adaptive_substeps', label: 'adaptive_substeps', options: [true, false] },
+    { path: 'general.substep_tolerance', label: 'substep_tolerance (Adaptive tolerance)' },
     { path: 'general.alg_dt', label: 'alg_dt (Algorithm dt)' },
     { path: 'general.p_div_out', label: 'p_div_out (Division probability)' },
     { path: 'general.perimeter', label: 'Perimeter' },
     { path: 'general.aspect_ratio', label: 'Aspect ratio' },
+    { path: 'general.membrane_mobility', label: 'Membrane mobility' },
+    { path: 'general.membrane_stiffness', label: 'Membrane stiffness' },
+    { path: 'general.full_circle', label: 'full_circle', options: [true, false] },
   );
 
   // Cell type parameters - generated dynamically from actual cell types
@@ -46,7 +58,8 @@ export function generateEHTBatchParameters(params: EHTParams): BatchParameterDef
       { path: `${prefix}.max_cytoskeleton_length`, label: `${label}: max_cytos_length` },
       { path: `${prefix}.run`, label: `${label}: run probability` },
       { path: `${prefix}.running_speed`, label: `${label}: running_speed` },
-      { path: `${prefix}.running_mode`, label: `${label}: running_mode`, isInteger: true },
+      { path: `${prefix}.running_mode`, label: `${label}: running_mode`, isInteger: true, options: RUNNING_MODE_OPTIONS },
+      { path: `${prefix}.hetero`, label: `${label}: hetero`, options: [true, false] },
       { path: `${prefix}.stiffness_apical_apical`, label: `${label}: stiff_apical_apical` },
       { path: `${prefix}.stiffness_apical_apical_div`, label: `${label}: stiff_apical_apical_div` },
       { path: `${prefix}.stiffness_nuclei_apical`, label: `${label}: stiff_nuclei_apical` },
@@ -56,6 +69,17 @@ export function generateEHTBatchParameters(params: EHTParams): BatchParameterDef
       { path: `${prefix}.lifespan_start`, label: `${label}: lifespan start` },
       { path: `${prefix}.lifespan_end`, label: `${label}: lifespan end` },
       { path: `${prefix}.INM`, label: `${label}: INM probability` },
+      { path: `${prefix}.division_mode`, label: `${label}: division mode`, options: DIVISION_MODE_OPTIONS },
+      { path: `${prefix}.division_angle_mean`, label: `${label}: division angle` },
+      { path: `${prefix}.division_angle_sd`, label: `${label}: division angle SD` },
+      { path: `${prefix}.division_offset`, label: `${label}: division offset` },
+      ...Object.keys(params.cell_types)
+        .filter((target) => target !== typeKey)
+        .map((target) => ({ path: `${prefix}.type_switch.${target}`, label: `${label}: switch to ${target}` })),
+      { path: `${prefix}.apoptosis_rate`, label: `${label}: apoptosis rate` },
+      { path: `${prefix}.apoptosis_start`, label: `${label}: apoptosis start` },
+      { path: `${prefix}.apoptosis_end`, label: `${label}: apoptosis end` },
+      { path: `${prefix}.removal_distance`, label: `${label}: removal distance` },
       // Per-cell-type properties (moved from cell_prop)
       { path: `${prefix}.diffusion`, label: `${label}: diffusion` },
       { path: `${prefix}.basal_damping_ratio`, label: `${label}: basal_damping_ratio` },
@@ -85,6 +109,7 @@ export const EHT_BATCH_PARAMETERS: BatchParameterDefinition[] = [
   { path: 'general.aspect_ratio', label: 'Aspect ratio' },
   { path: 'general.random_seed', label: 'Random seed', isInteger: true },
   { path: 'general.t_end', label: 't_end (End time)' },
+  { path: 'general.full_circle', label: 'full_circle', options: [true, false] },
 
   // Per-cell-type parameters (example for control type)
   { path: 'cell_types.control.diffusion', label: 'control: diffusion' },
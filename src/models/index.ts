@@ -1,4 +1,3 @@
-console.log('[Models] Loading index');
 import { modelRegistry } from '@/core/registry';
 import { EHTModel } from './eht';
 import { ToyModel } from './toy';
@@ -3,7 +3,6 @@
  * Only imports simulation logic, no UI or renderer code.
  */
 
-console.log('[Models Worker] Loading worker-safe index');
 import { modelRegistry } from '@/core/registry';
 import type { SimulationModel } from '@/core/interfaces/model';
 import type { EHTParams } from './eht/params/types';
@@ -16,11 +15,13 @@ import { toyParamsSchema } from './toy/params/schema';
 import { DEFAULT_EHT_PARAMS } from './eht/params/defaults';
 import { DEFAULT_TOY_PARAMS } from './toy/params/defaults';
 import { computeEHTStatistics, generateEHTStatistics } from './eht/statistics';
+import { generateEHTTrajectoryStatistics } from './eht/trajectoryStatistics';
 import { computeToyStatistics, TOY_STATISTICS } from './toy/statistics';
 import { EHT_BATCH_PARAMETERS, generateEHTBatchParameters } from './eht/ui/availableParams';
 import { initializeEHTSimulation } from './eht/simulation/init';
 import { performTimestep as ehtPerformTimestep } from './eht/simulation/step';
 import { getSnapshot as ehtGetSnapshot, loadSnapshot as ehtLoadSnapshot } from './eht/output';
+import { saveEHTCheckpoint, loadEHTCheckpoint } from './eht/checkpoint';
 import { SeededRandom } from '@/core/math/random';
 import { Vector2 } from '@/core/math/vector2';
 
@@ -45,11 +46,12 @@ const EHTModelWorker: SimulationModel<EHTParams, EHTSimulationState> = {
   // Identity
   id: 'EHT',
   name: 'Epithelial-to-Hematopoietic Transition',
-  version: '1.0.0',
+  version: '1.1.0',
   description: 'Simulates cell mechanics, division, and EMT events in curved epithelial tissue.',
 
   // Parameter system
   defaultParams: DEFAULT_EHT_PARAMS,
+  paramsSchema: ehtParamsSchema,
   validateParams(params: unknown): EHTParams {
     return ehtParamsSchema.parse(params);
   },
@@ -70,14 +72,24 @@ const EHTModelWorker: SimulationModel<EHTParams, EHTSimulationState> = {
     return state;
   },
 
+  // Time
+  getTime: (state: EHTSimulationState) => state.t,
+  getTimeStep: (params: EHTParams) => params.general.dt,
+  getEndTime: (params: EHTParams) => params.general.t_end,
+  getStepCount: (state: EHTSimulationState) => state.step_count,
+
   // I/O
   getSnapshot: (state: EHTSimulationState) => ehtGetSnapshot(state),
   loadSnapshot: (rows: Record<string, any>[], params: EHTParams) => ehtLoadSnapshot(rows, params),
+  saveCheckpoint: (state: EHTSimulationState) => saveEHTCheckpoint(state),
+  loadCheckpoint: (data: unknown) => loadEHTCheckpoint(data),
+  getEvents: (state: EHTSimulationState) => state.events,
 
   // Statistics
   computeStats: (state: EHTSimulationState, params?: EHTParams) => computeEHTStatistics(state, params),
   statistics: generateEHTStatistics(DEFAULT_EHT_PARAMS),
   generateStatistics: (params: EHTParams) => generateEHTStatistics(params),
+  generateTrajectoryStatistics: (params: EHTParams) => generateEHTTrajectoryStatistics(params),
 
   // Batch parameters
   generateBatchParameters: (params: EHTParams) => generateEHTBatchParameters(params),
@@ -101,6 +113,7 @@ const ToyModelWorker: SimulationModel<ToyParams, ToySimulationState> = {
 
   // Parameter system
   defaultParams: DEFAULT_TOY_PARAMS,
+  paramsSchema: toyParamsSchema,
   validateParams(params: unknown): ToyParams {
     return toyParamsSchema.parse(params);
   },
@@ -243,6 +256,12 @@ const ToyModelWorker: SimulationModel<ToyParams, ToySimulationState> = {
     return state;
   },
 
+  // Time
+  getTime: (state: ToySimulationState) => state.t,
+  getTimeStep: (params: ToyParams) => params.general.dt,
+  getEndTime: (params: ToyParams) => params.general.t_end,
+  getStepCount: (state: ToySimulationState) => state.step_count,
+
   // I/O
   getSnapshot: (state: ToySimulationState): Record<string, string | number | boolean>[] => {
     return state.cells.map(c => ({
@@ -28,6 +28,7 @@ export const ToyModel: SimulationModel<ToyParams, ToySimulationState> = {
 
   // Parameter system
   defaultParams: DEFAULT_TOY_PARAMS,
+  paramsSchema: toyParamsSchema,
   validateParams(params: unknown): ToyParams {
     return toyParamsSchema.parse(params);
   },
@@ -175,6 +176,12 @@ export const ToyModel: SimulationModel<ToyParams, ToySimulationState> = {
     return state;
   },
 
+  // Time
+  getTime: (state: ToySimulationState) => state.t,
+  getTimeStep: (params: ToyParams) => params.general.dt,
+  getEndTime: (params: ToyParams) => params.general.t_end,
+  getStepCount: (state: ToySimulationState) => state.step_count,
+
   // I/O
   getSnapshot: (state: ToySimulationState): Record<string, any>[] => {
     // Flatten
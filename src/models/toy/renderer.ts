@@ -4,7 +4,7 @@
  */
 
 import { Graphics } from 'pixi.js';
-import type { ModelRenderer, ModelRenderContext, BoundingBox } from '@/core/registry/types';
+import type { ModelRenderer, ModelRenderContext, SceneRenderContext, BoundingBox } from '@/core/registry/types';
 import type { ToySimulationState } from './simulation/types';
 import type { ToyParams } from './params/types';
 
@@ -130,4 +130,47 @@ export const toyRenderer: ModelRenderer<ToyParams, ToySimulationState> = {
   getBackgroundColor(isDark: boolean): number {
     return isDark ? 0x111827 : 0xffffff;
   },
+
+  renderScene(ctx: SceneRenderContext, state: ToySimulationState, params: ToyParams): void {
+    const { scene } = ctx;
+    const theme = ctx.isDark ? DARK_THEME : LIGHT_THEME;
+    const { boundary_type, domain_size, soft_radius } = params.general;
+    const [width, height] = domain_size;
+
+    // Domain boundary
+    if (boundary_type !== 'none') {
+      const corners = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+      const stroke = boundary_type === 'periodic'
+        ? { color: theme.boundary, alpha: 0.5, width: 0.1 }
+        : { color: theme.boundary, alpha: 0.8, width: 0.15 };
+      scene.polyline(corners, stroke, true);
+    }
+
+    // Cells with polarity arrows
+    for (const cell of state.cells) {
+      const polarityColor = cell.phase === 'running' ? theme.polarityRunning : theme.polarityTumbling;
+      const arrow = { color: polarityColor, width: 0.1 };
+
+      scene.circle(cell.position.x, cell.position.y, soft_radius, theme.cellFill, 0.6, {
+        color: theme.cellStroke,
+        width: 0.05,
+      });
+
+      const arrowLength = soft_radius * 0.8;
+      const tip = {
+        x: cell.position.x + cell.polarity.x * arrowLength,
+        y: cell.position.y + cell.polarity.y * arrowLength,
+      };
+      scene.polyline([cell.position, tip], arrow);
+
+      const headSize = soft_radius * 0.3;
+      const angle = Math.atan2(cell.polarity.y, cell.polarity.x);
+      const headAngle = Math.PI / 6;
+      scene.polyline([
+        { x: tip.x - headSize * Math.cos(angle - headAngle), y: tip.y - headSize * Math.sin(angle - headAngle) },
+        tip,
+        { x: tip.x - headSize * Math.cos(angle + headAngle), y: tip.y - headSize * Math.sin(angle + headAngle) },
+      ], arrow);
+    }
+  },
 };